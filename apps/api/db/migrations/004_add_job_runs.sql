@@ -0,0 +1,16 @@
+-- Migration 004: Scheduler run history
+
+CREATE TABLE IF NOT EXISTS job_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_name TEXT NOT NULL,
+    instance_id TEXT NOT NULL, -- Hostname/PID of the API instance holding the advisory lock
+    status TEXT NOT NULL, -- 'RUNNING', 'SUCCEEDED', 'FAILED'
+    result JSONB,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_name_started_at ON job_runs(job_name, started_at DESC);
+
+INSERT INTO schema_versions (version) VALUES (4) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,24 @@
+-- Migration 005: Provider availability slots
+-- Times are stored as TIMESTAMPTZ; day boundaries are evaluated in Africa/Johannesburg.
+-- A booking's slot_id must be a published slot; on-demand bookings leave it NULL.
+
+ALTER TABLE bookings ALTER COLUMN slot_id DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS availability_slots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'OPEN', -- 'OPEN', 'RESERVED'
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL, -- Set while RESERVED
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_slots_service_starts ON availability_slots(service_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_availability_slots_provider_id ON availability_slots(provider_id);
+CREATE INDEX IF NOT EXISTS idx_availability_slots_booking_id ON availability_slots(booking_id);
+
+INSERT INTO schema_versions (version) VALUES (5) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,19 @@
+-- Migration 006: Job location on bookings + candidate distances for geo dispatch
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='job_lat') THEN
+        ALTER TABLE bookings ADD COLUMN job_lat DOUBLE PRECISION;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='job_lng') THEN
+        ALTER TABLE bookings ADD COLUMN job_lng DOUBLE PRECISION;
+    END IF;
+    -- Map of provider UID -> distance in km at dispatch time
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='candidate_distances') THEN
+        ALTER TABLE bookings ADD COLUMN candidate_distances JSONB DEFAULT '{}';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_provider_locations_updated_at ON provider_locations(updated_at);
+
+INSERT INTO schema_versions (version) VALUES (6) ON CONFLICT (version) DO NOTHING;
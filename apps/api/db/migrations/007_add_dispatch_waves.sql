@@ -0,0 +1,19 @@
+-- Migration 007: Progressive dispatch waves
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='dispatch_wave') THEN
+        ALTER TABLE bookings ADD COLUMN dispatch_wave INTEGER NOT NULL DEFAULT 1;
+    END IF;
+    -- Start of the current wave window (set when the booking enters PAID_SEARCHING)
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='last_dispatched_at') THEN
+        ALTER TABLE bookings ADD COLUMN last_dispatched_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='dispatch_escalated_at') THEN
+        ALTER TABLE bookings ADD COLUMN dispatch_escalated_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_last_dispatched_at ON bookings(last_dispatched_at) WHERE status = 'PAID_SEARCHING';
+
+INSERT INTO schema_versions (version) VALUES (7) ON CONFLICT (version) DO NOTHING;
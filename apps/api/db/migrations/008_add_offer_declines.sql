@@ -0,0 +1,14 @@
+-- Migration 008: Provider offer declines
+
+CREATE TABLE IF NOT EXISTS offer_declines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    provider_uid TEXT NOT NULL,
+    reason TEXT, -- 'TOO_FAR', 'BUSY', 'PRICE_TOO_LOW', 'OUTSIDE_SKILLS', 'OTHER'
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (booking_id, provider_uid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_declines_provider_uid ON offer_declines(provider_uid, created_at);
+
+INSERT INTO schema_versions (version) VALUES (8) ON CONFLICT (version) DO NOTHING;
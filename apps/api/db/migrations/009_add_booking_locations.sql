@@ -0,0 +1,15 @@
+-- Migration 009: Per-booking provider location trail (live tracking)
+
+CREATE TABLE IF NOT EXISTS booking_locations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    provider_uid TEXT NOT NULL,
+    lat DOUBLE PRECISION NOT NULL,
+    lng DOUBLE PRECISION NOT NULL,
+    status TEXT NOT NULL, -- Booking status when the point was recorded
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_locations_booking_recorded ON booking_locations(booking_id, recorded_at DESC);
+
+INSERT INTO schema_versions (version) VALUES (9) ON CONFLICT (version) DO NOTHING;
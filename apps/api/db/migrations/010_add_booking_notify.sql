@@ -0,0 +1,27 @@
+-- Migration 010: NOTIFY on booking status changes and tracking points (SSE stream)
+
+CREATE OR REPLACE FUNCTION notify_booking_update() RETURNS trigger AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'booking_locations' THEN
+        PERFORM pg_notify('booking_updates', json_build_object('booking_id', NEW.booking_id, 'kind', 'tracking')::text);
+    ELSE
+        PERFORM pg_notify('booking_updates', json_build_object('booking_id', NEW.id, 'kind', 'status', 'status', NEW.status)::text);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_bookings_notify ON bookings;
+CREATE TRIGGER trg_bookings_notify
+    AFTER UPDATE OF status ON bookings
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION notify_booking_update();
+
+DROP TRIGGER IF EXISTS trg_booking_locations_notify ON booking_locations;
+CREATE TRIGGER trg_booking_locations_notify
+    AFTER INSERT ON booking_locations
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_booking_update();
+
+INSERT INTO schema_versions (version) VALUES (10) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,20 @@
+-- Migration 011: OTP stored as keyed hash + sealed copy, with attempt limits
+-- Legacy plaintext `otp` values are re-stored as a hash and sealed copy at startup, and cleared.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='otp_hash') THEN
+        ALTER TABLE bookings ADD COLUMN otp_hash TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='otp_sealed') THEN
+        ALTER TABLE bookings ADD COLUMN otp_sealed TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='otp_failed_attempts') THEN
+        ALTER TABLE bookings ADD COLUMN otp_failed_attempts INT NOT NULL DEFAULT 0;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='otp_locked_at') THEN
+        ALTER TABLE bookings ADD COLUMN otp_locked_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+END $$;
+
+INSERT INTO schema_versions (version) VALUES (11) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,42 @@
+-- Migration 012: Double-entry ledger (PAYMENTS.md invariant 4)
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+    code TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    normal_side TEXT NOT NULL CHECK (normal_side IN ('DEBIT', 'CREDIT')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO ledger_accounts (code, name, normal_side) VALUES
+    ('customer_holds', 'Authorized funds held on customer cards', 'DEBIT'),
+    ('customer_funds', 'Customer money in the platform''s care', 'CREDIT'),
+    ('platform_cash', 'Captured funds at the gateway', 'DEBIT'),
+    ('provider_payable', 'Owed to providers', 'CREDIT'),
+    ('platform_fees', 'Platform fee revenue', 'CREDIT')
+ON CONFLICT (code) DO NOTHING;
+
+-- One entry per money movement; (kind, source_ref) makes webhook/job replays no-ops
+CREATE TABLE IF NOT EXISTS journal_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID REFERENCES bookings(id),
+    payment_intent_id UUID REFERENCES payment_intents(id),
+    kind TEXT NOT NULL, -- 'AUTHORIZE', 'CAPTURE', 'RELEASE', 'CANCELLATION_FEE', 'REFUND'
+    source_ref TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (kind, source_ref)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    journal_entry_id UUID NOT NULL REFERENCES journal_entries(id),
+    account_code TEXT NOT NULL REFERENCES ledger_accounts(code),
+    direction TEXT NOT NULL CHECK (direction IN ('DEBIT', 'CREDIT')),
+    amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+    currency TEXT NOT NULL DEFAULT 'ZAR'
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_booking_id ON journal_entries(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_entry ON ledger_lines(journal_entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_account ON ledger_lines(account_code);
+
+INSERT INTO schema_versions (version) VALUES (12) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,50 @@
+-- Migration 013: Provider earnings, payout accounts and payout batches
+
+CREATE TABLE IF NOT EXISTS provider_payout_accounts (
+    provider_uid TEXT PRIMARY KEY,
+    account_holder TEXT NOT NULL,
+    bank_name TEXT NOT NULL,
+    branch_code TEXT NOT NULL,
+    account_number TEXT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    status TEXT NOT NULL DEFAULT 'PENDING', -- 'PENDING', 'SENT', 'FAILED'
+    adapter TEXT NOT NULL,
+    total_cents BIGINT NOT NULL DEFAULT 0,
+    item_count INT NOT NULL DEFAULT 0,
+    transfer_ref TEXT, -- Adapter reference (e.g. export file path)
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS payouts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id UUID NOT NULL REFERENCES payout_batches(id),
+    provider_uid TEXT NOT NULL,
+    amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+    status TEXT NOT NULL DEFAULT 'PENDING', -- 'PENDING', 'SENT', 'FAILED'
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per CLOSED booking; payout_id is set while the earning is in a live (PENDING/SENT) payout
+CREATE TABLE IF NOT EXISTS provider_earnings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id),
+    provider_uid TEXT NOT NULL,
+    gross_cents BIGINT NOT NULL,
+    commission_cents BIGINT NOT NULL,
+    net_cents BIGINT NOT NULL,
+    payout_id UUID REFERENCES payouts(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_payouts_provider_uid ON payouts(provider_uid, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_provider_earnings_provider_uid ON provider_earnings(provider_uid, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_provider_earnings_unpaid ON provider_earnings(provider_uid) WHERE payout_id IS NULL;
+
+INSERT INTO schema_versions (version) VALUES (13) ON CONFLICT (version) DO NOTHING;
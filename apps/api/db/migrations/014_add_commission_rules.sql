@@ -0,0 +1,37 @@
+-- Migration 014: Platform commission rules (by category, with per-service overrides)
+-- Rules are append-only: a change is a new row with a later effective_from.
+
+CREATE TABLE IF NOT EXISTS commission_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    category TEXT,
+    service_id UUID REFERENCES services(id),
+    rate_bps INT NOT NULL CHECK (rate_bps BETWEEN 0 AND 10000),
+    effective_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((category IS NULL) <> (service_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_rules_category ON commission_rules(category, effective_from);
+CREATE INDEX IF NOT EXISTS idx_commission_rules_service ON commission_rules(service_id, effective_from);
+
+-- Launch rates: 15% across all seeded categories
+INSERT INTO commission_rules (id, category, rate_bps, effective_from, created_by) VALUES
+    ('e0000000-0000-0000-0000-000000000001', 'Plumbing', 1500, '2024-01-01T00:00:00Z', 'migration'),
+    ('e0000000-0000-0000-0000-000000000002', 'Electrical', 1500, '2024-01-01T00:00:00Z', 'migration'),
+    ('e0000000-0000-0000-0000-000000000003', 'Cleaning', 1500, '2024-01-01T00:00:00Z', 'migration'),
+    ('e0000000-0000-0000-0000-000000000004', 'Handyman', 1500, '2024-01-01T00:00:00Z', 'migration')
+ON CONFLICT (id) DO NOTHING;
+
+-- Rate applied to the booking at creation time (null rule = platform default)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='commission_bps_snapshot') THEN
+        ALTER TABLE bookings ADD COLUMN commission_bps_snapshot INT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='commission_rule_id') THEN
+        ALTER TABLE bookings ADD COLUMN commission_rule_id UUID REFERENCES commission_rules(id);
+    END IF;
+END $$;
+
+INSERT INTO schema_versions (version) VALUES (14) ON CONFLICT (version) DO NOTHING;
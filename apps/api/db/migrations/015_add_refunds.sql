@@ -0,0 +1,20 @@
+-- Migration 015: Refunds (full and partial) against captured payment intents
+
+CREATE TABLE IF NOT EXISTS refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_intent_id UUID NOT NULL REFERENCES payment_intents(id),
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    status TEXT NOT NULL DEFAULT 'PENDING', -- 'PENDING', 'SUCCEEDED', 'FAILED'
+    provider_ref TEXT UNIQUE, -- Gateway refund id (e.g. re_...)
+    reason TEXT,
+    override_reason TEXT, -- Required when refunding outside the PAYMENTS.md boundary
+    requested_by TEXT, -- Admin uid, or 'gateway' for refunds first seen via webhook
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_intent_id ON refunds(payment_intent_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_booking_id ON refunds(booking_id);
+
+INSERT INTO schema_versions (version) VALUES (15) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,25 @@
+-- Migration 016: Gateway-side transaction id on payment intents
+-- PayFast refunds address the pf_payment_id from the ITN, not our m_payment_id (provider_ref).
+-- The PayFast refunds API takes no idempotency key, so each refund we send (customer refunds,
+-- partial captures, releases) is recorded under our key before the call. A retry finds the
+-- SUCCEEDED attempt instead of refunding twice; an attempt left PENDING (the call failed without
+-- a definite answer) is not resent and must be checked against the PayFast dashboard.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='payment_intents' AND column_name='gateway_payment_id') THEN
+        ALTER TABLE payment_intents ADD COLUMN gateway_payment_id TEXT;
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS payfast_refund_attempts (
+    idempotency_key TEXT PRIMARY KEY,
+    gateway_payment_id TEXT NOT NULL, -- pf_payment_id
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    status TEXT NOT NULL DEFAULT 'PENDING', -- 'PENDING', 'SUCCEEDED', 'FAILED' (PayFast refused it)
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO schema_versions (version) VALUES (16) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,21 @@
+-- Migration 017: Capture retry queue (backoff, then escalation to NEEDS_REVIEW)
+
+CREATE TABLE IF NOT EXISTS capture_retries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id),
+    target_status TEXT NOT NULL, -- Where the booking goes once captured: 'COMPLETE_PENDING' or 'CLOSED'
+    status TEXT NOT NULL DEFAULT 'PENDING', -- 'PENDING', 'SUCCEEDED', 'ESCALATED', 'CANCELLED'
+    trigger TEXT NOT NULL, -- First failed path: 'complete', 'confirm_complete', 'auto_close'
+    amount_cents INTEGER, -- Partial capture (cancellation fee); NULL captures the whole authorization
+    attempts INTEGER NOT NULL DEFAULT 0, -- Failed capture attempts, the first one included
+    next_attempt_at TIMESTAMP WITH TIME ZONE, -- NULL unless PENDING
+    last_error TEXT,
+    last_error_code TEXT,
+    escalation_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_capture_retries_due ON capture_retries(next_attempt_at) WHERE status = 'PENDING';
+
+INSERT INTO schema_versions (version) VALUES (17) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,11 @@
+-- Migration 018: Order gateway events per payment intent (out-of-order webhook delivery)
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='payment_intents' AND column_name='gateway_event_at') THEN
+        -- Creation time of the newest gateway event applied to this intent
+        ALTER TABLE payment_intents ADD COLUMN gateway_event_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+END $$;
+
+INSERT INTO schema_versions (version) VALUES (18) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,18 @@
+-- Migration 019: Failed payment details and retry bookkeeping on payment intents
+-- A retry reuses an intent still awaiting its outcome (returning the stored checkout)
+-- or supersedes earlier ones; failures keep the gateway's decline code.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='payment_intents' AND column_name='decline_code') THEN
+        ALTER TABLE payment_intents ADD COLUMN decline_code TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='payment_intents' AND column_name='failure_message') THEN
+        ALTER TABLE payment_intents ADD COLUMN failure_message TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='payment_intents' AND column_name='checkout_json') THEN
+        ALTER TABLE payment_intents ADD COLUMN checkout_json JSONB;
+    END IF;
+END $$;
+
+INSERT INTO schema_versions (version) VALUES (19) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,32 @@
+-- Migration 020: Chargebacks and disputes against captured payment intents
+
+CREATE TABLE IF NOT EXISTS disputes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_intent_id UUID NOT NULL REFERENCES payment_intents(id),
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    provider TEXT NOT NULL, -- Gateway, as on payment_intents
+    gateway_dispute_id TEXT NOT NULL, -- e.g. dp_... (Stripe), or the admin's reference for manual disputes
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    reason TEXT,
+    status TEXT NOT NULL DEFAULT 'OPEN', -- 'OPEN', 'WON', 'LOST'
+    gateway_status TEXT, -- Gateway's own status (e.g. needs_response, under_review)
+    evidence_due_by TIMESTAMP WITH TIME ZONE,
+    evidence JSONB NOT NULL DEFAULT '[]', -- [{ note, url, added_by, added_at }]
+    outcome_note TEXT,
+    opened_by TEXT NOT NULL, -- 'gateway', or the admin uid for manual disputes
+    resolved_by TEXT, -- 'gateway' or admin uid
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (provider, gateway_dispute_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_disputes_booking_id ON disputes(booking_id);
+CREATE INDEX IF NOT EXISTS idx_disputes_open ON disputes(booking_id) WHERE status = 'OPEN';
+
+INSERT INTO ledger_accounts (code, name, normal_side) VALUES
+    ('disputed_funds', 'Funds withdrawn by the gateway pending a dispute', 'DEBIT'),
+    ('dispute_losses', 'Lost disputes absorbed by the platform', 'DEBIT')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO schema_versions (version) VALUES (20) ON CONFLICT (version) DO NOTHING;
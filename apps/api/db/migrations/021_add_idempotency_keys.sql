@@ -0,0 +1,22 @@
+-- Migration 021: Idempotency-Key storage for client POST/PUT/PATCH/DELETE requests
+-- An IN_PROGRESS key whose claim is older than IDEMPOTENCY_CLAIM_TIMEOUT_SECONDS (the request
+-- crashed or hung) can be claimed again by a retry. locked_at also identifies the claim, so a
+-- stale request finishing late can't overwrite or free the new one.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    uid TEXT NOT NULL, -- Authenticated caller; keys are scoped per user
+    key TEXT NOT NULL, -- Client-supplied Idempotency-Key header
+    fingerprint TEXT NOT NULL, -- sha256 of method, URL and body of the first request
+    status TEXT NOT NULL DEFAULT 'IN_PROGRESS', -- 'IN_PROGRESS', 'COMPLETED'
+    response_status INTEGER,
+    response_content_type TEXT,
+    response_body TEXT,
+    locked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT date_trunc('milliseconds', CURRENT_TIMESTAMP), -- Current claim
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (uid, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+
+INSERT INTO schema_versions (version) VALUES (21) ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,27 @@
+-- Migration 022: Webhook dead letters and admin replays
+-- Failed events keep their attempt count and last error; every admin replay is logged.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='webhook_events' AND column_name='attempts') THEN
+        ALTER TABLE webhook_events ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='webhook_events' AND column_name='last_error') THEN
+        ALTER TABLE webhook_events ADD COLUMN last_error TEXT;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, first_seen_at);
+
+CREATE TABLE IF NOT EXISTS webhook_replays (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    webhook_event_id UUID NOT NULL REFERENCES webhook_events(id),
+    requested_by TEXT NOT NULL, -- Admin uid
+    outcome TEXT NOT NULL, -- 'PROCESSED', 'DUPLICATE', 'FAILED'
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_replays_event ON webhook_replays(webhook_event_id);
+
+INSERT INTO schema_versions (version) VALUES (22) ON CONFLICT (version) DO NOTHING;
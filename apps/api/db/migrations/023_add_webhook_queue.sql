@@ -0,0 +1,26 @@
+-- Migration 023: Asynchronous webhook ingestion
+-- With WEBHOOK_ASYNC the route only stores the event (PENDING); the webhook_worker job
+-- applies events in receipt order per ordering_key (usually the booking), retrying with backoff.
+-- A dead letter holds back later events for its booking until it is replayed or an admin
+-- dismisses it (status 'DISMISSED'); the dismissal is logged in webhook_replays with a reason.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='webhook_events' AND column_name='ordering_key') THEN
+        ALTER TABLE webhook_events ADD COLUMN ordering_key TEXT; -- Booking id, else the gateway's intent ref
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='webhook_events' AND column_name='next_attempt_at') THEN
+        ALTER TABLE webhook_events ADD COLUMN next_attempt_at TIMESTAMP WITH TIME ZONE; -- Queued events only
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='webhook_events' AND column_name='processed_at') THEN
+        ALTER TABLE webhook_events ADD COLUMN processed_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='webhook_replays' AND column_name='note') THEN
+        ALTER TABLE webhook_replays ADD COLUMN note TEXT; -- Why a dead letter was dismissed
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_queue ON webhook_events(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX IF NOT EXISTS idx_webhook_events_ordering ON webhook_events(ordering_key, first_seen_at) WHERE status = 'PENDING';
+
+INSERT INTO schema_versions (version) VALUES (23) ON CONFLICT (version) DO NOTHING;
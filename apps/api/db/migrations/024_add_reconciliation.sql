@@ -0,0 +1,36 @@
+-- Migration 024: Payment reconciliation against the gateway
+-- Each run compares open intents with the gateway's view; drifts are logged per run,
+-- safe ones repaired and the rest raised to admins.
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    adapter TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'RUNNING', -- 'RUNNING', 'COMPLETED'
+    checked INTEGER NOT NULL DEFAULT 0,
+    in_sync INTEGER NOT NULL DEFAULT 0,
+    unverifiable INTEGER NOT NULL DEFAULT 0, -- Gateway could not report (mock refs, no query API)
+    repaired INTEGER NOT NULL DEFAULT 0,
+    alerts INTEGER NOT NULL DEFAULT 0,
+    errors INTEGER NOT NULL DEFAULT 0,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS reconciliation_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL REFERENCES reconciliation_runs(id),
+    payment_intent_id UUID NOT NULL REFERENCES payment_intents(id),
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    drift TEXT NOT NULL, -- e.g. 'MISSED_AUTHORIZATION', 'CLOSED_NOT_CAPTURED'
+    action TEXT NOT NULL, -- 'REPAIRED', 'ALERT', 'ERROR'
+    local_status TEXT NOT NULL,
+    gateway_status TEXT NOT NULL,
+    booking_status TEXT NOT NULL,
+    detail TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_run ON reconciliation_items(run_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_intent ON reconciliation_items(payment_intent_id, drift);
+
+INSERT INTO schema_versions (version) VALUES (24) ON CONFLICT (version) DO NOTHING;
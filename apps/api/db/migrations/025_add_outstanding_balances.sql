@@ -0,0 +1,47 @@
+-- Migration 025: Cancellation fees collected at the gateway
+-- The fee is captured from the booking's authorization and the rest released; both are recorded
+-- on the booking. A fee the gateway won't collect becomes an outstanding balance that blocks
+-- the customer's next booking until it is paid (or waived).
+-- amount_cents on the intent stays the authorized amount; captured_cents is what was taken (all
+-- of it, or only the fee). A fee capture that fails with a retryable gateway error is queued in
+-- capture_retries (target CANCELLED, amount_cents = the fee) and the hold is kept until it
+-- succeeds or gives up, when the fee becomes an outstanding balance.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='cancellation_fee_cents') THEN
+        ALTER TABLE bookings ADD COLUMN cancellation_fee_cents INTEGER;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='cancellation_fee_status') THEN
+        ALTER TABLE bookings ADD COLUMN cancellation_fee_status TEXT; -- 'PENDING' (capture queued), 'COLLECTED', 'OUTSTANDING', 'WAIVED'
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='bookings' AND column_name='released_cents') THEN
+        ALTER TABLE bookings ADD COLUMN released_cents INTEGER; -- Authorization given back on cancellation
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='payment_intents' AND column_name='captured_cents') THEN
+        ALTER TABLE payment_intents ADD COLUMN captured_cents INTEGER;
+        -- Earlier captures took the intent's whole amount
+        UPDATE payment_intents SET captured_cents = amount_cents
+        WHERE status IN ('SUCCEEDED', 'PARTIALLY_REFUNDED', 'REFUNDED');
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS outstanding_balances (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL,
+    booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id),
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    currency TEXT NOT NULL DEFAULT 'ZAR',
+    reason TEXT NOT NULL, -- Gateway error code, or 'no_authorization'
+    status TEXT NOT NULL DEFAULT 'OPEN', -- 'OPEN', 'PAID', 'WAIVED'
+    reference TEXT, -- Proof of payment (e.g. EFT reference)
+    note TEXT,
+    resolved_by TEXT, -- Admin uid
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_outstanding_balances_open ON outstanding_balances(customer_id) WHERE status = 'OPEN';
+
+INSERT INTO schema_versions (version) VALUES (25) ON CONFLICT (version) DO NOTHING;
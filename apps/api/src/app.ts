@@ -1,16 +1,42 @@
-import Fastify, { FastifyInstance } from 'fastify';
-import { createBooking, getBooking, updateBookingStatus, getUserBookings, getProviderBookings, cancelBooking, sweepExpiredBookings, providerCancelBooking, flagIssue, completeBooking } from './logic/bookings.js';
-import { closePool, runMigrations } from './db.js';
-import { UserRole } from './logic/state-machine.js';
-import { upsertProvider, updateLocation, getOffers } from './logic/providers.js';
-import { createIntent, handleIntentSuccess, capturePayment } from './logic/payments.js';
-import { processEvent } from './logic/idempotency.js';
+import Fastify, { FastifyInstance, FastifyRequest } from 'fastify';
+import { createBooking, getBooking, updateBookingStatus, getUserBookings, getProviderBookings, cancelBooking, sweepExpiredBookings, providerCancelBooking, flagIssue, completeBooking, autoCloseCompletedBookings, expireSearchingBookings, Booking } from './logic/bookings.js';
+import { closePool, runMigrations, withTx } from './db.js';
+import { UserRole, BookingState } from './logic/state-machine.js';
+import { upsertProvider, getOffers } from './logic/providers.js';
+import { createIntent, capturePayment } from './logic/payments.js';
+import { processEvent, requestFingerprint, claimRequestKey, completeRequestKey, releaseRequestKey, purgeExpiredRequestKeys } from './logic/idempotency.js';
 import { verifyToken, requireRole } from './auth.js';
 import { getActiveServices } from './logic/services.js';
+import { dispatchOutbox, createLogSender } from './logic/notifications.js';
+import { publishSlot, getProviderSlots, getOpenSlots } from './logic/slots.js';
+import { advanceDispatchWaves, declineOffer, getDeclineStats, DECLINE_REASONS, DeclineReason } from './logic/dispatch.js';
+import { recordLocation, getTracking } from './logic/tracking.js';
+import { regenerateOtp, unlockOtp, upgradeStoredOtps } from './logic/otp.js';
+import { getBookingLedger, verifyLedger } from './logic/ledger.js';
+import { refundPayment } from './logic/refunds.js';
+import { createCommissionRule, listCommissionRules } from './logic/commission.js';
+import { retryDueCaptures, forceCaptureRetry, listCaptureRetries, recordCaptureFailure, CaptureRetry } from './logic/captures.js';
+import { createManualDispute, addDisputeEvidence, recordDisputeOutcome, getDispute, listDisputes, Dispute } from './logic/disputes.js';
+import { handleGatewayEvent, listWebhookEvents, getWebhookEvent, replayWebhookEvent, replayWebhookEvents, dismissWebhookEvent, enqueueWebhookEvent, processWebhookQueue, getWebhookQueueStats, WebhookEventFilter } from './logic/webhooks.js';
+import { runReconciliation, listReconciliationRuns, getReconciliationRun } from './logic/reconciliation.js';
+import { listCustomerBalances, listOutstandingBalances, resolveOutstandingBalance, OutstandingBalance } from './logic/balances.js';
+import { runPayoutBatch, setPayoutAccount, getEarnings, getProviderPayouts, PayoutAccount } from './logic/payouts.js';
+import { findGateway, GATEWAY_NAMES } from './gateways/index.js';
+import { connectFakeGateway, addFakeScript, listFakeScripts, clearFakeScripts, FakeScriptInput } from './gateways/fake.js';
+import { createScheduler, purgeJobRuns } from './scheduler.js';
+import { createBookingStream, BookingUpdate } from './realtime.js';
 import { config } from './config.js';
 import { query } from './db.js';
-import crypto from 'crypto';
-import Stripe from 'stripe';
+
+const STREAM_HEARTBEAT_MS = 15000;
+const STREAM_FINAL_STATES: BookingState[] = ['CLOSED', 'CANCELLED', 'EXPIRED'];
+const IDEMPOTENT_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+// What a client needs to know about a failed capture
+function captureRetrySummary(retry: CaptureRetry) {
+    return { status: retry.status, attempts: retry.attempts, next_attempt_at: retry.next_attempt_at, escalation_reason: retry.escalation_reason };
+}
 
 /**
  * Centrally managed Fastify instance builder.
@@ -22,8 +48,96 @@ export async function buildServer(): Promise<FastifyInstance> {
         logger: true,
     });
 
+    // Plaintext OTPs from before migration 011 are re-stored as a hash and sealed copy before serving
+    const upgradedOtps = await upgradeStoredOtps();
+    if (upgradedOtps) server.log.info({ upgraded: upgradedOtps }, 'Upgraded plaintext OTPs');
+
+    // Background jobs (each guarded by a Postgres advisory lock across instances)
+    const scheduler = createScheduler([
+        {
+            name: 'expiry_sweep',
+            intervalMs: config.scheduler.expiryIntervalMs,
+            run: async () => ({ swept: await sweepExpiredBookings(), expired: await expireSearchingBookings() }),
+        },
+        {
+            name: 'auto_close',
+            intervalMs: config.scheduler.autoCloseIntervalMs,
+            run: async () => ({ auto_closed: await autoCloseCompletedBookings() }),
+        },
+        {
+            name: 'dispatch_waves',
+            intervalMs: config.scheduler.dispatchIntervalMs,
+            run: () => advanceDispatchWaves(),
+        },
+        {
+            name: 'outbox_dispatch',
+            intervalMs: config.scheduler.outboxIntervalMs,
+            run: () => dispatchOutbox(createLogSender(server.log)),
+        },
+        {
+            name: 'payout_batch',
+            intervalMs: config.scheduler.payoutIntervalMs,
+            run: () => runPayoutBatch(),
+        },
+        {
+            name: 'capture_retry',
+            intervalMs: config.scheduler.captureRetryIntervalMs,
+            run: () => retryDueCaptures(),
+        },
+        {
+            name: 'reconciliation',
+            intervalMs: config.scheduler.reconciliationIntervalMs,
+            run: () => runReconciliation(),
+        },
+        {
+            name: 'webhook_worker',
+            intervalMs: config.scheduler.webhookIntervalMs,
+            run: () => processWebhookQueue(server.log),
+        },
+        {
+            name: 'idempotency_purge',
+            intervalMs: config.scheduler.idempotencyPurgeIntervalMs,
+            run: () => purgeExpiredRequestKeys(),
+        },
+        {
+            name: 'job_runs_purge',
+            intervalMs: config.scheduler.jobRunPurgeIntervalMs,
+            run: () => purgeJobRuns(),
+        },
+    ], server.log);
+    if (config.scheduler.enabled) {
+        scheduler.start();
+    }
+
+    // Fake gateway webhooks are injected straight into this server (no network)
+    if (config.fakeGateway.enabled) {
+        const disconnect = connectFakeGateway(async (payload, signature) => {
+            const res = await server.inject({
+                method: 'POST',
+                url: '/v1/webhooks/fake',
+                headers: { 'content-type': 'application/json', 'x-fake-signature': signature },
+                payload,
+            });
+            if (res.statusCode !== 200) {
+                server.log.warn({ status: res.statusCode, body: res.body }, 'Fake gateway webhook was not accepted');
+            }
+        });
+        server.addHook('onClose', async () => disconnect());
+    }
+
+    // Real-time booking updates (Postgres LISTEN/NOTIFY, works across instances)
+    const bookingStream = createBookingStream(server.log);
+    const openStreams = new Set<() => void>();
+
+    // Open SSE connections would otherwise keep the HTTP server from closing
+    server.addHook('preClose', async () => {
+        for (const end of [...openStreams]) end();
+    });
+
     // Graceful shutdown
     server.addHook('onClose', async () => {
+        await scheduler.stop();
+        await bookingStream.close();
         await closePool();
     });
 
@@ -39,6 +153,23 @@ export async function buildServer(): Promise<FastifyInstance> {
         return 'Admin';
     };
 
+    // Booking read access: Customer, Assigned Provider, Candidate, or Admin
+    const bookingAccess = (booking: Booking, uid: string, role: 'user' | 'provider' | 'admin') => {
+        const isCustomer = booking.customer_id === uid;
+        const isAdmin = role === 'admin';
+        const allowed = isCustomer || isAdmin || booking.provider_id === uid || booking.candidate_list.includes(uid);
+        return { allowed, isCustomer, isAdmin };
+    };
+
+    // Hardening: Strip OTP for everyone except customer owner and admin
+    const bookingView = (booking: Booking, access: { isCustomer: boolean; isAdmin: boolean }) => {
+        const response: Partial<Booking> = { ...booking };
+        if (!access.isCustomer && !access.isAdmin) {
+            delete response.otp;
+        }
+        return response;
+    };
+
     // Global Auth Hook (except health and webhooks)
     server.addHook('preValidation', async (request, reply) => {
         // Fastify request.url includes query params, but routerPath is the route pattern.
@@ -49,6 +180,53 @@ export async function buildServer(): Promise<FastifyInstance> {
         await verifyToken(request, reply);
     });
 
+    // Idempotency-Key on mutating client routes: retries replay the stored response
+    // (webhooks are deduplicated by event id instead)
+    const claimedKeys = new WeakMap<FastifyRequest, { uid: string; key: string; lockedAt: Date }>();
+
+    server.addHook('preHandler', async (request, reply) => {
+        const key = request.headers['idempotency-key'];
+        if (key === undefined || !request.user || !IDEMPOTENT_METHODS.includes(request.method) || request.url.includes('/v1/webhooks')) {
+            return;
+        }
+        if (typeof key !== 'string' || key.length === 0 || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+            return reply.code(400).send({ error: `Idempotency-Key must be 1-${IDEMPOTENCY_KEY_MAX_LENGTH} characters`, code: 'INVALID_IDEMPOTENCY_KEY' });
+        }
+
+        const { uid } = request.user;
+        const claim = await claimRequestKey(uid, key, requestFingerprint(request.method, request.url, request.body));
+        if (claim.state === 'MISMATCH') {
+            return reply.code(422).send({ error: 'Idempotency-Key was already used with a different request', code: 'IDEMPOTENCY_KEY_REUSED' });
+        }
+        if (claim.state === 'IN_PROGRESS') {
+            return reply.code(409).send({ error: 'A request with this Idempotency-Key is still in progress', code: 'IDEMPOTENCY_KEY_IN_PROGRESS' });
+        }
+        if (claim.state === 'REPLAY') {
+            if (claim.contentType) reply.header('content-type', claim.contentType);
+            return reply.code(claim.status).header('idempotent-replayed', 'true').send(claim.body);
+        }
+        claimedKeys.set(request, { uid, key, lockedAt: claim.lockedAt });
+    });
+
+    server.addHook('onSend', async (request, reply, payload) => {
+        const claimed = claimedKeys.get(request);
+        if (!claimed) return payload;
+        claimedKeys.delete(request);
+
+        // Server errors are not final: the client may retry with the same key
+        if (reply.statusCode >= 500 || (typeof payload !== 'string' && !Buffer.isBuffer(payload))) {
+            await releaseRequestKey(claimed.uid, claimed.key, claimed.lockedAt);
+        } else {
+            const contentType = reply.getHeader('content-type');
+            await completeRequestKey(claimed.uid, claimed.key, claimed.lockedAt, {
+                status: reply.statusCode,
+                contentType: typeof contentType === 'string' ? contentType : null,
+                body: payload.toString(),
+            });
+        }
+        return payload;
+    });
+
     // Register fastify-raw-body early
     await server.register(import('fastify-raw-body'), {
         field: 'rawBody',
@@ -57,6 +235,11 @@ export async function buildServer(): Promise<FastifyInstance> {
         runFirst: true,
     });
 
+    // PayFast ITNs are form posts; field order is kept for signature checks
+    server.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'buffer' }, (request, body, done) => {
+        done(null, Object.fromEntries(new URLSearchParams(body.toString())));
+    });
+
     // --- Services Catalogue ---
 
     // GET /v1/services - Public catalogue (no auth required)
@@ -65,6 +248,27 @@ export async function buildServer(): Promise<FastifyInstance> {
         return services;
     });
 
+    // GET /v1/services/:id/slots - Open slots for a service on a local date (no auth required)
+    server.get('/v1/services/:id/slots', {
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+            querystring: {
+                type: 'object',
+                required: ['date'],
+                properties: {
+                    date: { type: 'string', format: 'date' } // YYYY-MM-DD, Africa/Johannesburg
+                }
+            }
+        }
+    }, async (request) => {
+        const { id } = request.params as { id: string };
+        const { date } = request.query as { date: string };
+        return getOpenSlots(id, date);
+    });
+
     // --- Provider Endpoints ---
 
     // POST /v1/providers/me - Onboard/Update
@@ -100,6 +304,7 @@ export async function buildServer(): Promise<FastifyInstance> {
                 properties: {
                     lat: { type: 'number' },
                     lng: { type: 'number' },
+                    booking_id: { type: 'string', format: 'uuid' },
                 },
             },
         },
@@ -108,11 +313,60 @@ export async function buildServer(): Promise<FastifyInstance> {
         if (role !== 'provider') {
             return reply.code(403).send({ error: 'Only providers can update location' });
         }
-        const { lat, lng } = request.body as { lat: number; lng: number };
-        await updateLocation(uid, lat, lng);
+        const { lat, lng, booking_id } = request.body as { lat: number; lng: number; booking_id?: string };
+        const result = await recordLocation(uid, lat, lng, booking_id);
+        if (!result.ok) {
+            const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'UNAUTHORIZED' ? 403 : 409;
+            return reply.code(status).send({ error: result.error, code: result.code });
+        }
+        return { ok: true, booking_id: result.booking_id };
+    });
+
+    // POST /v1/providers/me/payout-account - Bank details for EFT payouts
+    server.post('/v1/providers/me/payout-account', {
+        preHandler: [requireRole(['provider'])],
+        schema: {
+            body: {
+                type: 'object',
+                required: ['account_holder', 'bank_name', 'branch_code', 'account_number'],
+                properties: {
+                    account_holder: { type: 'string', minLength: 1 },
+                    bank_name: { type: 'string', minLength: 1 },
+                    branch_code: { type: 'string', pattern: '^[0-9]{6}$' },
+                    account_number: { type: 'string', pattern: '^[0-9]{6,16}$' },
+                },
+            },
+        },
+    }, async (request) => {
+        const { uid } = request.user!;
+        await setPayoutAccount(uid, request.body as PayoutAccount);
         return { ok: true };
     });
 
+    // GET /v1/providers/me/earnings - Balance from CLOSED bookings minus commission
+    server.get('/v1/providers/me/earnings', {
+        preHandler: [requireRole(['provider'])],
+    }, async (request) => {
+        const { uid } = request.user!;
+        return getEarnings(uid);
+    });
+
+    // GET /v1/providers/me/payouts - Payout history
+    server.get('/v1/providers/me/payouts', {
+        preHandler: [requireRole(['provider'])],
+    }, async (request) => {
+        const { uid } = request.user!;
+        return getProviderPayouts(uid);
+    });
+
+    // GET /v1/customers/me/outstanding-balances - Uncollected cancellation fees (an OPEN one blocks new bookings)
+    server.get('/v1/customers/me/outstanding-balances', {
+        preHandler: [requireRole(['user'])],
+    }, async (request) => {
+        const { uid } = request.user!;
+        return { balances: await listCustomerBalances(uid) };
+    });
+
     // GET /v1/providers/me/offers - List suitable jobs
     server.get('/v1/providers/me/offers', {
         preHandler: [requireRole(['provider'])],
@@ -125,6 +379,35 @@ export async function buildServer(): Promise<FastifyInstance> {
         return offers;
     });
 
+    // POST /v1/providers/me/slots - Publish an availability window
+    server.post('/v1/providers/me/slots', {
+        preHandler: [requireRole(['provider'])],
+        schema: {
+            body: {
+                type: 'object',
+                required: ['service_id', 'starts_at', 'ends_at'],
+                properties: {
+                    service_id: { type: 'string', format: 'uuid' },
+                    starts_at: { type: 'string', format: 'date-time' },
+                    ends_at: { type: 'string', format: 'date-time' },
+                },
+            },
+        },
+    }, async (request, reply) => {
+        const { uid } = request.user!;
+        const result = await publishSlot(uid, request.body as { service_id: string; starts_at: string; ends_at: string });
+        if (!result.ok) return reply.code(400).send({ error: result.error });
+        return reply.code(201).send(result.slot);
+    });
+
+    // GET /v1/providers/me/slots - Upcoming slots for the provider
+    server.get('/v1/providers/me/slots', {
+        preHandler: [requireRole(['provider'])],
+    }, async (request) => {
+        const { uid } = request.user!;
+        return getProviderSlots(uid);
+    });
+
     // --- Booking Endpoints ---
 
     // POST /v1/bookings - Align with API_CONTRACTS.md
@@ -133,16 +416,24 @@ export async function buildServer(): Promise<FastifyInstance> {
         schema: {
             body: {
                 type: 'object',
-                required: ['service_id', 'slot_id', 'user_id'],
+                required: ['service_id', 'user_id'],
                 properties: {
                     service_id: { type: 'string', format: 'uuid' },
-                    slot_id: { type: 'string', format: 'uuid' },
+                    slot_id: { type: 'string', format: 'uuid' }, // Omit for on-demand bookings
                     user_id: { type: 'string', format: 'uuid' },
+                    location: {
+                        type: 'object',
+                        required: ['lat', 'lng'],
+                        properties: {
+                            lat: { type: 'number', minimum: -90, maximum: 90 },
+                            lng: { type: 'number', minimum: -180, maximum: 180 },
+                        },
+                    },
                 },
             },
         },
     }, async (request, reply) => {
-        const body = request.body as { service_id: string; slot_id: string; user_id: string };
+        const body = request.body as { service_id: string; slot_id?: string; user_id: string; location?: { lat: number; lng: number } };
         const { uid, role } = request.user!;
 
         // Rule: Only customers can create bookings for themselves
@@ -150,8 +441,12 @@ export async function buildServer(): Promise<FastifyInstance> {
             return reply.code(403).send({ error: 'Unauthorized to create booking for this user' });
         }
 
-        const booking = await createBooking(body);
-        return reply.code(201).send(booking);
+        const result = await createBooking(body);
+        if (!result.ok) {
+            const status = result.code === 'SLOT_UNAVAILABLE' || result.code === 'OUTSTANDING_BALANCE' ? 409 : 400;
+            return reply.code(status).send({ error: result.error, code: result.code });
+        }
+        return reply.code(201).send(result.booking);
     });
 
     // --- Booking Lifecycle Endpoints ---
@@ -167,6 +462,30 @@ export async function buildServer(): Promise<FastifyInstance> {
         return { ok: true, status: 'ACCEPTED' };
     });
 
+    // POST /v1/bookings/:id/decline - Provider passes on an offer
+    server.post('/v1/bookings/:id/decline', {
+        preHandler: [requireRole(['provider'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+            body: {
+                type: ['object', 'null'],
+                properties: {
+                    reason: { type: 'string', enum: [...DECLINE_REASONS] }
+                }
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const { reason } = (request.body ?? {}) as { reason?: DeclineReason };
+        const result = await declineOffer(id, uid, reason);
+        if (!result.ok) return reply.code(400).send({ error: result.error });
+        return { ok: true, redispatched: result.redispatched };
+    });
+
     // POST /v1/bookings/:id/travel - Provider begins travel
     server.post('/v1/bookings/:id/travel', {
         preHandler: [requireRole(['provider'])],
@@ -223,10 +542,32 @@ export async function buildServer(): Promise<FastifyInstance> {
         const { otp } = request.body as { otp: string };
 
         const result = await updateBookingStatus(id, 'IN_PROGRESS', mapRole(role), uid, otp);
-        if (!result.ok) return reply.code(400).send({ error: result.error });
+        if (!result.ok) {
+            return reply.code(result.code === 'OTP_LOCKED' ? 409 : 400).send({ error: result.error, code: result.code });
+        }
         return { ok: true, status: 'IN_PROGRESS' };
     });
 
+    // POST /v1/bookings/:id/otp/regenerate - Customer rotates their OTP
+    server.post('/v1/bookings/:id/otp/regenerate', {
+        preHandler: [requireRole(['user'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const result = await regenerateOtp(id, uid);
+        if (!result.ok) {
+            const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'UNAUTHORIZED' ? 403 : 409;
+            return reply.code(status).send({ error: result.error, code: result.code });
+        }
+        return { ok: true, otp: result.otp };
+    });
+
     // POST /v1/bookings/:id/complete - Provider finishes service
     server.post('/v1/bookings/:id/complete', {
         preHandler: [requireRole(['provider'])],
@@ -238,7 +579,7 @@ export async function buildServer(): Promise<FastifyInstance> {
 
         if (!result.ok) {
             if (result.code === 'CAPTURE_FAILED') {
-                return reply.code(409).send({ error: result.error, code: 'CAPTURE_FAILED' });
+                return reply.code(409).send({ error: result.error, code: 'CAPTURE_FAILED', retry: result.retry && captureRetrySummary(result.retry) });
             }
             return reply.code(400).send({ error: result.error, code: result.code });
         }
@@ -294,7 +635,485 @@ export async function buildServer(): Promise<FastifyInstance> {
         preHandler: [requireRole(['admin'])],
     }, async (request, reply) => {
         const count = await sweepExpiredBookings();
-        return { ok: true, swept: count };
+        const expired = await expireSearchingBookings();
+        const autoClosed = await autoCloseCompletedBookings();
+        return { ok: true, swept: count, expired, auto_closed: autoClosed };
+    });
+
+    // GET /v1/admin/providers/:uid/declines - Decline rate for a provider
+    server.get('/v1/admin/providers/:uid/declines', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    days: { type: 'integer', minimum: 1, maximum: 365 }
+                }
+            }
+        }
+    }, async (request) => {
+        const { uid } = request.params as { uid: string };
+        const { days } = request.query as { days?: number };
+        return getDeclineStats(uid, days ?? 30);
+    });
+
+    // POST /v1/admin/bookings/:id/otp/unlock - Clear an OTP lock after review
+    server.post('/v1/admin/bookings/:id/otp/unlock', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const result = await unlockOtp(id, uid);
+        if (!result.ok) return reply.code(409).send({ error: result.error, code: result.code });
+        return { ok: true };
+    });
+
+    // POST /v1/admin/bookings/:id/refund - Full or partial refund of the captured payment
+    server.post('/v1/admin/bookings/:id/refund', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+            body: {
+                type: ['object', 'null'],
+                properties: {
+                    amount_cents: { type: 'integer', minimum: 1 },
+                    reason: { type: 'string' },
+                    override_reason: { type: 'string' },
+                },
+            },
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const result = await refundPayment(id, (request.body ?? {}) as { amount_cents?: number; reason?: string; override_reason?: string }, uid);
+        if (!result.ok) {
+            const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'GATEWAY_ERROR' ? 502 : 409;
+            return reply.code(status).send({ error: result.error, code: result.code });
+        }
+        return reply.code(201).send(result.refund);
+    });
+
+    // GET /v1/admin/ledger/verify - Double-entry invariant check
+    server.get('/v1/admin/ledger/verify', {
+        preHandler: [requireRole(['admin'])],
+    }, async () => {
+        return verifyLedger();
+    });
+
+    // GET /v1/admin/commission-rules - Commission rates, newest first
+    server.get('/v1/admin/commission-rules', {
+        preHandler: [requireRole(['admin'])],
+    }, async () => {
+        return listCommissionRules();
+    });
+
+    // POST /v1/admin/commission-rules - New rate for a category or service (effective-dated)
+    server.post('/v1/admin/commission-rules', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            body: {
+                type: 'object',
+                required: ['rate_bps'],
+                properties: {
+                    category: { type: 'string', minLength: 1 },
+                    service_id: { type: 'string', format: 'uuid' },
+                    rate_bps: { type: 'integer', minimum: 0, maximum: 10000 },
+                    effective_from: { type: 'string', format: 'date-time' },
+                },
+            },
+        },
+    }, async (request, reply) => {
+        const { uid } = request.user!;
+        const result = await createCommissionRule(request.body as { category?: string; service_id?: string; rate_bps: number; effective_from?: string }, uid);
+        if (!result.ok) {
+            return reply.code(result.code === 'NOT_FOUND' ? 404 : 400).send({ error: result.error, code: result.code });
+        }
+        return reply.code(201).send(result.rule);
+    });
+
+    // Fake gateway scripts (non-production only)
+    if (config.fakeGateway.enabled) {
+        server.get('/v1/admin/fake-gateway/scripts', {
+            preHandler: [requireRole(['admin'])],
+        }, async () => ({ scripts: listFakeScripts() }));
+
+        server.post<{ Body: FakeScriptInput }>('/v1/admin/fake-gateway/scripts', {
+            preHandler: [requireRole(['admin'])],
+            schema: {
+                body: {
+                    type: 'object',
+                    properties: {
+                        booking_id: { type: 'string', format: 'uuid' },
+                        amount_cents: { type: 'integer', minimum: 1 },
+                        authorize: { type: 'string', enum: ['SUCCEED', 'DECLINE', 'TIMEOUT'] },
+                        capture: { type: 'string', enum: ['SUCCEED', 'DECLINE', 'TIMEOUT', 'EXPIRE'] },
+                        refund: { type: 'string', enum: ['SUCCEED', 'DECLINE', 'TIMEOUT'] },
+                        delay_ms: { type: 'integer', minimum: 0, maximum: 60000 },
+                        decline_code: { type: 'string', minLength: 1 },
+                    },
+                    additionalProperties: false,
+                },
+            },
+        }, async (request, reply) => {
+            const result = addFakeScript(request.body);
+            if (!result.ok) return reply.code(400).send({ error: result.error, code: result.code });
+            return reply.code(201).send(result.script);
+        });
+
+        server.delete('/v1/admin/fake-gateway/scripts', {
+            preHandler: [requireRole(['admin'])],
+        }, async () => {
+            clearFakeScripts();
+            return { ok: true };
+        });
+    }
+
+    // GET /v1/admin/capture-retries - Queued and escalated captures
+    server.get('/v1/admin/capture-retries', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    status: { type: 'string', enum: ['PENDING', 'SUCCEEDED', 'ESCALATED', 'CANCELLED'] },
+                },
+            },
+        },
+    }, async (request) => {
+        const { status } = request.query as { status?: CaptureRetry['status'] };
+        return { retries: await listCaptureRetries(status) };
+    });
+
+    // POST /v1/admin/bookings/:id/capture-retry - Retry a stuck capture now
+    server.post('/v1/admin/bookings/:id/capture-retry', {
+        preHandler: [requireRole(['admin'])],
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const result = await forceCaptureRetry(id, uid);
+        if (!result.ok) {
+            return reply.code(result.code === 'NOT_FOUND' ? 404 : 409).send({ error: result.error, code: result.code });
+        }
+        return result.retry;
+    });
+
+    // GET /v1/admin/disputes - Chargebacks, soonest evidence deadline first
+    server.get('/v1/admin/disputes', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    status: { type: 'string', enum: ['OPEN', 'WON', 'LOST'] },
+                },
+            },
+        },
+    }, async (request) => {
+        const { status } = request.query as { status?: Dispute['status'] };
+        return { disputes: await listDisputes(status) };
+    });
+
+    // GET /v1/admin/disputes/:id
+    server.get('/v1/admin/disputes/:id', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+        },
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const dispute = await getDispute(id);
+        if (!dispute) return reply.code(404).send({ error: 'Dispute not found', code: 'NOT_FOUND' });
+        return dispute;
+    });
+
+    // POST /v1/admin/bookings/:id/disputes - Record a dispute the gateway doesn't send by webhook (PayFast)
+    server.post('/v1/admin/bookings/:id/disputes', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+            body: {
+                type: 'object',
+                additionalProperties: false,
+                properties: {
+                    amount_cents: { type: 'integer', minimum: 1 },
+                    reason: { type: 'string', maxLength: 500 },
+                    reference: { type: 'string', minLength: 1, maxLength: 200 },
+                },
+            },
+        },
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const result = await createManualDispute(id, (request.body ?? {}) as { amount_cents?: number; reason?: string; reference?: string }, uid);
+        if (!result.ok) return reply.code(409).send({ error: result.error, code: result.code });
+        return reply.code(201).send(result.dispute);
+    });
+
+    // POST /v1/admin/disputes/:id/evidence - Attach evidence to an open dispute
+    server.post('/v1/admin/disputes/:id/evidence', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+            body: {
+                type: 'object',
+                required: ['note'],
+                additionalProperties: false,
+                properties: {
+                    note: { type: 'string', minLength: 1, maxLength: 2000 },
+                    url: { type: 'string', format: 'uri', maxLength: 2000 },
+                },
+            },
+        },
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const result = await addDisputeEvidence(id, request.body as { note: string; url?: string }, uid);
+        if (!result.ok) {
+            return reply.code(result.code === 'NOT_FOUND' ? 404 : 409).send({ error: result.error, code: result.code });
+        }
+        return result.dispute;
+    });
+
+    // POST /v1/admin/disputes/:id/outcome - Record the outcome (WON releases the payout hold, LOST charges it back)
+    server.post('/v1/admin/disputes/:id/outcome', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+            body: {
+                type: 'object',
+                required: ['outcome'],
+                additionalProperties: false,
+                properties: {
+                    outcome: { type: 'string', enum: ['WON', 'LOST'] },
+                    note: { type: 'string', maxLength: 2000 },
+                },
+            },
+        },
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const result = await recordDisputeOutcome(id, request.body as { outcome: 'WON' | 'LOST'; note?: string }, uid);
+        if (!result.ok) {
+            return reply.code(result.code === 'NOT_FOUND' ? 404 : 409).send({ error: result.error, code: result.code });
+        }
+        return result.dispute;
+    });
+
+    // GET /v1/admin/outstanding-balances - Uncollected cancellation fees, oldest first
+    server.get('/v1/admin/outstanding-balances', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    status: { type: 'string', enum: ['OPEN', 'PAID', 'WAIVED'] },
+                },
+            },
+        },
+    }, async (request) => {
+        const { status } = request.query as { status?: OutstandingBalance['status'] };
+        return { balances: await listOutstandingBalances(status) };
+    });
+
+    // POST /v1/admin/outstanding-balances/:id/resolve - Mark an open balance PAID (off-gateway) or WAIVED
+    server.post('/v1/admin/outstanding-balances/:id/resolve', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+            body: {
+                type: 'object',
+                required: ['resolution'],
+                additionalProperties: false,
+                properties: {
+                    resolution: { type: 'string', enum: ['PAID', 'WAIVED'] },
+                    reference: { type: 'string', minLength: 1, maxLength: 200 },
+                    note: { type: 'string', maxLength: 2000 },
+                },
+            },
+        },
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const result = await resolveOutstandingBalance(id, request.body as { resolution: 'PAID' | 'WAIVED'; reference?: string; note?: string }, uid);
+        if (!result.ok) {
+            return reply.code(result.code === 'NOT_FOUND' ? 404 : 409).send({ error: result.error, code: result.code });
+        }
+        return result.balance;
+    });
+
+    // GET /v1/admin/reconciliation/runs - Latest reconciliation runs (run one with POST /v1/admin/jobs/reconciliation/run)
+    server.get('/v1/admin/reconciliation/runs', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    limit: { type: 'integer', minimum: 1, maximum: 100 },
+                },
+            },
+        },
+    }, async (request) => {
+        const { limit } = request.query as { limit?: number };
+        return { runs: await listReconciliationRuns(limit) };
+    });
+
+    // GET /v1/admin/reconciliation/runs/:id - One run with its drifts
+    server.get('/v1/admin/reconciliation/runs/:id', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+        },
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const run = await getReconciliationRun(id);
+        if (!run) return reply.code(404).send({ error: 'Reconciliation run not found', code: 'NOT_FOUND' });
+        return run;
+    });
+
+    // Filters shared by the webhook dead-letter list and batch replay
+    const webhookFilterSchema = {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+            status: { type: 'string', enum: ['PENDING', 'PROCESSED', 'FAILED', 'DISMISSED'] },
+            provider: { type: 'string' },
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+            limit: { type: 'integer', minimum: 1, maximum: 500 },
+        },
+    };
+
+    // GET /v1/admin/webhook-events - Stored webhook events (dead letters: status=FAILED), oldest first
+    server.get('/v1/admin/webhook-events', {
+        preHandler: [requireRole(['admin'])],
+        schema: { querystring: webhookFilterSchema },
+    }, async (request) => {
+        return { events: await listWebhookEvents(request.query as WebhookEventFilter) };
+    });
+
+    // GET /v1/admin/webhook-events/:id - One event with its payload and replay history
+    server.get('/v1/admin/webhook-events/:id', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+        },
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const event = await getWebhookEvent(id);
+        if (!event) return reply.code(404).send({ error: 'Webhook event not found', code: 'NOT_FOUND' });
+        return event;
+    });
+
+    // POST /v1/admin/webhook-events/:id/replay - Re-drive one event through the live handler
+    server.post('/v1/admin/webhook-events/:id/replay', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+        },
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid } = request.user!;
+        const result = await replayWebhookEvent(id, uid, server.log);
+        if (!result.ok) {
+            return reply.code(result.code === 'NOT_FOUND' ? 404 : 409).send({ error: result.error, code: result.code });
+        }
+        return { replay: result.replay, event: result.event };
+    });
+
+    // POST /v1/admin/webhook-events/:id/dismiss - Give up on a dead letter so its booking's later events can apply
+    server.post('/v1/admin/webhook-events/:id/dismiss', {
+        preHandler: [requireRole(['admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            },
+            body: {
+                type: 'object',
+                required: ['reason'],
+                additionalProperties: false,
+                properties: { reason: { type: 'string', minLength: 1 } }
+            },
+        },
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { reason } = request.body as { reason: string };
+        const { uid } = request.user!;
+        const result = await dismissWebhookEvent(id, uid, reason);
+        if (!result.ok) {
+            return reply.code(result.code === 'NOT_FOUND' ? 404 : 409).send({ error: result.error, code: result.code });
+        }
+        return { replay: result.replay, event: result.event };
+    });
+
+    // GET /v1/admin/webhook-queue - Async ingestion depth and lag
+    server.get('/v1/admin/webhook-queue', {
+        preHandler: [requireRole(['admin'])],
+    }, async () => {
+        return getWebhookQueueStats();
+    });
+
+    // POST /v1/admin/webhook-events/replay - Replay every matching event (FAILED unless a status is given)
+    server.post('/v1/admin/webhook-events/replay', {
+        preHandler: [requireRole(['admin'])],
+        schema: { body: webhookFilterSchema },
+    }, async (request) => {
+        const { uid } = request.user!;
+        return replayWebhookEvents((request.body ?? {}) as WebhookEventFilter, uid, server.log);
+    });
+
+    // GET /v1/admin/jobs - Scheduler status (SRE/Admin only)
+    server.get('/v1/admin/jobs', {
+        preHandler: [requireRole(['admin'])],
+    }, async () => {
+        const jobs = await scheduler.status();
+        return { enabled: config.scheduler.enabled, jobs };
+    });
+
+    // POST /v1/admin/jobs/:name/run - Trigger a job immediately (still lock-guarded)
+    server.post('/v1/admin/jobs/:name/run', {
+        preHandler: [requireRole(['admin'])],
+    }, async (request, reply) => {
+        const { name } = request.params as { name: string };
+        try {
+            const status = await scheduler.runNow(name);
+            return { ok: status !== 'FAILED', status };
+        } catch (e: any) {
+            return reply.code(404).send({ error: e.message });
+        }
     });
 
     // POST /v1/bookings/:id/close - Alias for complete or admin closure
@@ -350,31 +1169,122 @@ export async function buildServer(): Promise<FastifyInstance> {
         const booking = await getBooking(id);
         if (!booking) return reply.code(404).send({ error: 'Booking not found' });
 
-        // Authorization: Customer, Assigned Provider, or Admin
-        const isCustomer = booking.customer_id === uid;
-        const isAssignedProvider = booking.provider_id === uid;
-        const isCandidate = booking.candidate_list.includes(uid);
-        const isAdmin = role === 'admin';
+        const access = bookingAccess(booking, uid, role);
+        if (!access.allowed) {
+            return reply.code(403).send({ error: 'Unauthorized' });
+        }
+
+        return { ...bookingView(booking, access), ledger: await getBookingLedger(id) };
+    });
 
-        if (!isCustomer && !isAssignedProvider && !isCandidate && !isAdmin) {
+    // GET /v1/bookings/:id/stream - Server-Sent Events for transitions and tracking
+    server.get('/v1/bookings/:id/stream', {
+        preHandler: [requireRole(['user', 'provider', 'admin'])],
+        schema: {
+            params: {
+                type: 'object',
+                properties: { id: { type: 'string', format: 'uuid' } }
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid, role } = request.user!;
+
+        const booking = await getBooking(id);
+        if (!booking) return reply.code(404).send({ error: 'Booking not found' });
+        if (!bookingAccess(booking, uid, role).allowed) {
             return reply.code(403).send({ error: 'Unauthorized' });
         }
 
-        // Hardening: Strip OTP for everyone except customer owner and admin
-        const response: Partial<typeof booking> = { ...booking };
-        if (!isCustomer && !isAdmin) {
-            delete response.otp;
+        reply.hijack();
+        const res = reply.raw;
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+
+        let ended = false;
+        let unsubscribe = () => {};
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+        const end = () => {
+            if (ended) return;
+            ended = true;
+            clearInterval(heartbeat);
+            unsubscribe();
+            openStreams.delete(end);
+            res.end();
+        };
+        openStreams.add(end);
+        res.on('close', end);
+
+        const send = (event: string, data: unknown) => {
+            if (!ended) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        // Re-reads and re-authorizes on each push; access can change (e.g. candidate not chosen)
+        const push = async (kind: BookingUpdate['kind']) => {
+            const current = await getBooking(id);
+            const access = current ? bookingAccess(current, uid, role) : null;
+            if (!current || !access?.allowed) return end();
+            if (kind === 'tracking') return send('tracking', await getTracking(current));
+            send('status', bookingView(current, access));
+            if (STREAM_FINAL_STATES.includes(current.status)) end();
+        };
+
+        let queue = Promise.resolve();
+        const onUpdate = (update: BookingUpdate) => {
+            // Serialize pushes so clients see transitions in commit order
+            queue = queue.then(async () => {
+                if (!ended) await push(update.kind);
+            }).catch(err => request.log.error(err, 'booking stream push failed'));
+        };
+
+        try {
+            unsubscribe = await bookingStream.subscribe(id, onUpdate);
+        } catch (err) {
+            request.log.error(err, 'booking stream subscribe failed');
+            return end();
         }
 
-        return response;
+        // Initial snapshot after subscribing so no transition is missed in between
+        onUpdate({ booking_id: id, kind: 'status' });
+    });
+
+    // GET /v1/bookings/:id/tracking - Latest provider position and rough ETA
+    server.get('/v1/bookings/:id/tracking', {
+        preHandler: [requireRole(['user', 'provider', 'admin'])],
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { uid, role } = request.user!;
+
+        const booking = await getBooking(id);
+        if (!booking) return reply.code(404).send({ error: 'Booking not found' });
+
+        if (!bookingAccess(booking, uid, role).allowed) {
+            return reply.code(403).send({ error: 'Unauthorized' });
+        }
+
+        return getTracking(booking);
     });
 
     // POST /v1/bookings/:id/pay - Create intention to pay
     server.post('/v1/bookings/:id/pay', {
         preHandler: [requireRole(['user', 'admin'])],
+        schema: {
+            body: {
+                type: ['object', 'null'],
+                properties: {
+                    // Gateway for this booking's payment (default PAYMENT_GATEWAY)
+                    provider: { type: 'string', enum: [...GATEWAY_NAMES, ...GATEWAY_NAMES.map(n => n.toLowerCase())] },
+                },
+            },
+        },
     }, async (request, reply) => {
         const { id } = request.params as { id: string };
         const { uid, role } = request.user!;
+        const { provider = config.payments.defaultGateway } = (request.body ?? {}) as { provider?: string };
 
         const booking = await getBooking(id);
         if (!booking) return reply.code(404).send({ error: 'Booking not found' });
@@ -383,99 +1293,72 @@ export async function buildServer(): Promise<FastifyInstance> {
         if (booking.customer_id !== uid && role !== 'admin') {
             return reply.code(403).send({ error: 'Unauthorized' });
         }
+        if (!findGateway(provider)) {
+            return reply.code(400).send({ error: `Payment gateway ${provider} is not available`, code: 'GATEWAY_UNAVAILABLE' });
+        }
 
-        const intent = await createIntent(id, booking.price_snapshot_cents ?? undefined);
+        const result = await createIntent(id, booking.price_snapshot_cents ?? undefined, provider);
+        if (!result.ok) {
+            const status = result.code === 'NOT_FOUND' ? 404 : 409;
+            return reply.code(status).send({ error: result.error, code: result.code });
+        }
+        const intent = result.intent!;
 
         // Store Stripe ref on booking for downstream capture
-        await query(
-            'UPDATE bookings SET stripe_payment_intent_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-            [intent.provider_ref, id]
-        );
+        if (intent.provider === 'STRIPE') {
+            await query(
+                'UPDATE bookings SET stripe_payment_intent_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+                [intent.provider_ref, id]
+            );
+        }
 
         return {
             payment_intent_id: intent.id,
             status: intent.status,
             amount: intent.amount_cents,
-            currency: intent.currency
+            currency: intent.currency,
+            provider: intent.provider,
+            checkout: intent.checkout ?? null,
+            reused: result.reused,
+            attempts: result.attempts,
+            max_attempts: config.payments.maxAttempts
         };
     });
 
-    // POST /v1/webhooks/:provider - Idempotent webhook handler
-    server.post('/v1/webhooks/:provider', {
+    // POST /v1/webhooks/:provider - Idempotent webhook handler, routed to the provider's gateway
+    // Body: Stripe JSON, PayFast ITN form fields or the fake gateway's JSON; the gateway verifies and parses it
+    server.post<{ Params: { provider: string }; Body: Record<string, unknown> | undefined }>('/v1/webhooks/:provider', {
         config: {
             rawBody: true
         }
     }, async (request, reply) => {
-        const { provider } = request.params as { provider: string };
-        const signature = request.headers['x-signature'] as string;
-        const body = request.body as any;
-        const isProd = config.isProd;
-
-        // Signature Verification (Stripe constructEvent in prod, HMAC/mock fallback)
-        const verifySignature = (sig: string, payload: any, rawPayload?: Buffer): boolean => {
-            const secret = config.stripe.webhookSecret;
-            if (!secret) {
-                if (isProd) {
-                    server.log.fatal('STRIPE_WEBHOOK_SECRET not set in production');
-                    return false;
-                }
-                return sig === 'valid_secret'; // Mock for dev
-            }
-
-            if (!rawPayload) {
-                server.log.error('Raw payload missing for signature verification');
-                return false;
-            }
-
-            // Use Stripe SDK constructEvent when available, HMAC fallback otherwise
-            const stripeKey = config.stripe.secretKey;
-            if (stripeKey) {
-                try {
-                    const stripe = new Stripe(stripeKey);
-                    stripe.webhooks.constructEvent(rawPayload, sig, secret);
-                    return true;
-                } catch (e) {
-                    server.log.error({ err: e }, 'Stripe constructEvent failed');
-                    return false;
-                }
-            }
-
-            // HMAC fallback for non-Stripe environments
-            try {
-                const expected = crypto.createHmac('sha256', secret)
-                    .update(rawPayload)
-                    .digest('hex');
-                return sig === expected;
-            } catch (e) {
-                return false;
-            }
-        };
+        const { provider } = request.params;
+        const gateway = findGateway(provider);
+        if (!gateway) {
+            return reply.code(404).send({ error: `Unknown payment provider: ${provider}` });
+        }
 
-        if (!verifySignature(signature, body, request.rawBody as Buffer)) {
+        const body = request.body;
+        if (!await gateway.verifyWebhook({ headers: request.headers, body, rawBody: request.rawBody as Buffer, log: server.log })) {
             return reply.code(401).send({ error: 'Invalid signature', code: 'WEBHOOK_INVALID_SIG' });
         }
 
-        const eventId = body.id; // Generic 'id' for MVP
-
-        if (!eventId) {
+        const event = gateway.parseEvent(body);
+        if (!event.id) {
             return reply.code(400).send({ error: 'Missing event ID' });
         }
 
         try {
-            const status = await processEvent(provider, eventId, body, async () => {
-                // Side-effect: Handle different event types
-                if (body.type === 'payment_intent.succeeded') {
-                    const providerRef = body.data?.object?.id || body.reference;
-                    await handleIntentSuccess(provider.toUpperCase(), providerRef);
-                } else if (body.type === 'payment_intent.payment_failed') {
-                    const providerRef = body.data?.object?.id || body.reference;
-                    const bookingId = body.data?.object?.metadata?.booking_id;
-                    server.log.warn(`Payment failed for ${providerRef} (Booking: ${bookingId})`);
-                    // Note: We don't advance the state if it fails.
-                    // The customer will see the PENDING_PAYMENT status and can retry.
+            // Async: acknowledge once stored; the webhook_worker job applies it
+            if (config.webhooks.async) {
+                const status = await enqueueWebhookEvent(provider, gateway, event, body);
+                if (status === 'DEAD_LETTER') {
+                    // Acknowledged so the gateway stops resending; an admin must replay or dismiss it
+                    server.log.warn({ provider, event_id: event.id }, 'Redelivered webhook is a dead letter; not queued again');
                 }
-            });
-
+                return { status };
+            }
+            const status = await processEvent(provider, event.id, body, () => handleGatewayEvent(gateway, event, server.log));
             return { status };
         } catch (error) {
             server.log.error(error);
@@ -525,29 +1408,36 @@ export async function buildServer(): Promise<FastifyInstance> {
             return reply.code(403).send({ error: 'Unauthorized: You are not the owner of this booking' });
         }
 
-        // Idempotency: If already CLOSED, return success without re-capturing
-        if (booking.status === 'CLOSED') {
-            return { ok: true, status: 'CLOSED', already_closed: true };
-        }
+        // Lock the booking so a concurrent confirm or the auto_close / capture_retry jobs
+        // can't capture at the gateway twice (or record a spurious capture failure)
+        const outcome = await withTx(async (client) => {
+            const locked = await client.query<{ status: string }>('SELECT status FROM bookings WHERE id = $1 FOR UPDATE', [id]);
+            const status = locked.rows[0].status;
 
-        // Precondition: Must be COMPLETE_PENDING
-        if (booking.status !== 'COMPLETE_PENDING') {
-            return reply.code(400).send({ error: `Booking must be in COMPLETE_PENDING state, currently: ${booking.status}` });
-        }
+            // Idempotency: If already CLOSED, return success without re-capturing
+            if (status === 'CLOSED') return { code: 200, body: { ok: true, status: 'CLOSED', already_closed: true } };
 
-        // Capture payment before closing
-        try {
-            await capturePayment(id);
-        } catch (e: any) {
-            server.log.error({ err: e }, 'Payment capture failed during confirm-complete');
-            return reply.code(409).send({ error: 'Payment capture failed', detail: e.message });
-        }
+            // Precondition: Must be COMPLETE_PENDING
+            if (status !== 'COMPLETE_PENDING') {
+                return { code: 400, body: { error: `Booking must be in COMPLETE_PENDING state, currently: ${status}` } };
+            }
 
-        // Transition to CLOSED using existing state machine
-        const result = await updateBookingStatus(id, 'CLOSED', 'System', uid);
-        if (!result.ok) return reply.code(400).send({ error: result.error });
+            // Capture payment before closing
+            try {
+                await capturePayment(id, client);
+            } catch (e: any) {
+                server.log.error({ err: e }, 'Payment capture failed during confirm-complete');
+                const retry = await recordCaptureFailure(client, id, e, { target: 'CLOSED', trigger: 'confirm_complete' });
+                return { code: 409, body: { error: 'Payment capture failed', code: 'CAPTURE_FAILED', detail: e.message, retry: captureRetrySummary(retry) } };
+            }
 
-        return { ok: true, status: 'CLOSED' };
+            // Transition to CLOSED using existing state machine
+            const result = await updateBookingStatus(id, 'CLOSED', 'System', uid, undefined, client);
+            if (!result.ok) return { code: 400, body: { error: result.error } };
+            return { code: 200, body: { ok: true, status: 'CLOSED' } };
+        });
+
+        return reply.code(outcome.code).send(outcome.body);
     });
 
     return server;
@@ -1,3 +1,6 @@
+import os from 'os';
+import path from 'path';
+
 export const config = {
     get isProd() { return process.env.NODE_ENV === 'production'; },
     get port() { return Number(process.env.PORT) || 3000; },
@@ -8,10 +11,104 @@ export const config = {
         get pass() { return process.env.DB_PASS || 'password'; },
         get name() { return process.env.DB_NAME || 'ozzserve'; },
     },
+    payments: {
+        // Gateway for new intents unless the pay request picks one ('STRIPE' | 'PAYFAST' | 'FAKE')
+        get defaultGateway() { return (process.env.PAYMENT_GATEWAY || 'STRIPE').toUpperCase(); },
+        // Payment attempts (intents) per booking, including retries after a failure
+        get maxAttempts() { return parseInt(process.env.PAYMENT_MAX_ATTEMPTS || '3'); },
+        // How long a new booking may wait for payment (its first expires_at)
+        get windowMinutes() { return parseInt(process.env.PAYMENT_WINDOW_MINUTES || '15'); },
+        // Charged when the customer cancels once the provider is EN_ROUTE or ARRIVED (R10)
+        get cancellationFeeCents() { return parseInt(process.env.CANCELLATION_FEE_CENTS || '1000'); },
+    },
     stripe: {
         get webhookSecret() { return process.env.STRIPE_WEBHOOK_SECRET; },
         get secretKey() { return process.env.STRIPE_SECRET_KEY; },
     },
+    payfast: {
+        get merchantId() { return process.env.PAYFAST_MERCHANT_ID; },
+        get merchantKey() { return process.env.PAYFAST_MERCHANT_KEY; },
+        get passphrase() { return process.env.PAYFAST_PASSPHRASE; },
+        get sandbox() { return process.env.PAYFAST_SANDBOX !== 'false'; },
+        get returnUrl() { return process.env.PAYFAST_RETURN_URL || ''; },
+        get cancelUrl() { return process.env.PAYFAST_CANCEL_URL || ''; },
+        get notifyUrl() { return process.env.PAYFAST_NOTIFY_URL || ''; },
+        // ITNs are confirmed with PayFast's validate endpoint; always on in production
+        get validateItn() { return config.isProd || process.env.PAYFAST_VALIDATE_ITN === 'true'; },
+    },
+    fakeGateway: {
+        // Scriptable in-process gateway for tests and local dev; never available in production
+        get enabled() { return !config.isProd && process.env.FAKE_GATEWAY_ENABLED !== 'false'; },
+        get secret() { return process.env.FAKE_GATEWAY_SECRET || 'fake_gateway_secret'; },
+    },
+    dispatch: {
+        get radiusKm() { return parseFloat(process.env.DISPATCH_RADIUS_KM || '25'); },
+        get locationMaxAgeMinutes() { return parseInt(process.env.DISPATCH_LOCATION_MAX_AGE_MINUTES || '30'); },
+        get maxCandidates() { return parseInt(process.env.DISPATCH_MAX_CANDIDATES || '5'); },
+        // Waves: if nobody accepts within the window, widen the radius and offer more providers
+        get waveWindowSeconds() { return parseInt(process.env.DISPATCH_WAVE_WINDOW_SECONDS || '120'); },
+        get maxWaves() { return parseInt(process.env.DISPATCH_MAX_WAVES || '3'); },
+        get radiusGrowth() { return parseFloat(process.env.DISPATCH_RADIUS_GROWTH || '2'); },
+        // How long a paid booking searches for a provider (restarted on re-dispatch) before it expires
+        get searchWindowMinutes() { return parseInt(process.env.DISPATCH_SEARCH_WINDOW_MINUTES || '15'); },
+    },
+    otp: {
+        // Separate keys for the OTP hash and the sealed copy shown to the customer are derived from it (HKDF)
+        get secret() { return process.env.OTP_SECRET || 'dev-otp-secret'; },
+        get maxAttempts() { return parseInt(process.env.OTP_MAX_ATTEMPTS || '5'); },
+    },
+    tracking: {
+        // Rough urban average used for customer-facing ETAs
+        get avgSpeedKmh() { return parseFloat(process.env.TRACKING_AVG_SPEED_KMH || '30'); },
+    },
+    payouts: {
+        // Default commission in basis points (1500 = 15%) when no commission rule matches
+        get commissionBps() { return parseInt(process.env.PLATFORM_COMMISSION_BPS || '1500'); },
+        get exportDir() { return process.env.PAYOUT_EXPORT_DIR || path.join(os.tmpdir(), 'ozzserve-payouts'); },
+        // A batch still PENDING after this long was interrupted; the next payout_batch run resumes it
+        get pendingTimeoutMinutes() { return parseInt(process.env.PAYOUT_PENDING_TIMEOUT_MINUTES || '60'); },
+    },
+    captureRetry: {
+        // Failed captures retry with exponential backoff (base * 2^(attempt-1), capped), then escalate
+        get maxAttempts() { return parseInt(process.env.CAPTURE_RETRY_MAX_ATTEMPTS || '5'); },
+        get baseDelayMs() { return parseInt(process.env.CAPTURE_RETRY_BASE_DELAY_MS || '60000'); },
+        get maxDelayMs() { return parseInt(process.env.CAPTURE_RETRY_MAX_DELAY_MS || '3600000'); },
+    },
+    reconciliation: {
+        // Intents touched more recently may still have webhooks in flight
+        get minAgeMinutes() { return parseInt(process.env.RECONCILIATION_MIN_AGE_MINUTES || '15'); },
+        get batchSize() { return parseInt(process.env.RECONCILIATION_BATCH_SIZE || '500'); },
+    },
+    webhooks: {
+        // Opt-in: store and acknowledge at once, the webhook_worker job applies events (needs the scheduler)
+        get async() { return process.env.WEBHOOK_ASYNC === 'true'; },
+        // Queued events retry with exponential backoff (base * 2^(attempt-1), capped), then dead-letter as FAILED
+        get maxAttempts() { return parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8'); },
+        get baseDelayMs() { return parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '5000'); },
+        get maxDelayMs() { return parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || '900000'); },
+    },
+    idempotency: {
+        // How long a stored Idempotency-Key response is replayed before the key can be reused
+        get keyTtlHours() { return parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24'); },
+        // A claim still IN_PROGRESS after this long is presumed dead and a retry may take it over
+        get claimTimeoutSeconds() { return parseInt(process.env.IDEMPOTENCY_CLAIM_TIMEOUT_SECONDS || '60'); },
+    },
+    scheduler: {
+        // Opt-in so tests and one-off scripts never run background sweeps
+        get enabled() { return process.env.SCHEDULER_ENABLED === 'true'; },
+        // job_runs history kept for the admin status; the job_runs_purge job deletes older runs
+        get jobRunRetentionDays() { return parseInt(process.env.JOB_RUN_RETENTION_DAYS || '7'); },
+        get expiryIntervalMs() { return parseInt(process.env.SCHEDULER_EXPIRY_INTERVAL_MS || '60000'); },
+        get autoCloseIntervalMs() { return parseInt(process.env.SCHEDULER_AUTO_CLOSE_INTERVAL_MS || '60000'); },
+        get dispatchIntervalMs() { return parseInt(process.env.SCHEDULER_DISPATCH_INTERVAL_MS || '30000'); },
+        get outboxIntervalMs() { return parseInt(process.env.SCHEDULER_OUTBOX_INTERVAL_MS || '10000'); },
+        get payoutIntervalMs() { return parseInt(process.env.SCHEDULER_PAYOUT_INTERVAL_MS || '86400000'); },
+        get captureRetryIntervalMs() { return parseInt(process.env.SCHEDULER_CAPTURE_RETRY_INTERVAL_MS || '30000'); },
+        get reconciliationIntervalMs() { return parseInt(process.env.SCHEDULER_RECONCILIATION_INTERVAL_MS || '3600000'); },
+        get webhookIntervalMs() { return parseInt(process.env.SCHEDULER_WEBHOOK_INTERVAL_MS || '1000'); },
+        get idempotencyPurgeIntervalMs() { return parseInt(process.env.SCHEDULER_IDEMPOTENCY_PURGE_INTERVAL_MS || '3600000'); },
+        get jobRunPurgeIntervalMs() { return parseInt(process.env.SCHEDULER_JOB_RUN_PURGE_INTERVAL_MS || '3600000'); },
+    },
 };
 
 /**
@@ -23,6 +120,15 @@ export function validateConfig() {
         if (!config.stripe.webhookSecret) {
             throw new Error('FATAL: STRIPE_WEBHOOK_SECRET is not set in production.');
         }
+        if (!process.env.OTP_SECRET) {
+            throw new Error('FATAL: OTP_SECRET is not set in production.');
+        }
+        if (config.payfast.merchantId && !config.payfast.passphrase) {
+            throw new Error('FATAL: PAYFAST_PASSPHRASE is not set in production.');
+        }
         // Add other critical production checks here
     }
+    if (config.webhooks.async && !config.scheduler.enabled) {
+        throw new Error('FATAL: WEBHOOK_ASYNC needs SCHEDULER_ENABLED=true (the webhook_worker job applies queued events).');
+    }
 }
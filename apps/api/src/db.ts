@@ -3,23 +3,36 @@ import { config } from './config.js';
 
 let pool: pg.Pool | null = null;
 
+function connectionConfig(): pg.ClientConfig {
+    const isCloudSql = config.db.host.includes('/cloudsql/');
+    return {
+        user: config.db.user,
+        password: config.db.pass,
+        host: isCloudSql ? undefined : config.db.host,
+        port: config.db.port,
+        database: config.db.name,
+        // Cloud SQL use unix sockets if host starts with /
+        ...(isCloudSql ? { host: config.db.host } : {})
+    };
+}
+
 function getPool() {
     if (!pool) {
-        const isCloudSql = config.db.host.includes('/cloudsql/');
-
-        pool = new pg.Pool({
-            user: config.db.user,
-            password: config.db.pass,
-            host: isCloudSql ? undefined : config.db.host,
-            port: config.db.port,
-            database: config.db.name,
-            // Cloud SQL use unix sockets if host starts with /
-            ...(isCloudSql ? { host: config.db.host } : {})
-        });
+        pool = new pg.Pool(connectionConfig());
     }
     return pool;
 }
 
+/**
+ * Opens a standalone connection outside the pool.
+ * Used for long-lived LISTEN sessions; the caller owns and must end it.
+ */
+export async function connectClient(): Promise<pg.Client> {
+    const client = new pg.Client(connectionConfig());
+    await client.connect();
+    return client;
+}
+
 /**
  * Executes a parameterized SQL query.
  */
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { config } from '../config.js';
+import { PaymentGateway, GatewayIntent, GatewayIntentView, GatewayEvent, GatewayRefund, GatewayError, WebhookRequest } from './types.js';
+
+export type FakeOutcome = 'SUCCEED' | 'DECLINE' | 'TIMEOUT' | 'EXPIRE';
+
+/**
+ * What the fake gateway does for a booking (or every payment of an amount).
+ * Unscripted payments succeed at every step.
+ */
+export interface FakeScript {
+    booking_id?: string;
+    amount_cents?: number;
+    authorize: Exclude<FakeOutcome, 'EXPIRE'>; // DECLINE sends payment.failed, TIMEOUT never sends a webhook
+    capture: FakeOutcome; // EXPIRE: the hold lapsed before capture
+    refund: Exclude<FakeOutcome, 'EXPIRE'>;
+    delay_ms: number; // Webhook delivery delay, and how long a TIMEOUT hangs before failing
+    decline_code: string;
+}
+
+export type FakeScriptInput = Partial<FakeScript>;
+
+/**
+ * Posts a signed webhook into the app (`/v1/webhooks/fake`). Set by buildServer.
+ */
+export type FakeWebhookSink = (payload: string, signature: string) => Promise<void>;
+
+const DEFAULT_SCRIPT: Omit<FakeScript, 'booking_id' | 'amount_cents'> = {
+    authorize: 'SUCCEED',
+    capture: 'SUCCEED',
+    refund: 'SUCCEED',
+    delay_ms: 0,
+    decline_code: 'card_declined',
+};
+
+let scripts: FakeScript[] = [];
+const intentViews = new Map<string, GatewayIntentView>(); // What the fake "gateway" holds, by provider_ref
+let sink: FakeWebhookSink | null = null;
+const timers = new Set<NodeJS.Timeout>();
+const deliveries = new Set<Promise<void>>();
+
+/**
+ * Scripts the fake gateway. Exactly one of booking_id or amount_cents; a booking
+ * script beats an amount script, and the newest script wins within each.
+ */
+export function addFakeScript(input: FakeScriptInput): { ok: boolean; script?: FakeScript; error?: string; code?: string } {
+    if ((input.booking_id === undefined) === (input.amount_cents === undefined)) {
+        return { ok: false, error: 'Exactly one of booking_id or amount_cents is required', code: 'INVALID_SCOPE' };
+    }
+    const script = { ...DEFAULT_SCRIPT, ...input };
+    scripts.unshift(script);
+    return { ok: true, script };
+}
+
+export function listFakeScripts(): FakeScript[] {
+    return [...scripts];
+}
+
+export function clearFakeScripts(): void {
+    scripts = [];
+}
+
+function scriptFor(bookingId: string, amountCents: number): Omit<FakeScript, 'booking_id' | 'amount_cents'> {
+    return scripts.find(s => s.booking_id === bookingId)
+        ?? scripts.find(s => s.booking_id === undefined && s.amount_cents === amountCents)
+        ?? DEFAULT_SCRIPT;
+}
+
+/**
+ * Overrides what the fake gateway reports for an intent, to simulate drift (e.g. a missed webhook).
+ */
+export function setFakeIntentView(providerRef: string, view: GatewayIntentView): void {
+    intentViews.set(providerRef, view);
+}
+
+/**
+ * HMAC-SHA256 of the raw body with FAKE_GATEWAY_SECRET, sent as `x-fake-signature`.
+ */
+export function signFakePayload(payload: string): string {
+    return crypto.createHmac('sha256', config.fakeGateway.secret).update(payload).digest('hex');
+}
+
+/**
+ * Routes emitted webhooks to `deliver`. Returns a disconnect that drops undelivered webhooks.
+ */
+export function connectFakeGateway(deliver: FakeWebhookSink): () => void {
+    sink = deliver;
+    return () => {
+        if (sink !== deliver) return;
+        sink = null;
+        for (const timer of timers) clearTimeout(timer);
+        timers.clear();
+    };
+}
+
+/**
+ * Resolves once every scheduled webhook has been delivered (tests).
+ */
+export async function flushFakeWebhooks(): Promise<void> {
+    while (timers.size > 0 || deliveries.size > 0) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await Promise.all([...deliveries]);
+    }
+}
+
+function emit(event: Omit<GatewayEvent, 'id'>, delayMs: number): void {
+    const payload = JSON.stringify({ id: `evt_fake_${crypto.randomUUID()}`, ...event });
+    const timer = setTimeout(() => {
+        timers.delete(timer);
+        if (!sink) return;
+        const delivery = sink(payload, signFakePayload(payload)).finally(() => deliveries.delete(delivery));
+        deliveries.add(delivery);
+    }, delayMs);
+    timers.add(timer);
+}
+
+async function fail(outcome: FakeOutcome, delayMs: number, action: string): Promise<never> {
+    if (outcome === 'TIMEOUT') {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        throw new GatewayError(`Fake gateway timed out on ${action}`, 'timeout', true);
+    }
+    if (outcome === 'EXPIRE') {
+        throw new GatewayError(`Fake gateway authorization expired before ${action}`, 'authorization_expired', false);
+    }
+    throw new GatewayError(`Fake gateway declined ${action}`, 'declined', false);
+}
+
+/**
+ * In-process gateway that follows scripts and emits signed webhooks into the app on its own,
+ * so pay -> authorize -> capture runs end to end without network access.
+ */
+export function createFakeGateway(): PaymentGateway {
+    return {
+        name: 'FAKE',
+
+        async createIntent({ bookingId, amountCents }) {
+            const providerRef = `fake_${crypto.randomUUID()}`;
+            const script = scriptFor(bookingId, amountCents);
+            intentViews.set(providerRef, { state: script.authorize === 'SUCCEED' ? 'AUTHORIZED' : script.authorize === 'DECLINE' ? 'FAILED' : 'PENDING', amount_cents: amountCents });
+            if (script.authorize === 'SUCCEED') {
+                emit({ type: 'payment.authorized', provider_ref: providerRef, amount_cents: amountCents, booking_id: bookingId }, script.delay_ms);
+            } else if (script.authorize === 'DECLINE') {
+                emit({ type: 'payment.failed', provider_ref: providerRef, booking_id: bookingId, decline_code: script.decline_code }, script.delay_ms);
+            }
+            return { provider_ref: providerRef };
+        },
+
+        async capture(intent: GatewayIntent, amountCents?: number) {
+            const script = scriptFor(intent.booking_id, intent.amount_cents);
+            if (script.capture !== 'SUCCEED') await fail(script.capture, script.delay_ms, 'capture');
+            intentViews.set(intent.provider_ref, { state: 'CAPTURED', amount_cents: intent.amount_cents, amount_received_cents: amountCents ?? intent.amount_cents });
+        },
+
+        // Voiding a hold always works, even an expired one
+        async release(intent: GatewayIntent) {
+            if (intentViews.get(intent.provider_ref)?.state === 'CAPTURED') return;
+            intentViews.set(intent.provider_ref, { state: 'CANCELED', amount_cents: intent.amount_cents });
+        },
+
+        async retrieve(intent: GatewayIntent) {
+            return intentViews.get(intent.provider_ref) ?? null;
+        },
+
+        async refund(intent: GatewayIntent, amountCents: number, idempotencyKey: string): Promise<GatewayRefund> {
+            const script = scriptFor(intent.booking_id, intent.amount_cents);
+            if (script.refund !== 'SUCCEED') await fail(script.refund, script.delay_ms, 'refund');
+            return { id: `fake_refund_${idempotencyKey}`, amount_cents: amountCents, status: 'SUCCEEDED' };
+        },
+
+        verifyWebhook({ headers, rawBody }: WebhookRequest): boolean {
+            const sig = headers['x-fake-signature'];
+            if (typeof sig !== 'string' || !rawBody) return false;
+            const expected = signFakePayload(rawBody.toString());
+            return sig.length === expected.length && crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected));
+        },
+
+        // Emitted payloads are already normalized
+        parseEvent(body: any): GatewayEvent {
+            return { ...body, type: body?.type ?? 'ignored' };
+        },
+    };
+}
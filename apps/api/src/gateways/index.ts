@@ -0,0 +1,31 @@
+import { createStripeGateway } from './stripe.js';
+import { createPayFastGateway } from './payfast.js';
+import { createFakeGateway } from './fake.js';
+import { config } from '../config.js';
+import { PaymentGateway, GatewayName } from './types.js';
+
+export * from './types.js';
+
+const gateways: Record<GatewayName, PaymentGateway> = {
+    STRIPE: createStripeGateway(),
+    PAYFAST: createPayFastGateway(),
+    FAKE: createFakeGateway(),
+};
+
+export const GATEWAY_NAMES = Object.keys(gateways) as GatewayName[];
+
+/**
+ * Gateway by name, case-insensitive (`stripe` in webhook URLs, `STRIPE` on intents).
+ * The fake gateway only exists outside production.
+ */
+export function findGateway(name: string): PaymentGateway | undefined {
+    const key = name.toUpperCase() as GatewayName;
+    if (key === 'FAKE' && !config.fakeGateway.enabled) return undefined;
+    return gateways[key];
+}
+
+export function getGateway(name: string): PaymentGateway {
+    const gateway = findGateway(name);
+    if (!gateway) throw new Error(`Unknown payment gateway: ${name}`);
+    return gateway;
+}
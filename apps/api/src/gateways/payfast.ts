@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { FastifyBaseLogger } from 'fastify';
+import { config } from '../config.js';
+import { query } from '../db.js';
+import { PaymentGateway, GatewayIntent, GatewayEvent, GatewayError, WebhookRequest } from './types.js';
+
+// PayFast's public sandbox account, used for checkout when no merchant is configured
+const SANDBOX_MERCHANT = { id: '10000100', key: '46f0cd694581a' };
+
+/**
+ * ITN `payment_status` -> normalized event type.
+ * PayFast settles on COMPLETE (no separate hold), so COMPLETE is our authorization.
+ */
+export const PAYFAST_STATUS_MAP: Record<string, GatewayEvent['type']> = {
+    COMPLETE: 'payment.authorized',
+    FAILED: 'payment.failed',
+    CANCELLED: 'payment.failed',
+    PENDING: 'ignored',
+};
+
+/**
+ * PHP urlencode(), which PayFast signs with: spaces as '+', uppercase hex, `!'()*~` escaped.
+ */
+function phpUrlencode(value: string): string {
+    return encodeURIComponent(value)
+        .replace(/[!'()*~]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase())
+        .replace(/%20/g, '+');
+}
+
+/**
+ * MD5 over `key=value&...` in the given order, with the passphrase appended when set.
+ */
+export function payfastSignature(fields: [string, string][], passphrase: string | undefined = config.payfast.passphrase): string {
+    const pairs = fields.map(([k, v]) => `${k}=${phpUrlencode(v.trim())}`);
+    if (passphrase) pairs.push(`passphrase=${phpUrlencode(passphrase.trim())}`);
+    return crypto.createHash('md5').update(pairs.join('&')).digest('hex');
+}
+
+/**
+ * Asks PayFast whether it sent this ITN (`/eng/query/validate`): it answers `VALID` for the
+ * posted fields, without the signature, in received order. Any other answer or no answer rejects it.
+ */
+async function validateItn(fields: [string, string][], log: FastifyBaseLogger): Promise<boolean> {
+    const host = config.payfast.sandbox ? 'https://sandbox.payfast.co.za' : 'https://www.payfast.co.za';
+    try {
+        const res = await fetch(`${host}/eng/query/validate`, {
+            method: 'POST',
+            headers: { 'content-type': 'application/x-www-form-urlencoded' },
+            body: fields.map(([k, v]) => `${k}=${phpUrlencode(v)}`).join('&'),
+            signal: AbortSignal.timeout(10_000),
+        });
+        const answer = (await res.text()).trim();
+        if (res.ok && answer === 'VALID') return true;
+        log.warn({ status: res.status, answer: answer.slice(0, 100) }, 'PayFast did not validate the ITN');
+    } catch (err) {
+        log.warn({ err }, 'PayFast ITN validation request failed');
+    }
+    return false;
+}
+
+/**
+ * Calls the PayFast merchant API (refunds). Headers, body and passphrase are signed together, sorted by key.
+ */
+async function payfastApi(path: string, body: Record<string, string | number>): Promise<any> {
+    const headers: Record<string, string> = {
+        'merchant-id': config.payfast.merchantId!,
+        version: 'v1',
+        timestamp: new Date().toISOString().slice(0, 19),
+    };
+    const signed: Record<string, string> = { ...headers, ...Object.fromEntries(Object.entries(body).map(([k, v]) => [k, String(v)])) };
+    if (config.payfast.passphrase) signed.passphrase = config.payfast.passphrase;
+    const signature = payfastSignature(Object.entries(signed).sort(([a], [b]) => a.localeCompare(b)), '');
+
+    const url = `https://api.payfast.co.za${path}${config.payfast.sandbox ? '?testing=true' : ''}`;
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, signature, 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+        throw new GatewayError(`PayFast API ${path} failed with ${res.status}`, `http_${res.status}`, res.status >= 500 || res.status === 429);
+    }
+    return res.json();
+}
+
+/**
+ * PayFast hosted checkout + ITN (Instant Transaction Notification).
+ * Dev/Test (no PAYFAST_MERCHANT_ID): mock refs and refunds, sandbox checkout URL.
+ */
+export function createPayFastGateway(): PaymentGateway {
+    // PayFast takes no idempotency key: our attempt is stored (committed) before the call, so a retry
+    // returns the earlier refund, and one whose outcome we never learned is not sent again
+    const refund = async (intent: GatewayIntent, amountCents: number, idempotencyKey: string) => {
+        if (!config.payfast.merchantId) {
+            return { id: `pf_refund_mock_${idempotencyKey}`, amount_cents: amountCents, status: 'SUCCEEDED' as const };
+        }
+        if (!intent.gateway_payment_id) {
+            throw new Error(`No PayFast payment id recorded for ${intent.provider_ref}`);
+        }
+
+        const claimed = await query(
+            `INSERT INTO payfast_refund_attempts (idempotency_key, gateway_payment_id, amount_cents)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (idempotency_key) DO UPDATE
+             SET status = 'PENDING', amount_cents = EXCLUDED.amount_cents, error = NULL, updated_at = CURRENT_TIMESTAMP
+             WHERE payfast_refund_attempts.status = 'FAILED'
+             RETURNING idempotency_key`,
+            [idempotencyKey, intent.gateway_payment_id, amountCents]
+        );
+        if (claimed.rowCount === 0) {
+            const prior = (await query<{ status: string; amount_cents: number }>(
+                'SELECT status, amount_cents FROM payfast_refund_attempts WHERE idempotency_key = $1',
+                [idempotencyKey]
+            )).rows[0];
+            if (prior.status === 'SUCCEEDED') {
+                return { id: `pf_refund_${idempotencyKey}`, amount_cents: prior.amount_cents, status: 'SUCCEEDED' as const };
+            }
+            throw new GatewayError(
+                `PayFast refund ${idempotencyKey} was sent without a definite answer; check the PayFast dashboard before retrying`,
+                'refund_unconfirmed',
+                false
+            );
+        }
+
+        try {
+            await payfastApi(`/refunds/${intent.gateway_payment_id}`, { amount: amountCents, reason: 'Refund', notify_buyer: 1 });
+        } catch (err) {
+            // A 4xx is a refusal: nothing was refunded and the attempt may be made again.
+            // Anything else (5xx, network) may have gone through, so the attempt stays PENDING.
+            if (err instanceof GatewayError && err.code.startsWith('http_4')) {
+                await query(
+                    `UPDATE payfast_refund_attempts SET status = 'FAILED', error = $2, updated_at = CURRENT_TIMESTAMP WHERE idempotency_key = $1`,
+                    [idempotencyKey, err.message]
+                );
+            }
+            throw err;
+        }
+        await query(
+            `UPDATE payfast_refund_attempts SET status = 'SUCCEEDED', updated_at = CURRENT_TIMESTAMP WHERE idempotency_key = $1`,
+            [idempotencyKey]
+        );
+        return { id: `pf_refund_${idempotencyKey}`, amount_cents: amountCents, status: 'SUCCEEDED' as const };
+    };
+
+    return {
+        name: 'PAYFAST',
+
+        async createIntent({ bookingId, amountCents }) {
+            const providerRef = `pf_${crypto.randomUUID()}`;
+            const fields: [string, string][] = [
+                ['merchant_id', config.payfast.merchantId ?? SANDBOX_MERCHANT.id],
+                ['merchant_key', config.payfast.merchantKey ?? SANDBOX_MERCHANT.key],
+                ['return_url', config.payfast.returnUrl],
+                ['cancel_url', config.payfast.cancelUrl],
+                ['notify_url', config.payfast.notifyUrl],
+                ['m_payment_id', providerRef],
+                ['amount', (amountCents / 100).toFixed(2)],
+                ['item_name', `OzzServe booking ${bookingId.slice(0, 8)}`],
+                ['custom_str1', bookingId],
+            ];
+            const filled = fields.filter(([, v]) => v !== '');
+            const url = config.payfast.sandbox ? 'https://sandbox.payfast.co.za/eng/process' : 'https://www.payfast.co.za/eng/process';
+            return {
+                provider_ref: providerRef,
+                checkout: { url, fields: { ...Object.fromEntries(filled), signature: payfastSignature(filled) } },
+            };
+        },
+
+        // Funds settle on COMPLETE; nothing to capture, and a partial capture refunds the difference
+        async capture(intent: GatewayIntent, amountCents?: number) {
+            if (amountCents === undefined || amountCents >= intent.amount_cents || !intent.gateway_payment_id) return;
+            await refund(intent, intent.amount_cents - amountCents, `capture_${intent.provider_ref}`);
+        },
+
+        // No holds at PayFast: giving the money back is a full refund
+        async release(intent: GatewayIntent) {
+            if (!intent.gateway_payment_id) return; // Never completed at PayFast: nothing was taken
+            await refund(intent, intent.amount_cents, `release_${intent.provider_ref}`);
+        },
+
+        refund,
+
+        // ITN: signature over the posted fields in received order, our merchant id and, for COMPLETE,
+        // an amount (checked against the intent when applied); then PayFast must confirm it sent it
+        async verifyWebhook({ body, log }: WebhookRequest): Promise<boolean> {
+            if (!body || typeof body !== 'object' || typeof body.signature !== 'string') return false;
+            if (config.isProd && !config.payfast.merchantId) {
+                log.fatal('PAYFAST_MERCHANT_ID not set in production');
+                return false;
+            }
+            if (config.payfast.merchantId && body.merchant_id !== config.payfast.merchantId) {
+                return false;
+            }
+
+            const fields = Object.entries(body as Record<string, unknown>)
+                .filter(([k]) => k !== 'signature')
+                .map(([k, v]): [string, string] => [k, String(v)]);
+            const expected = payfastSignature(fields);
+            const given = Buffer.from(body.signature);
+            if (given.length !== expected.length || !crypto.timingSafeEqual(given, Buffer.from(expected))) {
+                return false;
+            }
+            if (body.payment_status === 'COMPLETE' && !/^\d+(\.\d{1,2})?$/.test(String(body.amount_gross ?? ''))) {
+                log.warn({ m_payment_id: body.m_payment_id }, 'PayFast COMPLETE ITN without a valid amount_gross');
+                return false;
+            }
+            return config.payfast.validateItn ? validateItn(fields, log) : true;
+        },
+
+        parseEvent(body: any): GatewayEvent {
+            const status = String(body?.payment_status ?? '');
+            const gross = parseFloat(body?.amount_gross);
+            const type = PAYFAST_STATUS_MAP[status] ?? 'ignored';
+            return {
+                // One ITN per status change of a PayFast payment
+                id: body?.pf_payment_id ? `${body.pf_payment_id}:${status}` : undefined,
+                type,
+                provider_ref: body?.m_payment_id,
+                gateway_payment_id: body?.pf_payment_id,
+                amount_cents: Number.isFinite(gross) ? Math.round(gross * 100) : undefined,
+                booking_id: body?.custom_str1,
+                // PayFast gives no decline reason beyond the status
+                decline_code: type === 'payment.failed' ? status.toLowerCase() : undefined,
+            };
+        },
+    };
+}
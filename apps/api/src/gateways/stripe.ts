@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import { config } from '../config.js';
+import { PaymentGateway, GatewayIntent, GatewayIntentView, GatewayRefund, GatewayError, GatewayEvent, GatewayDispute, WebhookRequest } from './types.js';
+
+// Lazy-init Stripe client (only when secret key is available)
+let stripeClient: Stripe | null = null;
+function getStripe(): Stripe | null {
+    if (stripeClient) return stripeClient;
+    const key = config.stripe.secretKey;
+    if (!key) return null;
+    stripeClient = new Stripe(key);
+    return stripeClient;
+}
+
+/**
+ * Refs created without a Stripe key (pi_mock_) or outside Stripe (pi_fee_) are never sent to the API.
+ */
+function isLiveRef(ref: string): boolean {
+    return ref.startsWith('pi_') && !ref.startsWith('pi_mock_') && !ref.startsWith('pi_fee_');
+}
+
+function toRefundStatus(status: string | null | undefined): GatewayRefund['status'] {
+    if (status === 'succeeded') return 'SUCCEEDED';
+    if (status === 'failed' || status === 'canceled') return 'FAILED';
+    return 'PENDING';
+}
+
+/**
+ * Stripe Dispute object. `won` and `warning_closed` (an inquiry that never became a chargeback)
+ * end in our favour; `lost` does not.
+ */
+function toDispute(object: any): GatewayDispute {
+    const status: string | undefined = object.status;
+    const dueBy = object.evidence_details?.due_by;
+    return {
+        id: object.id,
+        amount_cents: object.amount,
+        reason: object.reason ?? undefined,
+        status,
+        evidence_due_by: typeof dueBy === 'number' ? new Date(dueBy * 1000) : undefined,
+        outcome: status === 'won' || status === 'warning_closed' ? 'WON' : status === 'lost' ? 'LOST' : undefined,
+    };
+}
+
+/**
+ * Stripe PaymentIntent status as a gateway view. `requires_payment_method` after an attempt is a failure.
+ */
+function toIntentView(object: Stripe.PaymentIntent): GatewayIntentView {
+    const base = { amount_cents: object.amount, gateway_payment_id: typeof object.latest_charge === 'string' ? object.latest_charge : undefined };
+    switch (object.status) {
+        case 'requires_capture': return { ...base, state: 'AUTHORIZED' };
+        case 'succeeded': return { ...base, state: 'CAPTURED', amount_received_cents: object.amount_received };
+        case 'canceled': return { ...base, state: 'CANCELED' };
+        case 'requires_action': return { ...base, state: 'REQUIRES_ACTION' };
+        case 'requires_payment_method':
+            return object.last_payment_error
+                ? { ...base, state: 'FAILED', decline_code: object.last_payment_error.decline_code ?? object.last_payment_error.code }
+                : { ...base, state: 'PENDING' };
+        default: return { ...base, state: 'PENDING' };
+    }
+}
+
+// Stripe error types worth retrying: network trouble, Stripe-side errors, rate limits
+const RETRYABLE_STRIPE_ERRORS = ['StripeConnectionError', 'StripeAPIError', 'StripeRateLimitError'];
+
+/**
+ * Runs a Stripe API call, rethrowing failures as GatewayError.
+ */
+async function callStripe<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+        return await fn();
+    } catch (e: any) {
+        if (!(e instanceof Stripe.errors.StripeError)) throw e;
+        throw new GatewayError(e.message, e.code ?? e.type, RETRYABLE_STRIPE_ERRORS.includes(e.type));
+    }
+}
+
+/**
+ * Stripe PaymentIntents with manual capture.
+ * Dev/Test (no STRIPE_SECRET_KEY): mock refs, no API calls.
+ */
+export function createStripeGateway(): PaymentGateway {
+    return {
+        name: 'STRIPE',
+
+        async createIntent({ bookingId, amountCents, currency }) {
+            const stripe = getStripe();
+            if (!stripe) {
+                return { provider_ref: `pi_mock_${Math.random().toString(36).substring(7)}` };
+            }
+            const intent = await callStripe(() => stripe.paymentIntents.create({
+                amount: amountCents,
+                currency: currency.toLowerCase(),
+                capture_method: 'manual',
+                metadata: { booking_id: bookingId },
+            }));
+            return { provider_ref: intent.id, checkout: { client_secret: intent.client_secret } };
+        },
+
+        // A partial capture releases the uncaptured remainder at Stripe
+        async capture(intent: GatewayIntent, amountCents?: number) {
+            const stripe = getStripe();
+            if (stripe && isLiveRef(intent.provider_ref)) {
+                await callStripe(() => stripe.paymentIntents.capture(
+                    intent.provider_ref,
+                    amountCents !== undefined ? { amount_to_capture: amountCents } : undefined
+                ));
+            }
+        },
+
+        async release(intent: GatewayIntent) {
+            const stripe = getStripe();
+            if (stripe && isLiveRef(intent.provider_ref)) {
+                await callStripe(() => stripe.paymentIntents.cancel(intent.provider_ref));
+            }
+        },
+
+        async refund(intent: GatewayIntent, amountCents: number, idempotencyKey: string) {
+            const stripe = getStripe();
+            if (!stripe || !isLiveRef(intent.provider_ref)) {
+                return { id: `re_mock_${Math.random().toString(36).substring(7)}`, amount_cents: amountCents, status: 'SUCCEEDED' };
+            }
+            const refund = await callStripe(() => stripe.refunds.create(
+                { payment_intent: intent.provider_ref, amount: amountCents },
+                { idempotencyKey }
+            ));
+            return { id: refund.id, amount_cents: refund.amount, status: toRefundStatus(refund.status) };
+        },
+
+        async retrieve(intent: GatewayIntent) {
+            const stripe = getStripe();
+            if (!stripe || !isLiveRef(intent.provider_ref)) return null;
+            return toIntentView(await callStripe(() => stripe.paymentIntents.retrieve(intent.provider_ref)));
+        },
+
+        // Stripe constructEvent when a key is set, HMAC fallback otherwise, `valid_secret` mock in dev
+        verifyWebhook({ headers, rawBody, log }: WebhookRequest): boolean {
+            const sig = (headers['stripe-signature'] ?? headers['x-signature']) as string;
+            const secret = config.stripe.webhookSecret;
+            if (!secret) {
+                if (config.isProd) {
+                    log.fatal('STRIPE_WEBHOOK_SECRET not set in production');
+                    return false;
+                }
+                return sig === 'valid_secret'; // Mock for dev
+            }
+
+            if (!rawBody) {
+                log.error('Raw payload missing for signature verification');
+                return false;
+            }
+
+            const stripeKey = config.stripe.secretKey;
+            if (stripeKey) {
+                try {
+                    new Stripe(stripeKey).webhooks.constructEvent(rawBody, sig, secret);
+                    return true;
+                } catch (e) {
+                    log.error({ err: e }, 'Stripe constructEvent failed');
+                    return false;
+                }
+            }
+
+            // HMAC fallback for non-Stripe environments
+            try {
+                const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+                return sig === expected;
+            } catch (e) {
+                return false;
+            }
+        },
+
+        parseEvent(body: any): GatewayEvent {
+            const object = body?.data?.object ?? {};
+            const base = {
+                id: body?.id,
+                occurred_at: typeof body?.created === 'number' ? new Date(body.created * 1000) : undefined,
+            };
+            // PaymentIntent events carry the intent; charge events point at it
+            const intentRef = object.id || body?.reference;
+            const chargeIntentRef = typeof object.payment_intent === 'string' ? object.payment_intent : object.payment_intent?.id;
+
+            switch (body?.type) {
+                case 'payment_intent.requires_action':
+                    return { ...base, type: 'payment.requires_action', provider_ref: intentRef, next_action: object.next_action?.type };
+                case 'payment_intent.amount_capturable_updated':
+                    return { ...base, type: 'payment.authorized', provider_ref: intentRef, amount_cents: object.amount_capturable ?? object.amount };
+                case 'payment_intent.succeeded':
+                    return { ...base, type: 'payment.succeeded', provider_ref: intentRef, amount_cents: object.amount, amount_received_cents: object.amount_received ?? undefined };
+                case 'payment_intent.canceled':
+                    return { ...base, type: 'payment.canceled', provider_ref: intentRef, cancellation_reason: object.cancellation_reason ?? undefined };
+                case 'payment_intent.payment_failed':
+                    return {
+                        ...base,
+                        type: 'payment.failed',
+                        provider_ref: intentRef,
+                        booking_id: object.metadata?.booking_id,
+                        decline_code: object.last_payment_error?.decline_code ?? object.last_payment_error?.code,
+                        failure_message: object.last_payment_error?.message,
+                    };
+                case 'charge.captured':
+                    return { ...base, type: 'payment.captured', provider_ref: chargeIntentRef, amount_received_cents: object.amount_captured ?? undefined };
+                case 'charge.refunded':
+                    return {
+                        ...base,
+                        type: 'payment.refunded',
+                        provider_ref: chargeIntentRef,
+                        refunds: (object.refunds?.data ?? []).map((r: any) => ({ id: r.id, amount_cents: r.amount, status: toRefundStatus(r.status), reason: r.reason })),
+                        amount_refunded_cents: object.amount_refunded,
+                    };
+                case 'charge.dispute.created':
+                    return { ...base, type: 'dispute.opened', provider_ref: chargeIntentRef, dispute: toDispute(object) };
+                case 'charge.dispute.updated':
+                    return { ...base, type: 'dispute.updated', provider_ref: chargeIntentRef, dispute: toDispute(object) };
+                case 'charge.dispute.closed':
+                    return { ...base, type: 'dispute.closed', provider_ref: chargeIntentRef, dispute: toDispute(object) };
+                default:
+                    return { ...base, type: 'ignored' };
+            }
+        },
+    };
+}
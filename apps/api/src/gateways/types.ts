@@ -0,0 +1,113 @@
+import { FastifyBaseLogger } from 'fastify';
+import { IncomingHttpHeaders } from 'http';
+
+export type GatewayName = 'STRIPE' | 'PAYFAST' | 'FAKE';
+
+/**
+ * What the gateway needs to act on an existing intent.
+ */
+export interface GatewayIntent {
+    booking_id: string;
+    provider_ref: string; // Our reference at the gateway (Stripe pi_..., PayFast m_payment_id)
+    gateway_payment_id: string | null; // Gateway's own transaction id, when it differs (PayFast pf_payment_id)
+    amount_cents: number;
+}
+
+export interface GatewayRefund {
+    id: string;
+    amount_cents: number;
+    status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+    reason?: string | null;
+}
+
+/**
+ * Webhook payload normalized across gateways.
+ * `id` is the idempotency key passed to processEvent.
+ * `payment.succeeded` authorizes a pending intent, or confirms capture of an authorized one.
+ */
+export interface GatewayEvent {
+    id: string | undefined;
+    type:
+        | 'payment.requires_action'
+        | 'payment.authorized'
+        | 'payment.succeeded'
+        | 'payment.captured'
+        | 'payment.canceled'
+        | 'payment.failed'
+        | 'payment.refunded'
+        | 'dispute.opened'
+        | 'dispute.updated'
+        | 'dispute.closed'
+        | 'ignored';
+    occurred_at?: Date; // When the gateway created the event; orders out-of-order deliveries
+    provider_ref?: string;
+    gateway_payment_id?: string;
+    amount_cents?: number;
+    amount_received_cents?: number; // payment.succeeded / payment.captured: what was captured, when less than authorized
+    booking_id?: string;
+    decline_code?: string; // payment.failed: gateway's reason, when given
+    failure_message?: string; // payment.failed: human-readable reason
+    next_action?: string; // payment.requires_action: e.g. 'use_stripe_sdk' (3DS)
+    cancellation_reason?: string; // payment.canceled
+    refunds?: GatewayRefund[]; // payment.refunded: individual refunds, when the gateway lists them
+    amount_refunded_cents?: number; // payment.refunded: cumulative total
+    dispute?: GatewayDispute; // dispute.*
+}
+
+/**
+ * An intent as the gateway sees it now (reconciliation). `PENDING`: not yet paid, nothing held.
+ */
+export interface GatewayIntentView {
+    state: 'PENDING' | 'REQUIRES_ACTION' | 'AUTHORIZED' | 'CAPTURED' | 'CANCELED' | 'FAILED';
+    amount_cents?: number;
+    amount_received_cents?: number; // CAPTURED: what was captured
+    gateway_payment_id?: string;
+    decline_code?: string;
+}
+
+/**
+ * A chargeback as the gateway reports it. `outcome` is set once it is decided.
+ */
+export interface GatewayDispute {
+    id: string;
+    amount_cents: number;
+    reason?: string;
+    status?: string;
+    evidence_due_by?: Date;
+    outcome?: 'WON' | 'LOST';
+}
+
+/**
+ * A gateway call that failed. `retryable` errors (timeouts, gateway outages, rate limits)
+ * may succeed later; the rest (declines, expired authorizations) will not.
+ */
+export class GatewayError extends Error {
+    constructor(message: string, public code: string, public retryable: boolean) {
+        super(message);
+        this.name = 'GatewayError';
+    }
+}
+
+export interface WebhookRequest {
+    headers: IncomingHttpHeaders;
+    body: any;
+    rawBody?: Buffer;
+    log: FastifyBaseLogger;
+}
+
+export interface PaymentGateway {
+    name: GatewayName;
+    /** Starts a payment; `checkout` is whatever the client needs to complete it. */
+    createIntent(input: { bookingId: string; amountCents: number; currency: string }): Promise<{ provider_ref: string; checkout?: Record<string, unknown> }>;
+    /** Takes the held funds; with `amountCents`, takes only that much and releases the rest. */
+    capture(intent: GatewayIntent, amountCents?: number): Promise<void>;
+    /** Gives the held funds back in full (void, or refund where holds don't exist). */
+    release(intent: GatewayIntent): Promise<void>;
+    /** Returns captured funds; `idempotencyKey` makes retries safe. */
+    refund(intent: GatewayIntent, amountCents: number, idempotencyKey: string): Promise<GatewayRefund>;
+    /** Current state at the gateway; null when it can't be looked up (mock refs, no query API). */
+    retrieve?(intent: GatewayIntent): Promise<GatewayIntentView | null>;
+    /** May call the gateway back (PayFast ITN validation), hence async. */
+    verifyWebhook(request: WebhookRequest): boolean | Promise<boolean>;
+    parseEvent(body: any): GatewayEvent;
+}
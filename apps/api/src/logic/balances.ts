@@ -0,0 +1,125 @@
+import pg from 'pg';
+import { query, withTx } from '../db.js';
+import { recordCancellationFeePaid } from './ledger.js';
+
+/**
+ * A cancellation fee the gateway didn't collect. While OPEN it blocks the customer's
+ * next booking; an admin settles it as PAID (collected off-gateway) or WAIVED.
+ */
+export interface OutstandingBalance {
+    id: string;
+    customer_id: string;
+    booking_id: string;
+    amount_cents: number;
+    currency: string;
+    reason: string;
+    status: 'OPEN' | 'PAID' | 'WAIVED';
+    reference: string | null;
+    note: string | null;
+    resolved_by: string | null;
+    resolved_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+type BalanceResult = { ok: boolean; balance?: OutstandingBalance; error?: string; code?: string };
+
+/**
+ * Records the uncollected fee against the booking's customer and tells them.
+ */
+export async function openOutstandingBalance(
+    client: pg.PoolClient,
+    bookingId: string,
+    amountCents: number,
+    reason: string
+): Promise<OutstandingBalance> {
+    const res = await client.query<OutstandingBalance>(
+        `INSERT INTO outstanding_balances (customer_id, booking_id, amount_cents, reason)
+         SELECT customer_id, id, $2, $3 FROM bookings WHERE id = $1
+         RETURNING *`,
+        [bookingId, amountCents, reason]
+    );
+    const balance = res.rows[0];
+    await client.query(
+        `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+         VALUES ($1, $2, $3, $4)`,
+        [bookingId, balance.customer_id, 'CANCELLATION_FEE_OUTSTANDING', JSON.stringify({
+            balance_id: balance.id,
+            amount_cents: balance.amount_cents,
+            message: 'We could not collect your cancellation fee. Please settle it before your next booking.',
+        })]
+    );
+    return balance;
+}
+
+/**
+ * Oldest OPEN balance for the customer, if any (checked before a new booking).
+ */
+export async function findOpenBalance(client: pg.PoolClient, customerId: string): Promise<OutstandingBalance | null> {
+    const res = await client.query<OutstandingBalance>(
+        `SELECT * FROM outstanding_balances WHERE customer_id = $1 AND status = 'OPEN' ORDER BY created_at ASC LIMIT 1`,
+        [customerId]
+    );
+    return res.rows[0] ?? null;
+}
+
+export async function listCustomerBalances(customerId: string): Promise<OutstandingBalance[]> {
+    const res = await query<OutstandingBalance>(
+        'SELECT * FROM outstanding_balances WHERE customer_id = $1 ORDER BY created_at DESC',
+        [customerId]
+    );
+    return res.rows;
+}
+
+/**
+ * Admin view, oldest first.
+ */
+export async function listOutstandingBalances(status?: OutstandingBalance['status']): Promise<OutstandingBalance[]> {
+    const res = await query<OutstandingBalance>(
+        `SELECT * FROM outstanding_balances
+         WHERE ($1::text IS NULL OR status = $1)
+         ORDER BY created_at ASC`,
+        [status ?? null]
+    );
+    return res.rows;
+}
+
+/**
+ * Admin: settles an OPEN balance. PAID books the fee as revenue; WAIVED writes it off.
+ * Either way the customer can book again.
+ */
+export async function resolveOutstandingBalance(
+    id: string,
+    data: { resolution: 'PAID' | 'WAIVED'; reference?: string; note?: string },
+    adminId: string
+): Promise<BalanceResult> {
+    return withTx(async (client): Promise<BalanceResult> => {
+        const locked = await client.query<OutstandingBalance>('SELECT * FROM outstanding_balances WHERE id = $1 FOR UPDATE', [id]);
+        if (locked.rowCount === 0) return { ok: false, error: 'Outstanding balance not found', code: 'NOT_FOUND' };
+        if (locked.rows[0].status !== 'OPEN') {
+            return { ok: false, error: `Balance is already ${locked.rows[0].status}`, code: 'ALREADY_RESOLVED' };
+        }
+
+        const res = await client.query<OutstandingBalance>(
+            `UPDATE outstanding_balances
+             SET status = $2, reference = $3, note = $4, resolved_by = $5, resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 RETURNING *`,
+            [id, data.resolution, data.reference ?? null, data.note ?? null, adminId]
+        );
+        const balance = res.rows[0];
+        if (data.resolution === 'PAID') {
+            await recordCancellationFeePaid(client, balance);
+        }
+
+        await client.query(
+            `UPDATE bookings SET cancellation_fee_status = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+            [balance.booking_id, data.resolution === 'PAID' ? 'COLLECTED' : 'WAIVED']
+        );
+        await client.query(
+            `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [balance.booking_id, 'cancellation_fee_resolved', 'Admin', adminId, JSON.stringify({ balance_id: id, resolution: data.resolution, amount_cents: balance.amount_cents, reference: data.reference ?? null })]
+        );
+        return { ok: true, balance };
+    });
+}
@@ -2,7 +2,14 @@ import pg from 'pg';
 import { BookingState, isValidTransition, UserRole } from './state-machine.js';
 import { query, withTx } from '../db.js';
 import { releaseAuthorization, chargeCancellationFee, capturePayment } from './payments.js';
+import { recordCaptureFailure, CaptureRetry } from './captures.js';
 import { getServiceById } from './services.js';
+import { lockSlotForBooking, reserveSlot, releaseSlot } from './slots.js';
+import { selectCandidates, toDistanceMap } from './dispatch.js';
+import { assignOtp, verifyOtp, openOtp } from './otp.js';
+import { findOpenBalance } from './balances.js';
+import { resolveCommission, splitCommission } from './commission.js';
+import { config } from '../config.js';
 
 export interface Booking {
     id: string;
@@ -10,71 +17,135 @@ export interface Booking {
     customer_id: string;
     provider_id: string | null;
     service_id: string;
-    slot_id: string;
+    slot_id: string | null; // null for on-demand bookings
     candidate_list: string[]; // UIDs
-    otp: string;
+    candidate_distances: Record<string, number>; // UID -> km at dispatch time
+    job_lat: number | null;
+    job_lng: number | null;
+    otp?: string; // Customer/admin view only; decrypted from otp_sealed
+    otp_failed_attempts: number;
+    otp_locked_at: string | null;
     expires_at: string;
     complete_pending_until: string | null;
     service_name_snapshot: string | null;
     price_snapshot_cents: number | null;
+    commission_bps_snapshot: number | null;
+    commission_rule_id: string | null;
+    platform_gross_cents: number | null; // Derived from the price and commission snapshots
+    provider_net_cents: number | null;
     stripe_payment_intent_id: string | null;
+    cancellation_fee_cents: number | null;
+    cancellation_fee_status: 'COLLECTED' | 'PENDING' | 'OUTSTANDING' | 'WAIVED' | null; // PENDING: fee capture queued for retry
+    released_cents: number | null; // Authorization given back on cancellation
     created_at: string;
     updated_at: string;
 }
 
 /**
  * Creates a new booking and generates the initial candidate list.
+ * With a slot_id, the published slot is reserved atomically and the booking is offered
+ * only to the provider who published it. Without one, the booking is on demand.
  */
-export async function createBooking(data: { service_id: string; slot_id: string; user_id: string }): Promise<Booking> {
+export async function createBooking(
+    data: { service_id: string; slot_id?: string; user_id: string; location?: { lat: number; lng: number } }
+): Promise<{ ok: boolean; booking?: Booking; error?: string; code?: string }> {
     return withTx(async (client) => {
-        // 0. Look up service for price/name snapshot (backward-compatible: null if not found)
+        // An uncollected cancellation fee blocks new bookings until it is settled
+        const balance = await findOpenBalance(client, data.user_id);
+        if (balance) {
+            return { ok: false, error: `Outstanding balance of ${balance.amount_cents} cents from a cancelled booking`, code: 'OUTSTANDING_BALANCE' };
+        }
+
+        // 0. Look up service for price/name/commission snapshot (backward-compatible: null if not found)
         const service = await getServiceById(data.service_id);
         const serviceNameSnapshot = service?.name ?? null;
         const priceSnapshotCents = service?.price_cents ?? null;
+        const commission = await resolveCommission(service, new Date(), client);
 
-        // 1. Generate candidate list (deterministic: top 5 online providers for this service)
-        const candidateRes = await client.query<{ user_uid: string }>(
-            `SELECT p.user_uid FROM providers p
-             JOIN provider_services ps ON p.id = ps.provider_id
-             WHERE ps.service_id = $1 AND p.is_online = TRUE
-             ORDER BY p.created_at ASC
-             LIMIT 5`,
-            [data.service_id]
-        );
-        const candidates = candidateRes.rows.map(r => r.user_uid);
+        // 0b. Lock the requested slot (prevents double-booking); on-demand bookings have none
+        const slot = data.slot_id ? await lockSlotForBooking(client, data.slot_id, data.service_id) : { ok: true, providerUid: undefined };
+        if (!slot.ok) {
+            return { ok: false, error: slot.error, code: slot.code };
+        }
 
-        // 2. Insert booking with 4-digit OTP + service snapshot
-        const otp = Math.floor(1000 + Math.random() * 9000).toString();
+        // 1. Generate candidate list (slot owner, or nearest online providers for this service)
+        let candidates: string[];
+        let distances: Record<string, number> = {};
+        if (slot.providerUid) {
+            candidates = [slot.providerUid];
+        } else {
+            const selected = await selectCandidates(client, {
+                serviceId: data.service_id,
+                location: data.location,
+                radiusKm: config.dispatch.radiusKm,
+                locationMaxAgeMinutes: config.dispatch.locationMaxAgeMinutes,
+                limit: config.dispatch.maxCandidates,
+            });
+            candidates = selected.map(c => c.uid);
+            distances = toDistanceMap(selected);
+        }
+
+        // 2. Insert booking with service snapshot + job location, then issue the OTP (hashed)
         const res = await client.query(
-            `INSERT INTO bookings (status, customer_id, service_id, slot_id, expires_at, candidate_list, otp, service_name_snapshot, price_snapshot_cents)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            `INSERT INTO bookings (status, customer_id, service_id, slot_id, expires_at, candidate_list, candidate_distances, service_name_snapshot, price_snapshot_cents, commission_bps_snapshot, commission_rule_id, job_lat, job_lng)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
              RETURNING *`,
-            ['PENDING_PAYMENT', data.user_id, data.service_id, data.slot_id, new Date(Date.now() + 15 * 60000).toISOString(), JSON.stringify(candidates), otp, serviceNameSnapshot, priceSnapshotCents]
+            ['PENDING_PAYMENT', data.user_id, data.service_id, data.slot_id ?? null, new Date(Date.now() + config.payments.windowMinutes * 60000).toISOString(), JSON.stringify(candidates), JSON.stringify(distances), serviceNameSnapshot, priceSnapshotCents, commission.rate_bps, commission.rule_id, data.location?.lat ?? null, data.location?.lng ?? null]
+        );
+        const otp = await assignOtp(client, res.rows[0].id);
+        const booking: Booking = { ...toBooking(res.rows[0], false), otp };
+
+        // 2b. Reserve slot
+        if (data.slot_id && slot.providerUid) {
+            await reserveSlot(client, data.slot_id, booking.id);
+        }
+
+        // 2c. Log initial dispatch wave
+        await client.query(
+            `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [booking.id, 'dispatch_wave', 'System', null, JSON.stringify({ wave: 1, radius_km: data.location && !slot.providerUid ? config.dispatch.radiusKm : null, added: candidates.map(uid => ({ uid, distance_km: distances[uid] ?? null })) })]
         );
-        const row = res.rows[0];
-        const booking: Booking = {
-            ...row,
-            candidate_list: typeof row.candidate_list === 'string' ? JSON.parse(row.candidate_list) : row.candidate_list,
-            otp: row.otp // Ensure otp is returned in the object
-        };
 
         // 3. Log event
         await client.query(
             `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
              VALUES ($1, $2, $3, $4, $5)`,
-            [booking.id, 'create_booking', 'User', data.user_id, JSON.stringify({ ...data, candidates })]
+            [booking.id, 'create_booking', 'User', data.user_id, JSON.stringify({ ...data, candidates, distances, slot_reserved: !!slot.providerUid })]
         );
 
-        return booking;
+        return { ok: true, booking };
     });
 }
 
 /**
- * Fetches a booking by ID.
+ * Maps a raw bookings row to the API shape. OTP secrets never leave this module;
+ * the plaintext is only revealed for customer-owned views.
+ */
+export function toBooking(row: any, revealOtp: boolean): Booking {
+    const { otp_hash, otp_sealed, otp: _plaintext, ...rest } = row;
+    const booking: Booking = {
+        ...rest,
+        candidate_list: typeof rest.candidate_list === 'string' ? JSON.parse(rest.candidate_list) : rest.candidate_list,
+        platform_gross_cents: null,
+        provider_net_cents: null,
+    };
+    if (rest.price_snapshot_cents != null && rest.commission_bps_snapshot != null) {
+        Object.assign(booking, splitCommission(rest.price_snapshot_cents, rest.commission_bps_snapshot));
+    }
+    if (revealOtp) {
+        const otp = otp_sealed ? openOtp(otp_sealed) : null;
+        if (otp) booking.otp = otp;
+    }
+    return booking;
+}
+
+/**
+ * Fetches a booking by ID (OTP included; callers strip it per viewer).
  */
 export async function getBooking(id: string): Promise<Booking | undefined> {
-    const res = await query<Booking>('SELECT * FROM bookings WHERE id = $1', [id]);
-    return res.rows[0];
+    const res = await query('SELECT * FROM bookings WHERE id = $1', [id]);
+    return res.rows[0] ? toBooking(res.rows[0], true) : undefined;
 }
 
 /**
@@ -87,11 +158,11 @@ export async function updateBookingStatus(
     actorId?: string,
     otp?: string,
     client?: pg.PoolClient
-): Promise<{ ok: boolean; error?: string }> {
-    const logic = async (tx: pg.PoolClient) => {
-        // 1. Fetch current status, candidate list, and OTP with lock
+): Promise<{ ok: boolean; error?: string; code?: string }> {
+    const logic = async (tx: pg.PoolClient): Promise<{ ok: boolean; error?: string; code?: string }> => {
+        // 1. Fetch current status and candidate list with lock
         const res = await tx.query(
-            'SELECT status, customer_id, provider_id, candidate_list, otp FROM bookings WHERE id = $1 FOR UPDATE',
+            'SELECT status, customer_id, provider_id, candidate_list FROM bookings WHERE id = $1 FOR UPDATE',
             [id]
         );
         if (res.rowCount === 0) {
@@ -100,20 +171,12 @@ export async function updateBookingStatus(
         const booking = res.rows[0];
         const currentStatus = booking.status as BookingState;
         const candidates = (booking.candidate_list || []) as string[];
-        const correctOtp = booking.otp;
 
         // 2. Validate transition
         if (!isValidTransition(currentStatus, nextStatus, role)) {
             return { ok: false, error: `Invalid transition from ${currentStatus} to ${nextStatus} for role ${role}` };
         }
 
-        // 2b. OTP verification for IN_PROGRESS
-        if (nextStatus === 'IN_PROGRESS' && currentStatus === 'ARRIVED') {
-            if (!otp || otp !== correctOtp) {
-                return { ok: false, error: 'Invalid or missing OTP' };
-            }
-        }
-
         // 3. Role-specific enforcement (Ownership & Candidates)
         if (role === 'Provider') {
             if (!actorId) return { ok: false, error: 'Provider ID required' };
@@ -129,22 +192,35 @@ export async function updateBookingStatus(
             }
         }
 
+        // 3b. OTP verification for IN_PROGRESS (after ownership, so only the assigned provider burns attempts)
+        if (nextStatus === 'IN_PROGRESS' && currentStatus === 'ARRIVED') {
+            const otpResult = await verifyOtp(tx, id, otp, actorId || null);
+            if (!otpResult.ok) return otpResult;
+        }
+
         // 4. Atomic Update
         const updateRes = await tx.query(
             `UPDATE bookings 
              SET status = $1, 
                  updated_at = CURRENT_TIMESTAMP,
                  provider_id = COALESCE(provider_id, $2),
-                 complete_pending_until = CASE WHEN $1 = 'COMPLETE_PENDING' THEN NOW() + INTERVAL '30 minutes' ELSE complete_pending_until END
+                 complete_pending_until = CASE WHEN $1 = 'COMPLETE_PENDING' THEN NOW() + INTERVAL '30 minutes' ELSE complete_pending_until END,
+                 last_dispatched_at = CASE WHEN $1 = 'PAID_SEARCHING' THEN NOW() ELSE last_dispatched_at END,
+                 expires_at = CASE WHEN $1 = 'PAID_SEARCHING' THEN NOW() + $5 * INTERVAL '1 minute' ELSE expires_at END
              WHERE id = $3 AND status = $4
              RETURNING *`,
-            [nextStatus, role === 'Provider' ? actorId : null, id, currentStatus]
+            [nextStatus, role === 'Provider' ? actorId : null, id, currentStatus, config.dispatch.searchWindowMinutes]
         );
 
         if (updateRes.rowCount === 0) {
             return { ok: false, error: 'Atomic update failed (status drift)' };
         }
 
+        // 4b. Free the reserved slot on terminal failure
+        if (nextStatus === 'CANCELLED' || nextStatus === 'EXPIRED') {
+            await releaseSlot(id, tx);
+        }
+
         // 5. Log event
         await tx.query(
             `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
@@ -187,11 +263,8 @@ export async function getUserBookings(
         sql += ` OFFSET $${params.length}`;
     }
 
-    const res = await query<Booking>(sql, params);
-    return res.rows.map(row => ({
-        ...row,
-        candidate_list: typeof row.candidate_list === 'string' ? JSON.parse(row.candidate_list) : row.candidate_list
-    }));
+    const res = await query(sql, params);
+    return res.rows.map(row => toBooking(row, true));
 }
 
 /**
@@ -220,11 +293,8 @@ export async function getProviderBookings(
         sql += ` OFFSET $${params.length}`;
     }
 
-    const res = await query<Booking>(sql, params);
-    return res.rows.map(row => ({
-        ...row,
-        candidate_list: typeof row.candidate_list === 'string' ? JSON.parse(row.candidate_list) : row.candidate_list
-    }));
+    const res = await query(sql, params);
+    return res.rows.map(row => toBooking(row, false));
 }
 
 /**
@@ -249,22 +319,31 @@ export async function cancelBooking(id: string, role: UserRole, actorId: string)
         // Fee Logic
         const needsFee = ['EN_ROUTE', 'ARRIVED'].includes(currentStatus);
 
-        // 1. Release original authorization (if any)
-        await releaseAuthorization(id, client);
+        // 1. Charge fee if applicable: captured from the authorization, the rest released
+        const fee = needsFee ? await chargeCancellationFee(id, client) : null;
 
-        // 2. Charge fee if applicable
-        if (needsFee) {
-            await chargeCancellationFee(id, client);
-        }
+        // 2. Release whatever is still held (all of it without a fee, or when the fee wasn't collected);
+        //    a fee capture queued for retry keeps the hold until it settles
+        const released = (fee?.released_cents ?? 0) + (fee?.status === 'PENDING' ? 0 : await releaseAuthorization(id, client));
 
-        // 3. Update status
-        await client.query('UPDATE bookings SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2', ['CANCELLED', id]);
+        // 3. Update status, record fee and release, and free the slot
+        await client.query(
+            `UPDATE bookings SET status = $1, cancellation_fee_cents = $3, cancellation_fee_status = $4, released_cents = $5,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $2`,
+            ['CANCELLED', id, fee?.fee_cents ?? null, fee?.status ?? null, released]
+        );
+        await releaseSlot(id, client);
 
         // 4. Log event
         await client.query(
             `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
              VALUES ($1, $2, $3, $4, $5)`,
-            [id, 'transition_cancelled', role, actorId, JSON.stringify({ from: currentStatus, to: 'CANCELLED', feeCharged: needsFee })]
+            [id, 'transition_cancelled', role, actorId, JSON.stringify({
+                from: currentStatus, to: 'CANCELLED', feeCharged: fee?.status === 'COLLECTED',
+                fee_cents: fee?.fee_cents ?? 0, fee_status: fee?.status ?? null, released_cents: released,
+                balance_id: fee?.balance_id ?? null, fee_failure: fee?.reason ?? null,
+            })]
         );
 
         return { ok: true };
@@ -276,14 +355,142 @@ export async function cancelBooking(id: string, role: UserRole, actorId: string)
  */
 export async function sweepExpiredBookings(): Promise<number> {
     const res = await query(
-        `UPDATE bookings 
-         SET status = 'EXPIRED', updated_at = CURRENT_TIMESTAMP 
-         WHERE status = 'PENDING_PAYMENT' 
-         AND created_at < NOW() - INTERVAL '24 hours'
-         RETURNING id`
+        `WITH expired AS (
+             UPDATE bookings 
+             SET status = 'EXPIRED', updated_at = CURRENT_TIMESTAMP 
+             WHERE status = 'PENDING_PAYMENT' 
+             AND created_at < NOW() - INTERVAL '24 hours'
+             RETURNING id
+         ), released AS (
+             UPDATE availability_slots
+             SET status = 'OPEN', booking_id = NULL, updated_at = CURRENT_TIMESTAMP
+             WHERE booking_id IN (SELECT id FROM expired) AND status = 'RESERVED'
+         )
+         SELECT id FROM expired`
     );
     return res.rowCount || 0;
 }
+
+/**
+ * Expires PAID_SEARCHING bookings past their expires_at that no provider accepted.
+ * Voids the authorization so the customer's card is no longer held.
+ * Each booking is claimed with SKIP LOCKED in its own transaction.
+ */
+export async function expireSearchingBookings(batchSize = 50): Promise<number> {
+    let expired = 0;
+
+    while (expired < batchSize) {
+        const done = await withTx(async (client) => {
+            // 1. Claim the next expired search
+            const res = await client.query<{ id: string; customer_id: string; expires_at: string }>(
+                `SELECT id, customer_id, expires_at FROM bookings
+                 WHERE status = 'PAID_SEARCHING'
+                 AND expires_at < NOW()
+                 ORDER BY expires_at ASC
+                 LIMIT 1
+                 FOR UPDATE SKIP LOCKED`
+            );
+            if (res.rowCount === 0) return false;
+            const booking = res.rows[0];
+
+            // 2. Void authorization
+            await releaseAuthorization(booking.id, client);
+
+            // 3. Transition through the state machine (logs transition_expired)
+            const result = await updateBookingStatus(booking.id, 'EXPIRED', 'System', undefined, undefined, client);
+            if (!result.ok) throw new Error(result.error);
+
+            // 4. Queue notification for customer
+            await client.query(
+                `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+                 VALUES ($1, $2, $3, $4)`,
+                [booking.id, booking.customer_id, 'BOOKING_EXPIRED', JSON.stringify({ message: 'No provider accepted in time. Your payment hold has been released.', expires_at: booking.expires_at })]
+            );
+            return true;
+        });
+
+        if (!done) break;
+        expired++;
+    }
+
+    return expired;
+}
+
+/**
+ * Auto-closes COMPLETE_PENDING bookings whose grace window has elapsed.
+ * Each booking is claimed with SKIP LOCKED in its own transaction, so several
+ * instances can run this concurrently without double-capturing.
+ * Capture failures leave the booking in COMPLETE_PENDING, alert an admin and queue a
+ * capture retry; bookings with a queued retry are left to the capture_retry job.
+ */
+export async function autoCloseCompletedBookings(batchSize = 50): Promise<number> {
+    let closed = 0;
+    const attempted: string[] = [];
+
+    while (attempted.length < batchSize) {
+        const outcome = await withTx(async (client) => {
+            // 1. Claim the next expired grace window
+            const res = await client.query<{ id: string; provider_id: string | null; complete_pending_until: string }>(
+                `SELECT id, provider_id, complete_pending_until FROM bookings
+                 WHERE status = 'COMPLETE_PENDING'
+                 AND complete_pending_until < NOW()
+                 AND NOT (id = ANY($1::uuid[]))
+                 AND NOT EXISTS (SELECT 1 FROM capture_retries r WHERE r.booking_id = bookings.id AND r.status = 'PENDING')
+                 ORDER BY complete_pending_until ASC
+                 LIMIT 1
+                 FOR UPDATE SKIP LOCKED`,
+                [attempted]
+            );
+            if (res.rowCount === 0) return null;
+            const booking = res.rows[0];
+            attempted.push(booking.id);
+
+            // 2. Capture if the provider-complete path left the authorization open
+            const intentRes = await client.query(
+                `SELECT 1 FROM payment_intents WHERE booking_id = $1 AND status = 'SUCCEEDED'`,
+                [booking.id]
+            );
+            const alreadyCaptured = (intentRes.rowCount ?? 0) > 0;
+
+            if (!alreadyCaptured) {
+                try {
+                    await capturePayment(booking.id, client);
+                } catch (e: any) {
+                    await client.query(
+                        `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+                         VALUES ($1, $2, $3, $4, $5)`,
+                        [booking.id, 'capture_failed', 'System', null, JSON.stringify({ error: e.message, trigger: 'auto_close' })]
+                    );
+                    await client.query(
+                        `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+                         VALUES ($1, $2, $3, $4)`,
+                        [booking.id, 'SYSTEM_ADMIN', 'CAPTURE_FAILED', JSON.stringify({ error: e.message, providerId: booking.provider_id })]
+                    );
+                    await recordCaptureFailure(client, booking.id, e, { target: 'CLOSED', trigger: 'auto_close' });
+                    return 'failed';
+                }
+            }
+
+            // 3. Close through the state machine
+            const result = await updateBookingStatus(booking.id, 'CLOSED', 'System', undefined, undefined, client);
+            if (!result.ok) throw new Error(result.error);
+
+            // 4. Log event
+            await client.query(
+                `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+                 VALUES ($1, $2, $3, $4, $5)`,
+                [booking.id, 'auto_closed', 'System', null, JSON.stringify({ complete_pending_until: booking.complete_pending_until, captured: !alreadyCaptured })]
+            );
+            return 'closed';
+        });
+
+        if (outcome === null) break;
+        if (outcome === 'closed') closed++;
+    }
+
+    return closed;
+}
+
 /**
  * Provider cancels a booking (Re-dispatch flow).
  * Only allowed in ACCEPTED or EN_ROUTE.
@@ -303,10 +510,13 @@ export async function providerCancelBooking(id: string, providerId: string): Pro
             return { ok: false, error: `Invalid transition from ${currentStatus} to PAID_SEARCHING for Provider` };
         }
 
-        // 1. Revert status to PAID_SEARCHING and clear provider_id
+        // 1. Revert status to PAID_SEARCHING and clear provider_id; the search window starts over
         await client.query(
-            `UPDATE bookings SET status = $1, provider_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $2`,
-            ['PAID_SEARCHING', id]
+            `UPDATE bookings
+             SET status = $1, provider_id = NULL, last_dispatched_at = CURRENT_TIMESTAMP,
+                 expires_at = CURRENT_TIMESTAMP + $3 * INTERVAL '1 minute', updated_at = CURRENT_TIMESTAMP
+             WHERE id = $2`,
+            ['PAID_SEARCHING', id, config.dispatch.searchWindowMinutes]
         );
 
         // 2. Log event
@@ -377,9 +587,10 @@ export async function flagIssue(id: string, customerId: string, reason: string):
 
 /**
  * Finishes service and attempts payment capture.
- * If capture fails, the booking remains IN_PROGRESS.
+ * If capture fails, the booking remains IN_PROGRESS and the capture is queued for retry
+ * (or escalated to NEEDS_REVIEW when it cannot succeed).
  */
-export async function completeBooking(id: string, providerId: string): Promise<{ ok: boolean; error?: string; code?: string }> {
+export async function completeBooking(id: string, providerId: string): Promise<{ ok: boolean; error?: string; code?: string; retry?: CaptureRetry }> {
     return withTx(async (client) => {
         // 1. Fetch current status with lock
         const res = await client.query(
@@ -415,7 +626,8 @@ export async function completeBooking(id: string, providerId: string): Promise<{
                 [id, 'SYSTEM_ADMIN', 'CAPTURE_FAILED', JSON.stringify({ error: e.message, providerId })]
             );
 
-            return { ok: false, error: 'Payment capture failed', code: 'CAPTURE_FAILED' };
+            const retry = await recordCaptureFailure(client, id, e, { target: 'COMPLETE_PENDING', trigger: 'complete' });
+            return { ok: false, error: 'Payment capture failed', code: 'CAPTURE_FAILED', retry };
         }
 
         // 4. Advance State (Using our refactored status updater)
@@ -0,0 +1,326 @@
+import pg from 'pg';
+import { query, withTx } from '../db.js';
+import { config } from '../config.js';
+import { updateBookingStatus } from './bookings.js';
+import { capturePayment, captureFee, outstandingFee, releaseAuthorization, PaymentIntent, CancellationFeeOutcome } from './payments.js';
+import { GatewayError } from '../gateways/index.js';
+
+// CANCELLED: a cancellation fee capture; the booking is already cancelled
+export type CaptureTarget = 'COMPLETE_PENDING' | 'CLOSED' | 'CANCELLED';
+export type CaptureTrigger = 'complete' | 'confirm_complete' | 'auto_close' | 'cancel';
+
+export interface CaptureRetry {
+    id: string;
+    booking_id: string;
+    target_status: CaptureTarget;
+    status: 'PENDING' | 'SUCCEEDED' | 'ESCALATED' | 'CANCELLED';
+    trigger: CaptureTrigger;
+    amount_cents: number | null; // Partial capture (cancellation fee); null captures the whole authorization
+    attempts: number;
+    next_attempt_at: string | null;
+    last_error: string | null;
+    last_error_code: string | null;
+    escalation_reason: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Gateway errors say whether they are retryable. Anything else (network, database)
+ * is assumed transient; the attempt cap still bounds it.
+ */
+export function classifyCaptureError(error: unknown): { code: string; retryable: boolean } {
+    if (error instanceof GatewayError) {
+        return { code: error.code, retryable: error.retryable };
+    }
+    return { code: 'unknown', retryable: true };
+}
+
+/**
+ * Delay before the next attempt, after `attempts` failures: base * 2^(attempts-1), capped.
+ */
+function backoffMs(attempts: number): number {
+    return Math.min(config.captureRetry.baseDelayMs * 2 ** (attempts - 1), config.captureRetry.maxDelayMs);
+}
+
+/**
+ * Queues a failed capture for retry, or escalates the booking to NEEDS_REVIEW when the
+ * error is terminal or the attempts are used up. A cancellation fee capture is not escalated:
+ * it gives up (CANCELLED) and the caller turns the fee into an outstanding balance.
+ * Runs in the caller's transaction.
+ */
+export async function recordCaptureFailure(
+    client: pg.PoolClient,
+    bookingId: string,
+    error: unknown,
+    origin: { target: CaptureTarget; trigger: CaptureTrigger; amountCents?: number }
+): Promise<CaptureRetry> {
+    const { code, retryable } = classifyCaptureError(error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    // One row per booking; a resolved row starts over
+    const res = await client.query<CaptureRetry>(
+        `INSERT INTO capture_retries (booking_id, target_status, trigger, amount_cents, attempts, last_error, last_error_code)
+         VALUES ($1, $2, $3, $4, 1, $5, $6)
+         ON CONFLICT (booking_id) DO UPDATE SET
+             attempts = CASE WHEN capture_retries.status IN ('PENDING', 'ESCALATED') THEN capture_retries.attempts + 1 ELSE 1 END,
+             status = CASE WHEN capture_retries.status = 'ESCALATED' THEN 'ESCALATED' ELSE 'PENDING' END,
+             target_status = CASE WHEN capture_retries.status IN ('PENDING', 'ESCALATED') THEN capture_retries.target_status ELSE EXCLUDED.target_status END,
+             trigger = CASE WHEN capture_retries.status IN ('PENDING', 'ESCALATED') THEN capture_retries.trigger ELSE EXCLUDED.trigger END,
+             amount_cents = CASE WHEN capture_retries.status IN ('PENDING', 'ESCALATED') THEN capture_retries.amount_cents ELSE EXCLUDED.amount_cents END,
+             last_error = EXCLUDED.last_error,
+             last_error_code = EXCLUDED.last_error_code,
+             updated_at = CURRENT_TIMESTAMP
+         RETURNING *`,
+        [bookingId, origin.target, origin.trigger, origin.amountCents ?? null, message, code]
+    );
+    const retry = res.rows[0];
+    if (retry.status === 'ESCALATED') return retry; // Already with an admin
+
+    if (retryable && retry.attempts < config.captureRetry.maxAttempts) {
+        const scheduled = await client.query<CaptureRetry>(
+            `UPDATE capture_retries SET next_attempt_at = NOW() + ($2 * INTERVAL '1 millisecond')
+             WHERE id = $1 RETURNING *`,
+            [retry.id, backoffMs(retry.attempts)]
+        );
+        return scheduled.rows[0];
+    }
+
+    if (retry.target_status === 'CANCELLED') {
+        const gaveUp = await client.query<CaptureRetry>(
+            `UPDATE capture_retries SET status = 'CANCELLED', next_attempt_at = NULL, escalation_reason = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 RETURNING *`,
+            [retry.id, `Cancellation fee not captured after ${retry.attempts} attempt(s) (${code}): ${message}; left as an outstanding balance`]
+        );
+        return gaveUp.rows[0];
+    }
+
+    // Escalate: a person has to look at it
+    const reason = retryable
+        ? `Capture failed ${retry.attempts} times; last error: ${message}`
+        : `Capture failed with a terminal gateway error (${code}): ${message}`;
+    const escalated = await client.query<CaptureRetry>(
+        `UPDATE capture_retries SET status = 'ESCALATED', next_attempt_at = NULL, escalation_reason = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 RETURNING *`,
+        [retry.id, reason]
+    );
+
+    const moved = await updateBookingStatus(bookingId, 'NEEDS_REVIEW', 'System', undefined, undefined, client);
+    if (!moved.ok) throw new Error(`Failed to escalate booking ${bookingId}: ${moved.error}`);
+
+    await client.query(
+        `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [bookingId, 'capture_escalated', 'System', null, JSON.stringify({ reason, attempts: retry.attempts, code })]
+    );
+    await client.query(
+        `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+         VALUES ($1, $2, $3, $4)`,
+        [bookingId, 'SYSTEM_ADMIN', 'CAPTURE_ESCALATED', JSON.stringify({ reason, attempts: retry.attempts })]
+    );
+
+    return escalated.rows[0];
+}
+
+/**
+ * Tries one queued capture. The booking must still be where the failure left it
+ * (or in NEEDS_REVIEW for an admin retrying an escalated capture); otherwise the retry is dropped.
+ * On success the booking moves on: COMPLETE_PENDING for the provider, or CLOSED.
+ */
+async function attemptCapture(client: pg.PoolClient, retry: CaptureRetry, adminId?: string): Promise<CaptureRetry> {
+    if (retry.target_status === 'CANCELLED') return attemptFeeCapture(client, retry, adminId);
+
+    const bookingRes = await client.query<{ status: string; provider_id: string | null }>(
+        'SELECT status, provider_id FROM bookings WHERE id = $1 FOR UPDATE',
+        [retry.booking_id]
+    );
+    const booking = bookingRes.rows[0];
+    const from = retry.target_status === 'COMPLETE_PENDING' ? 'IN_PROGRESS' : 'COMPLETE_PENDING';
+    const escalated = retry.status === 'ESCALATED' && booking.status === 'NEEDS_REVIEW';
+
+    if (booking.status !== from && !escalated) {
+        const res = await client.query<CaptureRetry>(
+            `UPDATE capture_retries SET status = 'CANCELLED', next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 RETURNING *`,
+            [retry.id]
+        );
+        return res.rows[0];
+    }
+
+    const capturedRes = await client.query(
+        `SELECT 1 FROM payment_intents WHERE booking_id = $1 AND status = 'SUCCEEDED'`,
+        [retry.booking_id]
+    );
+    if (capturedRes.rowCount === 0) {
+        try {
+            await capturePayment(retry.booking_id, client);
+        } catch (e: any) {
+            await client.query(
+                `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+                 VALUES ($1, $2, $3, $4, $5)`,
+                [retry.booking_id, 'capture_failed', adminId ? 'Admin' : 'System', adminId ?? null, JSON.stringify({ error: e.message, trigger: 'capture_retry', attempt: retry.attempts + 1 })]
+            );
+            return recordCaptureFailure(client, retry.booking_id, e, { target: retry.target_status, trigger: retry.trigger });
+        }
+    }
+
+    // An admin retrying an escalated capture has reviewed it: close
+    const result = escalated
+        ? await updateBookingStatus(retry.booking_id, 'CLOSED', 'Admin', adminId, undefined, client)
+        : retry.target_status === 'COMPLETE_PENDING'
+            ? await updateBookingStatus(retry.booking_id, 'COMPLETE_PENDING', 'Provider', booking.provider_id ?? undefined, undefined, client)
+            : await updateBookingStatus(retry.booking_id, 'CLOSED', 'System', undefined, undefined, client);
+    if (!result.ok) throw new Error(result.error);
+
+    const res = await client.query<CaptureRetry>(
+        `UPDATE capture_retries SET status = 'SUCCEEDED', next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 RETURNING *`,
+        [retry.id]
+    );
+    await client.query(
+        `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [retry.booking_id, 'capture_retried', adminId ? 'Admin' : 'System', adminId ?? null, JSON.stringify({ attempts: retry.attempts + 1, forced: !!adminId })]
+    );
+    return res.rows[0];
+}
+
+/**
+ * Tries one queued cancellation fee capture. The booking must still be CANCELLED with its fee
+ * PENDING; otherwise the retry is dropped. Collected: the rest of the hold is released. Given up
+ * (terminal error, attempts used up, or the hold is gone): the fee becomes an outstanding
+ * balance and the whole hold is released. Either way the booking records the outcome.
+ */
+async function attemptFeeCapture(client: pg.PoolClient, retry: CaptureRetry, adminId?: string): Promise<CaptureRetry> {
+    const bookingRes = await client.query<{ status: string; cancellation_fee_status: string | null }>(
+        'SELECT status, cancellation_fee_status FROM bookings WHERE id = $1 FOR UPDATE',
+        [retry.booking_id]
+    );
+    const booking = bookingRes.rows[0];
+    if (booking.status !== 'CANCELLED' || booking.cancellation_fee_status !== 'PENDING') {
+        const res = await client.query<CaptureRetry>(
+            `UPDATE capture_retries SET status = 'CANCELLED', next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 RETURNING *`,
+            [retry.id]
+        );
+        return res.rows[0];
+    }
+
+    const fee = retry.amount_cents ?? config.payments.cancellationFeeCents;
+    let resolved: CaptureRetry['status'] = 'CANCELLED';
+    let outcome: CancellationFeeOutcome;
+    const intentRes = await client.query<PaymentIntent>(
+        `SELECT * FROM payment_intents WHERE booking_id = $1 AND status = 'AUTHORIZED' ORDER BY created_at DESC LIMIT 1 FOR UPDATE`,
+        [retry.booking_id]
+    );
+    if (intentRes.rowCount === 0) {
+        // The hold lapsed or was voided while the fee waited
+        outcome = await outstandingFee(client, retry.booking_id, fee, 'no_authorization');
+    } else {
+        try {
+            outcome = await captureFee(client, intentRes.rows[0], fee);
+            resolved = 'SUCCEEDED';
+        } catch (e: any) {
+            await client.query(
+                `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+                 VALUES ($1, $2, $3, $4, $5)`,
+                [retry.booking_id, 'capture_failed', adminId ? 'Admin' : 'System', adminId ?? null, JSON.stringify({ error: e.message, trigger: 'capture_retry', attempt: retry.attempts + 1, fee_cents: fee })]
+            );
+            const failed = await recordCaptureFailure(client, retry.booking_id, e, { target: 'CANCELLED', trigger: 'cancel', amountCents: fee });
+            if (failed.status === 'PENDING') return failed;
+            outcome = await outstandingFee(client, retry.booking_id, fee, classifyCaptureError(e).code);
+        }
+    }
+
+    const released = outcome.released_cents + await releaseAuthorization(retry.booking_id, client);
+    await client.query(
+        `UPDATE bookings SET cancellation_fee_status = $2, released_cents = $3, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+        [retry.booking_id, outcome.status, released]
+    );
+    await client.query(
+        `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [retry.booking_id, 'cancellation_fee_retried', adminId ? 'Admin' : 'System', adminId ?? null, JSON.stringify({
+            fee_cents: fee, fee_status: outcome.status, released_cents: released, balance_id: outcome.balance_id ?? null,
+            fee_failure: outcome.reason ?? null, attempts: retry.attempts + 1, forced: !!adminId,
+        })]
+    );
+
+    // A give-up recorded by recordCaptureFailure is already CANCELLED
+    const res = await client.query<CaptureRetry>(
+        `UPDATE capture_retries SET status = $2, next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 RETURNING *`,
+        [retry.id, resolved]
+    );
+    return res.rows[0];
+}
+
+/**
+ * Retries due captures. Each is claimed (with its booking) via SKIP LOCKED in its own
+ * transaction, so concurrent workers never double-capture.
+ */
+export async function retryDueCaptures(batchSize = 20): Promise<{ succeeded: number; rescheduled: number; escalated: number }> {
+    const counts = { succeeded: 0, rescheduled: 0, escalated: 0 };
+    const attempted: string[] = [];
+
+    while (attempted.length < batchSize) {
+        const outcome = await withTx(async (client) => {
+            const res = await client.query<CaptureRetry>(
+                `SELECT r.* FROM capture_retries r
+                 JOIN bookings b ON b.id = r.booking_id
+                 WHERE r.status = 'PENDING' AND r.next_attempt_at <= NOW()
+                 AND NOT (r.id = ANY($1::uuid[]))
+                 ORDER BY r.next_attempt_at ASC
+                 LIMIT 1
+                 FOR UPDATE OF r, b SKIP LOCKED`,
+                [attempted]
+            );
+            if (res.rowCount === 0) return null;
+            attempted.push(res.rows[0].id);
+            return (await attemptCapture(client, res.rows[0])).status;
+        });
+
+        if (outcome === null) break;
+        if (outcome === 'SUCCEEDED') counts.succeeded++;
+        else if (outcome === 'PENDING') counts.rescheduled++;
+        else if (outcome === 'ESCALATED') counts.escalated++;
+    }
+
+    return counts;
+}
+
+/**
+ * Admin: retry a queued or escalated capture now, ignoring the backoff.
+ */
+export async function forceCaptureRetry(bookingId: string, adminId: string): Promise<{ ok: boolean; retry?: CaptureRetry; error?: string; code?: string }> {
+    return withTx(async (client) => {
+        const bookingRes = await client.query('SELECT id FROM bookings WHERE id = $1 FOR UPDATE', [bookingId]);
+        if (bookingRes.rowCount === 0) return { ok: false, error: 'Booking not found', code: 'NOT_FOUND' };
+
+        const res = await client.query<CaptureRetry>(
+            'SELECT * FROM capture_retries WHERE booking_id = $1 FOR UPDATE',
+            [bookingId]
+        );
+        if (res.rowCount === 0) return { ok: false, error: 'No capture retry for this booking', code: 'NOT_FOUND' };
+        const retry = res.rows[0];
+        if (retry.status !== 'PENDING' && retry.status !== 'ESCALATED') {
+            return { ok: false, error: `Capture retry is already ${retry.status}`, code: 'ALREADY_RESOLVED' };
+        }
+
+        return { ok: true, retry: await attemptCapture(client, retry, adminId) };
+    });
+}
+
+/**
+ * Admin view of the queue, oldest first, with each booking's current status.
+ */
+export async function listCaptureRetries(status?: CaptureRetry['status']): Promise<(CaptureRetry & { booking_status: string })[]> {
+    const res = await query<CaptureRetry & { booking_status: string }>(
+        `SELECT r.*, b.status AS booking_status FROM capture_retries r
+         JOIN bookings b ON b.id = r.booking_id
+         WHERE ($1::text IS NULL OR r.status = $1)
+         ORDER BY r.created_at ASC`,
+        [status ?? null]
+    );
+    return res.rows;
+}
@@ -0,0 +1,77 @@
+import pg from 'pg';
+import { query } from '../db.js';
+import { getServiceById } from './services.js';
+import { config } from '../config.js';
+
+export interface CommissionRule {
+    id: string;
+    category: string | null;
+    service_id: string | null;
+    rate_bps: number;
+    effective_from: string;
+    created_by: string | null;
+    created_at: string;
+}
+
+/**
+ * Platform share of an amount at the given rate; the provider keeps the rest.
+ */
+export function splitCommission(amountCents: number, rateBps: number): { platform_gross_cents: number; provider_net_cents: number } {
+    const platform = Math.round((amountCents * rateBps) / 10000);
+    return { platform_gross_cents: platform, provider_net_cents: amountCents - platform };
+}
+
+/**
+ * Rate in force for a service at a point in time. A service override beats its
+ * category's rule; with neither, the platform default applies (rule_id null).
+ */
+export async function resolveCommission(
+    service: { id: string; category: string } | undefined,
+    at: Date = new Date(),
+    client?: pg.PoolClient
+): Promise<{ rule_id: string | null; rate_bps: number }> {
+    if (service) {
+        const sql = `SELECT id, rate_bps FROM commission_rules
+                     WHERE (service_id = $1 OR category = $2) AND effective_from <= $3
+                     ORDER BY (service_id IS NOT NULL) DESC, effective_from DESC
+                     LIMIT 1`;
+        const params = [service.id, service.category, at.toISOString()];
+        const res = client ? await client.query(sql, params) : await query(sql, params);
+        if (res.rows[0]) return { rule_id: res.rows[0].id, rate_bps: res.rows[0].rate_bps };
+    }
+    return { rule_id: null, rate_bps: config.payouts.commissionBps };
+}
+
+/**
+ * Adds a rule for a category or a single service. Existing rules are never edited,
+ * so bookings keep the rate they were created under.
+ */
+export async function createCommissionRule(
+    data: { category?: string; service_id?: string; rate_bps: number; effective_from?: string },
+    adminId: string
+): Promise<{ ok: boolean; rule?: CommissionRule; error?: string; code?: string }> {
+    if (!!data.category === !!data.service_id) {
+        return { ok: false, error: 'Provide exactly one of category or service_id', code: 'INVALID_SCOPE' };
+    }
+    if (data.service_id && !(await getServiceById(data.service_id))) {
+        return { ok: false, error: 'Service not found', code: 'NOT_FOUND' };
+    }
+
+    const res = await query<CommissionRule>(
+        `INSERT INTO commission_rules (category, service_id, rate_bps, effective_from, created_by)
+         VALUES ($1, $2, $3, COALESCE($4::timestamptz, CURRENT_TIMESTAMP), $5)
+         RETURNING *`,
+        [data.category ?? null, data.service_id ?? null, data.rate_bps, data.effective_from ?? null, adminId]
+    );
+    return { ok: true, rule: res.rows[0] };
+}
+
+/**
+ * All rules, newest effective date first.
+ */
+export async function listCommissionRules(): Promise<CommissionRule[]> {
+    const res = await query<CommissionRule>(
+        'SELECT * FROM commission_rules ORDER BY effective_from DESC, created_at DESC'
+    );
+    return res.rows;
+}
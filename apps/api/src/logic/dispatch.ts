@@ -0,0 +1,302 @@
+import pg from 'pg';
+import { query, withTx } from '../db.js';
+import { config } from '../config.js';
+
+export interface Candidate {
+    uid: string;
+    distance_km: number | null; // null when the booking has no job location
+}
+
+export interface CandidateQuery {
+    serviceId: string;
+    location?: { lat: number; lng: number } | null;
+    radiusKm: number;
+    locationMaxAgeMinutes: number;
+    limit: number;
+    exclude?: string[]; // Provider UIDs already offered
+}
+
+/**
+ * Great-circle distance (km) between a provider's last fix and the job location ($2, $3).
+ */
+const DISTANCE_KM_SQL = `6371 * 2 * ASIN(SQRT(
+    POWER(SIN(RADIANS(pl.lat - $2) / 2), 2) +
+    COS(RADIANS($2)) * COS(RADIANS(pl.lat)) * POWER(SIN(RADIANS(pl.lng - $3) / 2), 2)
+))`;
+
+/**
+ * Selects online providers for a service.
+ * With a job location: ranked by distance from their last known location, dropping
+ * providers outside the radius or whose fix is older than locationMaxAgeMinutes.
+ * Without one: deterministic fallback ordered by onboarding time.
+ */
+export async function selectCandidates(client: pg.PoolClient, q: CandidateQuery): Promise<Candidate[]> {
+    const exclude = q.exclude ?? [];
+
+    if (!q.location) {
+        const res = await client.query<{ user_uid: string }>(
+            `SELECT p.user_uid FROM providers p
+             JOIN provider_services ps ON p.id = ps.provider_id
+             WHERE ps.service_id = $1 AND p.is_online = TRUE
+             AND NOT (p.user_uid = ANY($3::text[]))
+             ORDER BY p.created_at ASC
+             LIMIT $2`,
+            [q.serviceId, q.limit, exclude]
+        );
+        return res.rows.map(r => ({ uid: r.user_uid, distance_km: null }));
+    }
+
+    const res = await client.query<{ user_uid: string; distance_km: number }>(
+        `SELECT user_uid, distance_km FROM (
+             SELECT p.user_uid, p.created_at, ${DISTANCE_KM_SQL} AS distance_km
+             FROM providers p
+             JOIN provider_services ps ON p.id = ps.provider_id
+             JOIN provider_locations pl ON pl.provider_id = p.id
+             WHERE ps.service_id = $1 AND p.is_online = TRUE
+             AND pl.updated_at > NOW() - make_interval(mins => $5)
+             AND NOT (p.user_uid = ANY($7::text[]))
+         ) nearby
+         WHERE distance_km <= $4
+         ORDER BY distance_km ASC, created_at ASC
+         LIMIT $6`,
+        [q.serviceId, q.location.lat, q.location.lng, q.radiusKm, q.locationMaxAgeMinutes, q.limit, exclude]
+    );
+    return res.rows.map(r => ({ uid: r.user_uid, distance_km: Math.round(r.distance_km * 100) / 100 }));
+}
+
+/**
+ * Builds the uid -> distance map stored on bookings.candidate_distances.
+ */
+export function toDistanceMap(candidates: Candidate[]): Record<string, number> {
+    const map: Record<string, number> = {};
+    for (const c of candidates) {
+        if (c.distance_km !== null) map[c.uid] = c.distance_km;
+    }
+    return map;
+}
+
+/**
+ * Search radius for a dispatch wave: the base radius grows geometrically per wave.
+ */
+export function waveRadiusKm(wave: number): number {
+    return config.dispatch.radiusKm * Math.pow(config.dispatch.radiusGrowth, wave - 1);
+}
+
+interface DispatchState {
+    id: string;
+    service_id: string;
+    job_lat: number | null;
+    job_lng: number | null;
+    candidate_list: string[];
+    dispatch_wave: number;
+    has_slot: boolean;
+}
+
+const DISPATCH_STATE_COLUMNS = `b.id, b.service_id, b.job_lat, b.job_lng, b.candidate_list, b.dispatch_wave,
+    EXISTS (SELECT 1 FROM availability_slots s WHERE s.booking_id = b.id) AS has_slot`;
+
+/**
+ * Runs the next dispatch wave for a locked booking, or escalates to an admin
+ * when waves are exhausted. Providers who declined are never re-offered.
+ */
+async function dispatchNextWave(client: pg.PoolClient, booking: DispatchState, trigger: string): Promise<'advanced' | 'escalated'> {
+    // 1. Waves exhausted: escalate instead of silently waiting
+    if (booking.has_slot || booking.dispatch_wave >= config.dispatch.maxWaves) {
+        await client.query(
+            'UPDATE bookings SET dispatch_escalated_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [booking.id]
+        );
+        await client.query(
+            `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [booking.id, 'dispatch_exhausted', 'System', null, JSON.stringify({ waves: booking.dispatch_wave, candidates: booking.candidate_list, trigger })]
+        );
+        await client.query(
+            `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+             VALUES ($1, $2, $3, $4)`,
+            [booking.id, 'SYSTEM_ADMIN', 'DISPATCH_EXHAUSTED', JSON.stringify({ waves: booking.dispatch_wave, candidates: booking.candidate_list.length })]
+        );
+        return 'escalated';
+    }
+
+    // 2. Next wave: wider radius, excluding providers already offered or who declined
+    const declinedRes = await client.query<{ provider_uid: string }>(
+        'SELECT provider_uid FROM offer_declines WHERE booking_id = $1',
+        [booking.id]
+    );
+    const wave = booking.dispatch_wave + 1;
+    const radiusKm = waveRadiusKm(wave);
+    const added = await selectCandidates(client, {
+        serviceId: booking.service_id,
+        location: booking.job_lat !== null && booking.job_lng !== null ? { lat: booking.job_lat, lng: booking.job_lng } : null,
+        radiusKm,
+        locationMaxAgeMinutes: config.dispatch.locationMaxAgeMinutes,
+        limit: config.dispatch.maxCandidates,
+        exclude: [...booking.candidate_list, ...declinedRes.rows.map(r => r.provider_uid)],
+    });
+
+    await client.query(
+        `UPDATE bookings
+         SET candidate_list = candidate_list || $1::jsonb,
+             candidate_distances = COALESCE(candidate_distances, '{}'::jsonb) || $2::jsonb,
+             dispatch_wave = $3,
+             last_dispatched_at = CURRENT_TIMESTAMP,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $4`,
+        [JSON.stringify(added.map(c => c.uid)), JSON.stringify(toDistanceMap(added)), wave, booking.id]
+    );
+
+    // 3. Log event
+    await client.query(
+        `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [booking.id, 'dispatch_wave', 'System', null, JSON.stringify({ wave, radius_km: radiusKm, added, trigger })]
+    );
+    return 'advanced';
+}
+
+/**
+ * Advances dispatch for PAID_SEARCHING bookings whose current wave window elapsed
+ * without an accept. Each wave widens the radius and appends up to maxCandidates
+ * new providers. Once waves are exhausted, an admin is alerted once.
+ * Bookings on a reserved slot are never widened (the customer chose that provider).
+ */
+export async function advanceDispatchWaves(batchSize = 50): Promise<{ advanced: number; escalated: number }> {
+    let advanced = 0;
+    let escalated = 0;
+    const attempted: string[] = [];
+
+    while (attempted.length < batchSize) {
+        const outcome = await withTx(async (client) => {
+            // Claim the next booking whose wave window elapsed
+            const res = await client.query<DispatchState>(
+                `SELECT ${DISPATCH_STATE_COLUMNS}
+                 FROM bookings b
+                 WHERE b.status = 'PAID_SEARCHING'
+                 AND b.dispatch_escalated_at IS NULL
+                 AND b.last_dispatched_at < NOW() - make_interval(secs => $1)
+                 AND NOT (b.id = ANY($2::uuid[]))
+                 ORDER BY b.last_dispatched_at ASC
+                 LIMIT 1
+                 FOR UPDATE OF b SKIP LOCKED`,
+                [config.dispatch.waveWindowSeconds, attempted]
+            );
+            if (res.rowCount === 0) return null;
+            attempted.push(res.rows[0].id);
+
+            return dispatchNextWave(client, res.rows[0], 'wave_timeout');
+        });
+
+        if (outcome === null) break;
+        if (outcome === 'advanced') advanced++;
+        if (outcome === 'escalated') escalated++;
+    }
+
+    return { advanced, escalated };
+}
+
+export const DECLINE_REASONS = ['TOO_FAR', 'BUSY', 'PRICE_TOO_LOW', 'OUTSIDE_SKILLS', 'OTHER'] as const;
+export type DeclineReason = typeof DECLINE_REASONS[number];
+
+/**
+ * Provider declines an offer.
+ * Removes them from the candidate list and, if nobody is left, re-dispatches immediately.
+ */
+export async function declineOffer(
+    bookingId: string,
+    providerUid: string,
+    reason?: DeclineReason
+): Promise<{ ok: boolean; error?: string; redispatched?: boolean }> {
+    return withTx(async (client) => {
+        // 1. Fetch current dispatch state with lock
+        const res = await client.query<DispatchState & { status: string }>(
+            `SELECT ${DISPATCH_STATE_COLUMNS}, b.status FROM bookings b WHERE b.id = $1 FOR UPDATE OF b`,
+            [bookingId]
+        );
+        if (res.rowCount === 0) return { ok: false, error: 'Booking not found' };
+        const booking = res.rows[0];
+
+        if (booking.status !== 'PAID_SEARCHING') {
+            return { ok: false, error: `Cannot decline booking in state ${booking.status}` };
+        }
+        if (!booking.candidate_list.includes(providerUid)) {
+            return { ok: false, error: 'Provider is not in the candidate list for this booking' };
+        }
+
+        // 2. Remove provider from the offer
+        const updateRes = await client.query<{ candidate_list: string[] }>(
+            `UPDATE bookings
+             SET candidate_list = candidate_list - $1::text,
+                 candidate_distances = COALESCE(candidate_distances, '{}'::jsonb) - $1::text,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $2
+             RETURNING candidate_list`,
+            [providerUid, bookingId]
+        );
+        const remaining = updateRes.rows[0].candidate_list;
+
+        // 3. Record decline (feeds per-provider decline rates)
+        await client.query(
+            `INSERT INTO offer_declines (booking_id, provider_uid, reason)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (booking_id, provider_uid) DO NOTHING`,
+            [bookingId, providerUid, reason ?? null]
+        );
+
+        // 4. Log event
+        await client.query(
+            `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [bookingId, 'offer_declined', 'Provider', providerUid, JSON.stringify({ reason: reason ?? null, remaining: remaining.length })]
+        );
+
+        // 5. Nobody left to accept: re-dispatch now rather than waiting for the wave window
+        if (remaining.length === 0) {
+            await dispatchNextWave(client, { ...booking, candidate_list: remaining }, 'all_declined');
+            return { ok: true, redispatched: true };
+        }
+
+        return { ok: true, redispatched: false };
+    });
+}
+
+/**
+ * Decline statistics for a provider over the last `days` days.
+ * Offered counts every booking the provider was a candidate for, including declined ones.
+ */
+export async function getDeclineStats(
+    providerUid: string,
+    days = 30
+): Promise<{ provider_uid: string; days: number; offered: number; declined: number; decline_rate: number; by_reason: Record<string, number> }> {
+    const offeredRes = await query<{ count: string }>(
+        `SELECT COUNT(*) FROM bookings
+         WHERE candidate_list @> $1::jsonb
+         AND created_at > NOW() - make_interval(days => $2)`,
+        [JSON.stringify([providerUid]), days]
+    );
+    const declinedRes = await query<{ reason: string | null; count: string }>(
+        `SELECT reason, COUNT(*) FROM offer_declines
+         WHERE provider_uid = $1
+         AND created_at > NOW() - make_interval(days => $2)
+         GROUP BY reason`,
+        [providerUid, days]
+    );
+
+    const byReason: Record<string, number> = {};
+    let declined = 0;
+    for (const row of declinedRes.rows) {
+        const count = parseInt(row.count);
+        byReason[row.reason ?? 'UNSPECIFIED'] = count;
+        declined += count;
+    }
+    const offered = parseInt(offeredRes.rows[0].count) + declined;
+
+    return {
+        provider_uid: providerUid,
+        days,
+        offered,
+        declined,
+        decline_rate: offered === 0 ? 0 : Math.round((declined / offered) * 1000) / 1000,
+        by_reason: byReason,
+    };
+}
@@ -0,0 +1,303 @@
+import crypto from 'crypto';
+import pg from 'pg';
+import { query, withTx } from '../db.js';
+import { GatewayEvent } from '../gateways/index.js';
+import { recordDisputeWithdrawal, recordDisputeReinstatement, recordDisputeLoss } from './ledger.js';
+
+export interface DisputeEvidence {
+    note: string;
+    url: string | null;
+    added_by: string;
+    added_at: string;
+}
+
+export interface Dispute {
+    id: string;
+    payment_intent_id: string;
+    booking_id: string;
+    provider: string;
+    gateway_dispute_id: string;
+    amount_cents: number;
+    reason: string | null;
+    status: 'OPEN' | 'WON' | 'LOST';
+    gateway_status: string | null;
+    evidence_due_by: string | null;
+    evidence: DisputeEvidence[];
+    outcome_note: string | null;
+    opened_by: string;
+    resolved_by: string | null;
+    resolved_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+type DisputeResult = { ok: boolean; dispute?: Dispute; error?: string; code?: string };
+
+interface DisputedIntent {
+    id: string;
+    booking_id: string;
+    provider: string;
+    captured_cents: number;
+}
+
+/**
+ * Records a new dispute: the gateway withdraws the amount (ledger), and the provider's
+ * earning for the booking is held from payouts while it is OPEN. Returns null if it is already known.
+ */
+async function openDispute(
+    client: pg.PoolClient,
+    intent: DisputedIntent,
+    input: { gateway_dispute_id: string; amount_cents: number; reason?: string | null; gateway_status?: string | null; evidence_due_by?: Date | null; opened_by: string }
+): Promise<Dispute | null> {
+    const res = await client.query<Dispute>(
+        `INSERT INTO disputes (payment_intent_id, booking_id, provider, gateway_dispute_id, amount_cents, reason, gateway_status, evidence_due_by, opened_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (provider, gateway_dispute_id) DO NOTHING
+         RETURNING *`,
+        [intent.id, intent.booking_id, intent.provider, input.gateway_dispute_id, input.amount_cents,
+            input.reason ?? null, input.gateway_status ?? null, input.evidence_due_by ?? null, input.opened_by]
+    );
+    if (res.rowCount === 0) return null;
+    const dispute = res.rows[0];
+
+    await recordDisputeWithdrawal(client, dispute);
+
+    const manual = input.opened_by !== 'gateway';
+    await client.query(
+        `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [dispute.booking_id, 'dispute_opened', manual ? 'Admin' : 'System', manual ? input.opened_by : null,
+            JSON.stringify({ dispute_id: dispute.id, amount_cents: dispute.amount_cents, reason: dispute.reason })]
+    );
+    await notify(client, dispute, 'DISPUTE_OPENED', { evidence_due_by: dispute.evidence_due_by });
+    return dispute;
+}
+
+/**
+ * Closes a dispute. WON returns the withdrawn funds; LOST charges them to the provider's
+ * unpaid share of the booking first (reducing the earning, as a refund does), the platform the rest.
+ */
+async function resolveDispute(client: pg.PoolClient, dispute: Dispute, outcome: 'WON' | 'LOST', resolvedBy: string, note?: string | null): Promise<Dispute> {
+    const res = await client.query<Dispute>(
+        `UPDATE disputes SET status = $2, resolved_by = $3, outcome_note = COALESCE($4, outcome_note),
+             resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 RETURNING *`,
+        [dispute.id, outcome, resolvedBy, note ?? null]
+    );
+    const resolved = res.rows[0];
+
+    let providerShare = 0;
+    if (outcome === 'WON') {
+        await recordDisputeReinstatement(client, resolved);
+    } else {
+        providerShare = await providerShareOfLoss(client, resolved);
+        await recordDisputeLoss(client, resolved, providerShare);
+        await client.query(
+            `UPDATE provider_earnings SET gross_cents = gross_cents - $2, net_cents = net_cents - $2
+             WHERE booking_id = $1 AND payout_id IS NULL`,
+            [resolved.booking_id, providerShare]
+        );
+    }
+
+    const manual = resolvedBy !== 'gateway';
+    await client.query(
+        `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [resolved.booking_id, 'dispute_closed', manual ? 'Admin' : 'System', manual ? resolvedBy : null,
+            JSON.stringify({ dispute_id: resolved.id, outcome, provider_share_cents: providerShare })]
+    );
+    await notify(client, resolved, 'DISPUTE_CLOSED', { outcome, provider_share_cents: providerShare });
+    return resolved;
+}
+
+/**
+ * What the provider can still bear: the unpaid earning's net, or before accrual the
+ * booking's balance in provider_payable. A paid-out earning bears nothing.
+ */
+async function providerShareOfLoss(client: pg.PoolClient, dispute: Dispute): Promise<number> {
+    const earningRes = await client.query<{ net_cents: string; payout_id: string | null }>(
+        'SELECT net_cents, payout_id FROM provider_earnings WHERE booking_id = $1 FOR UPDATE',
+        [dispute.booking_id]
+    );
+    let available: number;
+    if (earningRes.rowCount) {
+        const earning = earningRes.rows[0];
+        available = earning.payout_id ? 0 : Number(earning.net_cents);
+    } else {
+        const balanceRes = await client.query<{ balance: string }>(
+            `SELECT COALESCE(SUM(CASE WHEN l.direction = 'CREDIT' THEN l.amount_cents ELSE -l.amount_cents END), 0) AS balance
+             FROM journal_entries e
+             JOIN ledger_lines l ON l.journal_entry_id = e.id
+             WHERE e.booking_id = $1 AND l.account_code = 'provider_payable'`,
+            [dispute.booking_id]
+        );
+        available = Number(balanceRes.rows[0].balance);
+    }
+    return Math.min(dispute.amount_cents, Math.max(available, 0));
+}
+
+/**
+ * Admins always hear about a dispute; the provider whose payout it holds does too.
+ */
+async function notify(client: pg.PoolClient, dispute: Dispute, type: string, extra: Record<string, unknown>): Promise<void> {
+    const payload = JSON.stringify({ dispute_id: dispute.id, amount_cents: dispute.amount_cents, ...extra });
+    await client.query(
+        `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+         VALUES ($1, $2, $3, $4)`,
+        [dispute.booking_id, 'SYSTEM_ADMIN', type, payload]
+    );
+    await client.query(
+        `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+         SELECT id, provider_id::text, $2, $3 FROM bookings WHERE id = $1 AND provider_id IS NOT NULL`,
+        [dispute.booking_id, type, payload]
+    );
+}
+
+/**
+ * Gateway dispute webhook (Stripe `charge.dispute.*`). Any event for an unknown dispute opens it,
+ * so a `closed` that overtakes its `created` still books both. Safe to replay.
+ */
+export async function handleDisputeEvent(provider: string, event: GatewayEvent): Promise<void> {
+    const gatewayDispute = event.dispute;
+    if (!gatewayDispute?.id) throw new Error(`Dispute event ${event.id} has no dispute`);
+
+    await withTx(async (client) => {
+        const intentRes = await client.query<DisputedIntent>(
+            'SELECT id, booking_id, provider, captured_cents FROM payment_intents WHERE provider = $1 AND provider_ref = $2 FOR UPDATE',
+            [provider, event.provider_ref]
+        );
+        if (intentRes.rowCount === 0) {
+            throw new Error(`Payment intent not found for ref ${event.provider_ref}`);
+        }
+        const intent = intentRes.rows[0];
+
+        await openDispute(client, intent, {
+            gateway_dispute_id: gatewayDispute.id,
+            amount_cents: gatewayDispute.amount_cents,
+            reason: gatewayDispute.reason,
+            gateway_status: gatewayDispute.status,
+            evidence_due_by: gatewayDispute.evidence_due_by,
+            opened_by: 'gateway',
+        });
+
+        const res = await client.query<Dispute>(
+            `UPDATE disputes SET gateway_status = COALESCE($3, gateway_status),
+                 evidence_due_by = COALESCE($4, evidence_due_by), updated_at = CURRENT_TIMESTAMP
+             WHERE provider = $1 AND gateway_dispute_id = $2
+             RETURNING *`,
+            [provider, gatewayDispute.id, gatewayDispute.status ?? null, gatewayDispute.evidence_due_by ?? null]
+        );
+        const dispute = res.rows[0];
+
+        // An admin may have recorded the outcome already; the first decision stands
+        if (event.type === 'dispute.closed' && gatewayDispute.outcome && dispute.status === 'OPEN') {
+            await resolveDispute(client, dispute, gatewayDispute.outcome, 'gateway');
+        }
+    });
+}
+
+/**
+ * Admin: records a dispute the gateway does not report by webhook (PayFast chargebacks
+ * arrive by email). Opens against the booking's latest captured intent.
+ */
+export async function createManualDispute(
+    bookingId: string,
+    data: { amount_cents?: number; reason?: string; reference?: string },
+    adminId: string
+): Promise<DisputeResult> {
+    return withTx(async (client): Promise<DisputeResult> => {
+        const intentRes = await client.query<DisputedIntent>(
+            `SELECT id, booking_id, provider, captured_cents FROM payment_intents
+             WHERE booking_id = $1 AND status IN ('SUCCEEDED', 'PARTIALLY_REFUNDED', 'REFUNDED')
+             ORDER BY created_at DESC
+             LIMIT 1
+             FOR UPDATE`,
+            [bookingId]
+        );
+        if (intentRes.rowCount === 0) {
+            return { ok: false, error: 'No captured payment on this booking to dispute', code: 'NOT_CAPTURED' };
+        }
+        const intent = intentRes.rows[0];
+
+        const amount = data.amount_cents ?? intent.captured_cents;
+        if (amount > intent.captured_cents) {
+            return { ok: false, error: `Dispute exceeds the captured ${intent.captured_cents} cents`, code: 'AMOUNT_EXCEEDS_CAPTURED' };
+        }
+
+        const dispute = await openDispute(client, intent, {
+            gateway_dispute_id: data.reference ?? `manual_${crypto.randomUUID()}`,
+            amount_cents: amount,
+            reason: data.reason,
+            opened_by: adminId,
+        });
+        if (!dispute) return { ok: false, error: `Dispute ${data.reference} is already recorded`, code: 'DUPLICATE' };
+        return { ok: true, dispute };
+    });
+}
+
+/**
+ * Locks an OPEN dispute for an admin change.
+ */
+async function lockOpenDispute(client: pg.PoolClient, id: string): Promise<DisputeResult> {
+    const res = await client.query<Dispute>('SELECT * FROM disputes WHERE id = $1 FOR UPDATE', [id]);
+    if (res.rowCount === 0) return { ok: false, error: 'Dispute not found', code: 'NOT_FOUND' };
+    if (res.rows[0].status !== 'OPEN') {
+        return { ok: false, error: `Dispute is already ${res.rows[0].status}`, code: 'ALREADY_RESOLVED' };
+    }
+    return { ok: true, dispute: res.rows[0] };
+}
+
+/**
+ * Admin: attaches evidence (a note, optionally a link to the document) to an OPEN dispute.
+ * Submitting it to the gateway happens in the gateway's dashboard.
+ */
+export async function addDisputeEvidence(id: string, data: { note: string; url?: string }, adminId: string): Promise<DisputeResult> {
+    return withTx(async (client): Promise<DisputeResult> => {
+        const locked = await lockOpenDispute(client, id);
+        if (!locked.ok) return locked;
+
+        const res = await client.query<Dispute>(
+            `UPDATE disputes
+             SET evidence = evidence || jsonb_build_array(jsonb_build_object(
+                     'note', $2::text, 'url', $3::text, 'added_by', $4::text, 'added_at', CURRENT_TIMESTAMP)),
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 RETURNING *`,
+            [id, data.note, data.url ?? null, adminId]
+        );
+        await client.query(
+            `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [res.rows[0].booking_id, 'dispute_evidence', 'Admin', adminId, JSON.stringify({ dispute_id: id, note: data.note, url: data.url ?? null })]
+        );
+        return { ok: true, dispute: res.rows[0] };
+    });
+}
+
+/**
+ * Admin: records the outcome of an OPEN dispute (manual disputes, or a missed gateway webhook).
+ */
+export async function recordDisputeOutcome(id: string, data: { outcome: 'WON' | 'LOST'; note?: string }, adminId: string): Promise<DisputeResult> {
+    return withTx(async (client): Promise<DisputeResult> => {
+        const locked = await lockOpenDispute(client, id);
+        if (!locked.ok) return locked;
+        return { ok: true, dispute: await resolveDispute(client, locked.dispute!, data.outcome, adminId, data.note) };
+    });
+}
+
+export async function getDispute(id: string): Promise<Dispute | null> {
+    const res = await query<Dispute>('SELECT * FROM disputes WHERE id = $1', [id]);
+    return res.rows[0] ?? null;
+}
+
+/**
+ * Admin view, soonest evidence deadline first.
+ */
+export async function listDisputes(status?: Dispute['status']): Promise<Dispute[]> {
+    const res = await query<Dispute>(
+        `SELECT * FROM disputes
+         WHERE ($1::text IS NULL OR status = $1)
+         ORDER BY evidence_due_by ASC NULLS LAST, created_at ASC`,
+        [status ?? null]
+    );
+    return res.rows;
+}
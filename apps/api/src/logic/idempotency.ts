@@ -1,15 +1,19 @@
+import { createHash } from 'crypto';
 import { query, withTx } from '../db.js';
+import { config } from '../config.js';
 
 export enum EventStatus {
     PENDING = 'PENDING',
     PROCESSED = 'PROCESSED',
     FAILED = 'FAILED',
+    DISMISSED = 'DISMISSED', // Dead letter an admin chose not to apply
 }
 
 /**
  * Persistently processes a webhook event with idempotency.
- * Checks the ledger first. If PROCESSED, returns DUPLICATE status.
+ * Checks the ledger first. If PROCESSED (or DISMISSED), returns DUPLICATE status.
  * Otherwise, runs the handler and updates the ledger.
+ * A handler error is kept as FAILED (with the error) before it is rethrown.
  */
 export async function processEvent(
     provider: string,
@@ -17,15 +21,15 @@ export async function processEvent(
     payload: any,
     handlerFn: () => Promise<void>
 ): Promise<'PROCESSED' | 'DUPLICATE'> {
-    return withTx(async (client) => {
+    const result = await withTx(async (client): Promise<{ status: 'PROCESSED' | 'DUPLICATE' } | { error: unknown }> => {
         // 1. Check ledger
         const res = await client.query(
             'SELECT status FROM webhook_events WHERE provider = $1 AND event_id = $2 FOR UPDATE',
             [provider, eventId]
         );
 
-        if (res.rows[0]?.status === EventStatus.PROCESSED) {
-            return 'DUPLICATE';
+        if (res.rows[0]?.status === EventStatus.PROCESSED || res.rows[0]?.status === EventStatus.DISMISSED) {
+            return { status: 'DUPLICATE' };
         }
 
         // 2. If not found or failed, upsert to PENDING
@@ -43,18 +47,117 @@ export async function processEvent(
 
             // 4. Mark PROCESSED
             await client.query(
-                'UPDATE webhook_events SET status = $1, last_seen_at = CURRENT_TIMESTAMP WHERE provider = $2 AND event_id = $3',
+                `UPDATE webhook_events SET status = $1, attempts = attempts + 1, last_error = NULL, processed_at = CURRENT_TIMESTAMP, last_seen_at = CURRENT_TIMESTAMP
+                 WHERE provider = $2 AND event_id = $3`,
                 [EventStatus.PROCESSED, provider, eventId]
             );
 
-            return 'PROCESSED';
+            return { status: 'PROCESSED' };
         } catch (error) {
-            // Mark FAILED to allow retries
+            // Mark FAILED to allow retries; committed so the dead letter stays visible
             await client.query(
-                'UPDATE webhook_events SET status = $1, last_seen_at = CURRENT_TIMESTAMP WHERE provider = $2 AND event_id = $3',
-                [EventStatus.FAILED, provider, eventId]
+                `UPDATE webhook_events SET status = $1, attempts = attempts + 1, last_error = $4, last_seen_at = CURRENT_TIMESTAMP
+                 WHERE provider = $2 AND event_id = $3`,
+                [EventStatus.FAILED, provider, eventId, error instanceof Error ? error.message : String(error)]
             );
-            throw error;
+            return { error };
         }
     });
+
+    if ('error' in result) throw result.error;
+    return result.status;
+}
+
+export type RequestKeyClaim =
+    | { state: 'CLAIMED'; lockedAt: Date }
+    | { state: 'REPLAY'; status: number; contentType: string | null; body: string }
+    | { state: 'MISMATCH' }
+    | { state: 'IN_PROGRESS' };
+
+/**
+ * Identifies a client request for Idempotency-Key checks: same key, different fingerprint is a misuse.
+ */
+export function requestFingerprint(method: string, url: string, body: unknown): string {
+    return createHash('sha256').update(`${method} ${url}\n${JSON.stringify(body ?? null)}`).digest('hex');
+}
+
+/**
+ * Claims (uid, key) for a new request, or reports what to do with a retry.
+ * Expired keys count as unused; a claim left IN_PROGRESS past IDEMPOTENCY_CLAIM_TIMEOUT_SECONDS
+ * is taken over. The returned lockedAt identifies this claim for complete/release.
+ */
+export async function claimRequestKey(uid: string, key: string, fingerprint: string): Promise<RequestKeyClaim> {
+    return withTx(async (client): Promise<RequestKeyClaim> => {
+        await client.query(
+            'DELETE FROM idempotency_keys WHERE uid = $1 AND key = $2 AND expires_at <= CURRENT_TIMESTAMP',
+            [uid, key]
+        );
+
+        // A concurrent claim of the same key waits here until the first one commits
+        const inserted = await client.query<{ locked_at: Date }>(
+            `INSERT INTO idempotency_keys (uid, key, fingerprint, expires_at)
+             VALUES ($1, $2, $3, CURRENT_TIMESTAMP + $4 * INTERVAL '1 hour')
+             ON CONFLICT (uid, key) DO NOTHING
+             RETURNING locked_at`,
+            [uid, key, fingerprint, config.idempotency.keyTtlHours]
+        );
+        if ((inserted.rowCount ?? 0) > 0) return { state: 'CLAIMED', lockedAt: inserted.rows[0].locked_at };
+
+        const res = await client.query(
+            `SELECT fingerprint, status, response_status, response_content_type, response_body,
+                    locked_at < CURRENT_TIMESTAMP - $3 * INTERVAL '1 second' AS lease_expired
+             FROM idempotency_keys WHERE uid = $1 AND key = $2
+             FOR UPDATE`,
+            [uid, key, config.idempotency.claimTimeoutSeconds]
+        );
+        const row = res.rows[0];
+        if (row.fingerprint !== fingerprint) return { state: 'MISMATCH' };
+        if (row.status !== 'COMPLETED') {
+            if (!row.lease_expired) return { state: 'IN_PROGRESS' };
+            const reclaimed = await client.query<{ locked_at: Date }>(
+                `UPDATE idempotency_keys SET locked_at = date_trunc('milliseconds', CURRENT_TIMESTAMP)
+                 WHERE uid = $1 AND key = $2
+                 RETURNING locked_at`,
+                [uid, key]
+            );
+            return { state: 'CLAIMED', lockedAt: reclaimed.rows[0].locked_at };
+        }
+        return { state: 'REPLAY', status: row.response_status, contentType: row.response_content_type, body: row.response_body };
+    });
+}
+
+/**
+ * Stores the response sent for a claimed key so retries replay it.
+ * A claim that was taken over in the meantime is left alone.
+ */
+export async function completeRequestKey(
+    uid: string,
+    key: string,
+    lockedAt: Date,
+    response: { status: number; contentType: string | null; body: string }
+): Promise<void> {
+    await query(
+        `UPDATE idempotency_keys
+         SET status = 'COMPLETED', response_status = $4, response_content_type = $5, response_body = $6
+         WHERE uid = $1 AND key = $2 AND locked_at = $3 AND status = 'IN_PROGRESS'`,
+        [uid, key, lockedAt, response.status, response.contentType, response.body]
+    );
+}
+
+/**
+ * Frees a claimed key whose request failed server-side, so a retry runs it again.
+ */
+export async function releaseRequestKey(uid: string, key: string, lockedAt: Date): Promise<void> {
+    await query(
+        `DELETE FROM idempotency_keys WHERE uid = $1 AND key = $2 AND locked_at = $3 AND status = 'IN_PROGRESS'`,
+        [uid, key, lockedAt]
+    );
+}
+
+/**
+ * Deletes expired Idempotency-Key entries (scheduler job).
+ */
+export async function purgeExpiredRequestKeys(): Promise<{ purged: number }> {
+    const res = await query('DELETE FROM idempotency_keys WHERE expires_at <= CURRENT_TIMESTAMP');
+    return { purged: res.rowCount ?? 0 };
 }
@@ -0,0 +1,279 @@
+import pg from 'pg';
+import { query } from '../db.js';
+
+/**
+ * Double-entry ledger (PAYMENTS.md invariant 4).
+ * Every money movement posts one journal entry whose debit and credit lines balance.
+ * Postings always run on the caller's client, in the same transaction as the payment change.
+ */
+
+export type LedgerAccount = 'customer_holds' | 'customer_funds' | 'platform_cash' | 'provider_payable' | 'platform_fees' | 'disputed_funds' | 'dispute_losses';
+export type JournalKind = 'AUTHORIZE' | 'CAPTURE' | 'RELEASE' | 'CANCELLATION_FEE' | 'REFUND' | 'COMMISSION' | 'PAYOUT'
+    | 'DISPUTE_WITHDRAWAL' | 'DISPUTE_REINSTATEMENT' | 'DISPUTE_LOSS';
+
+export interface LedgerLine {
+    account: LedgerAccount;
+    direction: 'DEBIT' | 'CREDIT';
+    amount_cents: number;
+}
+
+export interface JournalEntry {
+    id: string;
+    kind: JournalKind;
+    payment_intent_id: string | null;
+    created_at: string;
+    lines: LedgerLine[];
+}
+
+/**
+ * Debit one account and credit another by the same amount.
+ */
+function transfer(debit: LedgerAccount, credit: LedgerAccount, amountCents: number): LedgerLine[] {
+    return [
+        { account: debit, direction: 'DEBIT', amount_cents: amountCents },
+        { account: credit, direction: 'CREDIT', amount_cents: amountCents },
+    ];
+}
+
+/**
+ * Writes a balanced journal entry. Throws if the lines do not balance.
+ * Returns false when an entry for (kind, sourceRef) already exists.
+ */
+export async function postJournal(
+    client: pg.PoolClient,
+    entry: { kind: JournalKind; sourceRef: string; bookingId: string | null; paymentIntentId?: string | null; lines: LedgerLine[] }
+): Promise<boolean> {
+    const lines = entry.lines.filter(l => l.amount_cents > 0);
+    const debits = lines.filter(l => l.direction === 'DEBIT').reduce((sum, l) => sum + l.amount_cents, 0);
+    const credits = lines.filter(l => l.direction === 'CREDIT').reduce((sum, l) => sum + l.amount_cents, 0);
+    if (debits !== credits) {
+        throw new Error(`Unbalanced journal entry ${entry.kind}/${entry.sourceRef}: debits ${debits} != credits ${credits}`);
+    }
+    if (lines.length === 0) return false;
+
+    // clock_timestamp(): entries posted in one transaction keep their posting order
+    const res = await client.query<{ id: string }>(
+        `INSERT INTO journal_entries (booking_id, payment_intent_id, kind, source_ref, created_at)
+         VALUES ($1, $2, $3, $4, clock_timestamp())
+         ON CONFLICT (kind, source_ref) DO NOTHING
+         RETURNING id`,
+        [entry.bookingId, entry.paymentIntentId ?? null, entry.kind, entry.sourceRef]
+    );
+    if (res.rowCount === 0) return false;
+
+    for (const line of lines) {
+        await client.query(
+            `INSERT INTO ledger_lines (journal_entry_id, account_code, direction, amount_cents)
+             VALUES ($1, $2, $3, $4)`,
+            [res.rows[0].id, line.account, line.direction, line.amount_cents]
+        );
+    }
+    return true;
+}
+
+interface IntentRef {
+    id: string;
+    booking_id: string;
+    amount_cents: number;
+}
+
+/**
+ * Card authorized: funds are held for the customer.
+ */
+export async function recordAuthorization(client: pg.PoolClient, intent: IntentRef): Promise<void> {
+    await postJournal(client, {
+        kind: 'AUTHORIZE', sourceRef: intent.id, bookingId: intent.booking_id, paymentIntentId: intent.id,
+        lines: transfer('customer_holds', 'customer_funds', intent.amount_cents),
+    });
+}
+
+/**
+ * Hold captured: cash lands at the gateway and is owed to the provider.
+ * `amount_cents` is what was captured, which a partial capture makes less than the hold.
+ */
+export async function recordCapture(client: pg.PoolClient, intent: IntentRef): Promise<void> {
+    await postJournal(client, {
+        kind: 'CAPTURE', sourceRef: intent.id, bookingId: intent.booking_id, paymentIntentId: intent.id,
+        lines: [
+            ...transfer('platform_cash', 'customer_holds', intent.amount_cents),
+            ...transfer('customer_funds', 'provider_payable', intent.amount_cents),
+        ],
+    });
+}
+
+/**
+ * Hold voided: reverses the authorization.
+ */
+export async function recordRelease(client: pg.PoolClient, intent: IntentRef): Promise<void> {
+    await postJournal(client, {
+        kind: 'RELEASE', sourceRef: intent.id, bookingId: intent.booking_id, paymentIntentId: intent.id,
+        lines: transfer('customer_funds', 'customer_holds', intent.amount_cents),
+    });
+}
+
+/**
+ * Cancellation fee captured from the hold as platform revenue (the rest is released separately).
+ */
+export async function recordCancellationFee(client: pg.PoolClient, intent: IntentRef): Promise<void> {
+    await postJournal(client, {
+        kind: 'CANCELLATION_FEE', sourceRef: intent.id, bookingId: intent.booking_id, paymentIntentId: intent.id,
+        lines: [
+            ...transfer('platform_cash', 'customer_holds', intent.amount_cents),
+            ...transfer('customer_funds', 'platform_fees', intent.amount_cents),
+        ],
+    });
+}
+
+/**
+ * Outstanding cancellation fee paid outside the gateway (e.g. EFT) as platform revenue.
+ */
+export async function recordCancellationFeePaid(
+    client: pg.PoolClient,
+    balance: { id: string; booking_id: string; amount_cents: number }
+): Promise<void> {
+    await postJournal(client, {
+        kind: 'CANCELLATION_FEE', sourceRef: balance.id, bookingId: balance.booking_id,
+        lines: transfer('platform_cash', 'platform_fees', balance.amount_cents),
+    });
+}
+
+/**
+ * Captured money returned to the customer, out of the provider's share and platform
+ * revenue (commission already taken, or a refunded cancellation fee) as split by the caller.
+ */
+export async function recordRefund(
+    client: pg.PoolClient,
+    refund: { id: string; booking_id: string; payment_intent_id: string | null; amount_cents: number },
+    split: { provider_payable: number; platform_fees: number }
+): Promise<void> {
+    if (split.provider_payable + split.platform_fees !== refund.amount_cents) {
+        throw new Error(`Refund ${refund.id} split does not add up to ${refund.amount_cents}`);
+    }
+    await postJournal(client, {
+        kind: 'REFUND', sourceRef: refund.id, bookingId: refund.booking_id, paymentIntentId: refund.payment_intent_id,
+        lines: [
+            { account: 'provider_payable', direction: 'DEBIT', amount_cents: split.provider_payable },
+            { account: 'platform_fees', direction: 'DEBIT', amount_cents: split.platform_fees },
+            { account: 'platform_cash', direction: 'CREDIT', amount_cents: refund.amount_cents },
+        ],
+    });
+}
+
+/**
+ * Platform commission taken from the provider's share when a booking's earning accrues.
+ */
+export async function recordCommission(
+    client: pg.PoolClient,
+    earning: { id: string; booking_id: string; commission_cents: number }
+): Promise<void> {
+    await postJournal(client, {
+        kind: 'COMMISSION', sourceRef: earning.id, bookingId: earning.booking_id,
+        lines: transfer('provider_payable', 'platform_fees', earning.commission_cents),
+    });
+}
+
+/**
+ * Money leaves the platform to the provider's bank account.
+ */
+export async function recordPayout(client: pg.PoolClient, payout: { id: string; amount_cents: number }): Promise<void> {
+    await postJournal(client, {
+        kind: 'PAYOUT', sourceRef: payout.id, bookingId: null,
+        lines: transfer('provider_payable', 'platform_cash', payout.amount_cents),
+    });
+}
+
+interface DisputeRef {
+    id: string;
+    booking_id: string;
+    payment_intent_id: string;
+    amount_cents: number;
+}
+
+/**
+ * Dispute opened: the gateway takes the disputed amount back until it is decided.
+ */
+export async function recordDisputeWithdrawal(client: pg.PoolClient, dispute: DisputeRef): Promise<void> {
+    await postJournal(client, {
+        kind: 'DISPUTE_WITHDRAWAL', sourceRef: dispute.id, bookingId: dispute.booking_id, paymentIntentId: dispute.payment_intent_id,
+        lines: transfer('disputed_funds', 'platform_cash', dispute.amount_cents),
+    });
+}
+
+/**
+ * Dispute won: the withdrawn amount comes back.
+ */
+export async function recordDisputeReinstatement(client: pg.PoolClient, dispute: DisputeRef): Promise<void> {
+    await postJournal(client, {
+        kind: 'DISPUTE_REINSTATEMENT', sourceRef: dispute.id, bookingId: dispute.booking_id, paymentIntentId: dispute.payment_intent_id,
+        lines: transfer('platform_cash', 'disputed_funds', dispute.amount_cents),
+    });
+}
+
+/**
+ * Dispute lost: the provider's unpaid share bears it first, the platform the rest.
+ */
+export async function recordDisputeLoss(client: pg.PoolClient, dispute: DisputeRef, providerShareCents: number): Promise<void> {
+    await postJournal(client, {
+        kind: 'DISPUTE_LOSS', sourceRef: dispute.id, bookingId: dispute.booking_id, paymentIntentId: dispute.payment_intent_id,
+        lines: [
+            { account: 'provider_payable', direction: 'DEBIT', amount_cents: providerShareCents },
+            { account: 'dispute_losses', direction: 'DEBIT', amount_cents: dispute.amount_cents - providerShareCents },
+            { account: 'disputed_funds', direction: 'CREDIT', amount_cents: dispute.amount_cents },
+        ],
+    });
+}
+
+/**
+ * Journal entries for a booking, oldest first.
+ */
+export async function getBookingLedger(bookingId: string): Promise<JournalEntry[]> {
+    const res = await query<JournalEntry>(
+        `SELECT e.id, e.kind, e.payment_intent_id, e.created_at,
+                json_agg(json_build_object('account', l.account_code, 'direction', l.direction, 'amount_cents', l.amount_cents)
+                         ORDER BY l.direction DESC, l.account_code) AS lines
+         FROM journal_entries e
+         JOIN ledger_lines l ON l.journal_entry_id = e.id
+         WHERE e.booking_id = $1
+         GROUP BY e.id
+         ORDER BY e.created_at, e.id`,
+        [bookingId]
+    );
+    return res.rows;
+}
+
+/**
+ * Invariant check: every entry balances and total debits equal total credits.
+ */
+export async function verifyLedger(): Promise<{
+    balanced: boolean;
+    unbalanced_entries: { id: string; kind: JournalKind; debits: number; credits: number }[];
+    accounts: { code: LedgerAccount; balance_cents: number }[];
+}> {
+    const unbalanced = await query<{ id: string; kind: JournalKind; debits: string; credits: string }>(
+        `SELECT e.id, e.kind,
+                COALESCE(SUM(l.amount_cents) FILTER (WHERE l.direction = 'DEBIT'), 0) AS debits,
+                COALESCE(SUM(l.amount_cents) FILTER (WHERE l.direction = 'CREDIT'), 0) AS credits
+         FROM journal_entries e
+         LEFT JOIN ledger_lines l ON l.journal_entry_id = e.id
+         GROUP BY e.id
+         HAVING COALESCE(SUM(l.amount_cents) FILTER (WHERE l.direction = 'DEBIT'), 0)
+             <> COALESCE(SUM(l.amount_cents) FILTER (WHERE l.direction = 'CREDIT'), 0)
+             OR COUNT(l.id) = 0`
+    );
+
+    // Balance in the account's normal direction
+    const accounts = await query<{ code: LedgerAccount; balance_cents: string }>(
+        `SELECT a.code,
+                COALESCE(SUM(CASE WHEN l.direction = a.normal_side THEN l.amount_cents ELSE -l.amount_cents END), 0) AS balance_cents
+         FROM ledger_accounts a
+         LEFT JOIN ledger_lines l ON l.account_code = a.code
+         GROUP BY a.code
+         ORDER BY a.code`
+    );
+
+    return {
+        balanced: unbalanced.rowCount === 0,
+        unbalanced_entries: unbalanced.rows.map(r => ({ id: r.id, kind: r.kind, debits: Number(r.debits), credits: Number(r.credits) })),
+        accounts: accounts.rows.map(r => ({ code: r.code, balance_cents: Number(r.balance_cents) })),
+    };
+}
@@ -0,0 +1,67 @@
+import { FastifyBaseLogger } from 'fastify';
+import { withTx } from '../db.js';
+
+export interface Notification {
+    id: string;
+    booking_id: string;
+    recipient_uid: string;
+    type: string;
+    payload: any;
+    status: string;
+    created_at: string;
+    sent_at: string | null;
+}
+
+/**
+ * Delivers a single notification (push, SMS, email...).
+ * Throwing marks the outbox row FAILED.
+ */
+export type NotificationSender = (notification: Notification) => Promise<void>;
+
+/**
+ * Default sender for MVP: logs the notification.
+ * Swap for FCM/SMS once the delivery channels are chosen.
+ */
+export function createLogSender(log: FastifyBaseLogger): NotificationSender {
+    return async (notification) => {
+        log.info({ notification_id: notification.id, booking_id: notification.booking_id }, `[notify] ${notification.type} -> ${notification.recipient_uid}`);
+    };
+}
+
+/**
+ * Dispatches PENDING rows from notification_outbox.
+ * Rows are claimed with SKIP LOCKED so concurrent dispatchers never double-send.
+ */
+export async function dispatchOutbox(send: NotificationSender, batchSize = 100): Promise<{ sent: number; failed: number }> {
+    return withTx(async (client) => {
+        const res = await client.query<Notification>(
+            `SELECT * FROM notification_outbox
+             WHERE status = 'PENDING'
+             ORDER BY created_at ASC
+             LIMIT $1
+             FOR UPDATE SKIP LOCKED`,
+            [batchSize]
+        );
+
+        let sent = 0;
+        let failed = 0;
+        for (const notification of res.rows) {
+            try {
+                await send(notification);
+                await client.query(
+                    `UPDATE notification_outbox SET status = 'SENT', sent_at = CURRENT_TIMESTAMP WHERE id = $1`,
+                    [notification.id]
+                );
+                sent++;
+            } catch (e) {
+                await client.query(
+                    `UPDATE notification_outbox SET status = 'FAILED' WHERE id = $1`,
+                    [notification.id]
+                );
+                failed++;
+            }
+        }
+
+        return { sent, failed };
+    });
+}
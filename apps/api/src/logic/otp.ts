@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import pg from 'pg';
+import { withTx } from '../db.js';
+import { config } from '../config.js';
+
+/**
+ * States in which a customer may still rotate their OTP (before work starts).
+ */
+const REGENERATE_STATES = ['PENDING_PAYMENT', 'PAID_SEARCHING', 'ACCEPTED', 'EN_ROUTE', 'ARRIVED'];
+
+interface OtpRow {
+    customer_id: string;
+    status: string;
+    otp_hash: string | null;
+    otp_failed_attempts: number;
+    otp_locked_at: string | null;
+}
+
+/**
+ * One key per use, derived from OTP_SECRET, so the HMAC and the cipher never share a key.
+ */
+function deriveKey(use: 'hash' | 'seal'): Buffer {
+    return Buffer.from(crypto.hkdfSync('sha256', config.otp.secret, '', `ozzserve:otp:${use}`, 32));
+}
+
+/**
+ * Keyed hash: a 4-digit code is trivially brute-forced offline without the server secret.
+ */
+function hashOtp(bookingId: string, otp: string): string {
+    return crypto.createHmac('sha256', deriveKey('hash')).update(`${bookingId}:${otp}`).digest('hex');
+}
+
+/**
+ * Encrypts the code so the customer can still view it; verification never decrypts.
+ */
+function sealOtp(otp: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey('seal'), iv);
+    const ct = Buffer.concat([cipher.update(otp, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ct].map(b => b.toString('base64')).join('.');
+}
+
+/**
+ * Decrypts a sealed OTP for the customer view. Returns null if the key has changed.
+ */
+export function openOtp(sealed: string): string | null {
+    try {
+        const [iv, tag, ct] = sealed.split('.').map(s => Buffer.from(s, 'base64'));
+        const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey('seal'), iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(ct), decipher.final()]).toString('utf8');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Startup backfill: re-stores plaintext OTPs from before migration 011 as a hash and sealed
+ * copy, clearing the plaintext. Batches are claimed with SKIP LOCKED so instances starting
+ * together share the work. Returns how many rows were upgraded.
+ */
+export async function upgradeStoredOtps(batchSize = 500): Promise<number> {
+    let upgraded = 0;
+    for (;;) {
+        const claimed = await withTx(async (client) => {
+            const res = await client.query<{ id: string; otp: string }>(
+                `SELECT id, otp FROM bookings
+                 WHERE otp IS NOT NULL
+                 LIMIT $1
+                 FOR UPDATE SKIP LOCKED`,
+                [batchSize]
+            );
+            for (const row of res.rows) {
+                await client.query(
+                    `UPDATE bookings SET otp = NULL, otp_hash = $2, otp_sealed = $3 WHERE id = $1`,
+                    [row.id, hashOtp(row.id, row.otp), sealOtp(row.otp)]
+                );
+            }
+            return res.rowCount ?? 0;
+        });
+        upgraded += claimed;
+        if (claimed < batchSize) return upgraded;
+    }
+}
+
+/**
+ * Issues a fresh cryptographically random 4-digit OTP and resets the failure count.
+ * Returns the plaintext once; only the hash and sealed copy are stored.
+ */
+export async function assignOtp(client: pg.PoolClient, bookingId: string): Promise<string> {
+    const otp = crypto.randomInt(1000, 10000).toString();
+    await client.query(
+        `UPDATE bookings
+         SET otp = NULL, otp_hash = $2, otp_sealed = $3, otp_failed_attempts = 0, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [bookingId, hashOtp(bookingId, otp), sealOtp(otp)]
+    );
+    return otp;
+}
+
+async function logOtpEvent(client: pg.PoolClient, bookingId: string, type: string, role: string, actorId: string | null, payload: object) {
+    await client.query(
+        `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [bookingId, type, role, actorId, JSON.stringify(payload)]
+    );
+}
+
+/**
+ * Verifies an OTP attempt inside the caller's transaction (booking row already locked).
+ * Every attempt is recorded as an `otp_verification` event. After OTP_MAX_ATTEMPTS
+ * failures the booking's OTP is locked and an admin is alerted.
+ */
+export async function verifyOtp(
+    client: pg.PoolClient,
+    bookingId: string,
+    candidate: string | undefined,
+    actorId: string | null
+): Promise<{ ok: boolean; error?: string; code?: string }> {
+    const res = await client.query<OtpRow>(
+        'SELECT customer_id, status, otp_hash, otp_failed_attempts, otp_locked_at FROM bookings WHERE id = $1',
+        [bookingId]
+    );
+    const row = res.rows[0];
+
+    if (row.otp_locked_at) {
+        await logOtpEvent(client, bookingId, 'otp_verification', 'Provider', actorId, { success: false, locked: true });
+        return { ok: false, error: 'OTP locked after too many failed attempts', code: 'OTP_LOCKED' };
+    }
+
+    let valid = false;
+    if (candidate && row.otp_hash) {
+        valid = crypto.timingSafeEqual(Buffer.from(hashOtp(bookingId, candidate)), Buffer.from(row.otp_hash));
+    }
+
+    if (valid) {
+        await logOtpEvent(client, bookingId, 'otp_verification', 'Provider', actorId, { success: true, failed_attempts: row.otp_failed_attempts });
+        return { ok: true };
+    }
+
+    const failed = row.otp_failed_attempts + 1;
+    const locked = failed >= config.otp.maxAttempts;
+    await client.query(
+        `UPDATE bookings
+         SET otp_failed_attempts = $2, otp_locked_at = CASE WHEN $3::boolean THEN NOW() ELSE otp_locked_at END
+         WHERE id = $1`,
+        [bookingId, failed, locked]
+    );
+    await logOtpEvent(client, bookingId, 'otp_verification', 'Provider', actorId, { success: false, failed_attempts: failed, locked });
+
+    if (locked) {
+        await logOtpEvent(client, bookingId, 'otp_locked', 'System', null, { failed_attempts: failed, last_actor: actorId });
+        await client.query(
+            `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+             VALUES ($1, $2, $3, $4)`,
+            [bookingId, 'SYSTEM_ADMIN', 'OTP_LOCKED', JSON.stringify({ failed_attempts: failed, provider_id: actorId })]
+        );
+        return { ok: false, error: 'Invalid or missing OTP; OTP is now locked', code: 'OTP_LOCKED' };
+    }
+
+    return { ok: false, error: 'Invalid or missing OTP', code: 'OTP_INVALID' };
+}
+
+/**
+ * Customer rotates their OTP (e.g. it was overheard). Not allowed once locked;
+ * a locked OTP needs an admin to review and unlock first.
+ */
+export async function regenerateOtp(
+    bookingId: string,
+    customerId: string
+): Promise<{ ok: boolean; otp?: string; error?: string; code?: string }> {
+    return withTx(async (client) => {
+        const res = await client.query<Pick<OtpRow, 'customer_id' | 'status' | 'otp_locked_at'>>(
+            'SELECT customer_id, status, otp_locked_at FROM bookings WHERE id = $1 FOR UPDATE',
+            [bookingId]
+        );
+        if (res.rowCount === 0) return { ok: false, error: 'Booking not found', code: 'NOT_FOUND' };
+        const row = res.rows[0];
+
+        if (row.customer_id !== customerId) {
+            return { ok: false, error: 'Unauthorized', code: 'UNAUTHORIZED' };
+        }
+        if (!REGENERATE_STATES.includes(row.status)) {
+            return { ok: false, error: `Cannot regenerate OTP in state ${row.status}`, code: 'INVALID_STATE' };
+        }
+        if (row.otp_locked_at) {
+            return { ok: false, error: 'OTP locked; contact support', code: 'OTP_LOCKED' };
+        }
+
+        const otp = await assignOtp(client, bookingId);
+        await logOtpEvent(client, bookingId, 'otp_regenerated', 'User', customerId, {});
+        return { ok: true, otp };
+    });
+}
+
+/**
+ * Admin clears an OTP lock after review. The code itself is unchanged.
+ */
+export async function unlockOtp(
+    bookingId: string,
+    adminId: string
+): Promise<{ ok: boolean; error?: string; code?: string }> {
+    return withTx(async (client) => {
+        const res = await client.query(
+            `UPDATE bookings
+             SET otp_locked_at = NULL, otp_failed_attempts = 0, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 AND otp_locked_at IS NOT NULL
+             RETURNING id`,
+            [bookingId]
+        );
+        if (res.rowCount === 0) return { ok: false, error: 'Booking not found or OTP not locked', code: 'NOT_LOCKED' };
+
+        await logOtpEvent(client, bookingId, 'otp_unlocked', 'Admin', adminId, {});
+        return { ok: true };
+    });
+}
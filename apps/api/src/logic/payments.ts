@@ -1,158 +1,477 @@
 import pg from 'pg';
-import Stripe from 'stripe';
 import { query, withTx } from '../db.js';
 import { updateBookingStatus } from './bookings.js';
+import { recordAuthorization, recordCapture, recordRelease, recordCancellationFee } from './ledger.js';
+import { openOutstandingBalance } from './balances.js';
+import { getGateway, GatewayEvent, GatewayError } from '../gateways/index.js';
 import { config } from '../config.js';
-
-// Lazy-init Stripe client (only when secret key is available)
-let stripeClient: Stripe | null = null;
-function getStripe(): Stripe | null {
-    if (stripeClient) return stripeClient;
-    const key = config.stripe.secretKey;
-    if (!key) return null;
-    stripeClient = new Stripe(key);
-    return stripeClient;
-}
+import { recordCaptureFailure } from './captures.js';
 
 export interface PaymentIntent {
     id: string;
     booking_id: string;
-    amount_cents: number;
+    amount_cents: number; // Authorized
+    captured_cents: number | null; // Taken at capture: the whole authorization, or only a cancellation fee
     currency: string;
     status: string;
     provider: string;
-    provider_ref: string;
+    provider_ref: string; // Empty (NULL) only on a placeholder while createIntent waits on the gateway
+    gateway_payment_id: string | null;
+    gateway_event_at: string | null;
+    decline_code: string | null;
+    failure_message: string | null;
+    checkout_json: Record<string, unknown> | null;
+    created_at: string;
 }
 
 /**
- * Creates a payment intent for a booking.
- * Production: Uses Stripe SDK with capture_method='manual'.
- * Dev/Test: Falls back to mock reference.
+ * How long an intent row without a gateway reference blocks new payment attempts. It is
+ * inserted before the gateway call; past this, the request that created it is presumed dead.
+ */
+const PLACEHOLDER_TIMEOUT_MS = 60_000;
+
+/**
+ * Intent statuses by progress. Gateway events only move an intent forward, so late or
+ * replayed events (a `canceled` after `succeeded`) are ignored. The pre-authorization
+ * statuses share rank 0 and follow the newest event.
+ */
+const STATUS_RANK: Record<string, number> = {
+    CREATED: 0,
+    REQUIRES_ACTION: 0,
+    FAILED: 0,
+    AUTHORIZED: 1,
+    SUCCEEDED: 2,
+    CANCELLED: 2,
+    SUPERSEDED: 2,
+    PARTIALLY_REFUNDED: 3,
+    REFUNDED: 4,
+};
+
+/**
+ * Starts (or retries) payment for a PENDING_PAYMENT booking at the chosen gateway (default PAYMENT_GATEWAY).
+ * An intent still awaiting its outcome at the same gateway and amount is returned again; otherwise
+ * earlier unpaid intents are voided and superseded by a new one, up to PAYMENT_MAX_ATTEMPTS per booking.
+ * `checkout` carries what the client needs to pay (Stripe client secret, PayFast form).
  */
-export async function createIntent(bookingId: string, amountCents?: number): Promise<PaymentIntent> {
+export async function createIntent(
+    bookingId: string,
+    amountCents?: number,
+    provider: string = config.payments.defaultGateway
+): Promise<{ ok: boolean; intent?: PaymentIntent & { checkout?: Record<string, unknown> }; reused?: boolean; attempts?: number; error?: string; code?: string }> {
     const amount_cents = amountCents ?? 10000; // Fallback to R100 for backward compatibility
     const currency = 'ZAR';
-    const provider = 'STRIPE';
-    let provider_ref: string;
-
-    const stripe = getStripe();
-    if (stripe) {
-        // Production: Real Stripe PaymentIntent with manual capture
-        const intent = await stripe.paymentIntents.create({
-            amount: amount_cents,
-            currency: currency.toLowerCase(),
-            capture_method: 'manual',
-            metadata: { booking_id: bookingId },
-        });
-        provider_ref = intent.id;
-    } else {
-        // Dev/Test: Mock reference
-        provider_ref = `pi_mock_${Math.random().toString(36).substring(7)}`;
-    }
+    const gateway = getGateway(provider);
+
+    const prepared = await withTx(async (client) => {
+        const bookingRes = await client.query<{ status: string; payment_window_open: boolean }>(
+            'SELECT status, (expires_at IS NULL OR expires_at > NOW()) AS payment_window_open FROM bookings WHERE id = $1 FOR UPDATE',
+            [bookingId]
+        );
+        if (bookingRes.rowCount === 0) return { ok: false, error: 'Booking not found', code: 'NOT_FOUND' };
+        const status = bookingRes.rows[0].status;
+        if (status !== 'PENDING_PAYMENT') {
+            return { ok: false, error: `Booking is ${status}, not awaiting payment`, code: 'INVALID_STATE' };
+        }
+        if (!bookingRes.rows[0].payment_window_open) {
+            return { ok: false, error: 'The payment window for this booking has closed; please book again', code: 'BOOKING_EXPIRED' };
+        }
+
+        const prior = await client.query<PaymentIntent>(
+            'SELECT * FROM payment_intents WHERE booking_id = $1 ORDER BY created_at ASC FOR UPDATE',
+            [bookingId]
+        );
+        const latest = prior.rows[prior.rows.length - 1];
+        // A concurrent request is still creating this intent at the gateway
+        if (latest && !latest.provider_ref && latest.status === 'CREATED'
+            && Date.now() - new Date(latest.created_at).getTime() < PLACEHOLDER_TIMEOUT_MS) {
+            return { ok: false, error: 'A payment for this booking is already being set up', code: 'PAYMENT_IN_PROGRESS' };
+        }
+        if (latest?.provider_ref && ['CREATED', 'REQUIRES_ACTION'].includes(latest.status)
+            && latest.provider === gateway.name && latest.amount_cents === amount_cents) {
+            return { ok: true, intent: { ...latest, checkout: latest.checkout_json ?? undefined }, reused: true, attempts: prior.rows.length };
+        }
+        if (prior.rows.length >= config.payments.maxAttempts) {
+            return { ok: false, error: `No payment attempts left (${config.payments.maxAttempts} per booking)`, code: 'PAYMENT_RETRY_LIMIT' };
+        }
+
+        // Void what the customer may still complete, so a retry can never double-charge
+        // (a placeholder left by a crashed request never reached the gateway)
+        for (const old of prior.rows.filter(i => STATUS_RANK[i.status] === 0)) {
+            if (old.provider_ref) await getGateway(old.provider).release(old);
+            await client.query(
+                `UPDATE payment_intents SET status = 'SUPERSEDED', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+                [old.id]
+            );
+        }
+
+        // Claimed under the booking lock, so a concurrent pay waits and then sees it
+        const placeholder = await client.query<{ id: string }>(
+            `INSERT INTO payment_intents (booking_id, amount_cents, currency, status, provider)
+             VALUES ($1, $2, $3, 'CREATED', $4)
+             RETURNING id`,
+            [bookingId, amount_cents, currency, gateway.name]
+        );
+        return { ok: true, placeholderId: placeholder.rows[0].id, attempts: prior.rows.length + 1 };
+    });
+    if (!prepared.ok || prepared.intent) return prepared;
+    const placeholderId = prepared.placeholderId!;
 
+    // Committed first: the gateway may call back before this request returns
+    let created: Awaited<ReturnType<typeof gateway.createIntent>>;
+    try {
+        created = await gateway.createIntent({ bookingId, amountCents: amount_cents, currency });
+    } catch (e) {
+        // Nothing exists at the gateway: give the attempt back
+        await query('DELETE FROM payment_intents WHERE id = $1', [placeholderId]);
+        throw e;
+    }
+    const { provider_ref, checkout } = created;
     const res = await query<PaymentIntent>(
-        `INSERT INTO payment_intents (booking_id, amount_cents, currency, status, provider, provider_ref)
-         VALUES ($1, $2, $3, 'CREATED', $4, $5)
+        `UPDATE payment_intents SET provider_ref = $2, checkout_json = $3, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
          RETURNING *`,
-        [bookingId, amount_cents, currency, provider, provider_ref]
+        [placeholderId, provider_ref, checkout ? JSON.stringify(checkout) : null]
     );
 
-    return res.rows[0];
+    return { ok: true, intent: { ...res.rows[0], checkout }, reused: false, attempts: prepared.attempts };
+}
+
+function targetStatus(type: GatewayEvent['type'], current: string): string | null {
+    switch (type) {
+        case 'payment.requires_action': return 'REQUIRES_ACTION';
+        case 'payment.failed': return 'FAILED';
+        case 'payment.authorized': return 'AUTHORIZED';
+        case 'payment.succeeded': return STATUS_RANK[current] === 0 ? 'AUTHORIZED' : 'SUCCEEDED';
+        case 'payment.captured': return 'SUCCEEDED';
+        case 'payment.canceled': return 'CANCELLED';
+        default: return null;
+    }
 }
 
 /**
- * Handles intent success (Authorization). 
- * For 'manual' capture flow, this means funds are locked but not yet taken.
+ * An event applies if it is not older than the last one applied and moves the intent forward
+ * (or sideways between pre-authorization statuses).
  */
-export async function handleIntentSuccess(provider: string, providerRef: string): Promise<void> {
-    await withTx(async (client) => {
-        const res = await client.query(
-            'UPDATE payment_intents SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE provider = $2 AND provider_ref = $3 RETURNING booking_id',
-            ['AUTHORIZED', provider, providerRef]
-        );
+export function shouldApplyIntentEvent(
+    intent: { status: string; gateway_event_at: string | Date | null },
+    target: string,
+    occurredAt?: Date
+): boolean {
+    if (occurredAt && intent.gateway_event_at && occurredAt < new Date(intent.gateway_event_at)) {
+        return false;
+    }
+    const from = STATUS_RANK[intent.status] ?? 0;
+    const to = STATUS_RANK[target];
+    return to > from || (to === 0 && from === 0 && target !== intent.status);
+}
 
+/**
+ * Applies a gateway payment event to its intent and booking.
+ * For 'manual' capture, authorization means funds are locked but not yet taken;
+ * when the gateway reports an amount, it must match the intent.
+ */
+export async function handleIntentEvent(provider: string, event: GatewayEvent): Promise<'APPLIED' | 'IGNORED'> {
+    return withTx(async (client) => {
+        const res = await client.query<PaymentIntent>(
+            'SELECT * FROM payment_intents WHERE provider = $1 AND provider_ref = $2 FOR UPDATE',
+            [provider, event.provider_ref]
+        );
         if (res.rowCount === 0) {
-            throw new Error(`Payment intent not found for ref ${providerRef}`);
+            // A failure for an intent we never stored changes nothing
+            if (event.type === 'payment.failed') return 'IGNORED';
+            throw new Error(`Payment intent not found for ref ${event.provider_ref}`);
+        }
+        const intent = res.rows[0];
+        const target = targetStatus(event.type, intent.status);
+        if (!target || !shouldApplyIntentEvent(intent, target, event.occurred_at)) {
+            return 'IGNORED';
+        }
+        if (target === 'AUTHORIZED' && event.amount_cents !== undefined && event.amount_cents !== intent.amount_cents) {
+            throw new Error(`Amount mismatch for ${event.provider_ref}: expected ${intent.amount_cents}, got ${event.amount_cents}`);
+        }
+        // A capture made at the gateway (e.g. dashboard) may take less than was authorized
+        const capturedCents = event.amount_received_cents ?? intent.amount_cents;
+        if (target === 'SUCCEEDED' && capturedCents > intent.amount_cents) {
+            throw new Error(`Captured more than authorized for ${event.provider_ref}: ${capturedCents} of ${intent.amount_cents}`);
         }
 
-        const bookingId = res.rows[0].booking_id;
+        const failed = target === 'FAILED';
+        await client.query(
+            `UPDATE payment_intents
+             SET status = $2, gateway_payment_id = COALESCE($3, gateway_payment_id),
+                 captured_cents = CASE WHEN $2 = 'SUCCEEDED' THEN $7::integer ELSE captured_cents END,
+                 gateway_event_at = GREATEST(gateway_event_at, $4),
+                 decline_code = $5, failure_message = $6, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [intent.id, target, event.gateway_payment_id ?? null, event.occurred_at ?? null,
+                failed ? event.decline_code ?? null : null, failed ? event.failure_message ?? null : null, capturedCents]
+        );
 
-        // Transition booking: PENDING_PAYMENT -> PAID_SEARCHING
-        const result = await updateBookingStatus(bookingId, 'PAID_SEARCHING', 'System');
+        // Captured without an authorization seen first (late or missed event): authorize too
+        const pending = STATUS_RANK[intent.status] === 0;
+        if (target === 'AUTHORIZED' || (target === 'SUCCEEDED' && pending)) {
+            await recordAuthorization(client, intent);
 
-        if (!result.ok) {
-            throw new Error(`Failed to transition booking ${bookingId} to PAID_SEARCHING: ${result.error}`);
+            // Transition booking: PENDING_PAYMENT -> PAID_SEARCHING
+            const result = await updateBookingStatus(intent.booking_id, 'PAID_SEARCHING', 'System', undefined, undefined, client);
+            if (!result.ok) {
+                throw new Error(`Failed to transition booking ${intent.booking_id} to PAID_SEARCHING: ${result.error}`);
+            }
+        }
+        if (target === 'SUCCEEDED') {
+            // Captured at the gateway (e.g. dashboard); our own captures are already SUCCEEDED.
+            // The gateway released whatever it didn't capture.
+            await recordCapture(client, { ...intent, amount_cents: capturedCents });
+            if (capturedCents < intent.amount_cents) {
+                await recordRelease(client, { ...intent, amount_cents: intent.amount_cents - capturedCents });
+            }
+        }
+        if (target === 'CANCELLED' && intent.status === 'AUTHORIZED') {
+            await handleCanceledHold(client, intent, event.cancellation_reason);
+        }
+        if (failed) {
+            await notifyPaymentFailed(client, intent, event);
+        }
+        if (target === 'REQUIRES_ACTION') {
+            await client.query(
+                `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+                 SELECT id, customer_id::text, 'PAYMENT_ACTION_REQUIRED', $2 FROM bookings WHERE id = $1`,
+                [intent.booking_id, JSON.stringify({ payment_intent_id: intent.id, next_action: event.next_action ?? null })]
+            );
         }
+        return 'APPLIED';
     });
 }
 
 /**
- * Captures an authorized payment intent.
- * Production: Calls Stripe SDK capture().
- * Dev/Test: DB-only status update.
+ * Tells the customer their payment failed and whether they can try again.
  */
-export async function capturePayment(bookingId: string, client?: pg.PoolClient): Promise<void> {
-    // 1. Find the authorized intent
-    const findSql = `SELECT id, provider_ref FROM payment_intents 
-         WHERE booking_id = $1 AND status = 'AUTHORIZED'`;
-    const findRes = client ? await client.query(findSql, [bookingId]) : await query(findSql, [bookingId]);
+async function notifyPaymentFailed(client: pg.PoolClient, intent: PaymentIntent, event: GatewayEvent): Promise<void> {
+    const attempts = await client.query<{ count: string }>(
+        'SELECT COUNT(*) FROM payment_intents WHERE booking_id = $1',
+        [intent.booking_id]
+    );
+    const remaining = Math.max(config.payments.maxAttempts - Number(attempts.rows[0].count), 0);
+    await client.query(
+        `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+         SELECT id, customer_id::text, 'PAYMENT_FAILED', $2 FROM bookings WHERE id = $1`,
+        [intent.booking_id, JSON.stringify({
+            payment_intent_id: intent.id,
+            decline_code: event.decline_code ?? null,
+            message: event.failure_message ?? null,
+            attempts_remaining: remaining,
+        })]
+    );
+}
 
-    if (findRes.rowCount === 0) {
-        throw new Error(`No AUTHORIZED payment intent found to capture for booking ${bookingId}`);
-    }
+/**
+ * The gateway voided an authorization we still held (expired, or cancelled in the dashboard).
+ * A booking still searching expires; one mid-job or awaiting confirmation goes to review,
+ * since nothing is left to capture. Admins are told either way.
+ */
+async function handleCanceledHold(client: pg.PoolClient, intent: PaymentIntent, reason?: string): Promise<void> {
+    await recordRelease(client, intent);
 
-    const providerRef = findRes.rows[0].provider_ref;
+    const res = await client.query<{ status: string; customer_id: string }>(
+        'SELECT status, customer_id FROM bookings WHERE id = $1 FOR UPDATE',
+        [intent.booking_id]
+    );
+    const booking = res.rows[0];
+    const next = booking.status === 'PAID_SEARCHING' ? 'EXPIRED'
+        : booking.status === 'IN_PROGRESS' || booking.status === 'COMPLETE_PENDING' ? 'NEEDS_REVIEW'
+            : null;
+    if (next) {
+        const result = await updateBookingStatus(intent.booking_id, next, 'System', undefined, undefined, client);
+        if (!result.ok) throw new Error(`Failed to move booking ${intent.booking_id} to ${next}: ${result.error}`);
+    }
 
-    // 2. Call Stripe capture if available
-    const stripe = getStripe();
-    if (stripe && providerRef.startsWith('pi_') && !providerRef.startsWith('pi_mock_')) {
-        await stripe.paymentIntents.capture(providerRef);
+    await client.query(
+        `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [intent.booking_id, 'authorization_canceled', 'System', null, JSON.stringify({ payment_intent_id: intent.id, reason: reason ?? null, booking_status: booking.status, moved_to: next })]
+    );
+    await client.query(
+        `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+         VALUES ($1, $2, $3, $4)`,
+        [intent.booking_id, 'SYSTEM_ADMIN', 'AUTHORIZATION_CANCELED', JSON.stringify({ payment_intent_id: intent.id, reason: reason ?? null, booking_status: booking.status })]
+    );
+    if (next === 'EXPIRED') {
+        await client.query(
+            `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+             VALUES ($1, $2, $3, $4)`,
+            [intent.booking_id, booking.customer_id, 'BOOKING_EXPIRED', JSON.stringify({ message: 'Your payment authorization was cancelled by the bank. Please book again.' })]
+        );
     }
+}
+
+/**
+ * Captures an authorized payment intent at its gateway, then updates status + ledger.
+ */
+export async function capturePayment(bookingId: string, client?: pg.PoolClient): Promise<void> {
+    const logic = async (tx: pg.PoolClient) => {
+        // 1. Find and lock the authorized intent: a concurrent capture waits here and then
+        //    sees it SUCCEEDED instead of capturing at the gateway a second time
+        const findRes = await tx.query<PaymentIntent>(
+            `SELECT * FROM payment_intents 
+             WHERE booking_id = $1 AND status = 'AUTHORIZED'
+             FOR UPDATE`,
+            [bookingId]
+        );
 
-    // 3. Update local status
-    const updateSql = `UPDATE payment_intents 
-         SET status = 'SUCCEEDED', updated_at = CURRENT_TIMESTAMP 
-         WHERE booking_id = $1 AND status = 'AUTHORIZED'
-         RETURNING id`;
-    const updateRes = client ? await client.query(updateSql, [bookingId]) : await query(updateSql, [bookingId]);
+        if (findRes.rowCount === 0) {
+            // Already captured (possibly at the gateway): nothing left to do
+            const captured = await tx.query(
+                `SELECT 1 FROM payment_intents WHERE booking_id = $1 AND status IN ('SUCCEEDED', 'PARTIALLY_REFUNDED', 'REFUNDED')`,
+                [bookingId]
+            );
+            if ((captured.rowCount ?? 0) > 0) return;
+            throw new Error(`No AUTHORIZED payment intent found to capture for booking ${bookingId}`);
+        }
+
+        // 2. Capture at the gateway
+        const intent = findRes.rows[0];
+        await getGateway(intent.provider).capture(intent);
+
+        // 3. Update local status + ledger
+        const updateRes = await tx.query(
+            `UPDATE payment_intents 
+             SET status = 'SUCCEEDED', captured_cents = amount_cents, updated_at = CURRENT_TIMESTAMP 
+             WHERE booking_id = $1 AND status = 'AUTHORIZED'
+             RETURNING id, booking_id, amount_cents`,
+            [bookingId]
+        );
+
+        if (updateRes.rowCount === 0) {
+            throw new Error(`Failed to update payment intent status for booking ${bookingId}`);
+        }
+        for (const intent of updateRes.rows) {
+            await recordCapture(tx, intent);
+        }
+
+        // A capture that went through settles any queued retry
+        await tx.query(
+            `UPDATE capture_retries SET status = 'SUCCEEDED', next_attempt_at = NULL, updated_at = CURRENT_TIMESTAMP
+             WHERE booking_id = $1 AND status = 'PENDING'`,
+            [bookingId]
+        );
+    };
 
-    if (updateRes.rowCount === 0) {
-        throw new Error(`Failed to update payment intent status for booking ${bookingId}`);
+    if (client) {
+        await logic(client);
+    } else {
+        await withTx(logic);
     }
 }
 
 /**
  * Releases an authorized payment intent.
- * Triggered on cancellation.
+ * Triggered on cancellation and expiry. The gateway voids the hold (or refunds, where it has none).
+ * Returns the amount released.
  */
-export async function releaseAuthorization(bookingId: string, client?: pg.PoolClient): Promise<void> {
-    const sql = `UPDATE payment_intents 
-         SET status = 'CANCELLED', updated_at = CURRENT_TIMESTAMP 
-         WHERE booking_id = $1 AND status = 'AUTHORIZED'`;
-    const params = [bookingId];
+export async function releaseAuthorization(bookingId: string, client?: pg.PoolClient): Promise<number> {
+    const logic = async (tx: pg.PoolClient): Promise<number> => {
+        // 1. Void the authorization at the gateway if available
+        const findRes = await tx.query<PaymentIntent>(
+            `SELECT * FROM payment_intents 
+             WHERE booking_id = $1 AND status = 'AUTHORIZED'`,
+            [bookingId]
+        );
+
+        for (const intent of findRes.rows) {
+            await getGateway(intent.provider).release(intent);
+        }
+
+        // 2. Update local status + ledger
+        const updateRes = await tx.query(
+            `UPDATE payment_intents 
+             SET status = 'CANCELLED', updated_at = CURRENT_TIMESTAMP 
+             WHERE booking_id = $1 AND status = 'AUTHORIZED'
+             RETURNING id, booking_id, amount_cents`,
+            [bookingId]
+        );
+        for (const intent of updateRes.rows) {
+            await recordRelease(tx, intent);
+        }
+        return updateRes.rows.reduce((sum, intent) => sum + intent.amount_cents, 0);
+    };
+
     if (client) {
-        await client.query(sql, params);
+        return logic(client);
     } else {
-        await query(sql, params);
+        return withTx(logic);
     }
 }
 
+export interface CancellationFeeOutcome {
+    status: 'COLLECTED' | 'OUTSTANDING' | 'PENDING';
+    fee_cents: number;
+    released_cents: number; // Rest of the authorization given back with the fee capture
+    balance_id?: string; // OUTSTANDING: the customer's new outstanding balance
+    reason?: string; // OUTSTANDING: why the gateway didn't collect; PENDING: the retryable error
+}
+
 /**
- * Charges a separate cancellation fee.
- * MVP: Static R10 fee (1000 cents).
+ * Collects the cancellation fee (CANCELLATION_FEE_CENTS) by capturing that much of the booking's
+ * authorization; the gateway releases the rest. When there is no hold to take it from, or the
+ * gateway won't capture, the fee becomes an outstanding balance on the customer and the hold is
+ * left for releaseAuthorization. A retryable gateway error queues the fee capture in
+ * capture_retries instead (PENDING), and the hold is kept for it.
  */
-export async function chargeCancellationFee(bookingId: string, client?: pg.PoolClient): Promise<void> {
-    const amount_cents = 1000;
-    const currency = 'ZAR';
-    const provider = 'STRIPE';
-    const provider_ref = `pi_fee_${Math.random().toString(36).substring(7)}`;
+export async function chargeCancellationFee(bookingId: string, client?: pg.PoolClient): Promise<CancellationFeeOutcome> {
+    const logic = async (tx: pg.PoolClient): Promise<CancellationFeeOutcome> => {
+        const findRes = await tx.query<PaymentIntent>(
+            `SELECT * FROM payment_intents WHERE booking_id = $1 AND status = 'AUTHORIZED' ORDER BY created_at DESC LIMIT 1 FOR UPDATE`,
+            [bookingId]
+        );
+        const intent = findRes.rows[0];
+        // Never more than was authorized
+        const fee = Math.min(config.payments.cancellationFeeCents, intent?.amount_cents ?? Infinity);
+        if (!intent) {
+            return outstandingFee(tx, bookingId, fee, 'no_authorization');
+        }
+
+        try {
+            return await captureFee(tx, intent, fee);
+        } catch (e) {
+            if (!(e instanceof GatewayError)) throw e;
+            if (e.retryable) {
+                const retry = await recordCaptureFailure(tx, bookingId, e, { target: 'CANCELLED', trigger: 'cancel', amountCents: fee });
+                if (retry.status === 'PENDING') {
+                    return { status: 'PENDING', fee_cents: fee, released_cents: 0, reason: e.code };
+                }
+            }
+            return outstandingFee(tx, bookingId, fee, e.code);
+        }
+    };
 
-    const sql = `INSERT INTO payment_intents (booking_id, amount_cents, currency, status, provider, provider_ref)
-         VALUES ($1, $2, $3, 'SUCCEEDED', $4, $5)`;
-    const params = [bookingId, amount_cents, currency, provider, provider_ref];
     if (client) {
-        await client.query(sql, params);
+        return logic(client);
     } else {
-        await query(sql, params);
+        return withTx(logic);
     }
 }
+
+/**
+ * Captures `fee` of a locked AUTHORIZED intent; the gateway releases the rest. Gateway errors are thrown.
+ */
+export async function captureFee(tx: pg.PoolClient, intent: PaymentIntent, fee: number): Promise<CancellationFeeOutcome> {
+    await getGateway(intent.provider).capture(intent, fee);
+
+    // amount_cents stays what was authorized (its AUTHORIZE entry); captured_cents is the fee
+    const released = intent.amount_cents - fee;
+    await tx.query(
+        `UPDATE payment_intents SET status = 'SUCCEEDED', captured_cents = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+        [intent.id, fee]
+    );
+    await recordRelease(tx, { ...intent, amount_cents: released });
+    await recordCancellationFee(tx, { ...intent, amount_cents: fee });
+    return { status: 'COLLECTED', fee_cents: fee, released_cents: released };
+}
+
+/**
+ * Opens an outstanding balance for the uncollected fee. The hold is left for the caller to release.
+ */
+export async function outstandingFee(tx: pg.PoolClient, bookingId: string, fee: number, reason: string): Promise<CancellationFeeOutcome> {
+    const balance = await openOutstandingBalance(tx, bookingId, fee, reason);
+    return { status: 'OUTSTANDING', fee_cents: fee, released_cents: 0, balance_id: balance.id, reason };
+}
@@ -0,0 +1,343 @@
+import fs from 'fs/promises';
+import path from 'path';
+import pg from 'pg';
+import { query, withTx } from '../db.js';
+import { BookingState, isEligibleForPayout } from './state-machine.js';
+import { recordCommission, recordPayout } from './ledger.js';
+import { splitCommission } from './commission.js';
+import { config } from '../config.js';
+
+export interface PayoutAccount {
+    account_holder: string;
+    bank_name: string;
+    branch_code: string;
+    account_number: string;
+}
+
+export interface PayoutItem {
+    payout_id: string;
+    provider_uid: string;
+    amount_cents: number;
+    account: PayoutAccount;
+}
+
+/**
+ * Moves money to providers. A batch interrupted before it settled is sent again with the
+ * same batch id and items, so implementations must not pay a batch twice when called again;
+ * a thrown error marks the whole batch FAILED and its earnings return to the pool.
+ */
+export interface TransferAdapter {
+    name: string;
+    send(batchId: string, items: PayoutItem[]): Promise<{ transfer_ref: string }>;
+}
+
+/**
+ * Local adapter: writes a CSV EFT batch for upload to the bank portal.
+ * A batch sent again keeps the file already written (it may have been uploaded).
+ */
+export function createEftFileAdapter(dir: string = config.payouts.exportDir): TransferAdapter {
+    return {
+        name: 'eft_file',
+        async send(batchId, items) {
+            const header = 'payout_id,account_holder,bank_name,branch_code,account_number,amount_zar,reference';
+            const rows = items.map(item => [
+                item.payout_id,
+                item.account.account_holder,
+                item.account.bank_name,
+                item.account.branch_code,
+                item.account.account_number,
+                (item.amount_cents / 100).toFixed(2),
+                `OZZSERVE ${batchId.slice(0, 8).toUpperCase()}`,
+            ].map(v => `"${String(v).replace(/"/g, '""')}"`).join(','));
+
+            await fs.mkdir(dir, { recursive: true });
+            const file = path.join(dir, `eft-batch-${batchId}.csv`);
+            try {
+                await fs.writeFile(file, [header, ...rows].join('\n') + '\n', { flag: 'wx' });
+            } catch (e: any) {
+                if (e.code !== 'EEXIST') throw e;
+            }
+            return { transfer_ref: file };
+        },
+    };
+}
+
+/**
+ * Records an earning for every CLOSED booking that has none yet.
+ * Gross is what was captured to provider_payable in the ledger, net of refunds and lost disputes;
+ * commission (the booking's snapshotted rate) moves from the provider's share to
+ * platform fees in the same transaction.
+ */
+export async function accrueEarnings(providerUid?: string): Promise<number> {
+    return withTx(async (client) => {
+        const res = await client.query<{ id: string; status: BookingState; provider_id: string; commission_bps_snapshot: number | null; gross_cents: string }>(
+            `SELECT b.id, b.status, b.provider_id, b.commission_bps_snapshot,
+                    (SELECT COALESCE(SUM(CASE WHEN l.direction = 'CREDIT' THEN l.amount_cents ELSE -l.amount_cents END), 0)
+                     FROM journal_entries e
+                     JOIN ledger_lines l ON l.journal_entry_id = e.id
+                     WHERE e.booking_id = b.id AND e.kind IN ('CAPTURE', 'REFUND', 'DISPUTE_LOSS') AND l.account_code = 'provider_payable') AS gross_cents
+             FROM bookings b
+             WHERE b.status = 'CLOSED'
+               AND b.provider_id IS NOT NULL
+               AND ($1::text IS NULL OR b.provider_id::text = $1)
+               AND NOT EXISTS (SELECT 1 FROM provider_earnings pe WHERE pe.booking_id = b.id)`,
+            [providerUid ?? null]
+        );
+
+        let accrued = 0;
+        for (const row of res.rows) {
+            const gross = Number(row.gross_cents);
+            if (!isEligibleForPayout(row.status) || gross <= 0) continue;
+
+            // Bookings created before commission rules carry no snapshot
+            const split = splitCommission(gross, row.commission_bps_snapshot ?? config.payouts.commissionBps);
+            const earning = await client.query<{ id: string; booking_id: string; commission_cents: number }>(
+                `INSERT INTO provider_earnings (booking_id, provider_uid, gross_cents, commission_cents, net_cents)
+                 VALUES ($1, $2, $3, $4, $5)
+                 ON CONFLICT (booking_id) DO NOTHING
+                 RETURNING id, booking_id, commission_cents`,
+                [row.id, row.provider_id, gross, split.platform_gross_cents, split.provider_net_cents]
+            );
+            if (earning.rowCount === 0) continue;
+
+            await recordCommission(client, { ...earning.rows[0], commission_cents: Number(earning.rows[0].commission_cents) });
+            accrued++;
+        }
+        return accrued;
+    });
+}
+
+type BatchResult = { batch_id: string | null; status: 'SENT' | 'FAILED' | 'EMPTY'; payouts: number; total_cents: number };
+
+/**
+ * Accrues earnings, settles batches left PENDING by an interrupted run, then builds a payout
+ * batch from all unpaid earnings and hands it to the transfer adapter.
+ * Providers without a payout account (or with a non-positive balance) are skipped and
+ * stay available for the next batch. Earnings on bookings with an OPEN dispute are held.
+ */
+export async function runPayoutBatch(
+    adapter: TransferAdapter = createEftFileAdapter()
+): Promise<BatchResult & { resumed: number }> {
+    await accrueEarnings();
+    const resumed = await resumeStaleBatches(adapter);
+
+    // 1. Claim unpaid earnings into a PENDING batch
+    const batch = await withTx(async (client) => {
+        const balances = await client.query<PayoutAccount & { provider_uid: string; amount_cents: string; earning_ids: string[] }>(
+            `SELECT pe.provider_uid, SUM(pe.net_cents) AS amount_cents, ARRAY_AGG(pe.id) AS earning_ids,
+                    a.account_holder, a.bank_name, a.branch_code, a.account_number
+             FROM provider_earnings pe
+             JOIN provider_payout_accounts a ON a.provider_uid = pe.provider_uid
+             WHERE pe.payout_id IS NULL
+               AND NOT EXISTS (SELECT 1 FROM disputes d WHERE d.booking_id = pe.booking_id AND d.status = 'OPEN')
+             GROUP BY pe.provider_uid, a.account_holder, a.bank_name, a.branch_code, a.account_number
+             HAVING SUM(pe.net_cents) > 0`
+        );
+        if (balances.rowCount === 0) return null;
+
+        const total = balances.rows.reduce((sum, r) => sum + Number(r.amount_cents), 0);
+        const batchRes = await client.query<{ id: string }>(
+            `INSERT INTO payout_batches (adapter, total_cents, item_count)
+             VALUES ($1, $2, $3)
+             RETURNING id`,
+            [adapter.name, total, balances.rowCount]
+        );
+        const batchId = batchRes.rows[0].id;
+
+        const items: PayoutItem[] = [];
+        for (const row of balances.rows) {
+            const payoutRes = await client.query<{ id: string }>(
+                `INSERT INTO payouts (batch_id, provider_uid, amount_cents)
+                 VALUES ($1, $2, $3)
+                 RETURNING id`,
+                [batchId, row.provider_uid, row.amount_cents]
+            );
+            const payoutId = payoutRes.rows[0].id;
+
+            // Link exactly the earnings summed above; rows accrued meanwhile wait for the next batch
+            const linked = await client.query(
+                `UPDATE provider_earnings SET payout_id = $1
+                 WHERE id = ANY($2::uuid[]) AND payout_id IS NULL`,
+                [payoutId, row.earning_ids]
+            );
+            if (linked.rowCount !== row.earning_ids.length) {
+                throw new Error(`Earnings for ${row.provider_uid} changed while building payout batch`);
+            }
+
+            items.push({
+                payout_id: payoutId,
+                provider_uid: row.provider_uid,
+                amount_cents: Number(row.amount_cents),
+                account: { account_holder: row.account_holder, bank_name: row.bank_name, branch_code: row.branch_code, account_number: row.account_number },
+            });
+        }
+        return { id: batchId, items, total };
+    });
+
+    if (!batch) return { batch_id: null, status: 'EMPTY', payouts: 0, total_cents: 0, resumed };
+    return { ...await sendBatch(adapter, batch), resumed };
+}
+
+/**
+ * Transfers a PENDING batch and settles it: SENT posts the ledger payout; FAILED returns
+ * earnings to the pool. A batch settled meanwhile (by another run) is left as it is.
+ */
+async function sendBatch(adapter: TransferAdapter, batch: { id: string; items: PayoutItem[]; total: number }): Promise<BatchResult> {
+    // Transfer outside the transaction (external side effect)
+    let transferRef: string | null = null;
+    let error: string | null = null;
+    try {
+        transferRef = (await adapter.send(batch.id, batch.items)).transfer_ref;
+    } catch (e: any) {
+        error = e.message ?? String(e);
+    }
+
+    await withTx(async (client) => {
+        const pending = await client.query(`SELECT 1 FROM payout_batches WHERE id = $1 AND status = 'PENDING' FOR UPDATE`, [batch.id]);
+        if (pending.rowCount === 0) return;
+
+        if (error === null) {
+            await client.query(
+                `UPDATE payout_batches SET status = 'SENT', transfer_ref = $2, sent_at = CURRENT_TIMESTAMP WHERE id = $1`,
+                [batch.id, transferRef]
+            );
+            const sent = await client.query<{ id: string; amount_cents: string }>(
+                `UPDATE payouts SET status = 'SENT', updated_at = CURRENT_TIMESTAMP WHERE batch_id = $1 RETURNING id, amount_cents`,
+                [batch.id]
+            );
+            for (const payout of sent.rows) {
+                await recordPayout(client, { id: payout.id, amount_cents: Number(payout.amount_cents) });
+            }
+        } else {
+            await failBatch(client, batch.id, error);
+        }
+    });
+
+    return { batch_id: batch.id, status: error === null ? 'SENT' : 'FAILED', payouts: batch.items.length, total_cents: batch.total };
+}
+
+async function failBatch(client: pg.PoolClient, batchId: string, error: string): Promise<void> {
+    await client.query(`UPDATE payout_batches SET status = 'FAILED', error = $2 WHERE id = $1`, [batchId, error]);
+    await client.query(`UPDATE payouts SET status = 'FAILED', updated_at = CURRENT_TIMESTAMP WHERE batch_id = $1`, [batchId]);
+    await client.query(
+        `UPDATE provider_earnings SET payout_id = NULL
+         WHERE payout_id IN (SELECT id FROM payouts WHERE batch_id = $1)`,
+        [batchId]
+    );
+}
+
+/**
+ * Batches still PENDING after PAYOUT_PENDING_TIMEOUT_MINUTES were interrupted between being
+ * built and settled (crash, deploy), and may or may not have reached the adapter. Each is
+ * sent again through its adapter, which must not pay it twice, and settled. A batch whose
+ * adapter is not the one running is FAILED and its earnings return to the pool.
+ */
+async function resumeStaleBatches(adapter: TransferAdapter): Promise<number> {
+    const stale = await query<{ id: string; adapter: string; total_cents: string }>(
+        `SELECT id, adapter, total_cents FROM payout_batches
+         WHERE status = 'PENDING' AND created_at < CURRENT_TIMESTAMP - make_interval(mins => $1)
+         ORDER BY created_at ASC`,
+        [config.payouts.pendingTimeoutMinutes]
+    );
+
+    for (const batch of stale.rows) {
+        if (batch.adapter !== adapter.name) {
+            await withTx(async (client) => {
+                const pending = await client.query(`SELECT 1 FROM payout_batches WHERE id = $1 AND status = 'PENDING' FOR UPDATE`, [batch.id]);
+                if (pending.rowCount === 0) return;
+                await failBatch(client, batch.id, `Interrupted; adapter ${batch.adapter} is not available to resume it`);
+            });
+            continue;
+        }
+
+        const items = await query<PayoutAccount & { payout_id: string; provider_uid: string; amount_cents: string }>(
+            `SELECT p.id AS payout_id, p.provider_uid, p.amount_cents,
+                    a.account_holder, a.bank_name, a.branch_code, a.account_number
+             FROM payouts p
+             JOIN provider_payout_accounts a ON a.provider_uid = p.provider_uid
+             WHERE p.batch_id = $1
+             ORDER BY p.created_at ASC, p.id ASC`,
+            [batch.id]
+        );
+        await sendBatch(adapter, {
+            id: batch.id,
+            total: Number(batch.total_cents),
+            items: items.rows.map(row => ({
+                payout_id: row.payout_id,
+                provider_uid: row.provider_uid,
+                amount_cents: Number(row.amount_cents),
+                account: { account_holder: row.account_holder, bank_name: row.bank_name, branch_code: row.branch_code, account_number: row.account_number },
+            })),
+        });
+    }
+    return stale.rowCount ?? 0;
+}
+
+/**
+ * Saves where a provider's payouts are sent.
+ */
+export async function setPayoutAccount(uid: string, account: PayoutAccount): Promise<void> {
+    await query(
+        `INSERT INTO provider_payout_accounts (provider_uid, account_holder, bank_name, branch_code, account_number, updated_at)
+         VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)
+         ON CONFLICT (provider_uid) DO UPDATE
+         SET account_holder = EXCLUDED.account_holder, bank_name = EXCLUDED.bank_name,
+             branch_code = EXCLUDED.branch_code, account_number = EXCLUDED.account_number,
+             updated_at = EXCLUDED.updated_at`,
+        [uid, account.account_holder, account.bank_name, account.branch_code, account.account_number]
+    );
+}
+
+/**
+ * Provider balance: available (unpaid), on hold (unpaid, under dispute), in transit (PENDING payout) and paid (SENT).
+ * Read-only: earnings appear once the payout_batch job has accrued them.
+ */
+export async function getEarnings(uid: string) {
+    const res = await query<{ booking_id: string; gross_cents: string; commission_cents: string; net_cents: string; created_at: string; payout_status: string | null; disputed: boolean }>(
+        `SELECT pe.booking_id, pe.gross_cents, pe.commission_cents, pe.net_cents, pe.created_at, p.status AS payout_status,
+                EXISTS (SELECT 1 FROM disputes d WHERE d.booking_id = pe.booking_id AND d.status = 'OPEN') AS disputed
+         FROM provider_earnings pe
+         LEFT JOIN payouts p ON p.id = pe.payout_id
+         WHERE pe.provider_uid = $1
+         ORDER BY pe.created_at DESC`,
+        [uid]
+    );
+
+    const bookings = res.rows.map(r => ({
+        booking_id: r.booking_id,
+        gross_cents: Number(r.gross_cents),
+        commission_cents: Number(r.commission_cents),
+        net_cents: Number(r.net_cents),
+        status: r.payout_status === 'SENT' ? 'PAID' : r.payout_status === 'PENDING' ? 'IN_PAYOUT' : r.disputed ? 'ON_HOLD' : 'AVAILABLE',
+        accrued_at: r.created_at,
+    }));
+    const total = (status: string) => bookings.filter(b => b.status === status).reduce((sum, b) => sum + b.net_cents, 0);
+
+    return {
+        provider_uid: uid,
+        currency: 'ZAR',
+        available_cents: total('AVAILABLE'),
+        on_hold_cents: total('ON_HOLD'),
+        in_payout_cents: total('IN_PAYOUT'),
+        paid_cents: total('PAID'),
+        bookings,
+    };
+}
+
+/**
+ * Provider payout history, newest first.
+ */
+export async function getProviderPayouts(uid: string) {
+    const res = await query<{ id: string; batch_id: string; amount_cents: string; status: string; created_at: string; sent_at: string | null; booking_ids: string[] }>(
+        `SELECT p.id, p.batch_id, p.amount_cents, p.status, p.created_at, b.sent_at,
+                COALESCE(ARRAY_AGG(pe.booking_id) FILTER (WHERE pe.booking_id IS NOT NULL), '{}') AS booking_ids
+         FROM payouts p
+         JOIN payout_batches b ON b.id = p.batch_id
+         LEFT JOIN provider_earnings pe ON pe.payout_id = p.id
+         WHERE p.provider_uid = $1
+         GROUP BY p.id, b.sent_at
+         ORDER BY p.created_at DESC`,
+        [uid]
+    );
+    return res.rows.map(r => ({ ...r, amount_cents: Number(r.amount_cents) }));
+}
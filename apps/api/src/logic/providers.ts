@@ -1,5 +1,6 @@
+import pg from 'pg';
 import { query, withTx } from '../db.js';
-import { Booking } from './bookings.js';
+import { Booking, toBooking } from './bookings.js';
 
 export interface Provider {
     id: string;
@@ -44,26 +45,31 @@ export async function upsertProvider(
 /**
  * Updates a provider's last known location.
  */
-export async function updateLocation(uid: string, lat: number, lng: number): Promise<void> {
-    await query(
-        `INSERT INTO provider_locations (provider_id, lat, lng, updated_at)
+export async function updateLocation(uid: string, lat: number, lng: number, client?: pg.PoolClient): Promise<void> {
+    const sql = `INSERT INTO provider_locations (provider_id, lat, lng, updated_at)
          SELECT id, $2, $3, CURRENT_TIMESTAMP FROM providers WHERE user_uid = $1
          ON CONFLICT (provider_id) DO UPDATE 
-         SET lat = EXCLUDED.lat, lng = EXCLUDED.lng, updated_at = EXCLUDED.updated_at`,
-        [uid, lat, lng]
-    );
+         SET lat = EXCLUDED.lat, lng = EXCLUDED.lng, updated_at = EXCLUDED.updated_at`;
+    const params = [uid, lat, lng];
+    if (client) {
+        await client.query(sql, params);
+    } else {
+        await query(sql, params);
+    }
 }
 
 /**
  * Fetches booking offers for a candidate provider.
  * Defined as bookings in 'PAID' state where the provider is in the candidate list.
+ * Includes the provider's distance to the job when dispatch was geo-aware.
  */
-export async function getOffers(uid: string): Promise<Booking[]> {
-    const res = await query<Booking>(
-        `SELECT * FROM bookings 
+export async function getOffers(uid: string): Promise<(Booking & { distance_km: number | null })[]> {
+    const res = await query(
+        `SELECT *, (candidate_distances ->> $2)::float AS distance_km FROM bookings 
          WHERE status = 'PAID_SEARCHING' 
-         AND candidate_list @> $1::jsonb`,
-        [JSON.stringify([uid])]
+         AND candidate_list @> $1::jsonb
+         ORDER BY distance_km ASC NULLS LAST, created_at ASC`,
+        [JSON.stringify([uid]), uid]
     );
-    return res.rows;
+    return res.rows.map(row => toBooking(row, false) as Booking & { distance_km: number | null });
 }
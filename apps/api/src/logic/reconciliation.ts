@@ -0,0 +1,263 @@
+import { query } from '../db.js';
+import { config } from '../config.js';
+import { findGateway, GatewayEvent, GatewayIntent, GatewayIntentView } from '../gateways/index.js';
+import { handleIntentEvent } from './payments.js';
+import { BookingState } from './state-machine.js';
+
+/**
+ * Reads intents at the gateway. The default asks each intent's gateway; tests and
+ * local runs can pass their own. `null` means the gateway can't tell.
+ */
+export interface ReconciliationAdapter {
+    name: string;
+    fetchIntent(provider: string, intent: GatewayIntent): Promise<GatewayIntentView | null>;
+}
+
+export function createGatewayReconciliationAdapter(): ReconciliationAdapter {
+    return {
+        name: 'gateway',
+        async fetchIntent(provider, intent) {
+            const gateway = findGateway(provider);
+            return gateway?.retrieve ? gateway.retrieve(intent) : null;
+        },
+    };
+}
+
+export interface ReconciliationRun {
+    id: string;
+    adapter: string;
+    status: 'RUNNING' | 'COMPLETED';
+    checked: number;
+    in_sync: number;
+    unverifiable: number;
+    repaired: number;
+    alerts: number;
+    errors: number;
+    started_at: string;
+    finished_at: string | null;
+}
+
+export interface ReconciliationItem {
+    id: string;
+    run_id: string;
+    payment_intent_id: string;
+    booking_id: string;
+    drift: string;
+    action: 'REPAIRED' | 'ALERT' | 'ERROR';
+    local_status: string;
+    gateway_status: string; // GatewayIntentView state, or UNKNOWN when the lookup failed
+    booking_status: BookingState;
+    detail: string | null;
+    created_at: string;
+}
+
+type OpenIntent = GatewayIntent & { id: string; provider: string; status: string; booking_status: BookingState; capture_queued: boolean };
+
+// Drift that is fixed by applying the event the webhook would have delivered
+type Repair = { drift: string; action: 'REPAIR'; event: GatewayEvent['type'] };
+type Alert = { drift: string; action: 'ALERT'; detail: string };
+
+// Capture is only legitimate once the job is done (PAYMENTS.md: no money moves before completion)
+const CAPTURABLE_BOOKING_STATES: BookingState[] = ['COMPLETE_PENDING', 'CLOSED'];
+const INACTIVE_BOOKING_STATES: BookingState[] = ['CANCELLED', 'EXPIRED'];
+
+/**
+ * What to do about an intent whose gateway view differs from ours; null when in sync.
+ */
+function classifyDrift(intent: OpenIntent, view: GatewayIntentView): Repair | Alert | null {
+    if (view.amount_cents !== undefined && view.amount_cents !== intent.amount_cents) {
+        return { drift: 'AMOUNT_MISMATCH', action: 'ALERT', detail: `Gateway amount ${view.amount_cents}, local ${intent.amount_cents}` };
+    }
+
+    if (intent.status !== 'AUTHORIZED') {
+        // CREATED / REQUIRES_ACTION
+        switch (view.state) {
+            case 'AUTHORIZED':
+                return intent.booking_status === 'PENDING_PAYMENT'
+                    ? { drift: 'MISSED_AUTHORIZATION', action: 'REPAIR', event: 'payment.authorized' }
+                    : { drift: 'AUTHORIZED_FOR_INACTIVE_BOOKING', action: 'ALERT', detail: `Funds held for a ${intent.booking_status} booking` };
+            case 'CAPTURED':
+                return { drift: 'CAPTURED_BEFORE_COMPLETION', action: 'ALERT', detail: 'Captured at the gateway before we saw an authorization' };
+            case 'FAILED':
+                return { drift: 'MISSED_FAILURE', action: 'REPAIR', event: 'payment.failed' };
+            case 'CANCELED':
+                return { drift: 'MISSED_CANCELLATION', action: 'REPAIR', event: 'payment.canceled' };
+            default:
+                return null;
+        }
+    }
+
+    switch (view.state) {
+        case 'AUTHORIZED':
+            if (intent.booking_status === 'CLOSED') {
+                return { drift: 'CLOSED_NOT_CAPTURED', action: 'ALERT', detail: 'Booking is CLOSED but the payment was never captured' };
+            }
+            // A cancelled booking keeps its hold while the cancellation fee capture is retried
+            if (INACTIVE_BOOKING_STATES.includes(intent.booking_status) && !intent.capture_queued) {
+                return { drift: 'HOLD_NOT_RELEASED', action: 'ALERT', detail: `Funds still held for a ${intent.booking_status} booking` };
+            }
+            return null;
+        case 'CAPTURED':
+            // Our capture call failed after the gateway took the money. A queued fee capture on a
+            // cancelled booking took only the fee, so it is alerted rather than booked as a full capture.
+            return CAPTURABLE_BOOKING_STATES.includes(intent.booking_status) || (intent.capture_queued && !INACTIVE_BOOKING_STATES.includes(intent.booking_status))
+                ? { drift: 'MISSED_CAPTURE', action: 'REPAIR', event: 'payment.captured' }
+                : { drift: 'CAPTURED_BEFORE_COMPLETION', action: 'ALERT', detail: `Captured while the booking is ${intent.booking_status}` };
+        case 'CANCELED':
+            return intent.booking_status === 'CLOSED'
+                ? { drift: 'CLOSED_NOT_CAPTURED', action: 'ALERT', detail: 'Booking is CLOSED but the authorization was voided at the gateway' }
+                : { drift: 'MISSED_CANCELLATION', action: 'REPAIR', event: 'payment.canceled' };
+        default:
+            return { drift: 'GATEWAY_BEHIND', action: 'ALERT', detail: `Gateway reports ${view.state} for an authorized intent` };
+    }
+}
+
+/**
+ * Reconciliation job: compares open intents (CREATED, REQUIRES_ACTION, AUTHORIZED) not touched
+ * for RECONCILIATION_MIN_AGE_MINUTES with the gateway. Safe drifts are repaired by applying the
+ * missed event through handleIntentEvent; the rest are alerted to admins, once per intent and drift.
+ * Every drift is logged in reconciliation_items under the run.
+ */
+export async function runReconciliation(
+    adapter: ReconciliationAdapter = createGatewayReconciliationAdapter()
+): Promise<ReconciliationRun> {
+    const runRes = await query<{ id: string }>(
+        'INSERT INTO reconciliation_runs (adapter) VALUES ($1) RETURNING id',
+        [adapter.name]
+    );
+    const runId = runRes.rows[0].id;
+    const counts = { checked: 0, in_sync: 0, unverifiable: 0, repaired: 0, alerts: 0, errors: 0 };
+
+    const intents = await query<OpenIntent>(
+        `SELECT pi.id, pi.booking_id, pi.provider, pi.provider_ref, pi.gateway_payment_id, pi.amount_cents, pi.status,
+                b.status AS booking_status,
+                EXISTS (SELECT 1 FROM capture_retries r WHERE r.booking_id = pi.booking_id AND r.status IN ('PENDING', 'ESCALATED')) AS capture_queued
+         FROM payment_intents pi
+         JOIN bookings b ON b.id = pi.booking_id
+         WHERE pi.status IN ('CREATED', 'REQUIRES_ACTION', 'AUTHORIZED')
+           AND pi.provider_ref IS NOT NULL -- Placeholders never reached the gateway
+           AND pi.updated_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 minute'
+         ORDER BY pi.updated_at ASC
+         LIMIT $2`,
+        [config.reconciliation.minAgeMinutes, config.reconciliation.batchSize]
+    );
+
+    for (const intent of intents.rows) {
+        counts.checked++;
+        let view: GatewayIntentView | null;
+        try {
+            view = await adapter.fetchIntent(intent.provider, intent);
+        } catch (e: any) {
+            counts.errors++;
+            await recordItem(runId, intent, 'LOOKUP_FAILED', 'ERROR', 'UNKNOWN', e.message);
+            continue;
+        }
+        if (!view) {
+            counts.unverifiable++;
+            continue;
+        }
+
+        const drift = classifyDrift(intent, view);
+        if (!drift) {
+            counts.in_sync++;
+            continue;
+        }
+
+        if (drift.action === 'ALERT') {
+            counts.alerts++;
+            await raiseAlert(runId, intent, drift, view);
+            continue;
+        }
+
+        try {
+            const outcome = await handleIntentEvent(intent.provider, {
+                id: undefined,
+                type: drift.event,
+                provider_ref: intent.provider_ref,
+                amount_cents: view.amount_cents,
+                amount_received_cents: view.amount_received_cents,
+                gateway_payment_id: view.gateway_payment_id,
+                decline_code: view.decline_code,
+                cancellation_reason: drift.event === 'payment.canceled' ? 'reconciliation' : undefined,
+            });
+            if (outcome === 'IGNORED') {
+                // A webhook got there first
+                counts.in_sync++;
+                continue;
+            }
+            counts.repaired++;
+            await recordItem(runId, intent, drift.drift, 'REPAIRED', view.state, null);
+        } catch (e: any) {
+            counts.errors++;
+            await recordItem(runId, intent, drift.drift, 'ERROR', view.state, e.message);
+        }
+    }
+
+    const done = await query<ReconciliationRun>(
+        `UPDATE reconciliation_runs
+         SET status = 'COMPLETED', checked = $2, in_sync = $3, unverifiable = $4, repaired = $5, alerts = $6, errors = $7,
+             finished_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [runId, counts.checked, counts.in_sync, counts.unverifiable, counts.repaired, counts.alerts, counts.errors]
+    );
+    return done.rows[0];
+}
+
+async function recordItem(
+    runId: string,
+    intent: OpenIntent,
+    drift: string,
+    action: ReconciliationItem['action'],
+    gatewayStatus: string,
+    detail: string | null
+): Promise<void> {
+    await query(
+        `INSERT INTO reconciliation_items (run_id, payment_intent_id, booking_id, drift, action, local_status, gateway_status, booking_status, detail)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [runId, intent.id, intent.booking_id, drift, action, intent.status, gatewayStatus, intent.booking_status, detail]
+    );
+}
+
+/**
+ * Logs the drift and notifies admins the first time it is seen for the intent.
+ */
+async function raiseAlert(runId: string, intent: OpenIntent, drift: Alert, view: GatewayIntentView): Promise<void> {
+    const seen = await query(
+        `SELECT 1 FROM reconciliation_items WHERE payment_intent_id = $1 AND drift = $2 AND action = 'ALERT'`,
+        [intent.id, drift.drift]
+    );
+    await recordItem(runId, intent, drift.drift, 'ALERT', view.state, drift.detail);
+    if ((seen.rowCount ?? 0) > 0) return;
+
+    await query(
+        `INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload)
+         VALUES ($1, $2, $3, $4)`,
+        [intent.booking_id, 'SYSTEM_ADMIN', 'RECONCILIATION_ALERT', JSON.stringify({
+            drift: drift.drift,
+            detail: drift.detail,
+            payment_intent_id: intent.id,
+            local_status: intent.status,
+            gateway_status: view.state,
+            booking_status: intent.booking_status,
+        })]
+    );
+}
+
+export async function listReconciliationRuns(limit = 20): Promise<ReconciliationRun[]> {
+    const res = await query<ReconciliationRun>(
+        'SELECT * FROM reconciliation_runs ORDER BY started_at DESC LIMIT $1',
+        [limit]
+    );
+    return res.rows;
+}
+
+export async function getReconciliationRun(id: string): Promise<(ReconciliationRun & { items: ReconciliationItem[] }) | null> {
+    const res = await query<ReconciliationRun>('SELECT * FROM reconciliation_runs WHERE id = $1', [id]);
+    if (res.rowCount === 0) return null;
+    const items = await query<ReconciliationItem>(
+        'SELECT * FROM reconciliation_items WHERE run_id = $1 ORDER BY created_at ASC',
+        [id]
+    );
+    return { ...res.rows[0], items: items.rows };
+}
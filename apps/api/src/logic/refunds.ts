@@ -0,0 +1,277 @@
+import pg from 'pg';
+import { withTx } from '../db.js';
+import { BookingState, isEligibleForRefund } from './state-machine.js';
+import { getGateway, GatewayEvent, GatewayIntent, GatewayRefund } from '../gateways/index.js';
+import { recordRefund } from './ledger.js';
+
+export interface Refund {
+    id: string;
+    payment_intent_id: string;
+    booking_id: string;
+    amount_cents: number;
+    status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+    provider_ref: string | null;
+    reason: string | null;
+    override_reason: string | null;
+    requested_by: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+type RefundResult = { ok: boolean; refund?: Refund; error?: string; code?: string };
+
+/**
+ * Fee intents are platform revenue; everything else was captured for the provider.
+ */
+async function isFeeIntent(tx: pg.PoolClient, intentId: string): Promise<boolean> {
+    const res = await tx.query(
+        `SELECT 1 FROM journal_entries WHERE payment_intent_id = $1 AND kind = 'CANCELLATION_FEE'`,
+        [intentId]
+    );
+    return (res.rowCount ?? 0) > 0;
+}
+
+interface EarningRow {
+    gross_cents: string;
+    commission_cents: string;
+    net_cents: string;
+    payout_id: string | null;
+}
+
+/**
+ * Who gives the refund back. A cancellation fee is platform revenue. Before the earning accrues,
+ * the provider's share carries it all, since commission is later taken on what is left. Once
+ * accrued, the refund is split in proportion to the earning's commission and net.
+ */
+function splitRefund(amountCents: number, fee: boolean, earning?: EarningRow): { provider_payable: number; platform_fees: number } {
+    if (fee) return { provider_payable: 0, platform_fees: amountCents };
+    if (!earning || Number(earning.gross_cents) <= 0) return { provider_payable: amountCents, platform_fees: 0 };
+    const commission = Math.round(amountCents * Number(earning.commission_cents) / Number(earning.gross_cents));
+    return { provider_payable: amountCents - commission, platform_fees: commission };
+}
+
+/**
+ * Marks a refund SUCCEEDED and books it: ledger entry, unpaid earning reduced (provider
+ * net and commission in proportion), intent flagged REFUNDED or PARTIALLY_REFUNDED.
+ */
+async function settleRefund(tx: pg.PoolClient, refund: Refund): Promise<Refund> {
+    const res = await tx.query<Refund>(
+        `UPDATE refunds SET status = 'SUCCEEDED', updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
+        [refund.id]
+    );
+    const settled = res.rows[0];
+
+    const fromFees = await isFeeIntent(tx, settled.payment_intent_id);
+    const earningRes = fromFees ? null : await tx.query<EarningRow>(
+        'SELECT gross_cents, commission_cents, net_cents, payout_id FROM provider_earnings WHERE booking_id = $1 AND payout_id IS NULL FOR UPDATE',
+        [settled.booking_id]
+    );
+    const split = splitRefund(settled.amount_cents, fromFees, earningRes?.rows[0]);
+    await recordRefund(tx, settled, split);
+    if (earningRes?.rows[0]) {
+        await tx.query(
+            `UPDATE provider_earnings
+             SET gross_cents = gross_cents - $2, commission_cents = commission_cents - $3, net_cents = net_cents - $4
+             WHERE booking_id = $1 AND payout_id IS NULL`,
+            [settled.booking_id, settled.amount_cents, split.platform_fees, split.provider_payable]
+        );
+    }
+
+    await tx.query(
+        `UPDATE payment_intents pi
+         SET status = CASE WHEN r.total >= pi.captured_cents THEN 'REFUNDED' ELSE 'PARTIALLY_REFUNDED' END,
+             updated_at = CURRENT_TIMESTAMP
+         FROM (SELECT COALESCE(SUM(amount_cents), 0) AS total FROM refunds WHERE payment_intent_id = $1 AND status = 'SUCCEEDED') r
+         WHERE pi.id = $1`,
+        [settled.payment_intent_id]
+    );
+    return settled;
+}
+
+/**
+ * Admin refund of a captured payment, full (default) or partial.
+ * Outside the PAYMENTS.md refund boundary an override reason is required.
+ * The intent's gateway performs it (mock gateways succeed immediately).
+ */
+export async function refundPayment(
+    bookingId: string,
+    data: { amount_cents?: number; reason?: string; override_reason?: string },
+    adminId: string
+): Promise<RefundResult> {
+    return withTx(async (client): Promise<RefundResult> => {
+        const bookingRes = await client.query<{ status: BookingState }>(
+            'SELECT status FROM bookings WHERE id = $1 FOR UPDATE',
+            [bookingId]
+        );
+        if (bookingRes.rowCount === 0) return { ok: false, error: 'Booking not found', code: 'NOT_FOUND' };
+
+        const status = bookingRes.rows[0].status;
+        const overrideReason = data.override_reason?.trim() || null;
+        if (!isEligibleForRefund(status) && !overrideReason) {
+            return { ok: false, error: `Refunds are not permitted in ${status} without an admin override reason`, code: 'REFUND_BOUNDARY' };
+        }
+
+        // 1. Latest captured intent and what is left to refund on it
+        const intentRes = await client.query<GatewayIntent & { id: string; provider: string; captured_cents: number }>(
+            `SELECT id, booking_id, amount_cents, captured_cents, provider, provider_ref, gateway_payment_id FROM payment_intents
+             WHERE booking_id = $1 AND status IN ('SUCCEEDED', 'PARTIALLY_REFUNDED')
+             ORDER BY created_at DESC
+             LIMIT 1
+             FOR UPDATE`,
+            [bookingId]
+        );
+        if (intentRes.rowCount === 0) {
+            return { ok: false, error: 'No captured payment to refund; authorized holds are released by cancelling', code: 'NOT_CAPTURED' };
+        }
+        const intent = intentRes.rows[0];
+
+        // A disputed charge is settled by the dispute; refunding too would pay the customer twice
+        const disputeRes = await client.query(
+            `SELECT 1 FROM disputes WHERE payment_intent_id = $1 AND status = 'OPEN'`,
+            [intent.id]
+        );
+        if ((disputeRes.rowCount ?? 0) > 0) {
+            return { ok: false, error: 'The payment is under dispute; refunds wait for its outcome', code: 'DISPUTED' };
+        }
+
+        const refundedRes = await client.query<{ total: string }>(
+            `SELECT COALESCE(SUM(amount_cents), 0) AS total FROM refunds
+             WHERE payment_intent_id = $1 AND status IN ('PENDING', 'SUCCEEDED')`,
+            [intent.id]
+        );
+        const remaining = intent.captured_cents - Number(refundedRes.rows[0].total);
+        const amount = data.amount_cents ?? remaining;
+        if (remaining <= 0 || amount > remaining) {
+            return { ok: false, error: `Refund exceeds the remaining ${remaining} cents`, code: 'AMOUNT_EXCEEDS_REMAINING' };
+        }
+
+        // 2. Provider money: only while the earning is unpaid (invariant 1)
+        if (!(await isFeeIntent(client, intent.id))) {
+            const earningRes = await client.query<EarningRow>(
+                'SELECT gross_cents, commission_cents, net_cents, payout_id FROM provider_earnings WHERE booking_id = $1 FOR UPDATE',
+                [bookingId]
+            );
+            const earning = earningRes.rows[0];
+            if (earning?.payout_id) {
+                return { ok: false, error: 'Provider has been paid for this booking; resolve through a dispute', code: 'PAID_OUT' };
+            }
+            // Only after a lost dispute can the earning be smaller than what is left on the intent
+            if (earning && Number(earning.gross_cents) < amount) {
+                return { ok: false, error: 'Refund exceeds the provider earning still held', code: 'EXCEEDS_EARNINGS' };
+            }
+        }
+
+        const insertRes = await client.query<Refund>(
+            `INSERT INTO refunds (payment_intent_id, booking_id, amount_cents, reason, override_reason, requested_by)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING *`,
+            [intent.id, bookingId, amount, data.reason ?? null, overrideReason, adminId]
+        );
+        let refund = insertRes.rows[0];
+
+        // 3. Gateway refund (idempotent on our refund id)
+        let gatewayRefund;
+        try {
+            gatewayRefund = await getGateway(intent.provider).refund(intent, amount, `refund_${refund.id}`);
+        } catch (e: any) {
+            await client.query(
+                `UPDATE refunds SET status = 'FAILED', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+                [refund.id]
+            );
+            return { ok: false, error: `Gateway refund failed: ${e.message}`, code: 'GATEWAY_ERROR' };
+        }
+
+        const updated = await client.query<Refund>(
+            `UPDATE refunds SET provider_ref = $2, status = $3, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
+            [refund.id, gatewayRefund.id, gatewayRefund.status]
+        );
+        refund = updated.rows[0];
+
+        // 4. Book it now, or when the refund webhook confirms a pending refund
+        if (refund.status === 'SUCCEEDED') {
+            refund = await settleRefund(client, refund);
+        }
+
+        await client.query(
+            `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [bookingId, 'refund', 'Admin', adminId, JSON.stringify({ refund_id: refund.id, amount_cents: amount, status: refund.status, booking_status: status, reason: data.reason ?? null, override_reason: overrideReason })]
+        );
+
+        return { ok: true, refund };
+    });
+}
+
+/**
+ * Gateway refund webhook (Stripe `charge.refunded`): settles refunds we started and
+ * records ones made directly at the gateway (dashboard). Safe to replay.
+ */
+export async function handleRefundEvent(provider: string, event: GatewayEvent): Promise<void> {
+    const providerRef = event.provider_ref;
+
+    await withTx(async (client) => {
+        const intentRes = await client.query<{ id: string; booking_id: string }>(
+            'SELECT id, booking_id FROM payment_intents WHERE provider = $1 AND provider_ref = $2 FOR UPDATE',
+            [provider, providerRef]
+        );
+        if (intentRes.rowCount === 0) {
+            throw new Error(`Payment intent not found for ref ${providerRef}`);
+        }
+        const intent = intentRes.rows[0];
+
+        const gatewayRefunds: GatewayRefund[] = [...(event.refunds ?? [])];
+        const amountRefunded = event.amount_refunded_cents ?? 0;
+        if (gatewayRefunds.length === 0 && amountRefunded > 0) {
+            // Refund list not expanded: reconcile the cumulative amount, settling our pending refunds first
+            const known = await client.query<{ total: string }>(
+                `SELECT COALESCE(SUM(amount_cents), 0) AS total FROM refunds WHERE payment_intent_id = $1 AND status = 'SUCCEEDED'`,
+                [intent.id]
+            );
+            let unaccounted = amountRefunded - Number(known.rows[0].total);
+            const pending = await client.query<Refund>(
+                `SELECT * FROM refunds WHERE payment_intent_id = $1 AND status = 'PENDING' ORDER BY created_at FOR UPDATE`,
+                [intent.id]
+            );
+            for (const row of pending.rows) {
+                if (row.amount_cents > unaccounted) break;
+                await settleRefund(client, row);
+                unaccounted -= row.amount_cents;
+            }
+            gatewayRefunds.push({ id: `${providerRef}:${amountRefunded}`, amount_cents: unaccounted, status: 'SUCCEEDED' });
+        }
+
+        for (const gatewayRefund of gatewayRefunds) {
+            const existing = await client.query<Refund>(
+                'SELECT * FROM refunds WHERE provider_ref = $1 FOR UPDATE',
+                [gatewayRefund.id]
+            );
+            const row = existing.rows[0];
+
+            if (gatewayRefund.status === 'FAILED') {
+                if (row?.status === 'PENDING') {
+                    await client.query(`UPDATE refunds SET status = 'FAILED', updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [row.id]);
+                }
+                continue;
+            }
+            if (gatewayRefund.status !== 'SUCCEEDED' || row?.status === 'SUCCEEDED' || gatewayRefund.amount_cents <= 0) continue;
+
+            if (row) {
+                await settleRefund(client, row);
+                continue;
+            }
+
+            const inserted = await client.query<Refund>(
+                `INSERT INTO refunds (payment_intent_id, booking_id, amount_cents, provider_ref, reason, requested_by)
+                 VALUES ($1, $2, $3, $4, $5, 'gateway')
+                 RETURNING *`,
+                [intent.id, intent.booking_id, gatewayRefund.amount_cents, gatewayRefund.id, gatewayRefund.reason ?? null]
+            );
+            await settleRefund(client, inserted.rows[0]);
+            await client.query(
+                `INSERT INTO booking_events (booking_id, type, actor_role, actor_id, payload)
+                 VALUES ($1, $2, $3, $4, $5)`,
+                [intent.booking_id, 'refund', 'System', null, JSON.stringify({ refund_id: inserted.rows[0].id, amount_cents: gatewayRefund.amount_cents, status: 'SUCCEEDED', source: 'gateway' })]
+            );
+        }
+    });
+}
@@ -0,0 +1,169 @@
+import pg from 'pg';
+import { query, withTx } from '../db.js';
+
+/**
+ * All slot day boundaries and local times are expressed in South African time.
+ */
+export const SLOT_TIMEZONE = 'Africa/Johannesburg';
+
+export interface Slot {
+    id: string;
+    provider_id: string;
+    service_id: string;
+    starts_at: string;
+    ends_at: string;
+    starts_at_local: string;
+    ends_at_local: string;
+    status: 'OPEN' | 'RESERVED';
+    booking_id: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+const SLOT_COLUMNS = `s.*,
+    to_char(s.starts_at AT TIME ZONE '${SLOT_TIMEZONE}', 'YYYY-MM-DD"T"HH24:MI') AS starts_at_local,
+    to_char(s.ends_at AT TIME ZONE '${SLOT_TIMEZONE}', 'YYYY-MM-DD"T"HH24:MI') AS ends_at_local`;
+
+/**
+ * Publishes an availability window for a provider and one of their services.
+ * Rejects windows in the past and windows overlapping the provider's existing slots.
+ */
+export async function publishSlot(
+    uid: string,
+    data: { service_id: string; starts_at: string; ends_at: string }
+): Promise<{ ok: boolean; slot?: Slot; error?: string }> {
+    const startsAt = new Date(data.starts_at);
+    const endsAt = new Date(data.ends_at);
+    if (endsAt <= startsAt) {
+        return { ok: false, error: 'ends_at must be after starts_at' };
+    }
+    if (startsAt <= new Date()) {
+        return { ok: false, error: 'Slot must start in the future' };
+    }
+
+    return withTx(async (client) => {
+        // Provider row lock serializes publishes, so concurrent overlapping windows can't both pass the check
+        const providerRes = await client.query<{ id: string }>(
+            `SELECT p.id FROM providers p
+             JOIN provider_services ps ON p.id = ps.provider_id
+             WHERE p.user_uid = $1 AND ps.service_id = $2
+             FOR UPDATE OF p`,
+            [uid, data.service_id]
+        );
+        if (providerRes.rowCount === 0) {
+            return { ok: false, error: 'Provider does not offer this service' };
+        }
+        const providerId = providerRes.rows[0].id;
+
+        const overlap = await client.query(
+            'SELECT 1 FROM availability_slots WHERE provider_id = $1 AND starts_at < $3 AND ends_at > $2',
+            [providerId, startsAt.toISOString(), endsAt.toISOString()]
+        );
+        if ((overlap.rowCount ?? 0) > 0) {
+            return { ok: false, error: 'Slot overlaps an existing slot' };
+        }
+
+        const res = await client.query<{ id: string }>(
+            `INSERT INTO availability_slots (provider_id, service_id, starts_at, ends_at)
+             VALUES ($1, $2, $3, $4)
+             RETURNING id`,
+            [providerId, data.service_id, startsAt.toISOString(), endsAt.toISOString()]
+        );
+        const slotRes = await client.query<Slot>(`SELECT ${SLOT_COLUMNS} FROM availability_slots s WHERE s.id = $1`, [res.rows[0].id]);
+        return { ok: true, slot: slotRes.rows[0] };
+    });
+}
+
+/**
+ * Lists a provider's upcoming slots (open and reserved).
+ */
+export async function getProviderSlots(uid: string): Promise<Slot[]> {
+    const res = await query<Slot>(
+        `SELECT ${SLOT_COLUMNS} FROM availability_slots s
+         JOIN providers p ON p.id = s.provider_id
+         WHERE p.user_uid = $1 AND s.ends_at > NOW()
+         ORDER BY s.starts_at ASC`,
+        [uid]
+    );
+    return res.rows;
+}
+
+/**
+ * Lists open, future slots for a service on a given local date (YYYY-MM-DD, Johannesburg time).
+ * Only slots from online providers are returned.
+ */
+export async function getOpenSlots(serviceId: string, date: string): Promise<Slot[]> {
+    const res = await query<Slot>(
+        `SELECT ${SLOT_COLUMNS} FROM availability_slots s
+         JOIN providers p ON p.id = s.provider_id
+         WHERE s.service_id = $1
+         AND s.status = 'OPEN'
+         AND p.is_online = TRUE
+         AND s.starts_at > NOW()
+         AND s.starts_at >= ($2::date)::timestamp AT TIME ZONE '${SLOT_TIMEZONE}'
+         AND s.starts_at < ($2::date + 1)::timestamp AT TIME ZONE '${SLOT_TIMEZONE}'
+         ORDER BY s.starts_at ASC`,
+        [serviceId, date]
+    );
+    return res.rows;
+}
+
+/**
+ * Locks a slot for reservation inside the booking transaction.
+ * Returns the provider's UID so the booking can be dispatched to them.
+ * Unknown slot IDs are always rejected; on-demand bookings don't pass a slot at all.
+ */
+export async function lockSlotForBooking(
+    client: pg.PoolClient,
+    slotId: string,
+    serviceId: string
+): Promise<{ ok: boolean; providerUid?: string; error?: string; code?: string }> {
+    const res = await client.query<{ service_id: string; status: string; starts_at: Date; user_uid: string }>(
+        `SELECT s.service_id, s.status, s.starts_at, p.user_uid FROM availability_slots s
+         JOIN providers p ON p.id = s.provider_id
+         WHERE s.id = $1
+         FOR UPDATE OF s`,
+        [slotId]
+    );
+
+    if (res.rowCount === 0) {
+        return { ok: false, error: 'Slot not found', code: 'SLOT_NOT_FOUND' };
+    }
+
+    const slot = res.rows[0];
+    if (slot.service_id !== serviceId) {
+        return { ok: false, error: 'Slot does not belong to this service', code: 'SLOT_NOT_FOUND' };
+    }
+    if (slot.status !== 'OPEN' || new Date(slot.starts_at) <= new Date()) {
+        return { ok: false, error: 'Slot is no longer available', code: 'SLOT_UNAVAILABLE' };
+    }
+
+    return { ok: true, providerUid: slot.user_uid };
+}
+
+/**
+ * Marks a locked slot as reserved by a booking.
+ */
+export async function reserveSlot(client: pg.PoolClient, slotId: string, bookingId: string): Promise<void> {
+    await client.query(
+        `UPDATE availability_slots SET status = 'RESERVED', booking_id = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = 'OPEN'`,
+        [bookingId, slotId]
+    );
+}
+
+/**
+ * Re-opens the slot held by a booking.
+ * Triggered when the booking is CANCELLED or EXPIRED.
+ */
+export async function releaseSlot(bookingId: string, client?: pg.PoolClient): Promise<void> {
+    const sql = `UPDATE availability_slots
+         SET status = 'OPEN', booking_id = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE booking_id = $1 AND status = 'RESERVED'`;
+    const params = [bookingId];
+    if (client) {
+        await client.query(sql, params);
+    } else {
+        await query(sql, params);
+    }
+}
@@ -52,10 +52,14 @@ const allowedTransitions: Record<string, Transition[]> = {
         { to: 'CANCELLED', who: 'User' },
         { to: 'CANCELLED', who: 'Provider' }
     ],
-    'IN_PROGRESS': [{ to: 'COMPLETE_PENDING', who: 'Provider' }],
+    'IN_PROGRESS': [
+        { to: 'COMPLETE_PENDING', who: 'Provider' },
+        { to: 'NEEDS_REVIEW', who: 'System' } // Capture escalated
+    ],
     'COMPLETE_PENDING': [
         { to: 'CLOSED', who: 'System' }, // Auto-close
-        { to: 'NEEDS_REVIEW', who: 'User' } // Issue reported
+        { to: 'NEEDS_REVIEW', who: 'User' }, // Issue reported
+        { to: 'NEEDS_REVIEW', who: 'System' } // Capture escalated
     ],
     'CLOSED': [], // Terminal
     'CANCELLED': [], // Terminal
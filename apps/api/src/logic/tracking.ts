@@ -0,0 +1,130 @@
+import { query, withTx } from '../db.js';
+import { BookingState } from './state-machine.js';
+import { updateLocation } from './providers.js';
+import { config } from '../config.js';
+
+/**
+ * From STATE_MACHINE.md: tracking is active only while the provider is on the way or on site.
+ */
+export const TRACKING_STATES: BookingState[] = ['ACCEPTED', 'EN_ROUTE', 'ARRIVED'];
+
+export interface TrackingPoint {
+    lat: number;
+    lng: number;
+    recorded_at: string;
+}
+
+export interface TrackingView {
+    booking_id: string;
+    status: BookingState;
+    tracking_active: boolean;
+    latest: TrackingPoint | null;
+    distance_km: number | null;
+    eta_minutes: number | null;
+}
+
+/**
+ * Great-circle distance in km between two points.
+ */
+export function haversineKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Records a provider location update.
+ * Always refreshes the provider's last known fix (used by dispatch). When the provider
+ * has a booking in a tracking state, the point is also appended to that booking's trail.
+ * An explicit booking_id outside a tracking state is refused (nothing is recorded).
+ */
+export async function recordLocation(
+    uid: string,
+    lat: number,
+    lng: number,
+    bookingId?: string
+): Promise<{ ok: boolean; booking_id?: string | null; error?: string; code?: string }> {
+    return withTx(async (client) => {
+        // 1. Resolve the booking being tracked
+        let trackedId: string | null = null;
+        let trackedStatus: BookingState | null = null;
+
+        if (bookingId) {
+            const res = await client.query<{ status: BookingState; provider_id: string | null }>(
+                'SELECT status, provider_id FROM bookings WHERE id = $1',
+                [bookingId]
+            );
+            if (res.rowCount === 0) return { ok: false, error: 'Booking not found', code: 'NOT_FOUND' };
+            const booking = res.rows[0];
+            if (booking.provider_id !== uid) {
+                return { ok: false, error: 'Unauthorized: You are not the assigned provider', code: 'UNAUTHORIZED' };
+            }
+            if (!TRACKING_STATES.includes(booking.status)) {
+                return { ok: false, error: `Tracking is not active in state ${booking.status}`, code: 'TRACKING_INACTIVE' };
+            }
+            trackedId = bookingId;
+            trackedStatus = booking.status;
+        } else {
+            const res = await client.query<{ id: string; status: BookingState }>(
+                `SELECT id, status FROM bookings
+                 WHERE provider_id = $1 AND status = ANY($2::text[])
+                 ORDER BY updated_at DESC
+                 LIMIT 1`,
+                [uid, TRACKING_STATES]
+            );
+            trackedId = res.rows[0]?.id ?? null;
+            trackedStatus = res.rows[0]?.status ?? null;
+        }
+
+        // 2. Refresh last known fix
+        await updateLocation(uid, lat, lng, client);
+
+        // 3. Append to the booking trail
+        if (trackedId) {
+            await client.query(
+                `INSERT INTO booking_locations (booking_id, provider_uid, lat, lng, status)
+                 VALUES ($1, $2, $3, $4, $5)`,
+                [trackedId, uid, lat, lng, trackedStatus]
+            );
+        }
+
+        return { ok: true, booking_id: trackedId };
+    });
+}
+
+/**
+ * Latest tracked point for a booking with a rough ETA to the job location.
+ * Outside ACCEPTED/EN_ROUTE/ARRIVED the provider's position is not shown.
+ */
+export async function getTracking(booking: {
+    id: string;
+    status: BookingState;
+    job_lat: number | null;
+    job_lng: number | null;
+}): Promise<TrackingView> {
+    const tracking_active = TRACKING_STATES.includes(booking.status);
+    if (!tracking_active) {
+        return { booking_id: booking.id, status: booking.status, tracking_active, latest: null, distance_km: null, eta_minutes: null };
+    }
+
+    const res = await query<TrackingPoint>(
+        `SELECT lat, lng, recorded_at FROM booking_locations
+         WHERE booking_id = $1
+         ORDER BY recorded_at DESC
+         LIMIT 1`,
+        [booking.id]
+    );
+    const latest = res.rows[0] ?? null;
+
+    let distance_km: number | null = null;
+    let eta_minutes: number | null = null;
+    if (latest && booking.job_lat !== null && booking.job_lng !== null) {
+        distance_km = Math.round(haversineKm(latest, { lat: booking.job_lat, lng: booking.job_lng }) * 100) / 100;
+        // Arrived means no ETA to show
+        eta_minutes = booking.status === 'ARRIVED' ? null : Math.ceil((distance_km / config.tracking.avgSpeedKmh) * 60);
+    }
+
+    return { booking_id: booking.id, status: booking.status, tracking_active, latest, distance_km, eta_minutes };
+}
@@ -0,0 +1,344 @@
+import pg from 'pg';
+import { FastifyBaseLogger } from 'fastify';
+import { query, withTx } from '../db.js';
+import { config } from '../config.js';
+import { findGateway, GatewayEvent, PaymentGateway } from '../gateways/index.js';
+import { processEvent, EventStatus } from './idempotency.js';
+import { handleIntentEvent } from './payments.js';
+import { handleRefundEvent } from './refunds.js';
+import { handleDisputeEvent } from './disputes.js';
+
+export interface WebhookEvent {
+    id: string;
+    provider: string;
+    event_id: string;
+    status: EventStatus;
+    payload_json: any;
+    attempts: number;
+    last_error: string | null;
+    ordering_key: string | null;
+    next_attempt_at: string | null;
+    processed_at: string | null;
+    first_seen_at: string;
+    last_seen_at: string;
+}
+
+export interface WebhookReplay {
+    id: string;
+    webhook_event_id: string;
+    requested_by: string;
+    outcome: 'PROCESSED' | 'DUPLICATE' | 'FAILED' | 'DISMISSED';
+    error: string | null;
+    note: string | null;
+    created_at: string;
+}
+
+export interface WebhookEventFilter {
+    status?: EventStatus;
+    provider?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+}
+
+type ReplayResult = { ok: boolean; replay?: WebhookReplay; event?: WebhookEvent; error?: string; code?: string };
+
+/**
+ * Applies a verified, normalized gateway event (live delivery and admin replay alike).
+ */
+export async function handleGatewayEvent(gateway: PaymentGateway, event: GatewayEvent, log: FastifyBaseLogger): Promise<void> {
+    if (event.type === 'payment.refunded') {
+        await handleRefundEvent(gateway.name, event);
+    } else if (event.type.startsWith('dispute.')) {
+        await handleDisputeEvent(gateway.name, event);
+    } else if (event.type !== 'ignored') {
+        if (event.type === 'payment.failed') {
+            // The booking stays PENDING_PAYMENT; the customer can retry
+            log.warn(`Payment failed for ${event.provider_ref} (Booking: ${event.booking_id}, decline: ${event.decline_code ?? 'n/a'})`);
+        }
+        const outcome = await handleIntentEvent(gateway.name, event);
+        if (outcome === 'IGNORED') {
+            log.info(`Ignored ${event.type} for ${event.provider_ref}: intent already past it`);
+        }
+    }
+}
+
+/**
+ * Stored webhook events, oldest first, filtered by status, provider and first-seen time.
+ */
+export async function listWebhookEvents(filter: WebhookEventFilter): Promise<WebhookEvent[]> {
+    const res = await query<WebhookEvent>(
+        `SELECT * FROM webhook_events
+         WHERE ($1::text IS NULL OR status = $1)
+           AND ($2::text IS NULL OR provider = LOWER($2))
+           AND ($3::timestamptz IS NULL OR first_seen_at >= $3)
+           AND ($4::timestamptz IS NULL OR first_seen_at < $4)
+         ORDER BY first_seen_at ASC
+         LIMIT $5`,
+        [filter.status ?? null, filter.provider ?? null, filter.from ?? null, filter.to ?? null, filter.limit ?? 100]
+    );
+    return res.rows;
+}
+
+export async function getWebhookEvent(id: string): Promise<(WebhookEvent & { replays: WebhookReplay[] }) | null> {
+    const res = await query<WebhookEvent>('SELECT * FROM webhook_events WHERE id = $1', [id]);
+    if (res.rowCount === 0) return null;
+    const replays = await query<WebhookReplay>(
+        'SELECT * FROM webhook_replays WHERE webhook_event_id = $1 ORDER BY created_at ASC',
+        [id]
+    );
+    return { ...res.rows[0], replays: replays.rows };
+}
+
+/**
+ * Re-drives a stored event through the live handler. processEvent still applies,
+ * so an already PROCESSED event comes back DUPLICATE without side effects.
+ * Every attempt is logged in webhook_replays.
+ */
+export async function replayWebhookEvent(id: string, adminId: string, log: FastifyBaseLogger): Promise<ReplayResult> {
+    const res = await query<WebhookEvent>('SELECT * FROM webhook_events WHERE id = $1', [id]);
+    if (res.rowCount === 0) return { ok: false, error: 'Webhook event not found', code: 'NOT_FOUND' };
+    const stored = res.rows[0];
+
+    const gateway = findGateway(stored.provider);
+    if (!gateway) {
+        return { ok: false, error: `Unknown payment provider: ${stored.provider}`, code: 'UNKNOWN_PROVIDER' };
+    }
+
+    let outcome: WebhookReplay['outcome'];
+    let error: string | null = null;
+    try {
+        outcome = await processEvent(stored.provider, stored.event_id, stored.payload_json, () =>
+            handleGatewayEvent(gateway, gateway.parseEvent(stored.payload_json), log)
+        );
+    } catch (e: any) {
+        outcome = 'FAILED';
+        error = e instanceof Error ? e.message : String(e);
+        log.error({ err: e, webhook_event_id: id }, 'Webhook replay failed');
+    }
+
+    const replayRes = await query<WebhookReplay>(
+        `INSERT INTO webhook_replays (webhook_event_id, requested_by, outcome, error)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [id, adminId, outcome, error]
+    );
+    const event = await query<WebhookEvent>('SELECT * FROM webhook_events WHERE id = $1', [id]);
+    return { ok: true, replay: replayRes.rows[0], event: event.rows[0] };
+}
+
+/**
+ * Admin: gives up on a dead letter without applying it, so later events for the same
+ * booking stop waiting behind it. Logged in webhook_replays with the admin's reason.
+ */
+export async function dismissWebhookEvent(id: string, adminId: string, note: string): Promise<ReplayResult> {
+    return withTx(async (client): Promise<ReplayResult> => {
+        const res = await client.query<WebhookEvent>('SELECT * FROM webhook_events WHERE id = $1 FOR UPDATE', [id]);
+        if (res.rowCount === 0) return { ok: false, error: 'Webhook event not found', code: 'NOT_FOUND' };
+        if (res.rows[0].status !== EventStatus.FAILED) {
+            return { ok: false, error: `Only dead letters can be dismissed; event is ${res.rows[0].status}`, code: 'NOT_DEAD_LETTER' };
+        }
+
+        const event = await client.query<WebhookEvent>(
+            `UPDATE webhook_events SET status = $2, next_attempt_at = NULL WHERE id = $1 RETURNING *`,
+            [id, EventStatus.DISMISSED]
+        );
+        const replayRes = await client.query<WebhookReplay>(
+            `INSERT INTO webhook_replays (webhook_event_id, requested_by, outcome, note)
+             VALUES ($1, $2, 'DISMISSED', $3)
+             RETURNING *`,
+            [id, adminId, note]
+        );
+        return { ok: true, replay: replayRes.rows[0], event: event.rows[0] };
+    });
+}
+
+/**
+ * Replays every event matching the filter (FAILED by default), oldest first, one at a time.
+ */
+export async function replayWebhookEvents(
+    filter: WebhookEventFilter,
+    adminId: string,
+    log: FastifyBaseLogger
+): Promise<{ replayed: number; processed: number; duplicate: number; failed: number; replays: WebhookReplay[] }> {
+    const events = await listWebhookEvents({ ...filter, status: filter.status ?? EventStatus.FAILED });
+    const replays: WebhookReplay[] = [];
+    for (const event of events) {
+        const result = await replayWebhookEvent(event.id, adminId, log);
+        if (result.replay) replays.push(result.replay);
+    }
+    return {
+        replayed: replays.length,
+        processed: replays.filter(r => r.outcome === 'PROCESSED').length,
+        duplicate: replays.filter(r => r.outcome === 'DUPLICATE').length,
+        failed: replays.filter(r => r.outcome === 'FAILED').length,
+        replays,
+    };
+}
+
+/**
+ * Delay before the next attempt, after `attempts` failures: base * 2^(attempts-1), capped.
+ */
+function backoffMs(attempts: number): number {
+    return Math.min(config.webhooks.baseDelayMs * 2 ** (attempts - 1), config.webhooks.maxDelayMs);
+}
+
+/**
+ * Async ingestion: stores a verified event as PENDING for the webhook_worker job.
+ * Events for one booking are applied in receipt order, so the booking (or, before the
+ * intent is known, the gateway's intent ref) is the ordering key. A redelivered event is
+ * not queued again: a dead letter stays FAILED (reported as DEAD_LETTER) until replayed
+ * or dismissed.
+ */
+export async function enqueueWebhookEvent(
+    provider: string,
+    gateway: PaymentGateway,
+    event: GatewayEvent,
+    payload: any
+): Promise<'QUEUED' | 'DUPLICATE' | 'DEAD_LETTER'> {
+    let orderingKey = event.booking_id ?? null;
+    if (!orderingKey && event.provider_ref) {
+        const intentRes = await query<{ booking_id: string }>(
+            'SELECT booking_id FROM payment_intents WHERE provider = $1 AND provider_ref = $2',
+            [gateway.name, event.provider_ref]
+        );
+        orderingKey = intentRes.rows[0]?.booking_id ?? event.provider_ref;
+    }
+
+    const res = await query<{ status: EventStatus }>(
+        `INSERT INTO webhook_events (provider, event_id, status, payload_json, ordering_key, next_attempt_at, last_seen_at)
+         VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+         ON CONFLICT (provider, event_id) DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at
+         RETURNING status`,
+        [provider, event.id, EventStatus.PENDING, JSON.stringify(payload), orderingKey ?? event.id]
+    );
+    switch (res.rows[0].status) {
+        case EventStatus.PROCESSED:
+        case EventStatus.DISMISSED:
+            return 'DUPLICATE';
+        case EventStatus.FAILED:
+            return 'DEAD_LETTER';
+        default:
+            return 'QUEUED';
+    }
+}
+
+/**
+ * Applies a claimed queued event. A failure reschedules it with backoff until the
+ * attempts run out, then leaves it FAILED (dead letter). Runs in the claim's transaction.
+ */
+async function applyQueuedEvent(client: pg.PoolClient, stored: WebhookEvent, log: FastifyBaseLogger): Promise<'PROCESSED' | 'RETRY' | 'FAILED'> {
+    try {
+        const gateway = findGateway(stored.provider);
+        if (!gateway) throw new Error(`Unknown payment provider: ${stored.provider}`);
+        await handleGatewayEvent(gateway, gateway.parseEvent(stored.payload_json), log);
+
+        await client.query(
+            `UPDATE webhook_events
+             SET status = $2, attempts = attempts + 1, last_error = NULL, next_attempt_at = NULL, processed_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [stored.id, EventStatus.PROCESSED]
+        );
+        return 'PROCESSED';
+    } catch (e: any) {
+        const attempts = stored.attempts + 1;
+        const message = e instanceof Error ? e.message : String(e);
+        log.error({ err: e, webhook_event_id: stored.id, attempts }, 'Queued webhook failed');
+
+        if (attempts >= config.webhooks.maxAttempts) {
+            await client.query(
+                `UPDATE webhook_events SET status = $2, attempts = $3, last_error = $4, next_attempt_at = NULL WHERE id = $1`,
+                [stored.id, EventStatus.FAILED, attempts, message]
+            );
+            return 'FAILED';
+        }
+        await client.query(
+            `UPDATE webhook_events
+             SET attempts = $2, last_error = $3, next_attempt_at = CURRENT_TIMESTAMP + $4 * INTERVAL '1 millisecond'
+             WHERE id = $1`,
+            [stored.id, attempts, message, backoffMs(attempts)]
+        );
+        return 'RETRY';
+    }
+}
+
+/**
+ * Webhook worker (scheduler job): applies due PENDING events, oldest first. An event waits
+ * while an earlier one with the same ordering key is still pending (including in backoff)
+ * or dead-lettered, until that one is replayed or dismissed.
+ * Each is claimed via SKIP LOCKED in its own transaction.
+ */
+export async function processWebhookQueue(
+    log: FastifyBaseLogger,
+    batchSize = 50
+): Promise<{ processed: number; retried: number; dead_lettered: number }> {
+    const counts = { processed: 0, retried: 0, dead_lettered: 0 };
+    const attempted: string[] = [];
+
+    while (attempted.length < batchSize) {
+        const outcome = await withTx(async (client) => {
+            const res = await client.query<WebhookEvent>(
+                `SELECT e.* FROM webhook_events e
+                 WHERE e.status = 'PENDING' AND e.next_attempt_at <= CURRENT_TIMESTAMP
+                 AND NOT (e.id = ANY($1::uuid[]))
+                 AND NOT EXISTS (
+                     SELECT 1 FROM webhook_events prior
+                     WHERE prior.status IN ('PENDING', 'FAILED') AND prior.ordering_key = e.ordering_key
+                     AND (prior.first_seen_at, prior.id) < (e.first_seen_at, e.id)
+                 )
+                 ORDER BY e.first_seen_at ASC
+                 LIMIT 1
+                 FOR UPDATE SKIP LOCKED`,
+                [attempted]
+            );
+            if (res.rowCount === 0) return null;
+            attempted.push(res.rows[0].id);
+            return applyQueuedEvent(client, res.rows[0], log);
+        });
+
+        if (outcome === null) break;
+        if (outcome === 'PROCESSED') counts.processed++;
+        else if (outcome === 'RETRY') counts.retried++;
+        else counts.dead_lettered++;
+    }
+
+    return counts;
+}
+
+/**
+ * Queue depth and lag: how far behind the worker is now, and how long events took
+ * from receipt to applied over the last hour.
+ */
+export async function getWebhookQueueStats() {
+    const res = await query(
+        `SELECT
+             COUNT(*) FILTER (WHERE status = 'PENDING') AS pending,
+             COUNT(*) FILTER (WHERE status = 'PENDING' AND next_attempt_at <= CURRENT_TIMESTAMP) AS due,
+             COUNT(*) FILTER (WHERE status = 'PENDING' AND attempts > 0) AS retrying,
+             COUNT(*) FILTER (WHERE status = 'FAILED') AS dead_letters,
+             COUNT(*) FILTER (WHERE status = 'PENDING' AND EXISTS (
+                 SELECT 1 FROM webhook_events d
+                 WHERE d.status = 'FAILED' AND d.ordering_key = webhook_events.ordering_key
+                 AND (d.first_seen_at, d.id) < (webhook_events.first_seen_at, webhook_events.id)
+             )) AS blocked,
+             EXTRACT(EPOCH FROM CURRENT_TIMESTAMP - MIN(first_seen_at) FILTER (WHERE status = 'PENDING')) AS oldest_pending_seconds,
+             COUNT(*) FILTER (WHERE processed_at > CURRENT_TIMESTAMP - INTERVAL '1 hour') AS processed_last_hour,
+             AVG(EXTRACT(EPOCH FROM processed_at - first_seen_at)) FILTER (WHERE processed_at > CURRENT_TIMESTAMP - INTERVAL '1 hour') AS avg_lag_seconds,
+             MAX(EXTRACT(EPOCH FROM processed_at - first_seen_at)) FILTER (WHERE processed_at > CURRENT_TIMESTAMP - INTERVAL '1 hour') AS max_lag_seconds
+         FROM webhook_events`
+    );
+    const row = res.rows[0];
+    const seconds = (value: string | null) => (value === null ? null : Math.round(Number(value) * 1000) / 1000);
+    return {
+        async: config.webhooks.async,
+        pending: Number(row.pending),
+        due: Number(row.due),
+        retrying: Number(row.retrying),
+        dead_letters: Number(row.dead_letters),
+        blocked: Number(row.blocked), // Pending behind a dead letter for the same booking
+        oldest_pending_seconds: seconds(row.oldest_pending_seconds),
+        processed_last_hour: Number(row.processed_last_hour),
+        avg_lag_seconds: seconds(row.avg_lag_seconds),
+        max_lag_seconds: seconds(row.max_lag_seconds),
+    };
+}
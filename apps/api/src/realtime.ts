@@ -0,0 +1,123 @@
+import pg from 'pg';
+import { FastifyBaseLogger } from 'fastify';
+import { connectClient } from './db.js';
+import { BookingState } from './logic/state-machine.js';
+
+/**
+ * Channel fed by the notify_booking_update() trigger (migration 010).
+ */
+export const BOOKING_CHANNEL = 'booking_updates';
+
+export interface BookingUpdate {
+    booking_id: string;
+    kind: 'status' | 'tracking';
+    status?: BookingState;
+}
+
+export type BookingUpdateListener = (update: BookingUpdate) => void;
+
+export interface BookingStream {
+    subscribe(bookingId: string, listener: BookingUpdateListener): Promise<() => void>;
+    close(): Promise<void>;
+}
+
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Fans out Postgres NOTIFY messages to in-process subscribers keyed by booking id.
+ * One LISTEN connection per instance, opened on the first subscription, so every
+ * instance sees updates written by any other instance.
+ */
+export function createBookingStream(log: FastifyBaseLogger): BookingStream {
+    const listeners = new Map<string, Set<BookingUpdateListener>>();
+    let client: pg.Client | null = null;
+    let connecting: Promise<void> | null = null;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+    let closed = false;
+
+    function dispatch(msg: pg.Notification) {
+        if (msg.channel !== BOOKING_CHANNEL || !msg.payload) return;
+        let update: BookingUpdate;
+        try {
+            update = JSON.parse(msg.payload);
+        } catch {
+            return;
+        }
+        for (const listener of listeners.get(update.booking_id) ?? []) {
+            listener(update);
+        }
+    }
+
+    function dropConnection(err?: Error) {
+        if (err) log.error({ err }, 'Booking stream connection lost');
+        const stale = client;
+        client = null;
+        stale?.end().catch(() => undefined);
+
+        // Keep existing subscribers alive across connection blips
+        if (!closed && listeners.size > 0 && !reconnectTimer) {
+            reconnectTimer = setTimeout(() => {
+                reconnectTimer = null;
+                ensureConnected().catch(e => dropConnection(e));
+            }, RECONNECT_DELAY_MS);
+            reconnectTimer.unref();
+        }
+    }
+
+    async function ensureConnected(): Promise<void> {
+        if (client) return;
+        if (!connecting) {
+            connecting = (async () => {
+                const c = await connectClient();
+                c.on('notification', dispatch);
+                c.on('error', (err) => dropConnection(err));
+                await c.query(`LISTEN ${BOOKING_CHANNEL}`);
+                if (closed) {
+                    await c.end();
+                    return;
+                }
+                client = c;
+            })().finally(() => {
+                connecting = null;
+            });
+        }
+        return connecting;
+    }
+
+    return {
+        async subscribe(bookingId, listener) {
+            let set = listeners.get(bookingId);
+            if (!set) {
+                set = new Set();
+                listeners.set(bookingId, set);
+            }
+            set.add(listener);
+
+            try {
+                await ensureConnected();
+            } catch (e) {
+                set.delete(listener);
+                if (set.size === 0) listeners.delete(bookingId);
+                throw e;
+            }
+
+            return () => {
+                set.delete(listener);
+                if (set.size === 0) listeners.delete(bookingId);
+            };
+        },
+
+        async close() {
+            closed = true;
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+            listeners.clear();
+            if (connecting) await connecting.catch(() => undefined);
+            if (client) {
+                const c = client;
+                client = null;
+                await c.end();
+            }
+        },
+    };
+}
@@ -0,0 +1,211 @@
+import os from 'os';
+import pg from 'pg';
+import { FastifyBaseLogger } from 'fastify';
+import { query, connectClient } from './db.js';
+import { config } from './config.js';
+
+export interface ScheduledJob {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<unknown>;
+}
+
+export interface JobRun {
+    id: string;
+    job_name: string;
+    instance_id: string;
+    status: 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+    result: any;
+    error: string | null;
+    started_at: string;
+    finished_at: string | null;
+}
+
+export interface JobStatus {
+    name: string;
+    interval_ms: number;
+    running_here: boolean;
+    last_run: JobRun | null;
+    last_success_at: string | null;
+    recent_failures: number;
+}
+
+export interface Scheduler {
+    start(): void;
+    stop(): Promise<void>;
+    runNow(name: string): Promise<'SUCCEEDED' | 'FAILED' | 'SKIPPED'>;
+    status(): Promise<JobStatus[]>;
+}
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+/**
+ * Runs a job under a Postgres advisory lock keyed by job name, taken on the scheduler's
+ * own connection so a long run never holds a pooled client the job itself needs.
+ * Only the instance holding the lock runs the job; others skip this tick.
+ * Each run that acquires the lock is recorded in job_runs.
+ */
+async function runJobOnce(job: ScheduledJob, lockClient: pg.Client): Promise<'SUCCEEDED' | 'FAILED' | 'SKIPPED'> {
+    const lockKey = `ozzserve:job:${job.name}`;
+    const lockRes = await lockClient.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_lock(hashtext($1)) AS locked',
+        [lockKey]
+    );
+    if (!lockRes.rows[0].locked) {
+        return 'SKIPPED';
+    }
+
+    try {
+        const runRes = await query<{ id: string }>(
+            `INSERT INTO job_runs (job_name, instance_id, status)
+             VALUES ($1, $2, 'RUNNING')
+             RETURNING id`,
+            [job.name, INSTANCE_ID]
+        );
+        const runId = runRes.rows[0].id;
+
+        try {
+            const result = await job.run();
+            await query(
+                `UPDATE job_runs SET status = 'SUCCEEDED', result = $1, finished_at = CURRENT_TIMESTAMP WHERE id = $2`,
+                [JSON.stringify(result ?? null), runId]
+            );
+            return 'SUCCEEDED';
+        } catch (e: any) {
+            await query(
+                `UPDATE job_runs SET status = 'FAILED', error = $1, finished_at = CURRENT_TIMESTAMP WHERE id = $2`,
+                [e?.message ?? String(e), runId]
+            );
+            return 'FAILED';
+        }
+    } finally {
+        await lockClient.query('SELECT pg_advisory_unlock(hashtext($1))', [lockKey]);
+    }
+}
+
+/**
+ * Deletes run history older than JOB_RUN_RETENTION_DAYS, keeping each job's latest
+ * success so the admin status still shows when it last worked.
+ */
+export async function purgeJobRuns(): Promise<{ purged: number }> {
+    const res = await query(
+        `DELETE FROM job_runs r
+         WHERE r.started_at < NOW() - $1 * INTERVAL '1 day'
+         AND r.id IS DISTINCT FROM (
+             SELECT s.id FROM job_runs s
+             WHERE s.job_name = r.job_name AND s.status = 'SUCCEEDED'
+             ORDER BY s.finished_at DESC LIMIT 1
+         )`,
+        [config.scheduler.jobRunRetentionDays]
+    );
+    return { purged: res.rowCount ?? 0 };
+}
+
+/**
+ * Creates an in-process scheduler for periodic jobs.
+ * Each job reschedules itself after its run finishes, so runs never overlap locally;
+ * the advisory lock prevents overlap across instances. The locks live on one dedicated
+ * connection, opened on the first run and closed by stop().
+ */
+export function createScheduler(jobs: ScheduledJob[], log: FastifyBaseLogger): Scheduler {
+    const timers = new Map<string, NodeJS.Timeout>();
+    const inFlight = new Map<string, Promise<'SUCCEEDED' | 'FAILED' | 'SKIPPED'>>();
+    let stopped = true;
+    let lockClient: Promise<pg.Client> | null = null;
+
+    const findJob = (name: string): ScheduledJob => {
+        const job = jobs.find(j => j.name === name);
+        if (!job) throw new Error(`Unknown job: ${name}`);
+        return job;
+    };
+
+    // A dropped connection loses its locks; the next run reconnects
+    const getLockClient = (): Promise<pg.Client> => {
+        if (!lockClient) {
+            const connecting = connectClient().then(c => {
+                c.on('error', (err) => {
+                    log.error({ err }, 'Scheduler lock connection lost');
+                    if (lockClient === connecting) lockClient = null;
+                    c.end().catch(() => undefined);
+                });
+                return c;
+            });
+            connecting.catch(() => {
+                if (lockClient === connecting) lockClient = null;
+            });
+            lockClient = connecting;
+        }
+        return lockClient;
+    };
+
+    const runNow = (name: string) => {
+        const existing = inFlight.get(name);
+        if (existing) return existing;
+
+        const job = findJob(name);
+        const run = getLockClient()
+            .then(client => runJobOnce(job, client))
+            .catch((err): 'FAILED' => {
+                // Lock/DB errors must not kill the loop
+                log.error({ err, job: name }, 'Scheduler: job could not run');
+                return 'FAILED';
+            })
+            .finally(() => inFlight.delete(name));
+        inFlight.set(name, run);
+        return run;
+    };
+
+    const schedule = (job: ScheduledJob) => {
+        if (stopped) return;
+        const timer = setTimeout(async () => {
+            await runNow(job.name);
+            schedule(job);
+        }, job.intervalMs);
+        timer.unref();
+        timers.set(job.name, timer);
+    };
+
+    return {
+        start() {
+            if (!stopped) return;
+            stopped = false;
+            jobs.forEach(schedule);
+        },
+
+        async stop() {
+            stopped = true;
+            for (const timer of timers.values()) clearTimeout(timer);
+            timers.clear();
+            await Promise.all(inFlight.values());
+            if (lockClient) {
+                const closing = lockClient;
+                lockClient = null;
+                await (await closing.catch(() => null))?.end();
+            }
+        },
+
+        runNow,
+
+        async status() {
+            const res = await query<JobRun & { last_success_at: string | null; recent_failures: string }>(
+                `SELECT DISTINCT ON (r.job_name) r.*,
+                    (SELECT MAX(finished_at) FROM job_runs s WHERE s.job_name = r.job_name AND s.status = 'SUCCEEDED') AS last_success_at,
+                    (SELECT COUNT(*) FROM job_runs f WHERE f.job_name = r.job_name AND f.status = 'FAILED' AND f.started_at > NOW() - INTERVAL '24 hours') AS recent_failures
+                 FROM job_runs r
+                 WHERE r.job_name = ANY($1::text[])
+                 ORDER BY r.job_name, r.started_at DESC`,
+                [jobs.map(j => j.name)]
+            );
+            const byName = new Map(res.rows.map(r => [r.job_name, r]));
+
+            return jobs.map(job => {
+                const base = { name: job.name, interval_ms: job.intervalMs, running_here: inFlight.has(job.name) };
+                const row = byName.get(job.name);
+                if (!row) return { ...base, last_run: null, last_success_at: null, recent_failures: 0 };
+
+                const { last_success_at, recent_failures, ...lastRun } = row;
+                return { ...base, last_run: lastRun, last_success_at, recent_failures: parseInt(recent_failures) };
+            });
+        },
+    };
+}
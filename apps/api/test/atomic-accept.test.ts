@@ -67,7 +67,6 @@ describe('Atomic Accept Verification', () => {
             headers: { 'x-user-id': customer_uid, 'x-role': 'user' },
             payload: {
                 service_id,
-                slot_id: '550e8400-e29b-41d4-a716-446655440002',
                 user_id: customer_uid,
             },
         });
@@ -6,7 +6,6 @@ describe('Dev-Only Auth Middleware', () => {
     let app: FastifyInstance;
 
     const VALID_SERVICE_ID = '550e8400-e29b-41d4-a716-446655440001';
-    const VALID_SLOT_ID = '550e8400-e29b-41d4-a716-446655440002';
     const VALID_USER_ID = '550e8400-e29b-41d4-a716-446655440003';
 
     beforeAll(async () => {
@@ -31,7 +30,6 @@ describe('Dev-Only Auth Middleware', () => {
             url: '/v1/bookings',
             payload: {
                 service_id: VALID_SERVICE_ID,
-                slot_id: VALID_SLOT_ID,
                 user_id: VALID_USER_ID
             }
         });
@@ -48,7 +46,6 @@ describe('Dev-Only Auth Middleware', () => {
             },
             payload: {
                 service_id: VALID_SERVICE_ID,
-                slot_id: VALID_SLOT_ID,
                 user_id: VALID_USER_ID
             }
         });
@@ -65,7 +62,6 @@ describe('Dev-Only Auth Middleware', () => {
             },
             payload: {
                 service_id: VALID_SERVICE_ID,
-                slot_id: VALID_SLOT_ID,
                 user_id: VALID_USER_ID
             }
         });
@@ -0,0 +1,119 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { autoCloseCompletedBookings } from '../src/logic/bookings.js';
+
+describe('Auto-close: COMPLETE_PENDING -> CLOSED after grace window', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, notification_outbox RESTART IDENTITY CASCADE');
+    });
+
+    /**
+     * Helper: Seed a COMPLETE_PENDING booking with an AUTHORIZED intent (provider-complete path, no capture yet).
+     */
+    async function seedCompletePending(graceInterval: string, intentStatus: string | null = 'AUTHORIZED'): Promise<string> {
+        const createRes = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = createRes.json().id;
+
+        await query(
+            `UPDATE bookings SET status = 'COMPLETE_PENDING', provider_id = $1, complete_pending_until = NOW() + $2::interval WHERE id = $3`,
+            [PROVIDER_ID, graceInterval, id]
+        );
+        if (intentStatus) {
+            await query(
+                `INSERT INTO payment_intents (booking_id, amount_cents, status, provider, provider_ref) VALUES ($1, 10000, $2, 'STRIPE', $3)`,
+                [id, intentStatus, `pi_mock_${id.slice(0, 8)}`]
+            );
+        }
+        return id;
+    }
+
+    test('Expired grace window: captures the authorization and closes the booking', async () => {
+        const id = await seedCompletePending('-1 minute');
+
+        const sweepRes = await app.inject({
+            method: 'POST',
+            url: '/v1/admin/sweep',
+            headers: { 'x-user-id': ADMIN_ID, 'x-role': 'admin' }
+        });
+        expect(sweepRes.statusCode).toBe(200);
+        expect(sweepRes.json().auto_closed).toBe(1);
+
+        const b = await query('SELECT status FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].status).toBe('CLOSED');
+
+        const p = await query('SELECT status FROM payment_intents WHERE booking_id = $1', [id]);
+        expect(p.rows[0].status).toBe('SUCCEEDED');
+
+        const events = await query(`SELECT type FROM booking_events WHERE booking_id = $1 AND type IN ('transition_closed', 'auto_closed')`, [id]);
+        expect(events.rows.map(r => r.type).sort()).toEqual(['auto_closed', 'transition_closed']);
+    });
+
+    test('Already captured (complete path): closes without a second capture', async () => {
+        const id = await seedCompletePending('-1 minute', 'SUCCEEDED');
+
+        const closed = await autoCloseCompletedBookings();
+        expect(closed).toBe(1);
+
+        const b = await query('SELECT status FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].status).toBe('CLOSED');
+
+        const ev = await query(`SELECT payload FROM booking_events WHERE booking_id = $1 AND type = 'auto_closed'`, [id]);
+        expect(ev.rows[0].payload.captured).toBe(false);
+    });
+
+    test('Grace window still open: booking is left alone', async () => {
+        const id = await seedCompletePending('10 minutes');
+
+        const closed = await autoCloseCompletedBookings();
+        expect(closed).toBe(0);
+
+        const b = await query('SELECT status FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].status).toBe('COMPLETE_PENDING');
+    });
+
+    test('Capture failure: booking stays COMPLETE_PENDING and admin is alerted', async () => {
+        const id = await seedCompletePending('-1 minute', null);
+
+        const closed = await autoCloseCompletedBookings();
+        expect(closed).toBe(0);
+
+        const b = await query('SELECT status FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].status).toBe('COMPLETE_PENDING');
+
+        const n = await query(`SELECT recipient_uid FROM notification_outbox WHERE booking_id = $1 AND type = 'CAPTURE_FAILED'`, [id]);
+        expect(n.rows).toHaveLength(1);
+        expect(n.rows[0].recipient_uid).toBe('SYSTEM_ADMIN');
+    });
+
+    test('Concurrent workers close each booking exactly once', async () => {
+        const ids = [await seedCompletePending('-1 minute'), await seedCompletePending('-2 minutes')];
+
+        const results = await Promise.all([autoCloseCompletedBookings(), autoCloseCompletedBookings(), autoCloseCompletedBookings()]);
+        expect(results.reduce((a, b) => a + b, 0)).toBe(2);
+
+        const ev = await query(`SELECT booking_id FROM booking_events WHERE type = 'auto_closed'`);
+        expect(ev.rows.map(r => r.booking_id).sort()).toEqual([...ids].sort());
+    });
+});
@@ -0,0 +1,222 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { flushFakeWebhooks } from '../src/gateways/fake.js';
+import { verifyLedger } from '../src/logic/ledger.js';
+import { retryDueCaptures } from '../src/logic/captures.js';
+
+describe('Cancellation Fees & Outstanding Balances', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655440009';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const providerHeaders = { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await flushFakeWebhooks();
+        await app.inject({ method: 'DELETE', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders });
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, notification_outbox RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: providerHeaders,
+            payload: { display_name: 'Provider 1', is_online: true, services: [SERVICE_ID] }
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    function createBooking() {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+    }
+
+    /**
+     * Paid on the fake gateway (authorized by its webhook), accepted and EN_ROUTE.
+     */
+    async function createEnRouteBooking(): Promise<string> {
+        const id = (await createBooking()).json().id;
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders, payload: { provider: 'fake' } });
+        await flushFakeWebhooks();
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/accept`, headers: providerHeaders });
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/travel`, headers: providerHeaders });
+        return id;
+    }
+
+    function cancel(id: string) {
+        return app.inject({ method: 'POST', url: `/v1/bookings/${id}/cancel`, headers: customerHeaders });
+    }
+
+    async function journalKinds(bookingId: string) {
+        const res = await query('SELECT kind FROM journal_entries WHERE booking_id = $1 ORDER BY created_at', [bookingId]);
+        return res.rows.map(r => r.kind);
+    }
+
+    async function balance(code: string) {
+        return (await verifyLedger()).accounts.find(a => a.code === code)?.balance_cents;
+    }
+
+    test('The fee is captured from the authorization and the rest released', async () => {
+        const id = await createEnRouteBooking();
+
+        const res = await cancel(id);
+        expect(res.statusCode).toBe(200);
+
+        const booking = (await app.inject({ method: 'GET', url: `/v1/bookings/${id}`, headers: customerHeaders })).json();
+        expect(booking).toMatchObject({ status: 'CANCELLED', cancellation_fee_cents: 1000, cancellation_fee_status: 'COLLECTED', released_cents: 9000 });
+
+        // The authorized amount is kept; only the fee was captured
+        const intent = await query('SELECT status, amount_cents, captured_cents FROM payment_intents WHERE booking_id = $1', [id]);
+        expect(intent.rows).toEqual([{ status: 'SUCCEEDED', amount_cents: 10000, captured_cents: 1000 }]);
+        expect(await journalKinds(id)).toEqual(['AUTHORIZE', 'RELEASE', 'CANCELLATION_FEE']);
+
+        const report = await verifyLedger();
+        expect(report.balanced).toBe(true);
+        expect(await balance('customer_holds')).toBe(0);
+        expect(await balance('platform_fees')).toBe(1000);
+        expect(await balance('platform_cash')).toBe(1000);
+
+        const ev = await query(`SELECT payload FROM booking_events WHERE booking_id = $1 AND type = 'transition_cancelled'`, [id]);
+        expect(ev.rows[0].payload).toMatchObject({ from: 'EN_ROUTE', feeCharged: true, fee_cents: 1000, fee_status: 'COLLECTED', released_cents: 9000 });
+
+        // Nothing owed: the customer can book again
+        expect((await createBooking()).statusCode).toBe(201);
+    });
+
+    test('A fee the gateway will not capture becomes an outstanding balance that blocks booking', async () => {
+        const id = await createEnRouteBooking();
+        await app.inject({ method: 'POST', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders, payload: { booking_id: id, capture: 'EXPIRE' } });
+
+        const res = await cancel(id);
+        expect(res.statusCode).toBe(200);
+
+        const booking = (await query('SELECT status, cancellation_fee_cents, cancellation_fee_status, released_cents FROM bookings WHERE id = $1', [id])).rows[0];
+        expect(booking).toEqual({ status: 'CANCELLED', cancellation_fee_cents: 1000, cancellation_fee_status: 'OUTSTANDING', released_cents: 10000 });
+        const intent = await query('SELECT status, amount_cents FROM payment_intents WHERE booking_id = $1', [id]);
+        expect(intent.rows).toEqual([{ status: 'CANCELLED', amount_cents: 10000 }]);
+        expect(await journalKinds(id)).toEqual(['AUTHORIZE', 'RELEASE']);
+
+        const owed = await app.inject({ method: 'GET', url: '/v1/customers/me/outstanding-balances', headers: customerHeaders });
+        expect(owed.json().balances).toEqual([expect.objectContaining({ booking_id: id, amount_cents: 1000, status: 'OPEN', reason: 'authorization_expired' })]);
+        const n = await query(`SELECT recipient_uid FROM notification_outbox WHERE booking_id = $1 AND type = 'CANCELLATION_FEE_OUTSTANDING'`, [id]);
+        expect(n.rows).toEqual([{ recipient_uid: CUSTOMER_ID }]);
+
+        const blocked = await createBooking();
+        expect(blocked.statusCode).toBe(409);
+        expect(blocked.json().code).toBe('OUTSTANDING_BALANCE');
+    });
+
+    function script(id: string, capture: string) {
+        return app.inject({ method: 'POST', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders, payload: { booking_id: id, capture } });
+    }
+
+    async function retryNow(id: string) {
+        await query('UPDATE capture_retries SET next_attempt_at = NOW() WHERE booking_id = $1', [id]);
+        return retryDueCaptures();
+    }
+
+    test('A fee capture that times out keeps the hold and is retried until collected', async () => {
+        const id = await createEnRouteBooking();
+        await script(id, 'TIMEOUT');
+
+        expect((await cancel(id)).statusCode).toBe(200);
+        const pending = (await query('SELECT status, cancellation_fee_cents, cancellation_fee_status, released_cents FROM bookings WHERE id = $1', [id])).rows[0];
+        expect(pending).toEqual({ status: 'CANCELLED', cancellation_fee_cents: 1000, cancellation_fee_status: 'PENDING', released_cents: 0 });
+        expect((await query('SELECT status FROM payment_intents WHERE booking_id = $1', [id])).rows).toEqual([{ status: 'AUTHORIZED' }]);
+        const retry = (await query('SELECT status, target_status, trigger, amount_cents, attempts, last_error_code FROM capture_retries WHERE booking_id = $1', [id])).rows[0];
+        expect(retry).toEqual({ status: 'PENDING', target_status: 'CANCELLED', trigger: 'cancel', amount_cents: 1000, attempts: 1, last_error_code: 'timeout' });
+        expect(await balance('customer_holds')).toBe(10000);
+
+        // Not owed yet: nothing blocks the next booking
+        expect((await app.inject({ method: 'GET', url: '/v1/customers/me/outstanding-balances', headers: customerHeaders })).json().balances).toEqual([]);
+
+        expect(await retryNow(id)).toEqual({ succeeded: 0, rescheduled: 1, escalated: 0 });
+        await app.inject({ method: 'DELETE', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders });
+        expect(await retryNow(id)).toEqual({ succeeded: 1, rescheduled: 0, escalated: 0 });
+
+        const booking = (await query('SELECT status, cancellation_fee_status, released_cents FROM bookings WHERE id = $1', [id])).rows[0];
+        expect(booking).toEqual({ status: 'CANCELLED', cancellation_fee_status: 'COLLECTED', released_cents: 9000 });
+        const intent = await query('SELECT status, amount_cents, captured_cents FROM payment_intents WHERE booking_id = $1', [id]);
+        expect(intent.rows).toEqual([{ status: 'SUCCEEDED', amount_cents: 10000, captured_cents: 1000 }]);
+        expect(await journalKinds(id)).toEqual(['AUTHORIZE', 'RELEASE', 'CANCELLATION_FEE']);
+        expect((await verifyLedger()).balanced).toBe(true);
+        expect(await balance('customer_holds')).toBe(0);
+        expect(await balance('platform_fees')).toBe(1000);
+        expect((await query('SELECT status FROM capture_retries WHERE booking_id = $1', [id])).rows[0].status).toBe('SUCCEEDED');
+    });
+
+    test('A fee capture that keeps timing out becomes an outstanding balance and the hold is released', async () => {
+        vi.stubEnv('CAPTURE_RETRY_MAX_ATTEMPTS', '2');
+        const id = await createEnRouteBooking();
+        await script(id, 'TIMEOUT');
+        await cancel(id);
+
+        await retryNow(id);
+        const retry = (await query('SELECT status, attempts, escalation_reason FROM capture_retries WHERE booking_id = $1', [id])).rows[0];
+        expect(retry).toMatchObject({ status: 'CANCELLED', attempts: 2 });
+        expect(retry.escalation_reason).toContain('outstanding balance');
+
+        // Not escalated to NEEDS_REVIEW: the booking stays cancelled and the customer owes the fee
+        const booking = (await query('SELECT status, cancellation_fee_status, released_cents FROM bookings WHERE id = $1', [id])).rows[0];
+        expect(booking).toEqual({ status: 'CANCELLED', cancellation_fee_status: 'OUTSTANDING', released_cents: 10000 });
+        const owed = await app.inject({ method: 'GET', url: '/v1/customers/me/outstanding-balances', headers: customerHeaders });
+        expect(owed.json().balances).toEqual([expect.objectContaining({ booking_id: id, amount_cents: 1000, status: 'OPEN', reason: 'timeout' })]);
+        expect((await query('SELECT status, captured_cents FROM payment_intents WHERE booking_id = $1', [id])).rows).toEqual([{ status: 'CANCELLED', captured_cents: null }]);
+        expect(await journalKinds(id)).toEqual(['AUTHORIZE', 'RELEASE']);
+        expect(await balance('customer_holds')).toBe(0);
+    });
+
+    test('Admins settle outstanding balances as paid or waived', async () => {
+        const id = await createEnRouteBooking();
+        await app.inject({ method: 'POST', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders, payload: { booking_id: id, capture: 'DECLINE' } });
+        await cancel(id);
+
+        const list = await app.inject({ method: 'GET', url: '/v1/admin/outstanding-balances?status=OPEN', headers: adminHeaders });
+        const [owed] = list.json().balances;
+        expect(owed).toMatchObject({ booking_id: id, customer_id: CUSTOMER_ID, reason: 'declined' });
+
+        const paid = await app.inject({
+            method: 'POST',
+            url: `/v1/admin/outstanding-balances/${owed.id}/resolve`,
+            headers: adminHeaders,
+            payload: { resolution: 'PAID', reference: 'EFT-2291' }
+        });
+        expect(paid.statusCode).toBe(200);
+        expect(paid.json()).toMatchObject({ status: 'PAID', reference: 'EFT-2291', resolved_by: ADMIN_ID });
+        expect((await query('SELECT cancellation_fee_status FROM bookings WHERE id = $1', [id])).rows[0].cancellation_fee_status).toBe('COLLECTED');
+        expect(await journalKinds(id)).toEqual(['AUTHORIZE', 'RELEASE', 'CANCELLATION_FEE']);
+        expect((await verifyLedger()).balanced).toBe(true);
+        expect(await balance('platform_fees')).toBe(1000);
+
+        const again = await app.inject({ method: 'POST', url: `/v1/admin/outstanding-balances/${owed.id}/resolve`, headers: adminHeaders, payload: { resolution: 'WAIVED' } });
+        expect(again.statusCode).toBe(409);
+        expect(again.json().code).toBe('ALREADY_RESOLVED');
+
+        expect((await createBooking()).statusCode).toBe(201);
+
+        const missing = await app.inject({ method: 'POST', url: '/v1/admin/outstanding-balances/550e8400-e29b-41d4-a716-000000000000/resolve', headers: adminHeaders, payload: { resolution: 'WAIVED' } });
+        expect(missing.statusCode).toBe(404);
+        const forbidden = await app.inject({ method: 'GET', url: '/v1/admin/outstanding-balances', headers: customerHeaders });
+        expect(forbidden.statusCode).toBe(403);
+    });
+});
@@ -0,0 +1,214 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { flushFakeWebhooks } from '../src/gateways/fake.js';
+import { GatewayError } from '../src/gateways/index.js';
+import { classifyCaptureError, retryDueCaptures } from '../src/logic/captures.js';
+
+describe('Capture Retry Queue', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655440009';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const providerHeaders = { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await clearScripts();
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, notification_outbox, capture_retries RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: providerHeaders,
+            payload: { display_name: 'Provider 1', is_online: true, services: [SERVICE_ID] }
+        });
+    });
+
+    afterEach(() => {
+        delete process.env.CAPTURE_RETRY_MAX_ATTEMPTS;
+    });
+
+    async function clearScripts() {
+        await app.inject({ method: 'DELETE', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders });
+    }
+
+    /**
+     * IN_PROGRESS booking holding a fake-gateway authorization whose capture follows `capture`.
+     */
+    async function seedInProgress(capture: string): Promise<string> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = res.json().id;
+        await app.inject({ method: 'POST', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders, payload: { booking_id: id, capture, delay_ms: 1 } });
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders, payload: { provider: 'fake' } });
+        await flushFakeWebhooks();
+        await query(`UPDATE bookings SET status = 'IN_PROGRESS', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+        return id;
+    }
+
+    function complete(id: string) {
+        return app.inject({ method: 'POST', url: `/v1/bookings/${id}/complete`, headers: providerHeaders });
+    }
+
+    async function makeDue(id: string) {
+        await query('UPDATE capture_retries SET next_attempt_at = NOW() WHERE booking_id = $1', [id]);
+    }
+
+    async function retryRow(id: string) {
+        return (await query('SELECT * FROM capture_retries WHERE booking_id = $1', [id])).rows[0];
+    }
+
+    async function bookingStatus(id: string) {
+        return (await query('SELECT status FROM bookings WHERE id = $1', [id])).rows[0].status;
+    }
+
+    test('Classifies gateway errors; unknown errors are retryable', () => {
+        expect(classifyCaptureError(new GatewayError('timed out', 'timeout', true))).toEqual({ code: 'timeout', retryable: true });
+        expect(classifyCaptureError(new GatewayError('expired', 'authorization_expired', false))).toEqual({ code: 'authorization_expired', retryable: false });
+        expect(classifyCaptureError(new Error('connection reset'))).toEqual({ code: 'unknown', retryable: true });
+    });
+
+    test('Retryable failure is queued with backoff, then the retry completes the booking', async () => {
+        const id = await seedInProgress('TIMEOUT');
+
+        const res = await complete(id);
+        expect(res.statusCode).toBe(409);
+        expect(res.json().retry).toMatchObject({ status: 'PENDING', attempts: 1 });
+        expect(await bookingStatus(id)).toBe('IN_PROGRESS');
+
+        const row = await retryRow(id);
+        expect(row).toMatchObject({ target_status: 'COMPLETE_PENDING', trigger: 'complete', last_error_code: 'timeout' });
+        const delay = new Date(row.next_attempt_at).getTime() - Date.now();
+        expect(delay).toBeGreaterThan(50_000);
+        expect(delay).toBeLessThanOrEqual(60_000);
+
+        // Not due yet: nothing happens
+        expect(await retryDueCaptures()).toEqual({ succeeded: 0, rescheduled: 0, escalated: 0 });
+
+        // Gateway recovers
+        await clearScripts();
+        await makeDue(id);
+        expect(await retryDueCaptures()).toEqual({ succeeded: 1, rescheduled: 0, escalated: 0 });
+
+        expect(await bookingStatus(id)).toBe('COMPLETE_PENDING');
+        expect((await retryRow(id)).status).toBe('SUCCEEDED');
+        const intent = await query('SELECT status FROM payment_intents WHERE booking_id = $1', [id]);
+        expect(intent.rows[0].status).toBe('SUCCEEDED');
+        const ev = await query(`SELECT actor_role FROM booking_events WHERE booking_id = $1 AND type = 'capture_retried'`, [id]);
+        expect(ev.rows).toEqual([{ actor_role: 'System' }]);
+    });
+
+    test('Backoff doubles per attempt; after max attempts the booking escalates to NEEDS_REVIEW', async () => {
+        process.env.CAPTURE_RETRY_MAX_ATTEMPTS = '3';
+        const id = await seedInProgress('TIMEOUT');
+        await complete(id);
+
+        await makeDue(id);
+        expect(await retryDueCaptures()).toEqual({ succeeded: 0, rescheduled: 1, escalated: 0 });
+        const row = await retryRow(id);
+        expect(row.attempts).toBe(2);
+        const delay = new Date(row.next_attempt_at).getTime() - Date.now();
+        expect(delay).toBeGreaterThan(110_000);
+        expect(delay).toBeLessThanOrEqual(120_000);
+
+        await makeDue(id);
+        expect(await retryDueCaptures()).toEqual({ succeeded: 0, rescheduled: 0, escalated: 1 });
+
+        const escalated = await retryRow(id);
+        expect(escalated).toMatchObject({ status: 'ESCALATED', attempts: 3, next_attempt_at: null });
+        expect(escalated.escalation_reason).toContain('Capture failed 3 times');
+        expect(await bookingStatus(id)).toBe('NEEDS_REVIEW');
+
+        const n = await query(`SELECT recipient_uid FROM notification_outbox WHERE booking_id = $1 AND type = 'CAPTURE_ESCALATED'`, [id]);
+        expect(n.rows).toEqual([{ recipient_uid: 'SYSTEM_ADMIN' }]);
+        const ev = await query(`SELECT payload FROM booking_events WHERE booking_id = $1 AND type = 'capture_escalated'`, [id]);
+        expect(ev.rows[0].payload.reason).toBe(escalated.escalation_reason);
+    });
+
+    test('Terminal gateway error escalates at once', async () => {
+        const id = await seedInProgress('EXPIRE');
+
+        const res = await complete(id);
+        expect(res.statusCode).toBe(409);
+        expect(res.json().retry.status).toBe('ESCALATED');
+        expect(res.json().retry.escalation_reason).toContain('authorization_expired');
+        expect(await bookingStatus(id)).toBe('NEEDS_REVIEW');
+    });
+
+    test('confirm-complete failures are queued to close the booking; auto-close leaves them alone', async () => {
+        const id = await seedInProgress('TIMEOUT');
+        await query(`UPDATE bookings SET status = 'COMPLETE_PENDING', complete_pending_until = NOW() - INTERVAL '1 minute' WHERE id = $1`, [id]);
+
+        const res = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/confirm-complete`, headers: customerHeaders });
+        expect(res.statusCode).toBe(409);
+        expect(res.json()).toMatchObject({ code: 'CAPTURE_FAILED', retry: { status: 'PENDING', attempts: 1 } });
+        expect((await retryRow(id)).target_status).toBe('CLOSED');
+
+        // Auto-close must not hammer the gateway outside the backoff
+        const sweep = await app.inject({ method: 'POST', url: '/v1/admin/sweep', headers: adminHeaders });
+        expect(sweep.json().auto_closed).toBe(0);
+        expect((await retryRow(id)).attempts).toBe(1);
+
+        await clearScripts();
+        await makeDue(id);
+        await retryDueCaptures();
+        expect(await bookingStatus(id)).toBe('CLOSED');
+    });
+
+    test('Admin lists stuck captures and force-retries an escalated one', async () => {
+        const id = await seedInProgress('DECLINE');
+        await complete(id);
+
+        const list = await app.inject({ method: 'GET', url: '/v1/admin/capture-retries?status=ESCALATED', headers: adminHeaders });
+        expect(list.statusCode).toBe(200);
+        expect(list.json().retries).toHaveLength(1);
+        expect(list.json().retries[0]).toMatchObject({ booking_id: id, booking_status: 'NEEDS_REVIEW', last_error_code: 'declined' });
+
+        // Still declining: stays escalated, attempt counted
+        const again = await app.inject({ method: 'POST', url: `/v1/admin/bookings/${id}/capture-retry`, headers: adminHeaders });
+        expect(again.statusCode).toBe(200);
+        expect(again.json()).toMatchObject({ status: 'ESCALATED', attempts: 2 });
+
+        await clearScripts();
+        const forced = await app.inject({ method: 'POST', url: `/v1/admin/bookings/${id}/capture-retry`, headers: adminHeaders });
+        expect(forced.json().status).toBe('SUCCEEDED');
+        expect(await bookingStatus(id)).toBe('CLOSED');
+
+        const done = await app.inject({ method: 'POST', url: `/v1/admin/bookings/${id}/capture-retry`, headers: adminHeaders });
+        expect(done.statusCode).toBe(409);
+        expect(done.json().code).toBe('ALREADY_RESOLVED');
+
+        const missing = await app.inject({ method: 'POST', url: `/v1/admin/bookings/550e8400-e29b-41d4-a716-000000000000/capture-retry`, headers: adminHeaders });
+        expect(missing.statusCode).toBe(404);
+
+        const forbidden = await app.inject({ method: 'GET', url: '/v1/admin/capture-retries', headers: customerHeaders });
+        expect(forbidden.statusCode).toBe(403);
+    });
+
+    test('A later successful capture settles the queued retry', async () => {
+        const id = await seedInProgress('TIMEOUT');
+        await complete(id);
+
+        await clearScripts();
+        const res = await complete(id);
+        expect(res.statusCode).toBe(200);
+        expect((await retryRow(id)).status).toBe('SUCCEEDED');
+    });
+});
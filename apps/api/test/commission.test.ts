@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { accrueEarnings } from '../src/logic/payouts.js';
+
+describe('Platform Commission Rules', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
+    const BLOCKED_DRAIN_ID = 'a0000000-0000-0000-0000-000000000002'; // Plumbing, R450
+    const TOILET_REPAIR_ID = 'a0000000-0000-0000-0000-000000000004'; // Plumbing, R350
+    const UNKNOWN_SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const providerHeaders = { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await query(`DELETE FROM commission_rules WHERE created_by <> 'migration'`);
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, provider_earnings, payouts, payout_batches RESTART IDENTITY CASCADE');
+        await query(`DELETE FROM commission_rules WHERE created_by <> 'migration'`);
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: providerHeaders,
+            payload: { display_name: 'Provider 1', is_online: true, services: [BLOCKED_DRAIN_ID, TOILET_REPAIR_ID, UNKNOWN_SERVICE_ID] }
+        });
+    });
+
+    async function createBooking(serviceId: string) {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: serviceId, user_id: CUSTOMER_ID }
+        });
+        expect(res.statusCode).toBe(201);
+        return res.json();
+    }
+
+    async function addRule(payload: Record<string, unknown>) {
+        return app.inject({ method: 'POST', url: '/v1/admin/commission-rules', headers: adminHeaders, payload });
+    }
+
+    test('Booking snapshots the category rate and shows the split', async () => {
+        const booking = await createBooking(BLOCKED_DRAIN_ID);
+        expect(booking).toMatchObject({
+            price_snapshot_cents: 45000,
+            commission_bps_snapshot: 1500,
+            commission_rule_id: 'e0000000-0000-0000-0000-000000000001',
+            platform_gross_cents: 6750,
+            provider_net_cents: 38250,
+        });
+
+        const view = await app.inject({ method: 'GET', url: `/v1/bookings/${booking.id}`, headers: customerHeaders });
+        expect(view.json()).toMatchObject({ platform_gross_cents: 6750, provider_net_cents: 38250 });
+    });
+
+    test('Service override beats the category; other services keep the category rate', async () => {
+        const rule = await addRule({ service_id: BLOCKED_DRAIN_ID, rate_bps: 2000 });
+        expect(rule.statusCode).toBe(201);
+
+        expect((await createBooking(BLOCKED_DRAIN_ID))).toMatchObject({ commission_bps_snapshot: 2000, commission_rule_id: rule.json().id });
+        expect((await createBooking(TOILET_REPAIR_ID)).commission_bps_snapshot).toBe(1500);
+    });
+
+    test('Rate changes are effective-dated and never rewrite existing bookings', async () => {
+        const before = await createBooking(BLOCKED_DRAIN_ID);
+
+        // Scheduled change: not yet in force
+        await addRule({ category: 'Plumbing', rate_bps: 1000, effective_from: new Date(Date.now() + 86400000).toISOString() });
+        expect((await createBooking(BLOCKED_DRAIN_ID)).commission_bps_snapshot).toBe(1500);
+
+        // Immediate change applies to new bookings only
+        await addRule({ category: 'Plumbing', rate_bps: 1200 });
+        expect((await createBooking(BLOCKED_DRAIN_ID)).commission_bps_snapshot).toBe(1200);
+
+        const view = await app.inject({ method: 'GET', url: `/v1/bookings/${before.id}`, headers: customerHeaders });
+        expect(view.json()).toMatchObject({ commission_bps_snapshot: 1500, platform_gross_cents: 6750 });
+    });
+
+    test('Services without a rule fall back to the platform default', async () => {
+        const booking = await createBooking(UNKNOWN_SERVICE_ID);
+        expect(booking).toMatchObject({ commission_bps_snapshot: 1500, commission_rule_id: null, platform_gross_cents: null, provider_net_cents: null });
+    });
+
+    test('Provider earnings use the snapshotted rate', async () => {
+        const booking = await createBooking(BLOCKED_DRAIN_ID);
+        await addRule({ category: 'Plumbing', rate_bps: 500 });
+
+        const payRes = await app.inject({ method: 'POST', url: `/v1/bookings/${booking.id}/pay`, headers: customerHeaders });
+        const dbRes = await query('SELECT provider_ref FROM payment_intents WHERE id = $1', [payRes.json().payment_intent_id]);
+        await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: `evt_${booking.id}`, type: 'payment_intent.succeeded', data: { object: { id: dbRes.rows[0].provider_ref } } }
+        });
+        await query(`UPDATE bookings SET status = 'COMPLETE_PENDING', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, booking.id]);
+        await app.inject({ method: 'POST', url: `/v1/bookings/${booking.id}/confirm-complete`, headers: customerHeaders });
+        await accrueEarnings();
+
+        const earnings = (await app.inject({ method: 'GET', url: '/v1/providers/me/earnings', headers: providerHeaders })).json();
+        expect(earnings.bookings[0]).toMatchObject({ gross_cents: 45000, commission_cents: 6750, net_cents: 38250 });
+    });
+
+    test('Rules need exactly one scope and are admin-only', async () => {
+        expect((await addRule({ rate_bps: 1000 })).statusCode).toBe(400);
+        expect((await addRule({ category: 'Plumbing', service_id: BLOCKED_DRAIN_ID, rate_bps: 1000 })).statusCode).toBe(400);
+        expect((await addRule({ service_id: UNKNOWN_SERVICE_ID, rate_bps: 1000 })).statusCode).toBe(404);
+        expect((await addRule({ category: 'Plumbing', rate_bps: 10001 })).statusCode).toBe(400);
+
+        const res = await app.inject({ method: 'GET', url: '/v1/admin/commission-rules', headers: customerHeaders });
+        expect(res.statusCode).toBe(403);
+
+        const list = await app.inject({ method: 'GET', url: '/v1/admin/commission-rules', headers: adminHeaders });
+        expect(list.json().map((r: any) => r.category)).toEqual(expect.arrayContaining(['Plumbing', 'Electrical', 'Cleaning', 'Handyman']));
+    });
+});
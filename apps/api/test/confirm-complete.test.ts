@@ -10,7 +10,6 @@ describe('POST /v1/bookings/:id/confirm-complete', () => {
     const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
     const OTHER_CUSTOMER = '550e8400-e29b-41d4-a716-446655440009';
     const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
-    const SLOT_ID = '550e8400-e29b-41d4-a716-446655440005';
 
     beforeAll(async () => {
         app = await buildServer();
@@ -42,7 +41,7 @@ describe('POST /v1/bookings/:id/confirm-complete', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const bookingId = createRes.json().id;
 
@@ -112,13 +111,31 @@ describe('POST /v1/bookings/:id/confirm-complete', () => {
         expect(dbRes.rows[0].status).toBe('CLOSED');
     });
 
+    test('Concurrent confirms capture once and both succeed', async () => {
+        const bookingId = await createCompletePendingBooking();
+        const confirm = () => app.inject({
+            method: 'POST',
+            url: `/v1/bookings/${bookingId}/confirm-complete`,
+            headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' }
+        });
+
+        const results = await Promise.all([confirm(), confirm()]);
+        expect(results.map(r => r.statusCode)).toEqual([200, 200]);
+        expect(results.filter(r => r.json().already_closed)).toHaveLength(1);
+
+        const captures = await query(`SELECT 1 FROM journal_entries WHERE booking_id = $1 AND kind = 'CAPTURE'`, [bookingId]);
+        expect(captures.rowCount).toBe(1);
+        const retries = await query('SELECT 1 FROM capture_retries WHERE booking_id = $1', [bookingId]);
+        expect(retries.rowCount).toBe(0);
+    });
+
     test('Guard: booking not in COMPLETE_PENDING returns 400', async () => {
         // Create booking but don't advance it past PENDING_PAYMENT
         const createRes = await app.inject({
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const bookingId = createRes.json().id;
 
@@ -13,7 +13,6 @@ describe('API Contract Enforcement: POST /v1/bookings', () => {
         const uid = '550e8400-e29b-41d4-a716-446655440003';
         const payload = {
             service_id: '550e8400-e29b-41d4-a716-446655440001',
-            slot_id: '550e8400-e29b-41d4-a716-446655440002',
             user_id: uid,
         };
 
@@ -35,13 +34,46 @@ describe('API Contract Enforcement: POST /v1/bookings', () => {
         expect(typeof body.expires_at).toBe('string');
     });
 
-    test('invalid payload (missing slot_id) returns 400 (Bad Request)', async () => {
+    test('missing slot_id is an on-demand booking: 201 with slot_id null', async () => {
+        const uid = '550e8400-e29b-41d4-a716-446655440003';
         const response = await app.inject({
             method: 'POST',
             url: '/v1/bookings',
-            headers: { 'x-user-id': 'any', 'x-role': 'user' },
+            headers: { 'x-user-id': uid, 'x-role': 'user' },
+            payload: {
+                service_id: '550e8400-e29b-41d4-a716-446655440001',
+                user_id: uid,
+            },
+        });
+
+        expect(response.statusCode).toBe(201);
+        expect(response.json().slot_id).toBeNull();
+    });
+
+    test('unknown slot_id returns 400 (SLOT_NOT_FOUND)', async () => {
+        const uid = '550e8400-e29b-41d4-a716-446655440003';
+        const response = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': uid, 'x-role': 'user' },
             payload: {
                 service_id: '550e8400-e29b-41d4-a716-446655440001',
+                slot_id: '550e8400-e29b-41d4-a716-446655440002',
+                user_id: uid,
+            },
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.json().code).toBe('SLOT_NOT_FOUND');
+    });
+
+    test('invalid payload (missing service_id) returns 400 (Bad Request)', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': 'any', 'x-role': 'user' },
+            payload: {
+                slot_id: '550e8400-e29b-41d4-a716-446655440002',
                 user_id: '550e8400-e29b-41d4-a716-446655440003',
             },
         });
@@ -72,7 +104,6 @@ describe('API Contract Enforcement: POST /v1/bookings', () => {
             headers: { 'x-user-id': uid, 'x-role': 'user' },
             payload: {
                 service_id: '550e8400-e29b-41d4-a716-446655440001',
-                slot_id: '550e8400-e29b-41d4-a716-446655440002',
                 user_id: uid,
                 unknown_field: 'should-be-fine',
             },
@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+
+describe('Provider Offer Decline', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_UID = '550e8400-e29b-41d4-a716-446655440003';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PRO_1 = '550e8400-e29b-41d4-a716-446655440010';
+    const PRO_2 = '550e8400-e29b-41d4-a716-446655440011';
+    const LATE_PRO = '550e8400-e29b-41d4-a716-446655440012';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, provider_locations, bookings, booking_events, payment_intents, webhook_events, notification_outbox, offer_declines RESTART IDENTITY CASCADE');
+    });
+
+    async function onboard(uid: string) {
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: { 'x-user-id': uid, 'x-role': 'provider' },
+            payload: { display_name: uid, is_online: true, services: [SERVICE_ID] },
+        });
+    }
+
+    async function createSearchingBooking(): Promise<string> {
+        const createRes = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_UID },
+        });
+        const id = createRes.json().id;
+        await query(`UPDATE bookings SET status = 'PAID_SEARCHING', last_dispatched_at = NOW() WHERE id = $1`, [id]);
+        return id;
+    }
+
+    async function decline(id: string, uid: string, payload?: object) {
+        return app.inject({
+            method: 'POST',
+            url: `/v1/bookings/${id}/decline`,
+            headers: { 'x-user-id': uid, 'x-role': 'provider' },
+            payload,
+        });
+    }
+
+    test('Decline removes the provider from candidates and hides the offer', async () => {
+        await onboard(PRO_1);
+        await onboard(PRO_2);
+        const id = await createSearchingBooking();
+
+        const res = await decline(id, PRO_1, { reason: 'TOO_FAR' });
+        expect(res.statusCode).toBe(200);
+        expect(res.json().redispatched).toBe(false);
+
+        const b = await query('SELECT candidate_list FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].candidate_list).toEqual([PRO_2]);
+
+        const offers = await app.inject({
+            method: 'GET',
+            url: '/v1/providers/me/offers',
+            headers: { 'x-user-id': PRO_1, 'x-role': 'provider' },
+        });
+        expect(offers.json()).toHaveLength(0);
+
+        const ev = await query(`SELECT actor_id, payload FROM booking_events WHERE booking_id = $1 AND type = 'offer_declined'`, [id]);
+        expect(ev.rows[0].actor_id).toBe(PRO_1);
+        expect(ev.rows[0].payload.reason).toBe('TOO_FAR');
+
+        // Declined provider can no longer accept
+        const accept = await app.inject({
+            method: 'POST',
+            url: `/v1/bookings/${id}/accept`,
+            headers: { 'x-user-id': PRO_1, 'x-role': 'provider' },
+        });
+        expect(accept.statusCode).toBe(400);
+    });
+
+    test('Reason is optional; unknown reason codes are rejected', async () => {
+        await onboard(PRO_1);
+        await onboard(PRO_2);
+        const id = await createSearchingBooking();
+
+        expect((await decline(id, PRO_1, { reason: 'NOPE' })).statusCode).toBe(400);
+        expect((await decline(id, PRO_1)).statusCode).toBe(200);
+    });
+
+    test('Last candidate declining triggers re-dispatch without re-offering decliners', async () => {
+        await onboard(PRO_1);
+        const id = await createSearchingBooking();
+        await onboard(LATE_PRO);
+
+        const res = await decline(id, PRO_1, { reason: 'BUSY' });
+        expect(res.json().redispatched).toBe(true);
+
+        const b = await query('SELECT candidate_list, dispatch_wave FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].candidate_list).toEqual([LATE_PRO]);
+        expect(b.rows[0].dispatch_wave).toBe(2);
+
+        const ev = await query(`SELECT payload FROM booking_events WHERE booking_id = $1 AND type = 'dispatch_wave' AND payload->>'wave' = '2'`, [id]);
+        expect(ev.rows[0].payload.trigger).toBe('all_declined');
+    });
+
+    test('Non-candidates and non-searching bookings cannot be declined', async () => {
+        await onboard(PRO_1);
+        const id = await createSearchingBooking();
+
+        expect((await decline(id, PRO_2)).statusCode).toBe(400);
+
+        await query(`UPDATE bookings SET status = 'ACCEPTED', provider_id = $1 WHERE id = $2`, [PRO_1, id]);
+        expect((await decline(id, PRO_1)).statusCode).toBe(400);
+    });
+
+    test('Decline rate is queryable per provider', async () => {
+        await onboard(PRO_1);
+        await onboard(PRO_2);
+        const first = await createSearchingBooking();
+        await createSearchingBooking();
+
+        await decline(first, PRO_1, { reason: 'TOO_FAR' });
+
+        const res = await app.inject({
+            method: 'GET',
+            url: `/v1/admin/providers/${PRO_1}/declines`,
+            headers: { 'x-user-id': ADMIN_ID, 'x-role': 'admin' },
+        });
+        expect(res.statusCode).toBe(200);
+        expect(res.json()).toMatchObject({ offered: 2, declined: 1, decline_rate: 0.5, by_reason: { TOO_FAR: 1 } });
+    });
+});
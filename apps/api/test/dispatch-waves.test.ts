@@ -0,0 +1,164 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { advanceDispatchWaves } from '../src/logic/dispatch.js';
+
+describe('Progressive Dispatch Waves', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_UID = '550e8400-e29b-41d4-a716-446655440003';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440001';
+
+    const NEAR_PRO = '550e8400-e29b-41d4-a716-446655440010';
+    const BALLITO_PRO = '550e8400-e29b-41d4-a716-446655440011';
+    const LATE_PRO = '550e8400-e29b-41d4-a716-446655440012';
+
+    const DURBAN = { lat: -29.8587, lng: 31.0218 };
+    const BALLITO = { lat: -29.5389, lng: 31.2144 }; // ~40 km: outside wave 1 (25 km), inside wave 2 (50 km)
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, provider_locations, bookings, booking_events, payment_intents, webhook_events, notification_outbox RESTART IDENTITY CASCADE');
+    });
+
+    async function onboard(uid: string, location?: { lat: number; lng: number }) {
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: { 'x-user-id': uid, 'x-role': 'provider' },
+            payload: { display_name: uid, is_online: true, services: [SERVICE_ID] },
+        });
+        if (location) {
+            await app.inject({
+                method: 'POST',
+                url: '/v1/providers/me/location',
+                headers: { 'x-user-id': uid, 'x-role': 'provider' },
+                payload: location,
+            });
+        }
+    }
+
+    /**
+     * Helper: Create and pay a booking (via webhook) so it enters PAID_SEARCHING.
+     */
+    async function createPaidBooking(location?: { lat: number; lng: number }): Promise<string> {
+        const createRes = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_UID, location },
+        });
+        const bookingId = createRes.json().id;
+
+        const payRes = await app.inject({
+            method: 'POST',
+            url: `/v1/bookings/${bookingId}/pay`,
+            headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
+        });
+        const dbRes = await query('SELECT provider_ref FROM payment_intents WHERE id = $1', [payRes.json().payment_intent_id]);
+        await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: `evt_${bookingId}`, type: 'payment_intent.succeeded', data: { object: { id: dbRes.rows[0].provider_ref } } },
+        });
+        return bookingId;
+    }
+
+    async function elapseWaveWindow(bookingId: string) {
+        await query(`UPDATE bookings SET last_dispatched_at = NOW() - INTERVAL '10 minutes' WHERE id = $1`, [bookingId]);
+    }
+
+    test('Payment starts the first wave window', async () => {
+        await onboard(NEAR_PRO, DURBAN);
+        const id = await createPaidBooking(DURBAN);
+
+        const b = await query('SELECT dispatch_wave, last_dispatched_at FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].dispatch_wave).toBe(1);
+        expect(b.rows[0].last_dispatched_at).not.toBeNull();
+
+        const ev = await query(`SELECT payload FROM booking_events WHERE booking_id = $1 AND type = 'dispatch_wave'`, [id]);
+        expect(ev.rows).toHaveLength(1);
+        expect(ev.rows[0].payload.wave).toBe(1);
+    });
+
+    test('Window elapsed: next wave widens the radius and appends providers', async () => {
+        await onboard(NEAR_PRO, DURBAN);
+        await onboard(BALLITO_PRO, BALLITO);
+        const id = await createPaidBooking(DURBAN);
+
+        let b = await query('SELECT candidate_list FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].candidate_list).toEqual([NEAR_PRO]);
+
+        await elapseWaveWindow(id);
+        expect(await advanceDispatchWaves()).toEqual({ advanced: 1, escalated: 0 });
+
+        b = await query('SELECT candidate_list, candidate_distances, dispatch_wave FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].candidate_list).toEqual([NEAR_PRO, BALLITO_PRO]);
+        expect(b.rows[0].candidate_distances[BALLITO_PRO]).toBeGreaterThan(25);
+        expect(b.rows[0].dispatch_wave).toBe(2);
+
+        const ev = await query(`SELECT payload FROM booking_events WHERE booking_id = $1 AND type = 'dispatch_wave' ORDER BY created_at DESC LIMIT 1`, [id]);
+        expect(ev.rows[0].payload.wave).toBe(2);
+        expect(ev.rows[0].payload.radius_km).toBe(50);
+
+        // New candidate can now see and accept the offer
+        const offers = await app.inject({
+            method: 'GET',
+            url: '/v1/providers/me/offers',
+            headers: { 'x-user-id': BALLITO_PRO, 'x-role': 'provider' },
+        });
+        expect(offers.json()).toHaveLength(1);
+
+        const accept = await app.inject({
+            method: 'POST',
+            url: `/v1/bookings/${id}/accept`,
+            headers: { 'x-user-id': BALLITO_PRO, 'x-role': 'provider' },
+        });
+        expect(accept.statusCode).toBe(200);
+    });
+
+    test('Empty initial candidate list is filled by a later wave', async () => {
+        const id = await createPaidBooking();
+        let b = await query('SELECT candidate_list FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].candidate_list).toEqual([]);
+
+        await onboard(LATE_PRO);
+        await elapseWaveWindow(id);
+        await advanceDispatchWaves();
+
+        b = await query('SELECT candidate_list FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].candidate_list).toEqual([LATE_PRO]);
+    });
+
+    test('Window not elapsed: nothing happens', async () => {
+        await onboard(NEAR_PRO, DURBAN);
+        await createPaidBooking(DURBAN);
+
+        expect(await advanceDispatchWaves()).toEqual({ advanced: 0, escalated: 0 });
+    });
+
+    test('Waves exhausted: escalates to admin exactly once', async () => {
+        const id = await createPaidBooking(DURBAN);
+        await query(`UPDATE bookings SET dispatch_wave = 3 WHERE id = $1`, [id]);
+        await elapseWaveWindow(id);
+
+        expect(await advanceDispatchWaves()).toEqual({ advanced: 0, escalated: 1 });
+        expect(await advanceDispatchWaves()).toEqual({ advanced: 0, escalated: 0 });
+
+        const n = await query(`SELECT recipient_uid FROM notification_outbox WHERE booking_id = $1 AND type = 'DISPATCH_EXHAUSTED'`, [id]);
+        expect(n.rows).toHaveLength(1);
+        expect(n.rows[0].recipient_uid).toBe('SYSTEM_ADMIN');
+
+        const ev = await query(`SELECT 1 FROM booking_events WHERE booking_id = $1 AND type = 'dispatch_exhausted'`, [id]);
+        expect(ev.rows).toHaveLength(1);
+    });
+});
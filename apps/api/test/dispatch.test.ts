@@ -19,7 +19,6 @@ describe('Provider Dispatch & Matching', () => {
     });
 
     const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440001';
-    const SLOT_ID = '550e8400-e29b-41d4-a716-446655440002';
     const CUSTOMER_UID = '550e8400-e29b-41d4-a716-446655440003';
     const PROVIDER_UID = '550e8400-e29b-41d4-a716-446655440004';
 
@@ -65,7 +64,6 @@ describe('Provider Dispatch & Matching', () => {
             headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
             payload: {
                 service_id: SERVICE_ID,
-                slot_id: SLOT_ID,
                 user_id: CUSTOMER_UID,
             },
         });
@@ -117,7 +115,6 @@ describe('Provider Dispatch & Matching', () => {
             headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
             payload: {
                 service_id: SERVICE_ID,
-                slot_id: SLOT_ID,
                 user_id: CUSTOMER_UID,
             },
         });
@@ -149,7 +146,6 @@ describe('Provider Dispatch & Matching', () => {
             headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
             payload: {
                 service_id: SERVICE_ID,
-                slot_id: SLOT_ID,
                 user_id: CUSTOMER_UID,
             },
         });
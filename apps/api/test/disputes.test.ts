@@ -0,0 +1,228 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { runPayoutBatch, createEftFileAdapter, accrueEarnings } from '../src/logic/payouts.js';
+import { verifyLedger } from '../src/logic/ledger.js';
+
+describe('Chargebacks & Disputes', () => {
+    let app: FastifyInstance;
+    let exportDir: string;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655440009';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const providerHeaders = { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+        exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disputes-test-'));
+    });
+
+    afterAll(async () => {
+        await app.close();
+        fs.rmSync(exportDir, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, provider_earnings, payouts, payout_batches, provider_payout_accounts, refunds, disputes, notification_outbox RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: providerHeaders,
+            payload: { display_name: 'Provider 1', is_online: true, services: [SERVICE_ID] }
+        });
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me/payout-account',
+            headers: providerHeaders,
+            payload: { account_holder: 'Thandi Plumbing', bank_name: 'FNB', branch_code: '250655', account_number: '62812345678' }
+        });
+    });
+
+    /**
+     * Booking paid, completed and confirmed (captured + CLOSED), with its Stripe ref.
+     */
+    async function createClosedBooking(): Promise<{ id: string; ref: string }> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = res.json().id;
+        const payRes = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders });
+        const ref = (await query('SELECT provider_ref FROM payment_intents WHERE id = $1', [payRes.json().payment_intent_id])).rows[0].provider_ref;
+        await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: `evt_${id}`, type: 'payment_intent.succeeded', data: { object: { id: ref } } }
+        });
+        await query(`UPDATE bookings SET status = 'COMPLETE_PENDING', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/confirm-complete`, headers: customerHeaders });
+        return { id, ref };
+    }
+
+    function disputeEvent(eventId: string, type: string, ref: string, status: string) {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: {
+                id: eventId,
+                type,
+                data: {
+                    object: {
+                        id: 'dp_1', amount: 10000, reason: 'fraudulent', status, payment_intent: ref,
+                        evidence_details: { due_by: Math.floor(Date.now() / 1000) + 7 * 86400 },
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * Earnings as the provider sees them once the payout_batch job has accrued.
+     */
+    async function getEarnings() {
+        await accrueEarnings();
+        return (await app.inject({ method: 'GET', url: '/v1/providers/me/earnings', headers: providerHeaders })).json();
+    }
+
+    async function journalKinds(bookingId: string) {
+        const res = await query('SELECT kind FROM journal_entries WHERE booking_id = $1 ORDER BY created_at', [bookingId]);
+        return res.rows.map(r => r.kind);
+    }
+
+    async function balance(code: string) {
+        return (await verifyLedger()).accounts.find(a => a.code === code)?.balance_cents;
+    }
+
+    function batch() {
+        return runPayoutBatch(createEftFileAdapter(exportDir));
+    }
+
+    test('A Stripe dispute withdraws the funds and holds the provider payout', async () => {
+        const { id, ref } = await createClosedBooking();
+
+        const res = await disputeEvent('evt_dp_created', 'charge.dispute.created', ref, 'needs_response');
+        expect(res.json().status).toBe('PROCESSED');
+
+        const dispute = (await query('SELECT * FROM disputes WHERE booking_id = $1', [id])).rows[0];
+        expect(dispute).toMatchObject({ status: 'OPEN', amount_cents: 10000, reason: 'fraudulent', gateway_status: 'needs_response', opened_by: 'gateway' });
+        expect(dispute.evidence_due_by).not.toBeNull();
+        expect(await balance('disputed_funds')).toBe(10000);
+
+        expect(await getEarnings()).toMatchObject({ available_cents: 0, on_hold_cents: 8500 });
+        expect((await batch()).status).toBe('EMPTY');
+
+        // A disputed charge can't also be refunded
+        const refund = await app.inject({ method: 'POST', url: `/v1/admin/bookings/${id}/refund`, headers: adminHeaders, payload: { override_reason: 'goodwill' } });
+        expect(refund.statusCode).toBe(409);
+        expect(refund.json().code).toBe('DISPUTED');
+
+        const n = await query(`SELECT recipient_uid FROM notification_outbox WHERE booking_id = $1 AND type = 'DISPUTE_OPENED' ORDER BY recipient_uid`, [id]);
+        expect(n.rows.map(r => r.recipient_uid)).toEqual([PROVIDER_ID, 'SYSTEM_ADMIN']);
+
+        // Updates refresh the gateway status without re-booking anything
+        await disputeEvent('evt_dp_updated', 'charge.dispute.updated', ref, 'under_review');
+        expect((await query('SELECT gateway_status FROM disputes')).rows[0].gateway_status).toBe('under_review');
+        expect(await journalKinds(id)).toEqual(['AUTHORIZE', 'CAPTURE', 'DISPUTE_WITHDRAWAL', 'COMMISSION']);
+    });
+
+    test('A won dispute returns the funds and releases the payout', async () => {
+        const { id, ref } = await createClosedBooking();
+        await disputeEvent('evt_dp_created', 'charge.dispute.created', ref, 'needs_response');
+        await disputeEvent('evt_dp_closed', 'charge.dispute.closed', ref, 'won');
+
+        expect((await query('SELECT status, resolved_by FROM disputes')).rows[0]).toEqual({ status: 'WON', resolved_by: 'gateway' });
+        expect(await balance('disputed_funds')).toBe(0);
+        expect(await journalKinds(id)).toContain('DISPUTE_REINSTATEMENT');
+
+        const sent = await batch();
+        expect(sent).toMatchObject({ status: 'SENT', total_cents: 8500 });
+    });
+
+    test('A lost dispute comes out of the unpaid earning first, then the platform', async () => {
+        const { id, ref } = await createClosedBooking();
+        await accrueEarnings();
+        await disputeEvent('evt_dp_created', 'charge.dispute.created', ref, 'needs_response');
+        await disputeEvent('evt_dp_closed', 'charge.dispute.closed', ref, 'lost');
+
+        expect((await query('SELECT status FROM disputes')).rows[0].status).toBe('LOST');
+        const earning = (await query('SELECT gross_cents, net_cents FROM provider_earnings WHERE booking_id = $1', [id])).rows[0];
+        expect({ gross: Number(earning.gross_cents), net: Number(earning.net_cents) }).toEqual({ gross: 1500, net: 0 });
+
+        const report = await verifyLedger();
+        expect(report.balanced).toBe(true);
+        expect(await balance('provider_payable')).toBe(0);
+        expect(await balance('dispute_losses')).toBe(1500);
+        expect(await balance('disputed_funds')).toBe(0);
+
+        const ev = await query(`SELECT payload FROM booking_events WHERE booking_id = $1 AND type = 'dispute_closed'`, [id]);
+        expect(ev.rows[0].payload).toMatchObject({ outcome: 'LOST', provider_share_cents: 8500 });
+        expect((await batch()).status).toBe('EMPTY');
+    });
+
+    test('A closed event that overtakes created still opens and settles the dispute', async () => {
+        const { id, ref } = await createClosedBooking();
+        await disputeEvent('evt_dp_closed', 'charge.dispute.closed', ref, 'lost');
+        await disputeEvent('evt_dp_created', 'charge.dispute.created', ref, 'needs_response');
+
+        expect((await query('SELECT status FROM disputes')).rows[0].status).toBe('LOST');
+        expect(await journalKinds(id)).toEqual(['AUTHORIZE', 'CAPTURE', 'DISPUTE_WITHDRAWAL', 'DISPUTE_LOSS']);
+        // Loss taken before accrual: the earning accrues from what is left
+        expect(await getEarnings()).toMatchObject({ available_cents: 0, on_hold_cents: 0 });
+    });
+
+    test('Admins record manual disputes, attach evidence and set the outcome', async () => {
+        const { id } = await createClosedBooking();
+
+        const created = await app.inject({
+            method: 'POST',
+            url: `/v1/admin/bookings/${id}/disputes`,
+            headers: adminHeaders,
+            payload: { amount_cents: 4000, reason: 'service not rendered', reference: 'PF-CB-1' }
+        });
+        expect(created.statusCode).toBe(201);
+        const dispute = created.json();
+        expect(dispute).toMatchObject({ status: 'OPEN', amount_cents: 4000, gateway_dispute_id: 'PF-CB-1', opened_by: ADMIN_ID });
+
+        const duplicate = await app.inject({ method: 'POST', url: `/v1/admin/bookings/${id}/disputes`, headers: adminHeaders, payload: { reference: 'PF-CB-1' } });
+        expect(duplicate.json().code).toBe('DUPLICATE');
+
+        const evidence = await app.inject({
+            method: 'POST',
+            url: `/v1/admin/disputes/${dispute.id}/evidence`,
+            headers: adminHeaders,
+            payload: { note: 'Customer signed the OTP at start', url: 'https://files.example.com/otp-log.pdf' }
+        });
+        expect(evidence.statusCode).toBe(200);
+        expect(evidence.json().evidence).toEqual([expect.objectContaining({ note: 'Customer signed the OTP at start', added_by: ADMIN_ID })]);
+
+        const list = await app.inject({ method: 'GET', url: '/v1/admin/disputes?status=OPEN', headers: adminHeaders });
+        expect(list.json().disputes).toHaveLength(1);
+
+        const outcome = await app.inject({ method: 'POST', url: `/v1/admin/disputes/${dispute.id}/outcome`, headers: adminHeaders, payload: { outcome: 'LOST', note: 'Bank sided with cardholder' } });
+        expect(outcome.json()).toMatchObject({ status: 'LOST', resolved_by: ADMIN_ID, outcome_note: 'Bank sided with cardholder' });
+        // Lost before accrual: the earning accrues on the remaining 6000 (15% commission)
+        expect(await getEarnings()).toMatchObject({ available_cents: 5100, on_hold_cents: 0 });
+
+        const again = await app.inject({ method: 'POST', url: `/v1/admin/disputes/${dispute.id}/outcome`, headers: adminHeaders, payload: { outcome: 'WON' } });
+        expect(again.statusCode).toBe(409);
+        expect(again.json().code).toBe('ALREADY_RESOLVED');
+
+        const missing = await app.inject({ method: 'GET', url: '/v1/admin/disputes/550e8400-e29b-41d4-a716-000000000000', headers: adminHeaders });
+        expect(missing.statusCode).toBe(404);
+        const forbidden = await app.inject({ method: 'GET', url: '/v1/admin/disputes', headers: providerHeaders });
+        expect(forbidden.statusCode).toBe(403);
+    });
+});
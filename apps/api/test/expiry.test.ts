@@ -0,0 +1,163 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { expireSearchingBookings } from '../src/logic/bookings.js';
+import { flushFakeWebhooks } from '../src/gateways/fake.js';
+
+describe('Expiry: unaccepted PAID_SEARCHING bookings', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, notification_outbox RESTART IDENTITY CASCADE');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    async function seedSearching(expiresInterval: string): Promise<string> {
+        const createRes = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = createRes.json().id;
+
+        await query(`UPDATE bookings SET status = 'PAID_SEARCHING', expires_at = NOW() + $1::interval WHERE id = $2`, [expiresInterval, id]);
+        await query(
+            `INSERT INTO payment_intents (booking_id, amount_cents, status, provider, provider_ref) VALUES ($1, 10000, 'AUTHORIZED', 'STRIPE', $2)`,
+            [id, `pi_mock_${id.slice(0, 8)}`]
+        );
+        return id;
+    }
+
+    test('Past expires_at: booking EXPIRED, authorization released, customer notified', async () => {
+        const id = await seedSearching('-1 minute');
+
+        const sweepRes = await app.inject({
+            method: 'POST',
+            url: '/v1/admin/sweep',
+            headers: { 'x-user-id': ADMIN_ID, 'x-role': 'admin' }
+        });
+        expect(sweepRes.statusCode).toBe(200);
+        expect(sweepRes.json().expired).toBe(1);
+
+        const b = await query('SELECT status FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].status).toBe('EXPIRED');
+
+        const p = await query('SELECT status FROM payment_intents WHERE booking_id = $1', [id]);
+        expect(p.rows[0].status).toBe('CANCELLED');
+
+        const n = await query(`SELECT recipient_uid FROM notification_outbox WHERE booking_id = $1 AND type = 'BOOKING_EXPIRED'`, [id]);
+        expect(n.rows).toHaveLength(1);
+        expect(n.rows[0].recipient_uid).toBe(CUSTOMER_ID);
+
+        const ev = await query(`SELECT payload FROM booking_events WHERE booking_id = $1 AND type = 'transition_expired'`, [id]);
+        expect(ev.rows[0].payload).toEqual({ from: 'PAID_SEARCHING', to: 'EXPIRED' });
+    });
+
+    test('Before expires_at: booking keeps searching', async () => {
+        const id = await seedSearching('5 minutes');
+
+        expect(await expireSearchingBookings()).toBe(0);
+
+        const b = await query('SELECT status FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0].status).toBe('PAID_SEARCHING');
+    });
+
+    test('Accepted bookings are never expired', async () => {
+        const id = await seedSearching('-1 minute');
+        await query(`UPDATE bookings SET status = 'ACCEPTED' WHERE id = $1`, [id]);
+
+        expect(await expireSearchingBookings()).toBe(0);
+
+        const p = await query('SELECT status FROM payment_intents WHERE booking_id = $1', [id]);
+        expect(p.rows[0].status).toBe('AUTHORIZED');
+    });
+
+    test('Concurrent sweeps expire each booking once', async () => {
+        await seedSearching('-1 minute');
+        await seedSearching('-3 minutes');
+
+        const results = await Promise.all([expireSearchingBookings(), expireSearchingBookings()]);
+        expect(results[0] + results[1]).toBe(2);
+
+        const n = await query(`SELECT count(*) FROM notification_outbox WHERE type = 'BOOKING_EXPIRED'`);
+        expect(n.rows[0].count).toBe('2');
+    });
+
+    async function minutesLeft(id: string): Promise<number> {
+        const res = await query('SELECT EXTRACT(EPOCH FROM expires_at - NOW()) / 60 AS minutes FROM bookings WHERE id = $1', [id]);
+        return Number(res.rows[0].minutes);
+    }
+
+    test('Payment starts a full search window; a booking past its payment window cannot be paid', async () => {
+        const createBooking = async () => (await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        })).json().id;
+        const pay = (id: string) => app.inject({
+            method: 'POST',
+            url: `/v1/bookings/${id}/pay`,
+            headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
+            payload: { provider: 'fake' }
+        });
+
+        const late = await createBooking();
+        await query(`UPDATE bookings SET expires_at = NOW() - INTERVAL '1 minute' WHERE id = $1`, [late]);
+        const refused = await pay(late);
+        expect(refused.statusCode).toBe(409);
+        expect(refused.json().code).toBe('BOOKING_EXPIRED');
+        expect((await query('SELECT 1 FROM payment_intents WHERE booking_id = $1', [late])).rowCount).toBe(0);
+
+        // Paid with a minute of the payment window left: the search still gets its full window
+        const id = await createBooking();
+        await query(`UPDATE bookings SET expires_at = NOW() + INTERVAL '1 minute' WHERE id = $1`, [id]);
+        expect((await pay(id)).statusCode).toBe(200);
+        await flushFakeWebhooks();
+        expect((await query('SELECT status FROM bookings WHERE id = $1', [id])).rows[0].status).toBe('PAID_SEARCHING');
+        expect(await minutesLeft(id)).toBeGreaterThan(14);
+    });
+
+    test('A new booking gets PAYMENT_WINDOW_MINUTES to pay', async () => {
+        vi.stubEnv('PAYMENT_WINDOW_MINUTES', '30');
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const left = await minutesLeft(res.json().id);
+        expect(left).toBeGreaterThan(29);
+        expect(left).toBeLessThanOrEqual(30);
+    });
+
+    test('Re-dispatch after the provider drops out restarts the search window', async () => {
+        const id = await seedSearching('-10 minutes');
+        await query(`UPDATE bookings SET status = 'ACCEPTED', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+
+        const res = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/provider_cancel`, headers: { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' } });
+        expect(res.statusCode).toBe(200);
+        expect(await minutesLeft(id)).toBeGreaterThan(14);
+
+        // Not expired straight away by the sweep
+        expect(await expireSearchingBookings()).toBe(0);
+    });
+});
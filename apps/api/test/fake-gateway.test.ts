@@ -0,0 +1,191 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { flushFakeWebhooks, signFakePayload } from '../src/gateways/fake.js';
+
+describe('Fake Payment Gateway', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const providerHeaders = { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' };
+    const adminHeaders = { 'x-user-id': 'admin-1', 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await flushFakeWebhooks();
+        await app.inject({ method: 'DELETE', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders });
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: providerHeaders,
+            payload: { display_name: 'Provider 1', is_online: true, services: [SERVICE_ID] }
+        });
+    });
+
+    async function createBooking(): Promise<string> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        return res.json().id;
+    }
+
+    async function script(payload: Record<string, unknown>) {
+        const res = await app.inject({ method: 'POST', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders, payload });
+        expect(res.statusCode).toBe(201);
+    }
+
+    async function pay(bookingId: string) {
+        const res = await app.inject({ method: 'POST', url: `/v1/bookings/${bookingId}/pay`, headers: customerHeaders, payload: { provider: 'fake' } });
+        expect(res.statusCode).toBe(200);
+        expect(res.json().provider).toBe('FAKE');
+    }
+
+    async function bookingStatus(id: string) {
+        return (await query('SELECT status FROM bookings WHERE id = $1', [id])).rows[0].status;
+    }
+
+    /**
+     * Pay (authorized by the fake gateway's own webhook) through to COMPLETE_PENDING.
+     */
+    async function advanceToCompletePending(): Promise<string> {
+        const id = await createBooking();
+        await pay(id);
+        await flushFakeWebhooks();
+
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/accept`, headers: providerHeaders });
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/travel`, headers: providerHeaders });
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/arrived`, headers: providerHeaders });
+        const otp = (await app.inject({ method: 'GET', url: `/v1/bookings/${id}`, headers: customerHeaders })).json().otp;
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/start`, headers: providerHeaders, payload: { otp } });
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/provider-complete`, headers: providerHeaders });
+        expect(await bookingStatus(id)).toBe('COMPLETE_PENDING');
+        return id;
+    }
+
+    function confirm(id: string) {
+        return app.inject({ method: 'POST', url: `/v1/bookings/${id}/confirm-complete`, headers: customerHeaders });
+    }
+
+    test('pay -> authorize -> capture runs end to end on the fake gateway', async () => {
+        const id = await advanceToCompletePending();
+
+        const webhooks = await query(`SELECT status FROM webhook_events WHERE provider = 'fake'`);
+        expect(webhooks.rows).toEqual([{ status: 'PROCESSED' }]);
+
+        const res = await confirm(id);
+        expect(res.statusCode).toBe(200);
+        expect(await bookingStatus(id)).toBe('CLOSED');
+
+        const intent = await query('SELECT status, provider FROM payment_intents WHERE booking_id = $1', [id]);
+        expect(intent.rows[0]).toEqual({ status: 'SUCCEEDED', provider: 'FAKE' });
+    });
+
+    test('Scripted decline by amount sends payment.failed', async () => {
+        await script({ amount_cents: 10000, authorize: 'DECLINE', decline_code: 'insufficient_funds' });
+        const id = await createBooking();
+        await pay(id);
+        await flushFakeWebhooks();
+
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+        const ev = await query(`SELECT status, payload_json FROM webhook_events WHERE provider = 'fake'`);
+        expect(ev.rows[0].status).toBe('PROCESSED');
+        expect(ev.rows[0].payload_json).toMatchObject({ type: 'payment.failed', decline_code: 'insufficient_funds' });
+    });
+
+    test('Scripted authorization timeout never sends a webhook', async () => {
+        const id = await createBooking();
+        await script({ booking_id: id, authorize: 'TIMEOUT' });
+        await pay(id);
+        await flushFakeWebhooks();
+
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+        expect((await query('SELECT 1 FROM webhook_events')).rowCount).toBe(0);
+    });
+
+    test('Delayed webhook arrives after the pay call returns', async () => {
+        const id = await createBooking();
+        await script({ booking_id: id, delay_ms: 100 });
+        await pay(id);
+
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+        await flushFakeWebhooks();
+        expect(await bookingStatus(id)).toBe('PAID_SEARCHING');
+    });
+
+    test('Scripted capture decline, expiry and timeout fail confirm-complete and keep the hold', async () => {
+        // Declines and expiries are terminal (escalated), timeouts are retried later
+        for (const [capture, detail, status] of [['DECLINE', 'declined', 'NEEDS_REVIEW'], ['EXPIRE', 'expired', 'NEEDS_REVIEW'], ['TIMEOUT', 'timed out', 'COMPLETE_PENDING']]) {
+            await query('TRUNCATE bookings, payment_intents, webhook_events, journal_entries, ledger_lines RESTART IDENTITY CASCADE');
+            await script({ amount_cents: 10000, capture, delay_ms: 10 });
+            const id = await advanceToCompletePending();
+
+            const res = await confirm(id);
+            expect(res.statusCode).toBe(409);
+            expect(res.json().detail).toContain(detail);
+            expect(await bookingStatus(id)).toBe(status);
+
+            const intent = await query('SELECT status FROM payment_intents WHERE booking_id = $1', [id]);
+            expect(intent.rows[0].status).toBe('AUTHORIZED');
+        }
+    });
+
+    test('Webhooks must carry the fake gateway signature', async () => {
+        const id = await createBooking();
+        await script({ booking_id: id, authorize: 'TIMEOUT' });
+        await pay(id);
+        const ref = (await query('SELECT provider_ref FROM payment_intents WHERE booking_id = $1', [id])).rows[0].provider_ref;
+
+        const payload = JSON.stringify({ id: 'evt_manual_1', type: 'payment.authorized', provider_ref: ref, amount_cents: 10000 });
+        const forged = await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/fake',
+            headers: { 'content-type': 'application/json', 'x-fake-signature': 'f'.repeat(64) },
+            payload,
+        });
+        expect(forged.statusCode).toBe(401);
+
+        const signed = await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/fake',
+            headers: { 'content-type': 'application/json', 'x-fake-signature': signFakePayload(payload) },
+            payload,
+        });
+        expect(signed.json().status).toBe('PROCESSED');
+        expect(await bookingStatus(id)).toBe('PAID_SEARCHING');
+    });
+
+    test('Scripts are admin-managed and scoped to one booking or amount', async () => {
+        const bad = await app.inject({ method: 'POST', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders, payload: { authorize: 'DECLINE' } });
+        expect(bad.statusCode).toBe(400);
+        expect(bad.json().code).toBe('INVALID_SCOPE');
+
+        const forbidden = await app.inject({ method: 'POST', url: '/v1/admin/fake-gateway/scripts', headers: customerHeaders, payload: { amount_cents: 500 } });
+        expect(forbidden.statusCode).toBe(403);
+
+        await script({ amount_cents: 500, capture: 'EXPIRE' });
+        const list = await app.inject({ method: 'GET', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders });
+        expect(list.json().scripts).toEqual([
+            { amount_cents: 500, authorize: 'SUCCEED', capture: 'EXPIRE', refund: 'SUCCEED', delay_ms: 0, decline_code: 'card_declined' },
+        ]);
+
+        await app.inject({ method: 'DELETE', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders });
+        const after = await app.inject({ method: 'GET', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders });
+        expect(after.json().scripts).toEqual([]);
+    });
+});
@@ -10,7 +10,6 @@ describe('PR 6 Lifecycle Finality: EXPIRED & CANCELLED', () => {
     const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
     const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
     const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
-    const SLOT_ID = '550e8400-e29b-41d4-a716-446655440005';
 
     beforeAll(async () => {
         app = await buildServer();
@@ -38,7 +37,7 @@ describe('PR 6 Lifecycle Finality: EXPIRED & CANCELLED', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const id = res.json().id;
 
@@ -63,7 +62,7 @@ describe('PR 6 Lifecycle Finality: EXPIRED & CANCELLED', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const id = createRes.json().id;
 
@@ -94,7 +93,7 @@ describe('PR 6 Lifecycle Finality: EXPIRED & CANCELLED', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const id = createRes.json().id;
 
@@ -110,20 +109,17 @@ describe('PR 6 Lifecycle Finality: EXPIRED & CANCELLED', () => {
         });
         expect(cancelRes.statusCode).toBe(200);
 
-        // Verify: Status is CANCELLED, Original Auth is CANCELLED, Fee record exists and is SUCCEEDED
-        const b = await query('SELECT status FROM bookings WHERE id = $1', [id]);
-        expect(b.rows[0].status).toBe('CANCELLED');
+        // Verify: Status is CANCELLED, R10 captured from the authorization and the rest released
+        const b = await query('SELECT status, cancellation_fee_cents, cancellation_fee_status, released_cents FROM bookings WHERE id = $1', [id]);
+        expect(b.rows[0]).toEqual({ status: 'CANCELLED', cancellation_fee_cents: 1000, cancellation_fee_status: 'COLLECTED', released_cents: 9000 });
 
-        const p = await query('SELECT status, amount_cents, provider_ref FROM payment_intents WHERE booking_id = $1 ORDER BY created_at ASC', [id]);
-        expect(p.rows).toHaveLength(2);
+        const p = await query('SELECT status, amount_cents, captured_cents, provider_ref FROM payment_intents WHERE booking_id = $1 ORDER BY created_at ASC', [id]);
+        expect(p.rows).toHaveLength(1);
 
-        // Original Auth
-        expect(p.rows[0].status).toBe('CANCELLED');
+        // The original intent captured only the fee; the authorized amount is kept
+        expect(p.rows[0].status).toBe('SUCCEEDED');
         expect(p.rows[0].amount_cents).toBe(10000);
-
-        // Fee
-        expect(p.rows[1].status).toBe('SUCCEEDED');
-        expect(p.rows[1].amount_cents).toBe(1000); // R10
-        expect(p.rows[1].provider_ref).toContain('pi_fee_');
+        expect(p.rows[0].captured_cents).toBe(1000); // R10
+        expect(p.rows[0].provider_ref).toBe('pi_123');
     });
 });
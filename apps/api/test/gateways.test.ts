@@ -0,0 +1,255 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { payfastSignature, PAYFAST_STATUS_MAP } from '../src/gateways/payfast.js';
+import { getGateway, GatewayError } from '../src/gateways/index.js';
+
+describe('Payment Gateways (Stripe + PayFast)', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, refunds, payfast_refund_attempts RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' },
+            payload: { display_name: 'Provider 1', is_online: true, services: [SERVICE_ID] }
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.unstubAllEnvs();
+    });
+
+    async function createBooking(): Promise<string> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        return res.json().id;
+    }
+
+    async function payWithPayFast(bookingId: string) {
+        const res = await app.inject({ method: 'POST', url: `/v1/bookings/${bookingId}/pay`, headers: customerHeaders, payload: { provider: 'payfast' } });
+        expect(res.statusCode).toBe(200);
+        const intent = await query('SELECT provider, provider_ref FROM payment_intents WHERE id = $1', [res.json().payment_intent_id]);
+        return { res: res.json(), ref: intent.rows[0].provider_ref as string };
+    }
+
+    /**
+     * Posts an ITN the way PayFast does: form-encoded, signed over the fields in order.
+     */
+    async function postItn(fields: [string, string][], signature = payfastSignature(fields)) {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/payfast',
+            headers: { 'content-type': 'application/x-www-form-urlencoded' },
+            payload: new URLSearchParams([...fields, ['signature', signature]]).toString(),
+        });
+    }
+
+    function itn(ref: string, bookingId: string, status: string, amount = '100.00'): [string, string][] {
+        return [
+            ['m_payment_id', ref],
+            ['pf_payment_id', '1089250'],
+            ['payment_status', status],
+            ['item_name', `OzzServe booking ${bookingId.slice(0, 8)}`],
+            ['amount_gross', amount],
+            ['amount_fee', '-2.30'],
+            ['amount_net', '97.70'],
+            ['custom_str1', bookingId],
+            ['name_first', 'Thandi'],
+            ['email_address', 'thandi@example.com'],
+            ['merchant_id', '10000100'],
+        ];
+    }
+
+    async function bookingStatus(id: string) {
+        return (await query('SELECT status FROM bookings WHERE id = $1', [id])).rows[0].status;
+    }
+
+    test('Gateway is selectable per booking; PayFast returns a signed checkout form', async () => {
+        const stripeBooking = await createBooking();
+        const stripePay = await app.inject({ method: 'POST', url: `/v1/bookings/${stripeBooking}/pay`, headers: customerHeaders });
+        expect(stripePay.json().provider).toBe('STRIPE');
+
+        const id = await createBooking();
+        const { res, ref } = await payWithPayFast(id);
+        expect(res.provider).toBe('PAYFAST');
+        expect(ref).toMatch(/^pf_/);
+        expect(res.checkout.url).toBe('https://sandbox.payfast.co.za/eng/process');
+
+        const { signature, ...fields } = res.checkout.fields;
+        expect(fields).toMatchObject({ m_payment_id: ref, amount: '100.00', custom_str1: id });
+        expect(signature).toBe(payfastSignature(Object.entries(fields) as [string, string][]));
+
+        // Stripe-only column stays empty
+        const row = await query('SELECT stripe_payment_intent_id FROM bookings WHERE id = $1', [id]);
+        expect(row.rows[0].stripe_payment_intent_id).toBeNull();
+    });
+
+    test('Unknown gateways are rejected', async () => {
+        const id = await createBooking();
+        const pay = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders, payload: { provider: 'paystack' } });
+        expect(pay.statusCode).toBe(400);
+
+        const hook = await app.inject({ method: 'POST', url: '/v1/webhooks/paystack', payload: { id: 'evt_1' } });
+        expect(hook.statusCode).toBe(404);
+    });
+
+    test('PayFast COMPLETE ITN authorizes the booking, once', async () => {
+        const id = await createBooking();
+        const { ref } = await payWithPayFast(id);
+
+        const res = await postItn(itn(ref, id, 'COMPLETE'));
+        expect(res.statusCode).toBe(200);
+        expect(res.json().status).toBe('PROCESSED');
+        expect(await bookingStatus(id)).toBe('PAID_SEARCHING');
+
+        const intent = await query('SELECT status, gateway_payment_id FROM payment_intents WHERE provider_ref = $1', [ref]);
+        expect(intent.rows[0]).toEqual({ status: 'AUTHORIZED', gateway_payment_id: '1089250' });
+
+        const replay = await postItn(itn(ref, id, 'COMPLETE'));
+        expect(replay.json().status).toBe('DUPLICATE');
+    });
+
+    test('PayFast ITN with a bad signature is rejected', async () => {
+        const id = await createBooking();
+        const { ref } = await payWithPayFast(id);
+
+        const res = await postItn(itn(ref, id, 'COMPLETE'), 'f'.repeat(32));
+        expect(res.statusCode).toBe(401);
+        expect(res.json().code).toBe('WEBHOOK_INVALID_SIG');
+
+        // Signed fields cannot be altered
+        const fields = itn(ref, id, 'COMPLETE');
+        const signature = payfastSignature(fields);
+        fields[4] = ['amount_gross', '1.00'];
+        expect((await postItn(fields, signature)).statusCode).toBe(401);
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+    });
+
+    test('PayFast amount mismatch does not authorize', async () => {
+        const id = await createBooking();
+        const { ref } = await payWithPayFast(id);
+
+        const res = await postItn(itn(ref, id, 'COMPLETE', '1.00'));
+        expect(res.statusCode).toBe(500);
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+
+        const intent = await query('SELECT status FROM payment_intents WHERE provider_ref = $1', [ref]);
+        expect(intent.rows[0].status).toBe('CREATED');
+    });
+
+    test('PayFast COMPLETE without an amount is rejected', async () => {
+        const id = await createBooking();
+        const { ref } = await payWithPayFast(id);
+
+        const fields = itn(ref, id, 'COMPLETE').filter(([k]) => k !== 'amount_gross');
+        expect((await postItn(fields)).statusCode).toBe(401);
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+    });
+
+    test('PayFast ITNs must be confirmed by the validate postback when it is enabled', async () => {
+        vi.stubEnv('PAYFAST_VALIDATE_ITN', 'true');
+        const validate = vi.fn(async () => new Response('INVALID'));
+        vi.stubGlobal('fetch', validate);
+
+        const id = await createBooking();
+        const { ref } = await payWithPayFast(id);
+        const fields = itn(ref, id, 'COMPLETE');
+
+        expect((await postItn(fields)).statusCode).toBe(401);
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+
+        // Posted back as received, without the signature
+        const [url, init] = validate.mock.calls[0];
+        expect(url).toBe('https://sandbox.payfast.co.za/eng/query/validate');
+        expect(init.body).toBe(new URLSearchParams(fields).toString());
+
+        validate.mockImplementation(async () => new Response('VALID'));
+        expect((await postItn(fields)).json().status).toBe('PROCESSED');
+        expect(await bookingStatus(id)).toBe('PAID_SEARCHING');
+
+        // No answer from PayFast: rejected, PayFast resends later
+        validate.mockRejectedValue(new TypeError('fetch failed'));
+        expect((await postItn(itn(ref, id, 'FAILED'))).statusCode).toBe(401);
+    });
+
+    test('PayFast refunds are recorded before the call and never sent twice', async () => {
+        vi.stubEnv('PAYFAST_MERCHANT_ID', '10000100');
+        const api = vi.fn(async () => new Response(JSON.stringify({ status: 'success' })));
+        vi.stubGlobal('fetch', api);
+        const payfast = getGateway('PAYFAST');
+        const intent = { booking_id: '550e8400-e29b-41d4-a716-000000000001', provider_ref: 'pf_1', gateway_payment_id: '1089250', amount_cents: 10000 };
+
+        expect(await payfast.refund(intent, 9000, 'capture_pf_1')).toMatchObject({ amount_cents: 9000, status: 'SUCCEEDED' });
+        expect(await payfast.refund(intent, 9000, 'capture_pf_1')).toMatchObject({ amount_cents: 9000, status: 'SUCCEEDED' });
+        expect(api).toHaveBeenCalledTimes(1);
+        expect(api.mock.calls[0][0]).toBe('https://api.payfast.co.za/refunds/1089250?testing=true');
+
+        // Refused (4xx): nothing refunded, so a retry calls PayFast again
+        api.mockResolvedValueOnce(new Response('bad request', { status: 400 }));
+        await expect(payfast.refund(intent, 10000, 'release_pf_1')).rejects.toMatchObject({ code: 'http_400', retryable: false });
+        await payfast.refund(intent, 10000, 'release_pf_1');
+        expect(api).toHaveBeenCalledTimes(3);
+
+        // No definite answer (5xx): the refund may have gone through, so it is not sent again
+        api.mockResolvedValueOnce(new Response('oops', { status: 502 }));
+        await expect(payfast.refund(intent, 5000, 'refund_1')).rejects.toMatchObject({ code: 'http_502', retryable: true });
+        const retry = payfast.refund(intent, 5000, 'refund_1');
+        await expect(retry).rejects.toBeInstanceOf(GatewayError);
+        await expect(retry).rejects.toMatchObject({ code: 'refund_unconfirmed', retryable: false });
+        expect(api).toHaveBeenCalledTimes(4);
+
+        const attempts = await query('SELECT idempotency_key, status FROM payfast_refund_attempts ORDER BY idempotency_key');
+        expect(attempts.rows).toEqual([
+            { idempotency_key: 'capture_pf_1', status: 'SUCCEEDED' },
+            { idempotency_key: 'refund_1', status: 'PENDING' },
+            { idempotency_key: 'release_pf_1', status: 'SUCCEEDED' },
+        ]);
+    });
+
+    test('PayFast status mapping: FAILED and CANCELLED leave the booking unpaid', async () => {
+        expect(PAYFAST_STATUS_MAP).toMatchObject({ COMPLETE: 'payment.authorized', FAILED: 'payment.failed', CANCELLED: 'payment.failed' });
+
+        const id = await createBooking();
+        const { ref } = await payWithPayFast(id);
+
+        expect((await postItn(itn(ref, id, 'FAILED'))).json().status).toBe('PROCESSED');
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+    });
+
+    test('Cancelling a PayFast booking keeps the fee and refunds the rest through PayFast', async () => {
+        const id = await createBooking();
+        const { ref } = await payWithPayFast(id);
+        await postItn(itn(ref, id, 'COMPLETE'));
+        await query(`UPDATE bookings SET status = 'EN_ROUTE', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+
+        const res = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/cancel`, headers: customerHeaders });
+        expect(res.statusCode).toBe(200);
+
+        const intents = await query('SELECT provider, status, amount_cents, captured_cents FROM payment_intents WHERE booking_id = $1 ORDER BY created_at', [id]);
+        expect(intents.rows).toEqual([{ provider: 'PAYFAST', status: 'SUCCEEDED', amount_cents: 10000, captured_cents: 1000 }]);
+        const booking = await query('SELECT cancellation_fee_status, released_cents FROM bookings WHERE id = $1', [id]);
+        expect(booking.rows[0]).toEqual({ cancellation_fee_status: 'COLLECTED', released_cents: 9000 });
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+
+describe('Geo-aware Dispatch', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_UID = '550e8400-e29b-41d4-a716-446655440003';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440001';
+
+    const DURBAN_PRO = '550e8400-e29b-41d4-a716-446655440010';
+    const UMHLANGA_PRO = '550e8400-e29b-41d4-a716-446655440011';
+    const CAPE_TOWN_PRO = '550e8400-e29b-41d4-a716-446655440012';
+    const NO_FIX_PRO = '550e8400-e29b-41d4-a716-446655440013';
+
+    const DURBAN = { lat: -29.8587, lng: 31.0218 };
+    const UMHLANGA = { lat: -29.7256, lng: 31.0840 }; // ~16 km north of Durban CBD
+    const CAPE_TOWN = { lat: -33.9249, lng: 18.4241 };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, provider_locations, bookings, booking_events, payment_intents, webhook_events RESTART IDENTITY CASCADE');
+    });
+
+    async function onboard(uid: string, location?: { lat: number; lng: number }) {
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: { 'x-user-id': uid, 'x-role': 'provider' },
+            payload: { display_name: uid, is_online: true, services: [SERVICE_ID] },
+        });
+        if (location) {
+            await app.inject({
+                method: 'POST',
+                url: '/v1/providers/me/location',
+                headers: { 'x-user-id': uid, 'x-role': 'provider' },
+                payload: location,
+            });
+        }
+    }
+
+    async function createBooking(location?: { lat: number; lng: number }) {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_UID, location },
+        });
+    }
+
+    test('Candidates are ranked by distance and far providers are dropped', async () => {
+        // Onboard the far provider first so created_at ordering would have picked them
+        await onboard(CAPE_TOWN_PRO, CAPE_TOWN);
+        await onboard(UMHLANGA_PRO, UMHLANGA);
+        await onboard(DURBAN_PRO, { lat: -29.86, lng: 31.02 });
+
+        const res = await createBooking(DURBAN);
+        expect(res.statusCode).toBe(201);
+        const booking = res.json();
+
+        expect(booking.candidate_list).toEqual([DURBAN_PRO, UMHLANGA_PRO]);
+        expect(booking.job_lat).toBe(DURBAN.lat);
+        expect(booking.candidate_distances[DURBAN_PRO]).toBeLessThan(1);
+        expect(booking.candidate_distances[UMHLANGA_PRO]).toBeGreaterThan(10);
+        expect(booking.candidate_distances[UMHLANGA_PRO]).toBeLessThan(25);
+    });
+
+    test('Stale location fixes and providers without a fix are dropped', async () => {
+        await onboard(DURBAN_PRO, DURBAN);
+        await onboard(UMHLANGA_PRO, UMHLANGA);
+        await onboard(NO_FIX_PRO);
+
+        await query(
+            `UPDATE provider_locations SET updated_at = NOW() - INTERVAL '2 hours'
+             WHERE provider_id = (SELECT id FROM providers WHERE user_uid = $1)`,
+            [UMHLANGA_PRO]
+        );
+
+        const booking = (await createBooking(DURBAN)).json();
+        expect(booking.candidate_list).toEqual([DURBAN_PRO]);
+    });
+
+    test('Booking without a job location falls back to onboarding order', async () => {
+        await onboard(CAPE_TOWN_PRO, CAPE_TOWN);
+        await onboard(NO_FIX_PRO);
+
+        const booking = (await createBooking()).json();
+        expect(booking.candidate_list).toEqual([CAPE_TOWN_PRO, NO_FIX_PRO]);
+        expect(booking.candidate_distances).toEqual({});
+    });
+
+    test('Offers show the provider distance to the job', async () => {
+        await onboard(UMHLANGA_PRO, UMHLANGA);
+
+        const bookingId = (await createBooking(DURBAN)).json().id;
+        await query(`UPDATE bookings SET status = 'PAID_SEARCHING' WHERE id = $1`, [bookingId]);
+
+        const offersRes = await app.inject({
+            method: 'GET',
+            url: '/v1/providers/me/offers',
+            headers: { 'x-user-id': UMHLANGA_PRO, 'x-role': 'provider' },
+        });
+        const offers = offersRes.json();
+        expect(offers).toHaveLength(1);
+        expect(offers[0].distance_km).toBeGreaterThan(10);
+        expect(offers[0].distance_km).toBeLessThan(25);
+    });
+
+    test('Invalid job coordinates are rejected', async () => {
+        const res = await createBooking({ lat: 120, lng: 31 });
+        expect(res.statusCode).toBe(400);
+    });
+});
@@ -10,7 +10,6 @@ describe('Hardening & History Verification', () => {
     const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
     const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
     const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
-    const SLOT_ID = '550e8400-e29b-41d4-a716-446655440005';
 
     beforeAll(async () => {
         app = await buildServer();
@@ -85,7 +84,7 @@ describe('Hardening & History Verification', () => {
                     method: 'POST',
                     url: '/v1/bookings',
                     headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-                    payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+                    payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
                 });
                 if (i === 1) { // Claim one
                     const id = res.json().id;
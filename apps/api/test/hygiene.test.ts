@@ -10,7 +10,6 @@ describe('PR 5.1 Hygiene: OTP Exposure & Migrations', () => {
     const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
     const OTHER_USER_ID = '550e8400-e29b-41d4-a716-446655449999';
     const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
-    const SLOT_ID = '550e8400-e29b-41d4-a716-446655440005';
 
     beforeAll(async () => {
         app = await buildServer();
@@ -37,7 +36,7 @@ describe('PR 5.1 Hygiene: OTP Exposure & Migrations', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const bookingId = res.json().id;
 
@@ -56,7 +55,7 @@ describe('PR 5.1 Hygiene: OTP Exposure & Migrations', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const bookingId = res.json().id;
 
@@ -78,7 +77,7 @@ describe('PR 5.1 Hygiene: OTP Exposure & Migrations', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const bookingId = res.json().id;
 
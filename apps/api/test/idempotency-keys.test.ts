@@ -0,0 +1,136 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { purgeExpiredRequestKeys, completeRequestKey, releaseRequestKey } from '../src/logic/idempotency.js';
+
+describe('Idempotency-Key on client POST endpoints', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const OTHER_CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440003';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE bookings, booking_events, payment_intents, journal_entries, ledger_lines, notification_outbox, idempotency_keys RESTART IDENTITY CASCADE');
+    });
+
+    function createBooking(key: string, userId = CUSTOMER_ID, location?: { lat: number; lng: number }) {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': userId, 'x-role': 'user', 'idempotency-key': key },
+            payload: { service_id: SERVICE_ID, user_id: userId, ...(location ? { location } : {}) }
+        });
+    }
+
+    async function bookingCount() {
+        return Number((await query('SELECT COUNT(*) FROM bookings')).rows[0].count);
+    }
+
+    test('A retried booking create replays the first response without a duplicate', async () => {
+        const first = await createBooking('create-1');
+        expect(first.statusCode).toBe(201);
+        expect(first.headers['idempotent-replayed']).toBeUndefined();
+
+        const retry = await createBooking('create-1');
+        expect(retry.statusCode).toBe(201);
+        expect(retry.headers['idempotent-replayed']).toBe('true');
+        expect(retry.json()).toEqual(first.json());
+        expect(await bookingCount()).toBe(1);
+
+        // Without a key every request still runs
+        await app.inject({ method: 'POST', url: '/v1/bookings', headers: customerHeaders, payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID } });
+        expect(await bookingCount()).toBe(2);
+    });
+
+    test('A retried pay returns the same intent instead of creating another', async () => {
+        const bookingId = (await createBooking('create-2')).json().id;
+        const pay = () => app.inject({
+            method: 'POST',
+            url: `/v1/bookings/${bookingId}/pay`,
+            headers: { ...customerHeaders, 'idempotency-key': 'pay-2' }
+        });
+
+        const first = await pay();
+        expect(first.statusCode).toBe(200);
+        const retry = await pay();
+        expect(retry.headers['idempotent-replayed']).toBe('true');
+        expect(retry.json().payment_intent_id).toBe(first.json().payment_intent_id);
+        expect(Number((await query('SELECT COUNT(*) FROM payment_intents WHERE booking_id = $1', [bookingId])).rows[0].count)).toBe(1);
+    });
+
+    test('Reusing a key for a different request is rejected; keys are scoped per user', async () => {
+        await createBooking('shared-key');
+
+        const changed = await createBooking('shared-key', CUSTOMER_ID, { lat: -26.2, lng: 28.04 });
+        expect(changed.statusCode).toBe(422);
+        expect(changed.json().code).toBe('IDEMPOTENCY_KEY_REUSED');
+
+        const otherUser = await createBooking('shared-key', OTHER_CUSTOMER_ID);
+        expect(otherUser.statusCode).toBe(201);
+        expect(otherUser.headers['idempotent-replayed']).toBeUndefined();
+        expect(await bookingCount()).toBe(2);
+    });
+
+    test('A request still running under the same key gets 409', async () => {
+        const first = await createBooking('busy-key');
+        await query(`UPDATE idempotency_keys SET status = 'IN_PROGRESS', response_status = NULL, response_body = NULL`);
+
+        const retry = await createBooking('busy-key');
+        expect(retry.statusCode).toBe(409);
+        expect(retry.json().code).toBe('IDEMPOTENCY_KEY_IN_PROGRESS');
+        expect(first.statusCode).toBe(201);
+    });
+
+    test('A claim left in progress past its lease is taken over by a retry', async () => {
+        await createBooking('stuck-key');
+        // The first request died mid-flight (its booking rolled back, the claim stayed)
+        await query('TRUNCATE bookings CASCADE');
+        await query(`UPDATE idempotency_keys SET status = 'IN_PROGRESS', response_status = NULL, response_body = NULL, locked_at = CURRENT_TIMESTAMP - INTERVAL '2 minutes'`);
+        const stale = (await query('SELECT locked_at FROM idempotency_keys')).rows[0].locked_at;
+
+        const retry = await createBooking('stuck-key');
+        expect(retry.statusCode).toBe(201);
+        expect(retry.headers['idempotent-replayed']).toBeUndefined();
+        expect(await bookingCount()).toBe(1);
+
+        // The stale request finishing late can't overwrite or free the new claim
+        await completeRequestKey(CUSTOMER_ID, 'stuck-key', stale, { status: 500, contentType: null, body: 'late' });
+        await releaseRequestKey(CUSTOMER_ID, 'stuck-key', stale);
+        const replay = await createBooking('stuck-key');
+        expect(replay.headers['idempotent-replayed']).toBe('true');
+        expect(replay.json().id).toBe(retry.json().id);
+    });
+
+    test('Keys expire after their TTL and are purged', async () => {
+        await createBooking('old-key');
+        await query(`UPDATE idempotency_keys SET expires_at = CURRENT_TIMESTAMP - INTERVAL '1 minute'`);
+
+        const again = await createBooking('old-key');
+        expect(again.statusCode).toBe(201);
+        expect(again.headers['idempotent-replayed']).toBeUndefined();
+        expect(await bookingCount()).toBe(2);
+
+        await query(`UPDATE idempotency_keys SET expires_at = CURRENT_TIMESTAMP - INTERVAL '1 minute'`);
+        expect(await purgeExpiredRequestKeys()).toEqual({ purged: 1 });
+        expect((await query('SELECT * FROM idempotency_keys')).rowCount).toBe(0);
+    });
+
+    test('Oversized keys are rejected before anything runs', async () => {
+        const res = await createBooking('k'.repeat(256));
+        expect(res.statusCode).toBe(400);
+        expect(res.json().code).toBe('INVALID_IDEMPOTENCY_KEY');
+        expect(await bookingCount()).toBe(0);
+    });
+});
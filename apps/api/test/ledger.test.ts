@@ -0,0 +1,145 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query, withTx } from '../src/db.js';
+import { postJournal } from '../src/logic/ledger.js';
+
+describe('Double-Entry Ledger', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' },
+            payload: { display_name: 'Provider 1', is_online: true, services: [SERVICE_ID] }
+        });
+    });
+
+    async function createAndPay(): Promise<{ id: string; ref: string; amount: number }> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = res.json().id;
+        const payRes = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders });
+        const dbRes = await query('SELECT provider_ref, amount_cents FROM payment_intents WHERE id = $1', [payRes.json().payment_intent_id]);
+        const ref = dbRes.rows[0].provider_ref;
+        await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: `evt_${id}`, type: 'payment_intent.succeeded', data: { object: { id: ref } } }
+        });
+        return { id, ref, amount: dbRes.rows[0].amount_cents };
+    }
+
+    async function getLedger(id: string) {
+        const res = await app.inject({ method: 'GET', url: `/v1/bookings/${id}`, headers: customerHeaders });
+        return res.json().ledger as any[];
+    }
+
+    async function verify() {
+        const res = await app.inject({ method: 'GET', url: '/v1/admin/ledger/verify', headers: adminHeaders });
+        return res.json();
+    }
+
+    function balance(accounts: { code: string; balance_cents: number }[], code: string) {
+        return accounts.find(a => a.code === code)!.balance_cents;
+    }
+
+    test('Authorization posts a balanced hold entry, once per intent', async () => {
+        const { id, ref, amount } = await createAndPay();
+
+        // A second authorization event for the same intent must not double-post
+        await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: `evt_${id}_again`, type: 'payment_intent.amount_capturable_updated', data: { object: { id: ref } } }
+        });
+
+        const ledger = await getLedger(id);
+        expect(ledger).toHaveLength(1);
+        expect(ledger[0].kind).toBe('AUTHORIZE');
+        expect(ledger[0].lines).toEqual([
+            { account: 'customer_holds', direction: 'DEBIT', amount_cents: amount },
+            { account: 'customer_funds', direction: 'CREDIT', amount_cents: amount },
+        ]);
+    });
+
+    test('Capture moves the hold to cash owed to the provider', async () => {
+        const { id, amount } = await createAndPay();
+        await query(`UPDATE bookings SET status = 'COMPLETE_PENDING', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+
+        const res = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/confirm-complete`, headers: customerHeaders });
+        expect(res.statusCode).toBe(200);
+
+        expect((await getLedger(id)).map(e => e.kind)).toEqual(['AUTHORIZE', 'CAPTURE']);
+
+        const report = await verify();
+        expect(report.balanced).toBe(true);
+        expect(balance(report.accounts, 'customer_holds')).toBe(0);
+        expect(balance(report.accounts, 'platform_cash')).toBe(amount);
+        expect(balance(report.accounts, 'provider_payable')).toBe(amount);
+    });
+
+    test('Cancellation releases the hold and books the fee as revenue', async () => {
+        const { id } = await createAndPay();
+        await query(`UPDATE bookings SET status = 'EN_ROUTE', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+
+        const res = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/cancel`, headers: customerHeaders });
+        expect(res.statusCode).toBe(200);
+
+        expect((await getLedger(id)).map(e => e.kind)).toEqual(['AUTHORIZE', 'RELEASE', 'CANCELLATION_FEE']);
+
+        const report = await verify();
+        expect(report.balanced).toBe(true);
+        expect(balance(report.accounts, 'customer_holds')).toBe(0);
+        expect(balance(report.accounts, 'platform_fees')).toBe(1000);
+    });
+
+    test('Unbalanced entries are rejected at write time and flagged by the check', async () => {
+        const { id } = await createAndPay();
+
+        await expect(withTx(client => postJournal(client, {
+            kind: 'REFUND', sourceRef: 'bad', bookingId: id,
+            lines: [
+                { account: 'provider_payable', direction: 'DEBIT', amount_cents: 500 },
+                { account: 'platform_cash', direction: 'CREDIT', amount_cents: 400 },
+            ],
+        }))).rejects.toThrow('Unbalanced');
+
+        // Corruption outside the application is caught by the invariant check
+        const entry = await query(`SELECT id FROM journal_entries WHERE booking_id = $1`, [id]);
+        await query(`UPDATE ledger_lines SET amount_cents = amount_cents + 1 WHERE journal_entry_id = $1 AND direction = 'DEBIT'`, [entry.rows[0].id]);
+
+        const report = await verify();
+        expect(report.balanced).toBe(false);
+        expect(report.unbalanced_entries[0].id).toBe(entry.rows[0].id);
+    });
+
+    test('Ledger verification is admin-only', async () => {
+        const res = await app.inject({ method: 'GET', url: '/v1/admin/ledger/verify', headers: customerHeaders });
+        expect(res.statusCode).toBe(403);
+    });
+});
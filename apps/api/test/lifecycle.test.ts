@@ -10,7 +10,6 @@ describe('Booking Lifecycle Endpoints', () => {
     const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
     const PROVIDER_2_ID = '550e8400-e29b-41d4-a716-446655440003';
     const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
-    const SLOT_ID = '550e8400-e29b-41d4-a716-446655440005';
 
     beforeAll(async () => {
         app = await buildServer();
@@ -43,7 +42,7 @@ describe('Booking Lifecycle Endpoints', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const bookingId = res.json().id;
 
@@ -150,7 +149,7 @@ describe('Booking Lifecycle Endpoints', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const id = res.json().id;
 
@@ -7,7 +7,6 @@ async function runLoadSim() {
 
     const CUSTOMER_UID = '550e8400-e29b-41d4-a716-446655440003';
     const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440001';
-    const SLOT_ID = '550e8400-e29b-41d4-a716-446655440002';
 
     // 1. Setup: Clean DB and create candidates
     await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events RESTART IDENTITY CASCADE');
@@ -29,7 +28,7 @@ async function runLoadSim() {
         method: 'POST',
         url: '/v1/bookings',
         headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
-        payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_UID },
+        payload: { service_id: SERVICE_ID, user_id: CUSTOMER_UID },
     });
     const bookingId = createRes.json().id;
 
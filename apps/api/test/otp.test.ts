@@ -0,0 +1,170 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { upgradeStoredOtps } from '../src/logic/otp.js';
+
+describe('OTP Hardening', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const PROVIDER_2_ID = '550e8400-e29b-41d4-a716-446655440003';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const providerHeaders = { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, notification_outbox RESTART IDENTITY CASCADE');
+        for (const uid of [PROVIDER_ID, PROVIDER_2_ID]) {
+            await app.inject({
+                method: 'POST',
+                url: '/v1/providers/me',
+                headers: { 'x-user-id': uid, 'x-role': 'provider' },
+                payload: { display_name: uid, is_online: true, services: [SERVICE_ID] }
+            });
+        }
+    });
+
+    async function createArrivedBooking(): Promise<{ id: string; otp: string }> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const { id, otp } = res.json();
+        await query(`UPDATE bookings SET status = 'ARRIVED', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+        return { id, otp };
+    }
+
+    async function start(id: string, otp: string, headers = providerHeaders) {
+        return app.inject({ method: 'POST', url: `/v1/bookings/${id}/start`, headers, payload: { otp } });
+    }
+
+    function wrongOtp(otp: string) {
+        return otp === '1234' ? '4321' : '1234';
+    }
+
+    test('OTP is stored only as a hash and sealed copy; customer still sees it', async () => {
+        const { id, otp } = await createArrivedBooking();
+        expect(otp).toMatch(/^\d{4}$/);
+
+        const row = await query('SELECT otp, otp_hash, otp_sealed FROM bookings WHERE id = $1', [id]);
+        expect(row.rows[0].otp).toBeNull();
+        expect(row.rows[0].otp_hash).not.toContain(otp);
+        expect(row.rows[0].otp_sealed).not.toContain(otp);
+
+        const view = await app.inject({ method: 'GET', url: `/v1/bookings/${id}`, headers: customerHeaders });
+        expect(view.json().otp).toBe(otp);
+        expect(view.json()).not.toHaveProperty('otp_hash');
+        expect(view.json()).not.toHaveProperty('otp_sealed');
+    });
+
+    test('Every attempt is recorded; the correct OTP starts the job', async () => {
+        const { id, otp } = await createArrivedBooking();
+
+        expect((await start(id, wrongOtp(otp))).statusCode).toBe(400);
+        expect((await start(id, otp)).statusCode).toBe(200);
+
+        const ev = await query(`SELECT actor_id, payload FROM booking_events WHERE booking_id = $1 AND type = 'otp_verification' ORDER BY created_at`, [id]);
+        expect(ev.rows).toHaveLength(2);
+        expect(ev.rows[0].payload).toMatchObject({ success: false, failed_attempts: 1 });
+        expect(ev.rows[1].payload).toMatchObject({ success: true });
+        expect(ev.rows[1].actor_id).toBe(PROVIDER_ID);
+    });
+
+    test('Locks after max failures and alerts an admin; correct OTP is then refused', async () => {
+        const { id, otp } = await createArrivedBooking();
+
+        for (let i = 0; i < 4; i++) {
+            expect((await start(id, wrongOtp(otp))).statusCode).toBe(400);
+        }
+        const fifth = await start(id, wrongOtp(otp));
+        expect(fifth.statusCode).toBe(409);
+        expect(fifth.json().code).toBe('OTP_LOCKED');
+
+        expect((await start(id, otp)).statusCode).toBe(409);
+
+        const n = await query(`SELECT recipient_uid FROM notification_outbox WHERE booking_id = $1 AND type = 'OTP_LOCKED'`, [id]);
+        expect(n.rows).toHaveLength(1);
+        expect(n.rows[0].recipient_uid).toBe('SYSTEM_ADMIN');
+
+        // Customer cannot bypass the lock by regenerating
+        const regen = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/otp/regenerate`, headers: customerHeaders });
+        expect(regen.statusCode).toBe(409);
+
+        // Admin unlocks after review
+        const unlock = await app.inject({ method: 'POST', url: `/v1/admin/bookings/${id}/otp/unlock`, headers: { 'x-user-id': ADMIN_ID, 'x-role': 'admin' } });
+        expect(unlock.statusCode).toBe(200);
+        expect((await start(id, otp)).statusCode).toBe(200);
+    });
+
+    test('Non-assigned providers cannot burn attempts', async () => {
+        const { id, otp } = await createArrivedBooking();
+
+        const res = await start(id, wrongOtp(otp), { 'x-user-id': PROVIDER_2_ID, 'x-role': 'provider' });
+        expect(res.statusCode).toBe(400);
+
+        const row = await query('SELECT otp_failed_attempts FROM bookings WHERE id = $1', [id]);
+        expect(row.rows[0].otp_failed_attempts).toBe(0);
+    });
+
+    test('Customer regenerates: old OTP stops working, new one works', async () => {
+        const { id, otp } = await createArrivedBooking();
+        await start(id, wrongOtp(otp));
+
+        const regen = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/otp/regenerate`, headers: customerHeaders });
+        expect(regen.statusCode).toBe(200);
+        const newOtp = regen.json().otp;
+        expect(newOtp).toMatch(/^\d{4}$/);
+
+        const row = await query('SELECT otp_failed_attempts FROM bookings WHERE id = $1', [id]);
+        expect(row.rows[0].otp_failed_attempts).toBe(0);
+
+        if (newOtp !== otp) {
+            expect((await start(id, otp)).statusCode).toBe(400);
+        }
+        expect((await start(id, newOtp)).statusCode).toBe(200);
+
+        const ev = await query(`SELECT 1 FROM booking_events WHERE booking_id = $1 AND type = 'otp_regenerated'`, [id]);
+        expect(ev.rows).toHaveLength(1);
+    });
+
+    test('Only the booking customer can regenerate', async () => {
+        const { id } = await createArrivedBooking();
+        const res = await app.inject({
+            method: 'POST',
+            url: `/v1/bookings/${id}/otp/regenerate`,
+            headers: { 'x-user-id': '550e8400-e29b-41d4-a716-446655449999', 'x-role': 'user' },
+        });
+        expect(res.statusCode).toBe(403);
+    });
+
+    test('Legacy plaintext OTPs are re-stored as hash and sealed copy', async () => {
+        const { id } = await createArrivedBooking();
+        await query(`UPDATE bookings SET otp = '5678', otp_hash = NULL, otp_sealed = NULL WHERE id = $1`, [id]);
+
+        expect(await upgradeStoredOtps()).toBe(1);
+        const row = (await query('SELECT otp, otp_hash, otp_sealed FROM bookings WHERE id = $1', [id])).rows[0];
+        expect(row.otp).toBeNull();
+        expect(row.otp_hash).toBeTruthy();
+        expect(row.otp_sealed).toBeTruthy();
+
+        const view = await app.inject({ method: 'GET', url: `/v1/bookings/${id}`, headers: customerHeaders });
+        expect(view.json().otp).toBe('5678');
+        expect((await start(id, '5678')).statusCode).toBe(200);
+        expect(await upgradeStoredOtps()).toBe(0);
+    });
+
+});
@@ -0,0 +1,166 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { flushFakeWebhooks } from '../src/gateways/fake.js';
+
+describe('Failed Payment Notification & Retry', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655440009';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await flushFakeWebhooks();
+        await clearScripts();
+        await query('TRUNCATE bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, notification_outbox RESTART IDENTITY CASCADE');
+    });
+
+    afterEach(() => {
+        delete process.env.PAYMENT_MAX_ATTEMPTS;
+    });
+
+    async function clearScripts() {
+        await app.inject({ method: 'DELETE', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders });
+    }
+
+    async function createBooking(): Promise<string> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        return res.json().id;
+    }
+
+    async function script(payload: Record<string, unknown>) {
+        await app.inject({ method: 'POST', url: '/v1/admin/fake-gateway/scripts', headers: adminHeaders, payload });
+    }
+
+    async function pay(bookingId: string) {
+        const res = await app.inject({ method: 'POST', url: `/v1/bookings/${bookingId}/pay`, headers: customerHeaders, payload: { provider: 'fake' } });
+        await flushFakeWebhooks();
+        return res;
+    }
+
+    async function intents(bookingId: string) {
+        const res = await query('SELECT id, status, decline_code FROM payment_intents WHERE booking_id = $1 ORDER BY created_at', [bookingId]);
+        return res.rows;
+    }
+
+    async function bookingStatus(id: string) {
+        return (await query('SELECT status FROM bookings WHERE id = $1', [id])).rows[0].status;
+    }
+
+    test('A declined payment is stored on the intent and the customer is notified', async () => {
+        const id = await createBooking();
+        await script({ booking_id: id, authorize: 'DECLINE', decline_code: 'insufficient_funds' });
+
+        const res = await pay(id);
+        expect(res.json()).toMatchObject({ reused: false, attempts: 1, max_attempts: 3 });
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+        expect(await intents(id)).toEqual([expect.objectContaining({ status: 'FAILED', decline_code: 'insufficient_funds' })]);
+
+        const n = await query(`SELECT recipient_uid, payload FROM notification_outbox WHERE booking_id = $1 AND type = 'PAYMENT_FAILED'`, [id]);
+        expect(n.rows).toHaveLength(1);
+        expect(n.rows[0].recipient_uid).toBe(CUSTOMER_ID);
+        expect(n.rows[0].payload).toMatchObject({ decline_code: 'insufficient_funds', attempts_remaining: 2 });
+    });
+
+    test('Retry after a failure supersedes the failed intent', async () => {
+        const id = await createBooking();
+        await script({ booking_id: id, authorize: 'DECLINE' });
+        await pay(id);
+
+        await clearScripts();
+        const res = await pay(id);
+        expect(res.statusCode).toBe(200);
+        expect(res.json()).toMatchObject({ reused: false, attempts: 2 });
+
+        expect((await intents(id)).map(i => i.status)).toEqual(['SUPERSEDED', 'AUTHORIZED']);
+        expect(await bookingStatus(id)).toBe('PAID_SEARCHING');
+    });
+
+    test('Paying again while the outcome is pending reuses the intent', async () => {
+        const id = await createBooking();
+        await script({ booking_id: id, authorize: 'TIMEOUT' });
+
+        const first = await pay(id);
+        const second = await pay(id);
+        expect(second.json()).toMatchObject({ payment_intent_id: first.json().payment_intent_id, reused: true, attempts: 1 });
+        expect(await intents(id)).toHaveLength(1);
+
+        // A different gateway replaces it
+        const stripe = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders, payload: { provider: 'stripe' } });
+        expect(stripe.json()).toMatchObject({ provider: 'STRIPE', reused: false, attempts: 2 });
+        expect((await intents(id)).map(i => i.status)).toEqual(['SUPERSEDED', 'CREATED']);
+    });
+
+    test('Concurrent pays create one intent', async () => {
+        const id = await createBooking();
+        await script({ booking_id: id, authorize: 'TIMEOUT' });
+
+        const results = await Promise.all([1, 2, 3, 4].map(() => pay(id)));
+        expect(await intents(id)).toHaveLength(1);
+        const ids = new Set(results.filter(r => r.statusCode === 200).map(r => r.json().payment_intent_id));
+        expect(ids.size).toBe(1);
+        // The loser either reuses the finished intent or is told it is still being set up
+        for (const r of results.filter(r => r.statusCode !== 200)) {
+            expect(r.statusCode).toBe(409);
+            expect(r.json().code).toBe('PAYMENT_IN_PROGRESS');
+        }
+    });
+
+    test('A placeholder left by a crashed request is superseded once stale', async () => {
+        const id = await createBooking();
+        await query(
+            `INSERT INTO payment_intents (booking_id, amount_cents, currency, status, provider, created_at)
+             VALUES ($1, 10000, 'ZAR', 'CREATED', 'FAKE', NOW() - INTERVAL '5 minutes')`,
+            [id]
+        );
+
+        const res = await pay(id);
+        expect(res.statusCode).toBe(200);
+        expect(res.json()).toMatchObject({ reused: false, attempts: 2 });
+        expect((await intents(id)).map(i => i.status)).toEqual(['SUPERSEDED', 'AUTHORIZED']);
+    });
+
+    test('Retries are capped per booking', async () => {
+        process.env.PAYMENT_MAX_ATTEMPTS = '2';
+        const id = await createBooking();
+        await script({ booking_id: id, authorize: 'DECLINE' });
+
+        await pay(id);
+        await pay(id);
+        const n = await query(`SELECT payload FROM notification_outbox WHERE booking_id = $1 AND type = 'PAYMENT_FAILED' ORDER BY created_at`, [id]);
+        expect(n.rows.map(r => r.payload.attempts_remaining)).toEqual([1, 0]);
+
+        const res = await pay(id);
+        expect(res.statusCode).toBe(409);
+        expect(res.json().code).toBe('PAYMENT_RETRY_LIMIT');
+        expect(await intents(id)).toHaveLength(2);
+    });
+
+    test('Only bookings awaiting payment can be paid', async () => {
+        const id = await createBooking();
+        await pay(id);
+        expect(await bookingStatus(id)).toBe('PAID_SEARCHING');
+
+        const res = await pay(id);
+        expect(res.statusCode).toBe(409);
+        expect(res.json().code).toBe('INVALID_STATE');
+    });
+});
@@ -19,7 +19,6 @@ describe('Payments v1 & Webhook Idempotency', () => {
     });
 
     const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440001';
-    const SLOT_ID = '550e8400-e29b-41d4-a716-446655440002';
     const CUSTOMER_UID = '550e8400-e29b-41d4-a716-446655440003';
 
     test('Webhook flow: Success event transitions booking to PAID_SEARCHING', async () => {
@@ -28,7 +27,7 @@ describe('Payments v1 & Webhook Idempotency', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
-            payload: { service_id: SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_UID },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_UID },
         });
         const bookingId = createRes.json().id;
 
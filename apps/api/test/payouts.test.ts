@@ -0,0 +1,223 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { runPayoutBatch, createEftFileAdapter, accrueEarnings, TransferAdapter } from '../src/logic/payouts.js';
+import { verifyLedger } from '../src/logic/ledger.js';
+
+describe('Provider Payouts', () => {
+    let app: FastifyInstance;
+    let exportDir: string;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const providerHeaders = { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' };
+
+    const failingAdapter: TransferAdapter = {
+        name: 'broken',
+        send: async () => { throw new Error('bank portal unavailable'); },
+    };
+
+    beforeAll(async () => {
+        app = await buildServer();
+        exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'payouts-test-'));
+    });
+
+    afterAll(async () => {
+        await app.close();
+        fs.rmSync(exportDir, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, provider_earnings, payouts, payout_batches, provider_payout_accounts RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: providerHeaders,
+            payload: { display_name: 'Provider 1', is_online: true, services: [SERVICE_ID] }
+        });
+    });
+
+    /**
+     * Helper: booking paid, completed and confirmed (captured + CLOSED).
+     */
+    async function createClosedBooking(): Promise<string> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = res.json().id;
+        const payRes = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders });
+        const dbRes = await query('SELECT provider_ref FROM payment_intents WHERE id = $1', [payRes.json().payment_intent_id]);
+        await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: `evt_${id}`, type: 'payment_intent.succeeded', data: { object: { id: dbRes.rows[0].provider_ref } } }
+        });
+        await query(`UPDATE bookings SET status = 'COMPLETE_PENDING', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/confirm-complete`, headers: customerHeaders });
+        return id;
+    }
+
+    async function addPayoutAccount() {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me/payout-account',
+            headers: providerHeaders,
+            payload: { account_holder: 'Thandi Plumbing', bank_name: 'FNB', branch_code: '250655', account_number: '62812345678' }
+        });
+        expect(res.statusCode).toBe(200);
+    }
+
+    async function getEarnings() {
+        return (await app.inject({ method: 'GET', url: '/v1/providers/me/earnings', headers: providerHeaders })).json();
+    }
+
+    test('Earnings come from CLOSED bookings minus commission', async () => {
+        const id = await createClosedBooking();
+
+        // Not yet closed: no earnings
+        const open = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        await query(`UPDATE bookings SET status = 'COMPLETE_PENDING', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, open.json().id]);
+
+        // Reading earnings writes nothing: the payout_batch job accrues them
+        expect((await getEarnings()).bookings).toEqual([]);
+        expect((await query('SELECT 1 FROM provider_earnings')).rows).toHaveLength(0);
+        await accrueEarnings();
+
+        const earnings = await getEarnings();
+        expect(earnings).toMatchObject({ available_cents: 8500, in_payout_cents: 0, paid_cents: 0 });
+        expect(earnings.bookings).toEqual([
+            expect.objectContaining({ booking_id: id, gross_cents: 10000, commission_cents: 1500, net_cents: 8500, status: 'AVAILABLE' }),
+        ]);
+
+        const commission = await query(`SELECT 1 FROM journal_entries WHERE booking_id = $1 AND kind = 'COMMISSION'`, [id]);
+        expect(commission.rows).toHaveLength(1);
+    });
+
+    test('Batch pays available earnings and writes an EFT export', async () => {
+        const id = await createClosedBooking();
+        await addPayoutAccount();
+
+        const result = await runPayoutBatch(createEftFileAdapter(exportDir));
+        expect(result).toMatchObject({ status: 'SENT', payouts: 1, total_cents: 8500 });
+
+        const file = fs.readFileSync(path.join(exportDir, `eft-batch-${result.batch_id}.csv`), 'utf8');
+        expect(file).toContain('"62812345678","85.00"');
+
+        expect(await getEarnings()).toMatchObject({ available_cents: 0, paid_cents: 8500 });
+
+        const payouts = (await app.inject({ method: 'GET', url: '/v1/providers/me/payouts', headers: providerHeaders })).json();
+        expect(payouts).toHaveLength(1);
+        expect(payouts[0]).toMatchObject({ status: 'SENT', amount_cents: 8500, booking_ids: [id] });
+
+        // Nothing left to pay
+        expect((await runPayoutBatch(createEftFileAdapter(exportDir))).status).toBe('EMPTY');
+
+        const ledger = await verifyLedger();
+        expect(ledger.balanced).toBe(true);
+        expect(ledger.accounts.find(a => a.code === 'provider_payable')!.balance_cents).toBe(0);
+    });
+
+    test('Providers without a payout account are skipped', async () => {
+        await createClosedBooking();
+
+        expect((await runPayoutBatch(createEftFileAdapter(exportDir))).status).toBe('EMPTY');
+        expect((await getEarnings()).available_cents).toBe(8500);
+    });
+
+    test('Failed transfer marks the batch FAILED and returns earnings to the pool', async () => {
+        await createClosedBooking();
+        await addPayoutAccount();
+
+        const failed = await runPayoutBatch(failingAdapter);
+        expect(failed.status).toBe('FAILED');
+
+        const batch = await query('SELECT status, error FROM payout_batches WHERE id = $1', [failed.batch_id]);
+        expect(batch.rows[0]).toEqual({ status: 'FAILED', error: 'bank portal unavailable' });
+        expect((await getEarnings()).available_cents).toBe(8500);
+
+        const retry = await runPayoutBatch(createEftFileAdapter(exportDir));
+        expect(retry.status).toBe('SENT');
+        expect((await getEarnings()).paid_cents).toBe(8500);
+    });
+
+    /**
+     * A run that dies after building its batch and before settling it: the batch stays PENDING.
+     * Backdated past PAYOUT_PENDING_TIMEOUT_MINUTES so the next run picks it up.
+     */
+    async function interruptedBatch(adapterName: string): Promise<string> {
+        void runPayoutBatch({ name: adapterName, send: () => new Promise(() => {}) });
+        for (let i = 0; i < 50; i++) {
+            const res = await query(`SELECT id FROM payout_batches WHERE status = 'PENDING'`);
+            if (res.rowCount) {
+                await query(`UPDATE payout_batches SET created_at = created_at - INTERVAL '2 hours' WHERE id = $1`, [res.rows[0].id]);
+                return res.rows[0].id;
+            }
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        throw new Error('Batch was not created');
+    }
+
+    test('An interrupted batch is resumed by the next run and paid once', async () => {
+        const id = await createClosedBooking();
+        await addPayoutAccount();
+        const batchId = await interruptedBatch('eft_file');
+        expect(await getEarnings()).toMatchObject({ available_cents: 0, in_payout_cents: 8500 });
+
+        const result = await runPayoutBatch(createEftFileAdapter(exportDir));
+        expect(result).toMatchObject({ status: 'EMPTY', resumed: 1 });
+
+        const batch = await query('SELECT status, transfer_ref FROM payout_batches WHERE id = $1', [batchId]);
+        expect(batch.rows[0]).toEqual({ status: 'SENT', transfer_ref: path.join(exportDir, `eft-batch-${batchId}.csv`) });
+        expect(fs.readFileSync(batch.rows[0].transfer_ref, 'utf8')).toContain('"62812345678","85.00"');
+        expect(await getEarnings()).toMatchObject({ in_payout_cents: 0, paid_cents: 8500 });
+
+        const payouts = await query(`SELECT 1 FROM journal_entries WHERE kind = 'PAYOUT'`);
+        expect(payouts.rows).toHaveLength(1);
+        expect((await verifyLedger()).balanced).toBe(true);
+
+        // Sending the same batch again keeps the export already written
+        const again = await createEftFileAdapter(exportDir).send(batchId, []);
+        expect(again.transfer_ref).toBe(batch.rows[0].transfer_ref);
+        expect(fs.readFileSync(again.transfer_ref, 'utf8')).toContain('"62812345678","85.00"');
+        expect((await getEarnings()).bookings).toEqual([expect.objectContaining({ booking_id: id, status: 'PAID' })]);
+    });
+
+    test('An interrupted batch for another adapter fails and its earnings are paid in a new batch', async () => {
+        await createClosedBooking();
+        await addPayoutAccount();
+        const batchId = await interruptedBatch('bank_api');
+
+        // A recent PENDING batch may still be in flight: left alone
+        await query(`UPDATE payout_batches SET created_at = CURRENT_TIMESTAMP WHERE id = $1`, [batchId]);
+        expect(await runPayoutBatch(createEftFileAdapter(exportDir))).toMatchObject({ status: 'EMPTY', resumed: 0 });
+
+        await query(`UPDATE payout_batches SET created_at = created_at - INTERVAL '2 hours' WHERE id = $1`, [batchId]);
+        const result = await runPayoutBatch(createEftFileAdapter(exportDir));
+        expect(result).toMatchObject({ status: 'SENT', resumed: 1, total_cents: 8500 });
+
+        const stale = await query('SELECT status, error FROM payout_batches WHERE id = $1', [batchId]);
+        expect(stale.rows[0]).toEqual({ status: 'FAILED', error: 'Interrupted; adapter bank_api is not available to resume it' });
+        expect(await getEarnings()).toMatchObject({ paid_cents: 8500 });
+    });
+
+    test('Earnings and payouts are provider-only', async () => {
+        const res = await app.inject({ method: 'GET', url: '/v1/providers/me/earnings', headers: customerHeaders });
+        expect(res.statusCode).toBe(403);
+    });
+});
@@ -20,7 +20,6 @@ describe('Persistence Verification', () => {
             headers: { 'x-user-id': uid, 'x-role': 'user' },
             payload: {
                 service_id: '550e8400-e29b-41d4-a716-446655441111',
-                slot_id: '550e8400-e29b-41d4-a716-446655442222',
                 user_id: uid,
             },
         });
@@ -0,0 +1,167 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { runReconciliation, ReconciliationAdapter } from '../src/logic/reconciliation.js';
+import { GatewayIntentView } from '../src/gateways/index.js';
+import { flushFakeWebhooks, setFakeIntentView } from '../src/gateways/fake.js';
+
+describe('Payment reconciliation', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655440009';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await flushFakeWebhooks();
+        await query('TRUNCATE bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, notification_outbox, capture_retries, reconciliation_runs, reconciliation_items RESTART IDENTITY CASCADE');
+    });
+
+    /**
+     * Adapter that reports fixed views by provider_ref (anything else: unknown to the gateway).
+     */
+    function adapterFor(views: Record<string, GatewayIntentView | Error>): ReconciliationAdapter {
+        return {
+            name: 'test',
+            async fetchIntent(_provider, intent) {
+                const view = views[intent.provider_ref];
+                if (view instanceof Error) throw view;
+                return view ?? null;
+            },
+        };
+    }
+
+    async function createBooking(payload: Record<string, unknown> = {}): Promise<{ id: string; ref: string }> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = res.json().id;
+        const payRes = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders, payload });
+        await flushFakeWebhooks();
+        const ref = (await query('SELECT provider_ref FROM payment_intents WHERE id = $1', [payRes.json().payment_intent_id])).rows[0].provider_ref;
+        return { id, ref };
+    }
+
+    async function authorize(ref: string) {
+        await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: `evt_auth_${ref}`, type: 'payment_intent.amount_capturable_updated', data: { object: { id: ref, amount: 10000, amount_capturable: 10000 } } }
+        });
+    }
+
+    // Past the in-flight window (RECONCILIATION_MIN_AGE_MINUTES)
+    async function ageIntents() {
+        await query(`UPDATE payment_intents SET updated_at = CURRENT_TIMESTAMP - INTERVAL '1 hour'`);
+    }
+
+    async function intentStatus(ref: string) {
+        return (await query('SELECT status FROM payment_intents WHERE provider_ref = $1', [ref])).rows[0].status;
+    }
+
+    async function bookingStatus(id: string) {
+        return (await query('SELECT status FROM bookings WHERE id = $1', [id])).rows[0].status;
+    }
+
+    async function items(runId: string) {
+        return (await query('SELECT drift, action, local_status, gateway_status, booking_status FROM reconciliation_items WHERE run_id = $1', [runId])).rows;
+    }
+
+    test('A missed authorization is repaired through the webhook path', async () => {
+        const { id, ref } = await createBooking();
+        await ageIntents();
+
+        const run = await runReconciliation(adapterFor({ [ref]: { state: 'AUTHORIZED', amount_cents: 10000 } }));
+        expect(run).toMatchObject({ status: 'COMPLETED', adapter: 'test', checked: 1, repaired: 1, alerts: 0 });
+        expect(await intentStatus(ref)).toBe('AUTHORIZED');
+        expect(await bookingStatus(id)).toBe('PAID_SEARCHING');
+        expect(await items(run.id)).toEqual([{ drift: 'MISSED_AUTHORIZATION', action: 'REPAIRED', local_status: 'CREATED', gateway_status: 'AUTHORIZED', booking_status: 'PENDING_PAYMENT' }]);
+    });
+
+    test('A capture the gateway took but we never recorded is booked', async () => {
+        const { id, ref } = await createBooking();
+        await authorize(ref);
+        await query(`UPDATE bookings SET status = 'COMPLETE_PENDING', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+        await ageIntents();
+
+        const run = await runReconciliation(adapterFor({ [ref]: { state: 'CAPTURED', amount_cents: 10000 } }));
+        expect(run.repaired).toBe(1);
+        expect(await intentStatus(ref)).toBe('SUCCEEDED');
+        const kinds = await query('SELECT kind FROM journal_entries WHERE booking_id = $1 ORDER BY created_at', [id]);
+        expect(kinds.rows.map(r => r.kind)).toEqual(['AUTHORIZE', 'CAPTURE']);
+    });
+
+    test('A CLOSED booking with an uncaptured authorization is raised to admins once', async () => {
+        const { id, ref } = await createBooking();
+        await authorize(ref);
+        await query(`UPDATE bookings SET status = 'CLOSED', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+        await ageIntents();
+        const adapter = adapterFor({ [ref]: { state: 'AUTHORIZED', amount_cents: 10000 } });
+
+        const first = await runReconciliation(adapter);
+        expect(first).toMatchObject({ alerts: 1, repaired: 0 });
+        expect(await items(first.id)).toEqual([{ drift: 'CLOSED_NOT_CAPTURED', action: 'ALERT', local_status: 'AUTHORIZED', gateway_status: 'AUTHORIZED', booking_status: 'CLOSED' }]);
+        expect(await intentStatus(ref)).toBe('AUTHORIZED');
+
+        const second = await runReconciliation(adapter);
+        expect(second.alerts).toBe(1);
+        const alerts = await query(`SELECT recipient_uid, payload FROM notification_outbox WHERE type = 'RECONCILIATION_ALERT'`);
+        expect(alerts.rows).toHaveLength(1);
+        expect(alerts.rows[0]).toMatchObject({ recipient_uid: 'SYSTEM_ADMIN', payload: { drift: 'CLOSED_NOT_CAPTURED', booking_status: 'CLOSED' } });
+    });
+
+    test('Recent, unverifiable, in-sync and failed lookups are counted, not changed', async () => {
+        const inSync = await createBooking();
+        const unknown = await createBooking();
+        const broken = await createBooking();
+        await ageIntents();
+        const recent = await createBooking();
+
+        const run = await runReconciliation(adapterFor({
+            [inSync.ref]: { state: 'PENDING', amount_cents: 10000 },
+            [broken.ref]: new Error('Gateway unavailable'),
+            [recent.ref]: { state: 'AUTHORIZED', amount_cents: 10000 },
+        }));
+        expect(run).toMatchObject({ checked: 3, in_sync: 1, unverifiable: 1, errors: 1, repaired: 0, alerts: 0 });
+        expect(await items(run.id)).toEqual([expect.objectContaining({ drift: 'LOOKUP_FAILED', action: 'ERROR', gateway_status: 'UNKNOWN' })]);
+        expect(await intentStatus(recent.ref)).toBe('CREATED');
+    });
+
+    test('The scheduled job reads the fake gateway and reports through the admin API', async () => {
+        const { id, ref } = await createBooking({ provider: 'fake' });
+        expect(await bookingStatus(id)).toBe('PAID_SEARCHING');
+        await ageIntents();
+
+        // The hold lapsed at the gateway and the webhook never arrived
+        setFakeIntentView(ref, { state: 'CANCELED', amount_cents: 10000 });
+        const job = await app.inject({ method: 'POST', url: '/v1/admin/jobs/reconciliation/run', headers: adminHeaders });
+        expect(job.statusCode).toBe(200);
+        expect(await intentStatus(ref)).toBe('CANCELLED');
+        expect(await bookingStatus(id)).toBe('EXPIRED');
+
+        const runs = await app.inject({ method: 'GET', url: '/v1/admin/reconciliation/runs', headers: adminHeaders });
+        expect(runs.json().runs[0]).toMatchObject({ adapter: 'gateway', repaired: 1 });
+        const detail = await app.inject({ method: 'GET', url: `/v1/admin/reconciliation/runs/${runs.json().runs[0].id}`, headers: adminHeaders });
+        expect(detail.json().items).toEqual([expect.objectContaining({ drift: 'MISSED_CANCELLATION', action: 'REPAIRED', booking_status: 'PAID_SEARCHING' })]);
+
+        expect((await app.inject({ method: 'GET', url: '/v1/admin/reconciliation/runs', headers: customerHeaders })).statusCode).toBe(403);
+        expect((await app.inject({ method: 'GET', url: '/v1/admin/reconciliation/runs/550e8400-e29b-41d4-a716-000000000000', headers: adminHeaders })).statusCode).toBe(404);
+    });
+});
@@ -0,0 +1,200 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { verifyLedger } from '../src/logic/ledger.js';
+import { accrueEarnings } from '../src/logic/payouts.js';
+
+describe('Refunds', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const providerHeaders = { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, provider_earnings, payouts, payout_batches, provider_payout_accounts, refunds RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: providerHeaders,
+            payload: { display_name: 'Provider 1', is_online: true, services: [SERVICE_ID] }
+        });
+    });
+
+    async function createPaidBooking(): Promise<{ id: string; ref: string }> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = res.json().id;
+        const payRes = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders });
+        const dbRes = await query('SELECT provider_ref FROM payment_intents WHERE id = $1', [payRes.json().payment_intent_id]);
+        const ref = dbRes.rows[0].provider_ref;
+        await app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: `evt_${id}`, type: 'payment_intent.succeeded', data: { object: { id: ref } } }
+        });
+        return { id, ref };
+    }
+
+    async function createClosedBooking() {
+        const booking = await createPaidBooking();
+        await query(`UPDATE bookings SET status = 'COMPLETE_PENDING', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, booking.id]);
+        await app.inject({ method: 'POST', url: `/v1/bookings/${booking.id}/confirm-complete`, headers: customerHeaders });
+        return booking;
+    }
+
+    async function refund(id: string, payload: Record<string, unknown> = {}) {
+        return app.inject({ method: 'POST', url: `/v1/admin/bookings/${id}/refund`, headers: adminHeaders, payload });
+    }
+
+    async function balance(code: string) {
+        return (await verifyLedger()).accounts.find(a => a.code === code)!.balance_cents;
+    }
+
+    test('Outside the refund boundary an override reason is required', async () => {
+        const { id } = await createClosedBooking();
+
+        const denied = await refund(id, { reason: 'customer complaint' });
+        expect(denied.statusCode).toBe(409);
+        expect(denied.json().code).toBe('REFUND_BOUNDARY');
+
+        const res = await refund(id, { reason: 'customer complaint', override_reason: 'Work redone by another provider' });
+        expect(res.statusCode).toBe(201);
+        expect(res.json()).toMatchObject({ amount_cents: 10000, status: 'SUCCEEDED', override_reason: 'Work redone by another provider', requested_by: ADMIN_ID });
+        expect(res.json().provider_ref).toMatch(/^re_mock_/);
+
+        const intent = await query(`SELECT status FROM payment_intents WHERE booking_id = $1`, [id]);
+        expect(intent.rows[0].status).toBe('REFUNDED');
+
+        expect((await verifyLedger()).balanced).toBe(true);
+        expect(await balance('provider_payable')).toBe(0);
+        expect(await balance('platform_cash')).toBe(0);
+
+        const ev = await query(`SELECT actor_id, payload FROM booking_events WHERE booking_id = $1 AND type = 'refund'`, [id]);
+        expect(ev.rows[0].actor_id).toBe(ADMIN_ID);
+        expect(ev.rows[0].payload).toMatchObject({ booking_status: 'CLOSED', amount_cents: 10000 });
+    });
+
+    test('Partial refunds never exceed the captured amount', async () => {
+        const { id } = await createClosedBooking();
+        const override = { override_reason: 'Goodwill' };
+
+        expect((await refund(id, { ...override, amount_cents: 3000 })).statusCode).toBe(201);
+        let intent = await query(`SELECT status FROM payment_intents WHERE booking_id = $1`, [id]);
+        expect(intent.rows[0].status).toBe('PARTIALLY_REFUNDED');
+
+        const tooMuch = await refund(id, { ...override, amount_cents: 7001 });
+        expect(tooMuch.statusCode).toBe(409);
+        expect(tooMuch.json().code).toBe('AMOUNT_EXCEEDS_REMAINING');
+
+        // Default is the remainder
+        const rest = await refund(id, override);
+        expect(rest.json().amount_cents).toBe(7000);
+        intent = await query(`SELECT status FROM payment_intents WHERE booking_id = $1`, [id]);
+        expect(intent.rows[0].status).toBe('REFUNDED');
+    });
+
+    test('Authorized-only payments are not refundable (cancel releases the hold)', async () => {
+        const { id } = await createPaidBooking();
+
+        const res = await refund(id);
+        expect(res.statusCode).toBe(409);
+        expect(res.json().code).toBe('NOT_CAPTURED');
+    });
+
+    test('Refunds reduce the unpaid provider earning and stop once paid out', async () => {
+        const { id } = await createClosedBooking();
+        await accrueEarnings();
+
+        expect((await refund(id, { override_reason: 'Partial no-show', amount_cents: 2000 })).statusCode).toBe(201);
+        const earnings = (await app.inject({ method: 'GET', url: '/v1/providers/me/earnings', headers: providerHeaders })).json();
+        // Split in proportion: 15% of the refund comes back out of commission
+        expect(earnings.bookings[0]).toMatchObject({ gross_cents: 8000, commission_cents: 1200, net_cents: 6800 });
+        expect((await verifyLedger()).balanced).toBe(true);
+        expect(await balance('platform_fees')).toBe(1200);
+
+        await query(`INSERT INTO provider_payout_accounts (provider_uid, account_holder, bank_name, branch_code, account_number) VALUES ($1, 'P1', 'FNB', '250655', '62812345678')`, [PROVIDER_ID]);
+        await app.inject({ method: 'POST', url: '/v1/admin/jobs/payout_batch/run', headers: adminHeaders });
+
+        const res = await refund(id, { override_reason: 'Late complaint', amount_cents: 1000 });
+        expect(res.statusCode).toBe(409);
+        expect(res.json().code).toBe('PAID_OUT');
+    });
+
+    test('A full refund after accrual reverses the commission too', async () => {
+        const { id } = await createClosedBooking();
+        await accrueEarnings();
+
+        const res = await refund(id, { override_reason: 'Job redone by another provider' });
+        expect(res.statusCode).toBe(201);
+        expect(res.json().amount_cents).toBe(10000);
+
+        const earning = (await query('SELECT gross_cents::int, commission_cents::int, net_cents::int FROM provider_earnings WHERE booking_id = $1', [id])).rows[0];
+        expect(earning).toEqual({ gross_cents: 0, commission_cents: 0, net_cents: 0 });
+        expect(await balance('provider_payable')).toBe(0);
+        expect(await balance('platform_fees')).toBe(0);
+        expect((await verifyLedger()).balanced).toBe(true);
+    });
+
+    test('Refunding a cancellation fee comes out of platform fees', async () => {
+        const { id } = await createPaidBooking();
+        await query(`UPDATE bookings SET status = 'EN_ROUTE', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, id]);
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/cancel`, headers: customerHeaders });
+
+        const res = await refund(id, { override_reason: 'Provider was late' });
+        expect(res.statusCode).toBe(201);
+        expect(res.json().amount_cents).toBe(1000);
+
+        expect(await balance('platform_fees')).toBe(0);
+        expect(await balance('provider_payable')).toBe(0);
+        expect((await verifyLedger()).balanced).toBe(true);
+    });
+
+    test('charge.refunded records gateway-side refunds once', async () => {
+        const { id, ref } = await createClosedBooking();
+        const event = (eventId: string) => ({
+            id: eventId,
+            type: 'charge.refunded',
+            data: { object: { id: 'ch_1', payment_intent: ref, amount_refunded: 2500, refunds: { data: [{ id: 're_dashboard_1', amount: 2500, status: 'succeeded', reason: 'requested_by_customer' }] } } }
+        });
+
+        const first = await app.inject({ method: 'POST', url: '/v1/webhooks/stripe', headers: { 'x-signature': 'valid_secret' }, payload: event('evt_refund_1') });
+        expect(first.json().status).toBe('PROCESSED');
+
+        // Same event replayed, and a later event repeating the same refund
+        const dup = await app.inject({ method: 'POST', url: '/v1/webhooks/stripe', headers: { 'x-signature': 'valid_secret' }, payload: event('evt_refund_1') });
+        expect(dup.json().status).toBe('DUPLICATE');
+        await app.inject({ method: 'POST', url: '/v1/webhooks/stripe', headers: { 'x-signature': 'valid_secret' }, payload: event('evt_refund_2') });
+
+        const rows = await query(`SELECT amount_cents, status, requested_by FROM refunds WHERE booking_id = $1`, [id]);
+        expect(rows.rows).toEqual([{ amount_cents: 2500, status: 'SUCCEEDED', requested_by: 'gateway' }]);
+
+        const entries = await query(`SELECT 1 FROM journal_entries WHERE booking_id = $1 AND kind = 'REFUND'`, [id]);
+        expect(entries.rows).toHaveLength(1);
+    });
+
+    test('Refunds are admin-only', async () => {
+        const { id } = await createClosedBooking();
+        const res = await app.inject({ method: 'POST', url: `/v1/admin/bookings/${id}/refund`, headers: customerHeaders, payload: {} });
+        expect(res.statusCode).toBe(403);
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query, connectClient } from '../src/db.js';
+import { createScheduler } from '../src/scheduler.js';
+
+describe('Scheduler: advisory-locked periodic jobs', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE bookings, booking_events, payment_intents, notification_outbox, job_runs RESTART IDENTITY CASCADE');
+    });
+
+    test('GET /v1/admin/jobs lists registered jobs', async () => {
+        const res = await app.inject({ method: 'GET', url: '/v1/admin/jobs', headers: adminHeaders });
+        expect(res.statusCode).toBe(200);
+        const body = res.json();
+        expect(body.enabled).toBe(false); // Opt-in via SCHEDULER_ENABLED
+        expect(body.jobs.map((j: any) => j.name)).toEqual(['expiry_sweep', 'auto_close', 'dispatch_waves', 'outbox_dispatch', 'payout_batch', 'capture_retry', 'reconciliation', 'webhook_worker', 'idempotency_purge', 'job_runs_purge']);
+        expect(body.jobs[0].last_run).toBeNull();
+    });
+
+    test('GET /v1/admin/jobs is admin-only', async () => {
+        const res = await app.inject({ method: 'GET', url: '/v1/admin/jobs', headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' } });
+        expect(res.statusCode).toBe(403);
+    });
+
+    test('Run now: outbox_dispatch sends PENDING notifications and records the run', async () => {
+        const createRes = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = createRes.json().id;
+        await query(`INSERT INTO notification_outbox (booking_id, recipient_uid, type, payload) VALUES ($1, $2, 'TEST', '{}')`, [id, CUSTOMER_ID]);
+
+        const runRes = await app.inject({ method: 'POST', url: '/v1/admin/jobs/outbox_dispatch/run', headers: adminHeaders });
+        expect(runRes.statusCode).toBe(200);
+        expect(runRes.json().status).toBe('SUCCEEDED');
+
+        const n = await query('SELECT status, sent_at FROM notification_outbox WHERE booking_id = $1', [id]);
+        expect(n.rows[0].status).toBe('SENT');
+        expect(n.rows[0].sent_at).not.toBeNull();
+
+        const statusRes = await app.inject({ method: 'GET', url: '/v1/admin/jobs', headers: adminHeaders });
+        const job = statusRes.json().jobs.find((j: any) => j.name === 'outbox_dispatch');
+        expect(job.last_run.status).toBe('SUCCEEDED');
+        expect(job.last_run.result).toEqual({ sent: 1, failed: 0 });
+        expect(job.last_success_at).not.toBeNull();
+    });
+
+    test('Run now: unknown job returns 404', async () => {
+        const res = await app.inject({ method: 'POST', url: '/v1/admin/jobs/nope/run', headers: adminHeaders });
+        expect(res.statusCode).toBe(404);
+    });
+
+    test('Leader election: job is skipped while another instance holds the lock', async () => {
+        let runs = 0;
+        const scheduler = createScheduler([{ name: 'locked_job', intervalMs: 60000, run: async () => { runs++; } }], app.log);
+
+        const other = await connectClient();
+        try {
+            await other.query(`SELECT pg_advisory_lock(hashtext('ozzserve:job:locked_job'))`);
+            expect(await scheduler.runNow('locked_job')).toBe('SKIPPED');
+            await other.query(`SELECT pg_advisory_unlock(hashtext('ozzserve:job:locked_job'))`);
+        } finally {
+            await other.end();
+        }
+
+        expect(runs).toBe(0);
+        expect(await scheduler.runNow('locked_job')).toBe('SUCCEEDED');
+        expect(runs).toBe(1);
+
+        const history = await query(`SELECT status FROM job_runs WHERE job_name = 'locked_job'`);
+        expect(history.rows).toHaveLength(1); // Skipped ticks are not recorded
+        await scheduler.stop();
+    });
+
+    test('Failing job records FAILED with the error message', async () => {
+        const scheduler = createScheduler([{ name: 'broken_job', intervalMs: 60000, run: async () => { throw new Error('boom'); } }], app.log);
+
+        expect(await scheduler.runNow('broken_job')).toBe('FAILED');
+
+        const [status] = await scheduler.status();
+        expect(status.last_run?.status).toBe('FAILED');
+        expect(status.last_run?.error).toBe('boom');
+        expect(status.recent_failures).toBe(1);
+        await scheduler.stop();
+    });
+
+    test('job_runs_purge deletes old runs but keeps each job\'s latest success', async () => {
+        await query(
+            `INSERT INTO job_runs (job_name, instance_id, status, started_at, finished_at) VALUES
+             ('old_job', 'test', 'SUCCEEDED', NOW() - INTERVAL '30 days', NOW() - INTERVAL '30 days'),
+             ('old_job', 'test', 'SUCCEEDED', NOW() - INTERVAL '20 days', NOW() - INTERVAL '20 days'),
+             ('old_job', 'test', 'FAILED', NOW() - INTERVAL '10 days', NOW() - INTERVAL '10 days'),
+             ('old_job', 'test', 'SUCCEEDED', NOW() - INTERVAL '1 day', NOW() - INTERVAL '1 day')`
+        );
+        await query(
+            `INSERT INTO job_runs (job_name, instance_id, status, started_at, finished_at) VALUES
+             ('stale_job', 'test', 'FAILED', NOW() - INTERVAL '30 days', NOW() - INTERVAL '30 days'),
+             ('stale_job', 'test', 'SUCCEEDED', NOW() - INTERVAL '20 days', NOW() - INTERVAL '20 days')`
+        );
+
+        const res = await app.inject({ method: 'POST', url: '/v1/admin/jobs/job_runs_purge/run', headers: adminHeaders });
+        expect(res.json().status).toBe('SUCCEEDED');
+
+        const left = await query(`SELECT job_name, status, (NOW() - started_at) > INTERVAL '7 days' AS old FROM job_runs WHERE job_name <> 'job_runs_purge' ORDER BY job_name, started_at`);
+        expect(left.rows).toEqual([
+            { job_name: 'old_job', status: 'SUCCEEDED', old: false },
+            { job_name: 'stale_job', status: 'SUCCEEDED', old: true }, // Still its last success
+        ]);
+    });
+
+    test('start/stop: ticks run on the interval and stop waits for in-flight runs', async () => {
+        let runs = 0;
+        const scheduler = createScheduler([{ name: 'tick_job', intervalMs: 20, run: async () => { runs++; } }], app.log);
+
+        scheduler.start();
+        await new Promise(resolve => setTimeout(resolve, 200));
+        await scheduler.stop();
+        const afterStop = runs;
+        expect(afterStop).toBeGreaterThan(0);
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(runs).toBe(afterStop);
+    });
+});
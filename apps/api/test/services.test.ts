@@ -11,7 +11,6 @@ describe('Services Catalogue + Price Snapshot', () => {
     // Use a known seeded service ID from migration 003
     const SEEDED_SERVICE_ID = 'a0000000-0000-0000-0000-000000000002'; // Blocked Drain, R450
     const UNKNOWN_SERVICE_ID = '550e8400-e29b-41d4-a716-446655440099';
-    const SLOT_ID = '550e8400-e29b-41d4-a716-446655440005';
 
     beforeAll(async () => {
         app = await buildServer();
@@ -90,7 +89,7 @@ describe('Services Catalogue + Price Snapshot', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SEEDED_SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SEEDED_SERVICE_ID, user_id: CUSTOMER_ID }
         });
         expect(res.statusCode).toBe(201);
 
@@ -104,7 +103,7 @@ describe('Services Catalogue + Price Snapshot', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: UNKNOWN_SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: UNKNOWN_SERVICE_ID, user_id: CUSTOMER_ID }
         });
         expect(res.statusCode).toBe(201);
 
@@ -125,7 +124,7 @@ describe('Services Catalogue + Price Snapshot', () => {
             method: 'POST',
             url: '/v1/bookings',
             headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
-            payload: { service_id: SEEDED_SERVICE_ID, slot_id: SLOT_ID, user_id: CUSTOMER_ID }
+            payload: { service_id: SEEDED_SERVICE_ID, user_id: CUSTOMER_ID }
         });
         const bookingId = createRes.json().id;
 
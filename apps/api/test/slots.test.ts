@@ -0,0 +1,191 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+
+describe('Availability Slots', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const OTHER_CUSTOMER = '550e8400-e29b-41d4-a716-446655440009';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const OTHER_SERVICE_ID = '550e8400-e29b-41d4-a716-446655440006';
+    const RANDOM_SLOT_ID = '550e8400-e29b-41d4-a716-446655440005';
+
+    // 23:30 UTC is 01:30 the next day in Africa/Johannesburg (UTC+2)
+    const STARTS_AT = '2030-01-15T23:30:00Z';
+    const ENDS_AT = '2030-01-16T00:30:00Z';
+
+    const providerHeaders = { 'x-user-id': PROVIDER_ID, 'x-role': 'provider' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, availability_slots RESTART IDENTITY CASCADE');
+
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: providerHeaders,
+            payload: { display_name: 'Slot Pro', is_online: true, services: [SERVICE_ID] }
+        });
+    });
+
+    async function publish(startsAt = STARTS_AT, endsAt = ENDS_AT, serviceId = SERVICE_ID) {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/providers/me/slots',
+            headers: providerHeaders,
+            payload: { service_id: serviceId, starts_at: startsAt, ends_at: endsAt }
+        });
+    }
+
+    async function book(slotId: string, customerId = CUSTOMER_ID) {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': customerId, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, slot_id: slotId, user_id: customerId }
+        });
+    }
+
+    async function listOpen(date: string) {
+        return app.inject({ method: 'GET', url: `/v1/services/${SERVICE_ID}/slots?date=${date}` });
+    }
+
+    test('Provider publishes a slot with local Johannesburg times', async () => {
+        const res = await publish();
+        expect(res.statusCode).toBe(201);
+        const slot = res.json();
+        expect(slot.status).toBe('OPEN');
+        expect(slot.starts_at_local).toBe('2030-01-16T01:30');
+        expect(slot.ends_at_local).toBe('2030-01-16T02:30');
+
+        const mine = await app.inject({ method: 'GET', url: '/v1/providers/me/slots', headers: providerHeaders });
+        expect(mine.json()).toHaveLength(1);
+    });
+
+    test('Publishing rejects overlaps, past windows and services not offered', async () => {
+        expect((await publish()).statusCode).toBe(201);
+
+        const overlap = await publish('2030-01-16T00:00:00Z', '2030-01-16T01:00:00Z');
+        expect(overlap.statusCode).toBe(400);
+        expect(overlap.json().error).toContain('overlaps');
+
+        const past = await publish('2020-01-01T08:00:00Z', '2020-01-01T09:00:00Z');
+        expect(past.statusCode).toBe(400);
+
+        const notOffered = await publish('2030-02-01T08:00:00Z', '2030-02-01T09:00:00Z', OTHER_SERVICE_ID);
+        expect(notOffered.statusCode).toBe(400);
+    });
+
+    test('Listing filters by the local (Johannesburg) date, not UTC', async () => {
+        await publish();
+
+        const localDay = await listOpen('2030-01-16');
+        expect(localDay.statusCode).toBe(200);
+        expect(localDay.json()).toHaveLength(1);
+
+        const utcDay = await listOpen('2030-01-15');
+        expect(utcDay.json()).toHaveLength(0);
+    });
+
+    test('Booking reserves the slot and dispatches to its provider only', async () => {
+        const slotId = (await publish()).json().id;
+
+        const res = await book(slotId);
+        expect(res.statusCode).toBe(201);
+        expect(res.json().candidate_list).toEqual([PROVIDER_ID]);
+
+        const slot = await query('SELECT status, booking_id FROM availability_slots WHERE id = $1', [slotId]);
+        expect(slot.rows[0].status).toBe('RESERVED');
+        expect(slot.rows[0].booking_id).toBe(res.json().id);
+
+        expect((await listOpen('2030-01-16')).json()).toHaveLength(0);
+    });
+
+    test('Double booking: second booking for the same slot returns 409', async () => {
+        const slotId = (await publish()).json().id;
+
+        expect((await book(slotId)).statusCode).toBe(201);
+
+        const second = await book(slotId, OTHER_CUSTOMER);
+        expect(second.statusCode).toBe(409);
+        expect(second.json().code).toBe('SLOT_UNAVAILABLE');
+    });
+
+    test('Concurrent bookings: exactly one reservation wins', async () => {
+        const slotId = (await publish()).json().id;
+
+        const results = await Promise.all([book(slotId), book(slotId, OTHER_CUSTOMER)]);
+        const codes = results.map(r => r.statusCode).sort();
+        expect(codes).toEqual([201, 409]);
+
+        const bookings = await query('SELECT count(*) FROM bookings WHERE slot_id = $1', [slotId]);
+        expect(bookings.rows[0].count).toBe('1');
+    });
+
+    test('Unknown slot_id is always rejected; on-demand bookings omit it', async () => {
+        // No slots published yet: a made-up slot is still not found
+        const res = await book(RANDOM_SLOT_ID);
+        expect(res.statusCode).toBe(400);
+        expect(res.json().code).toBe('SLOT_NOT_FOUND');
+
+        const onDemand = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        expect(onDemand.statusCode).toBe(201);
+        expect(onDemand.json().slot_id).toBeNull();
+    });
+
+    test('Concurrent overlapping publishes: exactly one slot is created', async () => {
+        const results = await Promise.all([publish(), publish(), publish()]);
+        expect(results.map(r => r.statusCode).sort()).toEqual([201, 400, 400]);
+        const slots = await query('SELECT count(*) FROM availability_slots');
+        expect(slots.rows[0].count).toBe('1');
+    });
+
+    test('Cancellation releases the slot for rebooking', async () => {
+        const slotId = (await publish()).json().id;
+        const bookingId = (await book(slotId)).json().id;
+
+        const cancelRes = await app.inject({
+            method: 'POST',
+            url: `/v1/bookings/${bookingId}/cancel`,
+            headers: { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' }
+        });
+        expect(cancelRes.statusCode).toBe(200);
+
+        const slot = await query('SELECT status, booking_id FROM availability_slots WHERE id = $1', [slotId]);
+        expect(slot.rows[0].status).toBe('OPEN');
+        expect(slot.rows[0].booking_id).toBeNull();
+
+        expect((await book(slotId, OTHER_CUSTOMER)).statusCode).toBe(201);
+    });
+
+    test('Expiry sweep releases the slot', async () => {
+        const slotId = (await publish()).json().id;
+        const bookingId = (await book(slotId)).json().id;
+        await query("UPDATE bookings SET created_at = NOW() - INTERVAL '25 hours' WHERE id = $1", [bookingId]);
+
+        const sweepRes = await app.inject({
+            method: 'POST',
+            url: '/v1/admin/sweep',
+            headers: { 'x-user-id': 'admin', 'x-role': 'admin' }
+        });
+        expect(sweepRes.json().swept).toBe(1);
+
+        const slot = await query('SELECT status FROM availability_slots WHERE id = $1', [slotId]);
+        expect(slot.rows[0].status).toBe('OPEN');
+    });
+});
@@ -0,0 +1,193 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+
+interface SseEvent {
+    event: string;
+    data: any;
+}
+
+/**
+ * Minimal SSE client: collects parsed events until closed.
+ */
+function openStream(port: number, path: string, headers: Record<string, string>) {
+    const events: SseEvent[] = [];
+    const waiters: (() => void)[] = [];
+    let statusCode = 0;
+    let ended = false;
+
+    const req = http.get({ port, path, headers });
+    const ready = new Promise<void>((resolve, reject) => {
+        req.on('response', (res) => {
+            statusCode = res.statusCode ?? 0;
+            let buffer = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk: string) => {
+                buffer += chunk;
+                let idx;
+                while ((idx = buffer.indexOf('\n\n')) >= 0) {
+                    const block = buffer.slice(0, idx);
+                    buffer = buffer.slice(idx + 2);
+                    const event = /^event: (.*)$/m.exec(block)?.[1];
+                    const data = /^data: (.*)$/m.exec(block)?.[1];
+                    if (event && data) events.push({ event, data: JSON.parse(data) });
+                }
+                waiters.splice(0).forEach(w => w());
+            });
+            res.on('end', () => {
+                ended = true;
+                waiters.splice(0).forEach(w => w());
+            });
+            resolve();
+        });
+        req.on('error', reject);
+    });
+
+    async function waitFor(predicate: (events: SseEvent[]) => boolean, timeoutMs = 3000) {
+        const deadline = Date.now() + timeoutMs;
+        while (!predicate(events)) {
+            if (ended || Date.now() > deadline) throw new Error(`Stream condition not met; got ${JSON.stringify(events)}`);
+            await new Promise<void>(resolve => {
+                waiters.push(resolve);
+                setTimeout(resolve, 50);
+            });
+        }
+    }
+
+    return {
+        ready,
+        events,
+        waitFor,
+        get statusCode() { return statusCode; },
+        get ended() { return ended; },
+        close: () => req.destroy(),
+    };
+}
+
+describe('Booking Stream (SSE)', () => {
+    let app: FastifyInstance;
+    let port: number;
+
+    const CUSTOMER_UID = '550e8400-e29b-41d4-a716-446655440003';
+    const OTHER_CUSTOMER = '550e8400-e29b-41d4-a716-446655440004';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PRO_UID = '550e8400-e29b-41d4-a716-446655440010';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' };
+    const proHeaders = { 'x-user-id': PRO_UID, 'x-role': 'provider' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+        await app.listen({ port: 0, host: '127.0.0.1' });
+        port = (app.server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, provider_locations, bookings, booking_events, booking_locations RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: proHeaders,
+            payload: { display_name: 'Streamer', is_online: true, services: [SERVICE_ID] },
+        });
+        await app.inject({ method: 'POST', url: '/v1/providers/me/location', headers: proHeaders, payload: { lat: -29.85, lng: 31.02 } });
+    });
+
+    async function createSearchingBooking(): Promise<string> {
+        const createRes = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_UID, location: { lat: -29.8587, lng: 31.0218 } },
+        });
+        const id = createRes.json().id;
+        await query(`UPDATE bookings SET status = 'PAID_SEARCHING' WHERE id = $1`, [id]);
+        return id;
+    }
+
+    test('Pushes an initial snapshot, then each transition and tracking point', async () => {
+        const id = await createSearchingBooking();
+        const stream = openStream(port, `/v1/bookings/${id}/stream`, customerHeaders);
+        await stream.ready;
+        expect(stream.statusCode).toBe(200);
+
+        await stream.waitFor(ev => ev.length === 1);
+        expect(stream.events[0]).toMatchObject({ event: 'status', data: { id, status: 'PAID_SEARCHING' } });
+        expect(stream.events[0].data.otp).toMatch(/^\d{4}$/);
+
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/accept`, headers: proHeaders });
+        await stream.waitFor(ev => ev.some(e => e.data.status === 'ACCEPTED'));
+
+        await app.inject({ method: 'POST', url: '/v1/providers/me/location', headers: proHeaders, payload: { lat: -29.7256, lng: 31.0850 } });
+        await stream.waitFor(ev => ev.some(e => e.event === 'tracking'));
+        const tracking = stream.events.find(e => e.event === 'tracking')!;
+        expect(tracking.data.latest).toMatchObject({ lat: -29.7256, lng: 31.0850 });
+        expect(tracking.data.eta_minutes).toBeGreaterThan(0);
+
+        stream.close();
+    });
+
+    test('OTP is stripped for the provider', async () => {
+        const id = await createSearchingBooking();
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/accept`, headers: proHeaders });
+
+        const stream = openStream(port, `/v1/bookings/${id}/stream`, proHeaders);
+        await stream.ready;
+        await stream.waitFor(ev => ev.length === 1);
+        expect(stream.events[0].data.status).toBe('ACCEPTED');
+        expect(stream.events[0].data.otp).toBeUndefined();
+
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/travel`, headers: proHeaders });
+        await stream.waitFor(ev => ev.some(e => e.data.status === 'EN_ROUTE'));
+        expect(stream.events.every(e => e.data.otp === undefined)).toBe(true);
+
+        stream.close();
+    });
+
+    test('Stream ends when the booking reaches a final state', async () => {
+        const id = await createSearchingBooking();
+        const stream = openStream(port, `/v1/bookings/${id}/stream`, customerHeaders);
+        await stream.ready;
+        await stream.waitFor(ev => ev.length === 1);
+
+        // Written by another instance / the sweep directly: NOTIFY still reaches us
+        await query(`UPDATE bookings SET status = 'EXPIRED' WHERE id = $1`, [id]);
+        await stream.waitFor(ev => ev.some(e => e.data.status === 'EXPIRED'));
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(stream.ended).toBe(true);
+    });
+
+    test('Tracking pushes re-authorize: a subscriber who lost access gets no position', async () => {
+        const id = await createSearchingBooking();
+        await app.inject({ method: 'POST', url: `/v1/bookings/${id}/accept`, headers: proHeaders });
+
+        const stream = openStream(port, `/v1/bookings/${id}/stream`, customerHeaders);
+        await stream.ready;
+        await stream.waitFor(ev => ev.length === 1);
+
+        // No status change, so no status push to notice it
+        await query(`UPDATE bookings SET customer_id = $2 WHERE id = $1`, [id, OTHER_CUSTOMER]);
+        await app.inject({ method: 'POST', url: '/v1/providers/me/location', headers: proHeaders, payload: { lat: -29.7256, lng: 31.0850 } });
+
+        await stream.waitFor(() => stream.ended);
+        expect(stream.events.some(e => e.event === 'tracking')).toBe(false);
+    });
+
+    test('Same authorization as the booking view', async () => {
+        const id = await createSearchingBooking();
+
+        const res = await app.inject({
+            method: 'GET',
+            url: `/v1/bookings/${id}/stream`,
+            headers: { 'x-user-id': OTHER_CUSTOMER, 'x-role': 'user' },
+        });
+        expect(res.statusCode).toBe(403);
+    });
+});
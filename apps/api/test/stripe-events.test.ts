@@ -0,0 +1,193 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+
+describe('Stripe PaymentIntent Event Set', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PROVIDER_ID = '550e8400-e29b-41d4-a716-446655440002';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, bookings, booking_events, payment_intents, webhook_events, journal_entries, ledger_lines, notification_outbox RESTART IDENTITY CASCADE');
+    });
+
+    let seq = 0;
+
+    /**
+     * Posts a Stripe event; `created` is seconds since epoch, like Stripe's.
+     */
+    function send(type: string, object: Record<string, unknown>, created?: number) {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: `evt_set_${++seq}`, type, created, data: { object } }
+        });
+    }
+
+    async function createPaidIntent(): Promise<{ bookingId: string; ref: string }> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const bookingId = res.json().id;
+        const pay = await app.inject({ method: 'POST', url: `/v1/bookings/${bookingId}/pay`, headers: customerHeaders, payload: { provider: 'stripe' } });
+        const ref = (await query('SELECT provider_ref FROM payment_intents WHERE id = $1', [pay.json().payment_intent_id])).rows[0].provider_ref;
+        return { bookingId, ref };
+    }
+
+    async function state(bookingId: string) {
+        const b = await query('SELECT status FROM bookings WHERE id = $1', [bookingId]);
+        const i = await query('SELECT status FROM payment_intents WHERE booking_id = $1', [bookingId]);
+        return { booking: b.rows[0].status, intent: i.rows[0].status };
+    }
+
+    async function journalKinds(bookingId: string) {
+        const res = await query('SELECT kind FROM journal_entries WHERE booking_id = $1 ORDER BY created_at, kind', [bookingId]);
+        return res.rows.map(r => r.kind);
+    }
+
+    test('amount_capturable_updated authorizes the hold; succeeded then confirms capture', async () => {
+        const { bookingId, ref } = await createPaidIntent();
+
+        const res = await send('payment_intent.amount_capturable_updated', { id: ref, amount: 10000, amount_capturable: 10000 });
+        expect(res.json().status).toBe('PROCESSED');
+        expect(await state(bookingId)).toEqual({ booking: 'PAID_SEARCHING', intent: 'AUTHORIZED' });
+
+        // A replay changes nothing
+        await send('payment_intent.amount_capturable_updated', { id: ref, amount_capturable: 10000 });
+        expect(await journalKinds(bookingId)).toEqual(['AUTHORIZE']);
+
+        // With manual capture, succeeded on a held intent means it was captured
+        await send('payment_intent.succeeded', { id: ref, amount: 10000 });
+        expect(await state(bookingId)).toEqual({ booking: 'PAID_SEARCHING', intent: 'SUCCEEDED' });
+        expect(await journalKinds(bookingId)).toEqual(['AUTHORIZE', 'CAPTURE']);
+    });
+
+    test('requires_action is recorded and the customer is told', async () => {
+        const { bookingId, ref } = await createPaidIntent();
+
+        await send('payment_intent.requires_action', { id: ref, next_action: { type: 'use_stripe_sdk' } });
+        expect(await state(bookingId)).toEqual({ booking: 'PENDING_PAYMENT', intent: 'REQUIRES_ACTION' });
+
+        const n = await query(`SELECT recipient_uid, payload FROM notification_outbox WHERE booking_id = $1 AND type = 'PAYMENT_ACTION_REQUIRED'`, [bookingId]);
+        expect(n.rows).toHaveLength(1);
+        expect(n.rows[0].recipient_uid).toBe(CUSTOMER_ID);
+        expect(n.rows[0].payload.next_action).toBe('use_stripe_sdk');
+
+        // 3DS passed
+        await send('payment_intent.amount_capturable_updated', { id: ref, amount_capturable: 10000 });
+        expect(await state(bookingId)).toEqual({ booking: 'PAID_SEARCHING', intent: 'AUTHORIZED' });
+    });
+
+    test('Out-of-order: an older payment_failed after requires_action is ignored', async () => {
+        const { bookingId, ref } = await createPaidIntent();
+        const now = Math.floor(Date.now() / 1000);
+
+        await send('payment_intent.requires_action', { id: ref }, now);
+        const late = await send('payment_intent.payment_failed', { id: ref, last_payment_error: { decline_code: 'generic_decline' } }, now - 30);
+        expect(late.json().status).toBe('PROCESSED');
+        expect((await state(bookingId)).intent).toBe('REQUIRES_ACTION');
+
+        // A newer failure does apply
+        await send('payment_intent.payment_failed', { id: ref }, now + 30);
+        expect((await state(bookingId)).intent).toBe('FAILED');
+    });
+
+    test('Out-of-order: canceled after capture never regresses the intent', async () => {
+        const { bookingId, ref } = await createPaidIntent();
+        await send('payment_intent.amount_capturable_updated', { id: ref, amount_capturable: 10000 });
+        await send('charge.captured', { id: 'ch_1', payment_intent: ref });
+        expect((await state(bookingId)).intent).toBe('SUCCEEDED');
+
+        // Undated (older Stripe API) and dated replays alike
+        await send('payment_intent.canceled', { id: ref, cancellation_reason: 'abandoned' });
+        await send('payment_intent.canceled', { id: ref }, Math.floor(Date.now() / 1000) + 60);
+        expect(await state(bookingId)).toEqual({ booking: 'PAID_SEARCHING', intent: 'SUCCEEDED' });
+        expect(await journalKinds(bookingId)).toEqual(['AUTHORIZE', 'CAPTURE']);
+    });
+
+    test('Capture seen before authorization still authorizes and captures', async () => {
+        const { bookingId, ref } = await createPaidIntent();
+        const now = Math.floor(Date.now() / 1000);
+
+        await send('charge.captured', { id: 'ch_2', payment_intent: { id: ref } }, now);
+        expect(await state(bookingId)).toEqual({ booking: 'PAID_SEARCHING', intent: 'SUCCEEDED' });
+
+        await send('payment_intent.amount_capturable_updated', { id: ref, amount_capturable: 10000 }, now - 5);
+        expect((await state(bookingId)).intent).toBe('SUCCEEDED');
+        expect(await journalKinds(bookingId)).toEqual(['AUTHORIZE', 'CAPTURE']);
+    });
+
+    test('Gateway-side cancel of a held authorization releases it and expires a searching booking', async () => {
+        const { bookingId, ref } = await createPaidIntent();
+        await send('payment_intent.amount_capturable_updated', { id: ref, amount_capturable: 10000 });
+
+        await send('payment_intent.canceled', { id: ref, cancellation_reason: 'automatic' });
+        expect(await state(bookingId)).toEqual({ booking: 'EXPIRED', intent: 'CANCELLED' });
+        expect(await journalKinds(bookingId)).toEqual(['AUTHORIZE', 'RELEASE']);
+
+        const ev = await query(`SELECT payload FROM booking_events WHERE booking_id = $1 AND type = 'authorization_canceled'`, [bookingId]);
+        expect(ev.rows[0].payload).toMatchObject({ reason: 'automatic', moved_to: 'EXPIRED' });
+        const n = await query(`SELECT recipient_uid FROM notification_outbox WHERE booking_id = $1 AND type = 'AUTHORIZATION_CANCELED'`, [bookingId]);
+        expect(n.rows).toEqual([{ recipient_uid: 'SYSTEM_ADMIN' }]);
+    });
+
+    test('Gateway-side cancel mid-job sends the booking to review', async () => {
+        const { bookingId, ref } = await createPaidIntent();
+        await send('payment_intent.amount_capturable_updated', { id: ref, amount_capturable: 10000 });
+        await query(`UPDATE bookings SET status = 'IN_PROGRESS', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, bookingId]);
+
+        await send('payment_intent.canceled', { id: ref });
+        expect(await state(bookingId)).toEqual({ booking: 'NEEDS_REVIEW', intent: 'CANCELLED' });
+    });
+
+    test('Capture at the gateway makes our own capture a no-op', async () => {
+        const { bookingId, ref } = await createPaidIntent();
+        await send('payment_intent.amount_capturable_updated', { id: ref, amount_capturable: 10000 });
+        await query(`UPDATE bookings SET status = 'COMPLETE_PENDING', provider_id = $1 WHERE id = $2`, [PROVIDER_ID, bookingId]);
+        await send('charge.captured', { id: 'ch_3', payment_intent: ref });
+
+        const res = await app.inject({ method: 'POST', url: `/v1/bookings/${bookingId}/confirm-complete`, headers: customerHeaders });
+        expect(res.statusCode).toBe(200);
+        expect(await state(bookingId)).toEqual({ booking: 'CLOSED', intent: 'SUCCEEDED' });
+        expect(await journalKinds(bookingId)).toEqual(['AUTHORIZE', 'CAPTURE']);
+    });
+
+    test('A partial capture at the gateway books only the amount received', async () => {
+        const { bookingId, ref } = await createPaidIntent();
+        await send('payment_intent.amount_capturable_updated', { id: ref, amount: 10000, amount_capturable: 10000 });
+        await send('payment_intent.succeeded', { id: ref, amount: 10000, amount_received: 6000 });
+
+        const intent = (await query('SELECT amount_cents, captured_cents FROM payment_intents WHERE booking_id = $1', [bookingId])).rows[0];
+        expect(intent).toEqual({ amount_cents: 10000, captured_cents: 6000 });
+
+        const lines = await query(
+            `SELECT je.kind, l.account_code, l.direction, l.amount_cents::int AS amount_cents FROM ledger_lines l
+             JOIN journal_entries je ON je.id = l.journal_entry_id
+             WHERE je.booking_id = $1 AND je.kind IN ('CAPTURE', 'RELEASE') AND l.direction = 'CREDIT'
+             ORDER BY je.kind, l.account_code`,
+            [bookingId]
+        );
+        expect(lines.rows).toEqual([
+            { kind: 'CAPTURE', account_code: 'customer_holds', direction: 'CREDIT', amount_cents: 6000 },
+            { kind: 'CAPTURE', account_code: 'provider_payable', direction: 'CREDIT', amount_cents: 6000 },
+            { kind: 'RELEASE', account_code: 'customer_holds', direction: 'CREDIT', amount_cents: 4000 },
+        ]);
+    });
+});
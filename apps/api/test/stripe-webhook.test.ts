@@ -136,7 +136,6 @@ describe('Webhook Signature Verification & Stripe Integration', () => {
             headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
             payload: {
                 service_id: '550e8400-e29b-41d4-a716-446655440001',
-                slot_id: '550e8400-e29b-41d4-a716-446655440002',
                 user_id: CUSTOMER_UID
             },
         });
@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+
+describe('Live Provider Tracking', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_UID = '550e8400-e29b-41d4-a716-446655440003';
+    const OTHER_CUSTOMER = '550e8400-e29b-41d4-a716-446655440004';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const PRO_UID = '550e8400-e29b-41d4-a716-446655440010';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655448888';
+
+    const DURBAN = { lat: -29.8587, lng: 31.0218 };
+    const UMHLANGA = { lat: -29.7256, lng: 31.0850 }; // ~16 km north of the job
+
+    const proHeaders = { 'x-user-id': PRO_UID, 'x-role': 'provider' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE providers, provider_services, provider_locations, bookings, booking_events, booking_locations RESTART IDENTITY CASCADE');
+        await app.inject({
+            method: 'POST',
+            url: '/v1/providers/me',
+            headers: proHeaders,
+            payload: { display_name: 'Tracker', is_online: true, services: [SERVICE_ID] },
+        });
+    });
+
+    async function createBookingInState(status: string): Promise<string> {
+        const createRes = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' },
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_UID, location: DURBAN },
+        });
+        const id = createRes.json().id;
+        await query('UPDATE bookings SET status = $1, provider_id = $2 WHERE id = $3', [status, PRO_UID, id]);
+        return id;
+    }
+
+    async function sendLocation(payload: object) {
+        return app.inject({ method: 'POST', url: '/v1/providers/me/location', headers: proHeaders, payload });
+    }
+
+    async function getTracking(id: string, headers: Record<string, string>) {
+        return app.inject({ method: 'GET', url: `/v1/bookings/${id}/tracking`, headers });
+    }
+
+    test('Updates during EN_ROUTE are appended to the active booking trail', async () => {
+        const id = await createBookingInState('EN_ROUTE');
+
+        const res = await sendLocation(UMHLANGA);
+        expect(res.statusCode).toBe(200);
+        expect(res.json().booking_id).toBe(id);
+
+        await sendLocation(DURBAN);
+
+        const trail = await query('SELECT lat, status FROM booking_locations WHERE booking_id = $1 ORDER BY recorded_at', [id]);
+        expect(trail.rows).toHaveLength(2);
+        expect(trail.rows[0].status).toBe('EN_ROUTE');
+    });
+
+    test('Customer sees latest point with distance and ETA', async () => {
+        const id = await createBookingInState('EN_ROUTE');
+        await sendLocation(UMHLANGA);
+
+        const res = await getTracking(id, { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' });
+        expect(res.statusCode).toBe(200);
+        const body = res.json();
+        expect(body.tracking_active).toBe(true);
+        expect(body.latest).toMatchObject(UMHLANGA);
+        expect(body.distance_km).toBeGreaterThan(10);
+        expect(body.distance_km).toBeLessThan(20);
+        expect(body.eta_minutes).toBeGreaterThan(0);
+    });
+
+    test('Position is hidden once tracking ends', async () => {
+        const id = await createBookingInState('ARRIVED');
+        await sendLocation(UMHLANGA);
+        await query(`UPDATE bookings SET status = 'IN_PROGRESS' WHERE id = $1`, [id]);
+
+        const res = await getTracking(id, { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' });
+        expect(res.json()).toMatchObject({ status: 'IN_PROGRESS', tracking_active: false, latest: null, distance_km: null, eta_minutes: null });
+    });
+
+    test('No active booking: last fix updates but no trail is written', async () => {
+        const id = await createBookingInState('PAID_SEARCHING');
+
+        const res = await sendLocation(DURBAN);
+        expect(res.statusCode).toBe(200);
+        expect(res.json().booking_id).toBeNull();
+
+        const fix = await query('SELECT 1 FROM provider_locations');
+        expect(fix.rows).toHaveLength(1);
+        const trail = await query('SELECT 1 FROM booking_locations WHERE booking_id = $1', [id]);
+        expect(trail.rows).toHaveLength(0);
+    });
+
+    test('Explicit booking outside ACCEPTED/EN_ROUTE/ARRIVED is refused', async () => {
+        const id = await createBookingInState('IN_PROGRESS');
+
+        const res = await sendLocation({ ...DURBAN, booking_id: id });
+        expect(res.statusCode).toBe(409);
+        expect(res.json().code).toBe('TRACKING_INACTIVE');
+
+        const fix = await query('SELECT 1 FROM provider_locations');
+        expect(fix.rows).toHaveLength(0);
+
+        const view = await getTracking(id, { 'x-user-id': CUSTOMER_UID, 'x-role': 'user' });
+        expect(view.json()).toMatchObject({ tracking_active: false, latest: null, eta_minutes: null });
+    });
+
+    test('Tracking view is authorized like the booking view', async () => {
+        const id = await createBookingInState('ACCEPTED');
+
+        expect((await getTracking(id, { 'x-user-id': OTHER_CUSTOMER, 'x-role': 'user' })).statusCode).toBe(403);
+        expect((await getTracking(id, proHeaders)).statusCode).toBe(200);
+        expect((await getTracking(id, { 'x-user-id': ADMIN_ID, 'x-role': 'admin' })).statusCode).toBe(200);
+    });
+});
@@ -0,0 +1,165 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+import { processWebhookQueue } from '../src/logic/webhooks.js';
+
+describe('Async webhook ingestion queue', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655440009';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        process.env.WEBHOOK_ASYNC = 'true';
+        await query('TRUNCATE bookings, booking_events, payment_intents, webhook_events, webhook_replays, journal_entries, ledger_lines, notification_outbox RESTART IDENTITY CASCADE');
+    });
+
+    afterEach(() => {
+        delete process.env.WEBHOOK_ASYNC;
+        delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    });
+
+    async function createPendingPayment(): Promise<{ id: string; ref: string }> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = res.json().id;
+        const payRes = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders });
+        const ref = (await query('SELECT provider_ref FROM payment_intents WHERE id = $1', [payRes.json().payment_intent_id])).rows[0].provider_ref;
+        return { id, ref };
+    }
+
+    function stripeEvent(eventId: string, type: string, object: Record<string, unknown>) {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: eventId, type, data: { object } }
+        });
+    }
+
+    async function bookingStatus(id: string) {
+        return (await query('SELECT status FROM bookings WHERE id = $1', [id])).rows[0].status;
+    }
+
+    async function stats() {
+        return (await app.inject({ method: 'GET', url: '/v1/admin/webhook-queue', headers: adminHeaders })).json();
+    }
+
+    function work() {
+        return processWebhookQueue(app.log);
+    }
+
+    test('Events are acknowledged once stored and applied by the worker', async () => {
+        const { id, ref } = await createPendingPayment();
+
+        const res = await stripeEvent('evt_q1', 'payment_intent.amount_capturable_updated', { id: ref, amount: 10000, amount_capturable: 10000 });
+        expect(res.statusCode).toBe(200);
+        expect(res.json().status).toBe('QUEUED');
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+        expect(await stats()).toMatchObject({ async: true, pending: 1, due: 1, retrying: 0 });
+
+        expect(await work()).toEqual({ processed: 1, retried: 0, dead_lettered: 0 });
+        expect(await bookingStatus(id)).toBe('PAID_SEARCHING');
+
+        const after = await stats();
+        expect(after).toMatchObject({ pending: 0, oldest_pending_seconds: null, processed_last_hour: 1 });
+        expect(after.avg_lag_seconds).toBeGreaterThanOrEqual(0);
+
+        // A redelivery after processing is a duplicate
+        const again = await stripeEvent('evt_q1', 'payment_intent.amount_capturable_updated', { id: ref, amount: 10000, amount_capturable: 10000 });
+        expect(again.json().status).toBe('DUPLICATE');
+        expect((await app.inject({ method: 'GET', url: '/v1/admin/webhook-queue', headers: customerHeaders })).statusCode).toBe(403);
+    });
+
+    test('A failing event backs off and holds later events for the same booking', async () => {
+        const { id, ref } = await createPendingPayment();
+        const other = await createPendingPayment();
+
+        // Authorization for an amount we don't know yet fails; the capture must wait behind it
+        await stripeEvent('evt_auth', 'payment_intent.amount_capturable_updated', { id: ref, amount: 12000, amount_capturable: 12000 });
+        await stripeEvent('evt_capture', 'payment_intent.succeeded', { id: ref, amount: 12000 });
+        await stripeEvent('evt_other', 'payment_intent.amount_capturable_updated', { id: other.ref, amount: 10000, amount_capturable: 10000 });
+
+        expect(await work()).toEqual({ processed: 1, retried: 1, dead_lettered: 0 });
+        expect(await bookingStatus(other.id)).toBe('PAID_SEARCHING');
+        expect(await bookingStatus(id)).toBe('PENDING_PAYMENT');
+
+        const held = await query(`SELECT event_id, attempts, last_error, next_attempt_at > CURRENT_TIMESTAMP AS backing_off FROM webhook_events WHERE status = 'PENDING' ORDER BY first_seen_at`);
+        expect(held.rows.map(r => r.event_id)).toEqual(['evt_auth', 'evt_capture']);
+        expect(held.rows[0]).toMatchObject({ attempts: 1, backing_off: true });
+        expect(held.rows[0].last_error).toBeTruthy();
+        expect(await stats()).toMatchObject({ pending: 2, due: 1, retrying: 1 });
+
+        // Still backing off: nothing runs
+        expect(await work()).toEqual({ processed: 0, retried: 0, dead_lettered: 0 });
+
+        // Once the amount matches and the backoff is over, both apply in order in one run
+        await query('UPDATE payment_intents SET amount_cents = 12000 WHERE provider_ref = $1', [ref]);
+        await query(`UPDATE webhook_events SET next_attempt_at = CURRENT_TIMESTAMP WHERE event_id = 'evt_auth'`);
+        expect(await work()).toEqual({ processed: 2, retried: 0, dead_lettered: 0 });
+
+        const kinds = await query('SELECT kind FROM journal_entries WHERE booking_id = $1 ORDER BY created_at', [id]);
+        expect(kinds.rows.map(r => r.kind)).toEqual(['AUTHORIZE', 'CAPTURE']);
+    });
+
+    test('A dead letter holds later events for its booking until it is dismissed', async () => {
+        process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+
+        await stripeEvent('evt_lost', 'payment_intent.amount_capturable_updated', { id: 'pi_unknown', amount: 10000, amount_capturable: 10000 });
+        await stripeEvent('evt_next', 'payment_intent.payment_failed', { id: 'pi_unknown' });
+
+        expect(await work()).toMatchObject({ retried: 1 });
+        await query(`UPDATE webhook_events SET next_attempt_at = CURRENT_TIMESTAMP WHERE event_id = 'evt_lost'`);
+        expect(await work()).toEqual({ processed: 0, retried: 0, dead_lettered: 1 });
+
+        const lost = (await query(`SELECT id, status, attempts FROM webhook_events WHERE event_id = 'evt_lost'`)).rows[0];
+        expect(lost).toMatchObject({ status: 'FAILED', attempts: 2 });
+        expect(await stats()).toMatchObject({ dead_letters: 1, pending: 1, blocked: 1 });
+
+        // The next event stays behind the dead letter
+        expect(await work()).toEqual({ processed: 0, retried: 0, dead_lettered: 0 });
+        expect((await query(`SELECT status FROM webhook_events WHERE event_id = 'evt_next'`)).rows[0].status).toBe('PENDING');
+
+        // A redelivery of the dead letter is acknowledged but says so
+        const again = await stripeEvent('evt_lost', 'payment_intent.amount_capturable_updated', { id: 'pi_unknown', amount: 10000, amount_capturable: 10000 });
+        expect(again.statusCode).toBe(200);
+        expect(again.json().status).toBe('DEAD_LETTER');
+
+        const dismiss = (body: Record<string, unknown>, headers: Record<string, string> = adminHeaders) =>
+            app.inject({ method: 'POST', url: `/v1/admin/webhook-events/${lost.id}/dismiss`, headers, payload: body });
+        expect((await dismiss({})).statusCode).toBe(400);
+        expect((await dismiss({ reason: 'x' }, customerHeaders)).statusCode).toBe(403);
+
+        const res = await dismiss({ reason: 'Intent was never ours' });
+        expect(res.statusCode).toBe(200);
+        expect(res.json().event.status).toBe('DISMISSED');
+        expect(res.json().replay).toMatchObject({ outcome: 'DISMISSED', requested_by: ADMIN_ID, note: 'Intent was never ours' });
+
+        const twice = await dismiss({ reason: 'again' });
+        expect(twice.statusCode).toBe(409);
+        expect(twice.json().code).toBe('NOT_DEAD_LETTER');
+
+        // Unblocked; a later redelivery of the dismissed event is a duplicate
+        expect(await work()).toEqual({ processed: 1, retried: 0, dead_lettered: 0 });
+        expect((await query(`SELECT status FROM webhook_events WHERE event_id = 'evt_next'`)).rows[0].status).toBe('PROCESSED');
+        const late = await stripeEvent('evt_lost', 'payment_intent.amount_capturable_updated', { id: 'pi_unknown', amount: 10000, amount_capturable: 10000 });
+        expect(late.json().status).toBe('DUPLICATE');
+    });
+});
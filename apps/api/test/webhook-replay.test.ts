@@ -0,0 +1,131 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildServer } from '../src/app.js';
+import { FastifyInstance } from 'fastify';
+import { query } from '../src/db.js';
+
+describe('Webhook dead letters & replay', () => {
+    let app: FastifyInstance;
+
+    const CUSTOMER_ID = '550e8400-e29b-41d4-a716-446655440001';
+    const SERVICE_ID = '550e8400-e29b-41d4-a716-446655440004';
+    const ADMIN_ID = '550e8400-e29b-41d4-a716-446655440009';
+
+    const customerHeaders = { 'x-user-id': CUSTOMER_ID, 'x-role': 'user' };
+    const adminHeaders = { 'x-user-id': ADMIN_ID, 'x-role': 'admin' };
+
+    beforeAll(async () => {
+        app = await buildServer();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        await query('TRUNCATE bookings, booking_events, payment_intents, webhook_events, webhook_replays, journal_entries, ledger_lines, notification_outbox RESTART IDENTITY CASCADE');
+    });
+
+    /**
+     * Booking with a Stripe intent awaiting payment; returns the booking id and intent ref.
+     */
+    async function createPendingPayment(): Promise<{ id: string; ref: string }> {
+        const res = await app.inject({
+            method: 'POST',
+            url: '/v1/bookings',
+            headers: customerHeaders,
+            payload: { service_id: SERVICE_ID, user_id: CUSTOMER_ID }
+        });
+        const id = res.json().id;
+        const payRes = await app.inject({ method: 'POST', url: `/v1/bookings/${id}/pay`, headers: customerHeaders });
+        const ref = (await query('SELECT provider_ref FROM payment_intents WHERE id = $1', [payRes.json().payment_intent_id])).rows[0].provider_ref;
+        return { id, ref };
+    }
+
+    function authorized(eventId: string, ref: string) {
+        return app.inject({
+            method: 'POST',
+            url: '/v1/webhooks/stripe',
+            headers: { 'x-signature': 'valid_secret' },
+            payload: { id: eventId, type: 'payment_intent.amount_capturable_updated', data: { object: { id: ref, amount: 10000, amount_capturable: 10000 } } }
+        });
+    }
+
+    async function webhookEventId(eventId: string): Promise<string> {
+        return (await query('SELECT id FROM webhook_events WHERE event_id = $1', [eventId])).rows[0].id;
+    }
+
+    test('A failed event is kept as a dead letter with its error and payload', async () => {
+        const res = await authorized('evt_orphan', 'pi_not_yet_stored');
+        expect(res.statusCode).toBe(500);
+
+        const list = await app.inject({ method: 'GET', url: '/v1/admin/webhook-events?status=FAILED&provider=stripe', headers: adminHeaders });
+        expect(list.statusCode).toBe(200);
+        const events = list.json().events;
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ event_id: 'evt_orphan', status: 'FAILED', attempts: 1 });
+        expect(events[0].last_error).toContain('pi_not_yet_stored');
+
+        const detail = await app.inject({ method: 'GET', url: `/v1/admin/webhook-events/${events[0].id}`, headers: adminHeaders });
+        expect(detail.json().payload_json).toMatchObject({ id: 'evt_orphan', type: 'payment_intent.amount_capturable_updated' });
+        expect(detail.json().replays).toEqual([]);
+
+        // Gateway retries count as attempts too
+        await authorized('evt_orphan', 'pi_not_yet_stored');
+        expect((await query('SELECT attempts FROM webhook_events')).rows[0].attempts).toBe(2);
+    });
+
+    test('Replaying a dead letter after the cause is fixed applies it once', async () => {
+        const { id, ref } = await createPendingPayment();
+        await authorized('evt_early', 'pi_late_ref');
+        const eventId = await webhookEventId('evt_early');
+
+        // Still failing: the replay is recorded with its error
+        const stillFailing = await app.inject({ method: 'POST', url: `/v1/admin/webhook-events/${eventId}/replay`, headers: adminHeaders });
+        expect(stillFailing.statusCode).toBe(200);
+        expect(stillFailing.json().replay).toMatchObject({ outcome: 'FAILED', requested_by: ADMIN_ID });
+        expect(stillFailing.json().event).toMatchObject({ status: 'FAILED', attempts: 2 });
+
+        // The intent row turns up under the ref the gateway used
+        await query('UPDATE payment_intents SET provider_ref = $1 WHERE provider_ref = $2', ['pi_late_ref', ref]);
+        const fixed = await app.inject({ method: 'POST', url: `/v1/admin/webhook-events/${eventId}/replay`, headers: adminHeaders });
+        expect(fixed.json().replay.outcome).toBe('PROCESSED');
+        expect(fixed.json().event).toMatchObject({ status: 'PROCESSED', last_error: null });
+        expect((await query('SELECT status FROM bookings WHERE id = $1', [id])).rows[0].status).toBe('PAID_SEARCHING');
+
+        // Idempotency still holds: a further replay changes nothing
+        const again = await app.inject({ method: 'POST', url: `/v1/admin/webhook-events/${eventId}/replay`, headers: adminHeaders });
+        expect(again.json().replay.outcome).toBe('DUPLICATE');
+        const authorizations = await query(`SELECT 1 FROM journal_entries WHERE booking_id = $1 AND kind = 'AUTHORIZE'`, [id]);
+        expect(authorizations.rowCount).toBe(1);
+
+        const detail = await app.inject({ method: 'GET', url: `/v1/admin/webhook-events/${eventId}`, headers: adminHeaders });
+        expect(detail.json().replays.map((r: any) => r.outcome)).toEqual(['FAILED', 'PROCESSED', 'DUPLICATE']);
+    });
+
+    test('Batch replay re-drives the matching dead letters', async () => {
+        const first = await createPendingPayment();
+        await authorized('evt_a', 'pi_ref_a');
+        await authorized('evt_b', 'pi_ref_b');
+        await query('UPDATE payment_intents SET provider_ref = $1 WHERE provider_ref = $2', ['pi_ref_a', first.ref]);
+
+        const res = await app.inject({ method: 'POST', url: '/v1/admin/webhook-events/replay', headers: adminHeaders, payload: { provider: 'stripe' } });
+        expect(res.statusCode).toBe(200);
+        expect(res.json()).toMatchObject({ replayed: 2, processed: 1, duplicate: 0, failed: 1 });
+
+        const remaining = await app.inject({ method: 'GET', url: '/v1/admin/webhook-events?status=FAILED', headers: adminHeaders });
+        expect(remaining.json().events.map((e: any) => e.event_id)).toEqual(['evt_b']);
+
+        // Time range outside the events: nothing to replay
+        const none = await app.inject({ method: 'POST', url: '/v1/admin/webhook-events/replay', headers: adminHeaders, payload: { to: '2020-01-01T00:00:00Z' } });
+        expect(none.json().replayed).toBe(0);
+    });
+
+    test('Webhook tooling is admin-only and 404s on unknown events', async () => {
+        const forbidden = await app.inject({ method: 'GET', url: '/v1/admin/webhook-events', headers: customerHeaders });
+        expect(forbidden.statusCode).toBe(403);
+
+        const missing = await app.inject({ method: 'POST', url: '/v1/admin/webhook-events/550e8400-e29b-41d4-a716-000000000000/replay', headers: adminHeaders });
+        expect(missing.statusCode).toBe(404);
+        expect((await app.inject({ method: 'GET', url: '/v1/admin/webhook-events/550e8400-e29b-41d4-a716-000000000000', headers: adminHeaders })).statusCode).toBe(404);
+    });
+});